@@ -18,9 +18,12 @@ const FaturaXmlPage = lazy(() => import('./features/fatura-xml/FaturaXmlPage'));
 const KebirAnalysisPage = lazy(() => import('./features/kebir-analysis/components/KebirAnalysisPage'));
 const MizanPage = lazy(() => import('./features/mizan/MizanPage'));
 const TemporaryTaxPage = lazy(() => import('./features/temporary-tax/TemporaryTaxPage'));
+const KdvReturnPage = lazy(() => import('./features/kdv-return/KdvReturnPage'));
 const VoucherEditReportPage = lazy(() => import('./features/voucher-edit-report/VoucherEditReportPage'));
 const VoucherListPage = lazy(() => import('./features/voucher-list/VoucherListPage'));
 const CurrentAccountControlPage = lazy(() => import('./features/current-account-control/CurrentAccountControlPage'));
+const ReportHistoryPage = lazy(() => import('./features/report-history/ReportHistoryPage'));
+const SettingsPage = lazy(() => import('./features/settings/SettingsPage'));
 
 export default function App() {
   const [activeTab, setActiveTab] = useState('dashboard');
@@ -213,6 +216,12 @@ export default function App() {
         </Suspense>
       )}
 
+      {activeTab === 'kdv-return' && (
+        <Suspense fallback={lazyFallback}>
+          <KdvReturnPage />
+        </Suspense>
+      )}
+
       {activeTab === 'voucher-edit-report' && (
         <Suspense fallback={lazyFallback}>
           <VoucherEditReportPage />
@@ -232,16 +241,9 @@ export default function App() {
       )}
 
       {activeTab === 'reports' && (
-        <div className="space-y-6 animate-fade-in">
-          <h1 className="text-3xl font-bold text-white">Rapor Geçmişi</h1>
-          <div className="rounded-xl border border-slate-700 bg-slate-800/50 p-8 text-center">
-            <div className="w-20 h-20 bg-slate-700/50 rounded-full flex items-center justify-center mb-4 mx-auto">
-              <Layers className="text-slate-500 w-10 h-10" />
-            </div>
-            <h3 className="text-lg font-bold text-white mb-2">Yakında Aktif</h3>
-            <p className="text-slate-400 text-sm max-w-md mx-auto">Geçmiş mutabakat ve analiz sonuçlarınız burada listelenecek. Bu özellik üzerinde çalışıyoruz.</p>
-          </div>
-        </div>
+        <Suspense fallback={lazyFallback}>
+          <ReportHistoryPage />
+        </Suspense>
       )}
 
       {activeTab === 'support' && (
@@ -259,16 +261,9 @@ export default function App() {
       )}
 
       {activeTab === 'settings' && (
-        <div className="space-y-6 animate-fade-in">
-          <h1 className="text-3xl font-bold text-white">Ayarlar</h1>
-          <div className="rounded-xl border border-slate-700 bg-slate-800/50 p-8 text-center">
-            <div className="w-20 h-20 bg-slate-700/50 rounded-full flex items-center justify-center mb-4 mx-auto">
-              <Layers className="text-slate-500 w-10 h-10" />
-            </div>
-            <h3 className="text-lg font-bold text-white mb-2">Uygulama Ayarları</h3>
-            <p className="text-slate-400 text-sm max-w-md mx-auto">Firma yönetimi için sol üstteki firma seçicisini kullanabilirsiniz. Ek ayarlar yakında eklenecek.</p>
-          </div>
-        </div>
+        <Suspense fallback={lazyFallback}>
+          <SettingsPage />
+        </Suspense>
       )}
     </AppShell>
   );
@@ -0,0 +1,215 @@
+import { useMemo, useState } from 'react';
+import { BookmarkCheck, Download, Save, Trash2, Upload } from 'lucide-react';
+import { useCompany } from '../context/CompanyContext';
+import {
+    MAPPING_PROFILE_VENDORS,
+    deleteMappingProfile,
+    downloadMappingProfiles,
+    getAvailableMappingProfiles,
+    getHeaderFingerprint,
+    getRowHeaders,
+    importMappingProfiles,
+    loadMappingProfiles,
+    saveMappingProfile,
+    type MappingProfile,
+    type MappingProfileTarget,
+} from '../services/mappingProfiles';
+
+interface MappingProfileBarProps {
+    target: MappingProfileTarget;
+    rows: unknown[][];
+    headerRowIndex: number;
+    mapping: Record<string, string>;
+    canSave: boolean;
+    activeProfileId: string | null;
+    suggested: boolean;
+    onApply: (profile: MappingProfile) => void;
+}
+
+type ProfileScope = 'GLOBAL' | 'COMPANY';
+
+export function MappingProfileBar({
+    target,
+    rows,
+    headerRowIndex,
+    mapping,
+    canSave,
+    activeProfileId,
+    suggested,
+    onApply,
+}: MappingProfileBarProps) {
+    const { activeCompany } = useCompany();
+    const companyId = activeCompany?.id || null;
+    const [profiles, setProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles());
+    const available = useMemo(
+        () => getAvailableMappingProfiles(profiles, target, companyId),
+        [profiles, target, companyId]
+    );
+    const activeProfile = available.find((profile) => profile.id === activeProfileId) || null;
+
+    const [name, setName] = useState(activeProfile?.name || '');
+    const [vendor, setVendor] = useState(activeProfile?.vendor || MAPPING_PROFILE_VENDORS[0]);
+    const [scope, setScope] = useState<ProfileScope>(activeProfile?.companyId ? 'COMPANY' : 'GLOBAL');
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const selectProfile = (profile: MappingProfile) => {
+        setName(profile.name);
+        setVendor(profile.vendor);
+        setScope(profile.companyId ? 'COMPANY' : 'GLOBAL');
+        setMessage(null);
+        onApply(profile);
+    };
+
+    const handleSave = () => {
+        if (!name.trim()) {
+            setError('Profil adi girin.');
+            return;
+        }
+        const scopeCompanyId = scope === 'COMPANY' ? companyId : null;
+        // Ayni ad ve kapsamda profil varsa uzerine yazilir.
+        const existing = available.find((profile) => (
+            profile.name.toLocaleLowerCase('tr-TR') === name.trim().toLocaleLowerCase('tr-TR')
+            && profile.companyId === scopeCompanyId
+        ));
+        const saved = saveMappingProfile({
+            id: existing?.id,
+            name,
+            vendor,
+            target,
+            companyId: scopeCompanyId,
+            headerRowIndex,
+            mapping,
+            fingerprint: getHeaderFingerprint(getRowHeaders(rows, headerRowIndex)),
+        });
+        setProfiles(loadMappingProfiles());
+        setError(null);
+        setMessage(existing ? `"${saved.name}" profili guncellendi.` : `"${saved.name}" profili kaydedildi.`);
+        onApply(saved);
+    };
+
+    const handleDelete = () => {
+        if (!activeProfile) return;
+        if (!window.confirm(`"${activeProfile.name}" profilini silmek istediginize emin misiniz?`)) return;
+        deleteMappingProfile(activeProfile.id);
+        setProfiles(loadMappingProfiles());
+        setMessage(`"${activeProfile.name}" profili silindi.`);
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const count = await importMappingProfiles(file, companyId);
+            setProfiles(loadMappingProfiles());
+            setError(null);
+            setMessage(`${count} profil ice aktarildi.`);
+        } catch (importError) {
+            setMessage(null);
+            setError(importError instanceof Error ? importError.message : 'Profil dosyasi okunamadi.');
+        }
+    };
+
+    return (
+        <div className="mb-8 rounded-xl border border-slate-700 bg-slate-900/40 p-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <BookmarkCheck size={16} className="text-blue-400" />
+                <span className="text-sm font-bold text-white">Eşleştirme Profili</span>
+                {suggested && activeProfile && (
+                    <span className="text-[10px] bg-emerald-500/20 text-emerald-400 px-2 py-0.5 rounded-md font-bold uppercase tracking-wider">
+                        Başlıklara göre önerildi
+                    </span>
+                )}
+                <div className="ml-auto flex items-center gap-2">
+                    <input
+                        type="file"
+                        id={`mapping-profile-import-${target}`}
+                        className="hidden"
+                        accept=".json,application/json"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) void handleImport(file);
+                        }}
+                    />
+                    <button
+                        type="button"
+                        onClick={() => document.getElementById(`mapping-profile-import-${target}`)?.click()}
+                        className="px-2 py-1 rounded-md border border-slate-600 text-xs font-semibold text-slate-300 hover:border-blue-500/50 flex items-center gap-1"
+                    >
+                        <Upload size={12} /> İçe Aktar
+                    </button>
+                    <button
+                        type="button"
+                        disabled={available.length === 0}
+                        onClick={() => downloadMappingProfiles(available)}
+                        className="px-2 py-1 rounded-md border border-slate-600 text-xs font-semibold text-slate-300 hover:border-blue-500/50 flex items-center gap-1 disabled:opacity-50"
+                    >
+                        <Download size={12} /> Dışa Aktar
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-[2fr_2fr_1fr_1fr_auto] gap-2">
+                <select
+                    className="bg-slate-900 border border-slate-700 rounded-lg p-2 text-sm text-white"
+                    value={activeProfile?.id || ''}
+                    onChange={(e) => {
+                        const profile = available.find((item) => item.id === e.target.value);
+                        if (profile) selectProfile(profile);
+                    }}
+                >
+                    <option value="">{available.length ? '— Profil seçin —' : '— Kayıtlı profil yok —'}</option>
+                    {available.map((profile) => (
+                        <option key={profile.id} value={profile.id}>
+                            {profile.name} ({profile.vendor}{profile.companyId ? ', firma' : ''})
+                        </option>
+                    ))}
+                </select>
+                <input
+                    className="bg-slate-900 border border-slate-700 rounded-lg p-2 text-sm text-white"
+                    placeholder="Profil adı (ör. Luca - Satış KDV)"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                />
+                <select
+                    className="bg-slate-900 border border-slate-700 rounded-lg p-2 text-sm text-white"
+                    value={vendor}
+                    onChange={(e) => setVendor(e.target.value)}
+                >
+                    {MAPPING_PROFILE_VENDORS.map((item) => <option key={item} value={item}>{item}</option>)}
+                </select>
+                <select
+                    className="bg-slate-900 border border-slate-700 rounded-lg p-2 text-sm text-white"
+                    value={scope}
+                    onChange={(e) => setScope(e.target.value as ProfileScope)}
+                >
+                    <option value="GLOBAL">Tüm firmalar</option>
+                    <option value="COMPANY" disabled={!companyId}>Yalnızca bu firma</option>
+                </select>
+                <div className="flex items-center gap-1">
+                    <button
+                        type="button"
+                        disabled={!canSave}
+                        onClick={handleSave}
+                        title="Başlık satırı ve sütun eşleştirmesini profil olarak kaydet"
+                        className="px-3 py-2 rounded-lg bg-blue-500/10 border border-blue-500/30 text-xs font-bold text-blue-300 hover:bg-blue-500/20 flex items-center gap-1 disabled:opacity-50"
+                    >
+                        <Save size={14} /> Kaydet
+                    </button>
+                    {activeProfile && (
+                        <button
+                            type="button"
+                            onClick={handleDelete}
+                            title="Profili sil"
+                            className="p-2 rounded-lg text-slate-500 hover:text-red-400"
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {message && <p className="text-xs text-emerald-400">{message}</p>}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,35 @@
+import { Layers } from 'lucide-react';
+import type { SheetSelection } from '../utils/workbookSheets';
+
+interface SheetSelectorProps {
+    sheetNames: string[];
+    selection: SheetSelection;
+    onChange: (selection: SheetSelection) => void;
+}
+
+export function SheetSelector({ sheetNames, selection, onChange }: SheetSelectorProps) {
+    if (sheetNames.length < 2) return null;
+
+    return (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+            <Layers size={14} className="text-blue-400" />
+            <label htmlFor="sheet-selector">Sayfa</label>
+            <select
+                id="sheet-selector"
+                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white"
+                value={selection.sheetName}
+                onChange={(e) => onChange({ ...selection, sheetName: e.target.value })}
+            >
+                {sheetNames.map((name) => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={selection.allSheets}
+                    onChange={(e) => onChange({ ...selection, allSheets: e.target.checked })}
+                />
+                Aynı başlıklı tüm sayfaları birleştir ({sheetNames.length} sayfa)
+            </label>
+        </div>
+    );
+}
@@ -2,7 +2,7 @@ import { useEffect, useState, useRef, useMemo } from 'react';
 import {
     LayoutDashboard, Database, FileArchive, ClipboardCheck, PieChart,
     Scale, Calculator, FileClock, FileText, FileSpreadsheet, Search,
-    Command,
+    Command, History, Receipt,
 } from 'lucide-react';
 
 interface CommandPaletteProps {
@@ -18,9 +18,11 @@ const COMMANDS = [
     { id: 'kebir', label: 'Kebir Analizi', icon: PieChart, keywords: 'kebir defter analiz ücret' },
     { id: 'mizan', label: 'Mizan', icon: Scale, keywords: 'mizan hesap bakiye' },
     { id: 'temporary-tax', label: 'Geçici Vergi', icon: Calculator, keywords: 'gecici vergi dönem çeyrek' },
+    { id: 'kdv-return', label: 'KDV Beyanname Taslağı', icon: Receipt, keywords: 'kdv1 kdv2 beyanname devreden ödenecek' },
     { id: 'voucher-edit-report', label: 'Fiş Düzenleme Raporu', icon: FileClock, keywords: 'fiş düzenleme rapor edit' },
     { id: 'voucher-list', label: 'Fiş Listesi', icon: FileText, keywords: 'fiş liste voucher' },
     { id: 'current-account', label: 'Cari Hesap Kontrol', icon: FileSpreadsheet, keywords: 'cari hesap ekstre kontrol' },
+    { id: 'reports', label: 'Rapor Geçmişi', icon: History, keywords: 'rapor geçmiş arşiv history' },
 ];
 
 export default function CommandPalette({ onNavigate }: CommandPaletteProps) {
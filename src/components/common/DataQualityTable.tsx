@@ -0,0 +1,139 @@
+import { useMemo, useState } from 'react';
+import { Download, Search } from 'lucide-react';
+import type { DataQualityReason, DataQualityRows } from '../../features/common/types';
+import { DATA_QUALITY_REASON_LABELS } from '../../features/ledger-import/dataQuality';
+import { matchesSearchAcrossFields } from '../../utils/search';
+
+interface DataQualityTableProps {
+    title: string;
+    /** Excel dosya adinda kullanilir. */
+    fileName?: string;
+    rows: DataQualityRows;
+}
+
+const VISIBLE_ROW_LIMIT = 200;
+
+const getColumnLabel = (headers: string[], index: number): string => headers[index] || `Sütun ${index + 1}`;
+
+export function DataQualityTable({ title, fileName, rows }: DataQualityTableProps) {
+    const [reason, setReason] = useState<DataQualityReason | 'ALL'>('ALL');
+    const [search, setSearch] = useState('');
+
+    const reasonCounts = useMemo(() => {
+        const counts = new Map<DataQualityReason, number>();
+        rows.issues.forEach((issue) => counts.set(issue.reason, (counts.get(issue.reason) || 0) + 1));
+        return Array.from(counts.entries());
+    }, [rows.issues]);
+
+    const filteredIssues = useMemo(() => rows.issues.filter((issue) => (
+        (reason === 'ALL' || issue.reason === reason)
+        && matchesSearchAcrossFields(search, [issue.rowNumber, issue.sheet, ...issue.cells])
+    )), [rows.issues, reason, search]);
+
+    const columnCount = useMemo(
+        () => Math.max(rows.headers.length, ...filteredIssues.slice(0, VISIBLE_ROW_LIMIT).map((issue) => issue.cells.length)),
+        [rows.headers.length, filteredIssues]
+    );
+
+    const handleDownloadExcel = async () => {
+        const XLSX = await import('xlsx');
+        const { applyStyledSheet } = await import('../../utils/excelStyle');
+
+        const width = Math.max(rows.headers.length, ...filteredIssues.map((issue) => issue.cells.length));
+        const headerRow = ['Satır No', 'Sayfa', 'Neden', ...Array.from({ length: width }, (_, index) => getColumnLabel(rows.headers, index))];
+        const dataRows = filteredIssues.map((issue) => [issue.rowNumber, issue.sheet, DATA_QUALITY_REASON_LABELS[issue.reason], ...issue.cells]);
+
+        const worksheet = XLSX.utils.aoa_to_sheet([headerRow, ...dataRows]);
+        applyStyledSheet(worksheet, { headerRowIndex: 0 });
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, worksheet, 'VeriKalitesi');
+
+        const datePart = new Date().toISOString().slice(0, 10);
+        const safeName = (fileName || title).replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '_');
+        XLSX.writeFile(workbook, `veri_kalitesi_${safeName}_${datePart}.xlsx`);
+    };
+
+    if (rows.issues.length === 0) {
+        return (
+            <div className="rounded-lg border border-slate-700 bg-slate-900/40 p-3 text-xs text-slate-400">
+                <span className="font-semibold text-slate-200">{title}</span>: atlanan veya şüpheli satır yok.
+            </div>
+        );
+    }
+
+    return (
+        <div className="rounded-lg border border-slate-700 bg-slate-900/40 p-3 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <p className="text-sm font-semibold text-white mr-auto">
+                    {title}
+                    <span className="ml-2 text-xs font-normal text-amber-300">
+                        {(rows.issues.length + rows.omittedCount).toLocaleString('tr-TR')} satır
+                    </span>
+                </p>
+                <select
+                    value={reason}
+                    onChange={(event) => setReason(event.target.value as DataQualityReason | 'ALL')}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white"
+                >
+                    <option value="ALL">Tüm nedenler</option>
+                    {reasonCounts.map(([key, count]) => (
+                        <option key={key} value={key}>{DATA_QUALITY_REASON_LABELS[key]} ({count})</option>
+                    ))}
+                </select>
+                <div className="relative w-full sm:w-56">
+                    <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500" />
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(event) => setSearch(event.target.value)}
+                        placeholder="Satır no, hücre ara..."
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg pl-8 pr-2 py-1.5 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+                    />
+                </div>
+                <button
+                    type="button"
+                    onClick={() => void handleDownloadExcel()}
+                    disabled={filteredIssues.length === 0}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-blue-500/40 text-blue-200 hover:bg-blue-500/10 transition-colors text-xs font-semibold disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                >
+                    <Download size={14} />
+                    Excel İndir
+                </button>
+            </div>
+
+            <div className="overflow-auto max-h-80 rounded-lg border border-slate-700">
+                <table className="w-full text-xs text-left">
+                    <thead className="bg-slate-800 text-slate-400 sticky top-0">
+                        <tr>
+                            <th className="px-2 py-1.5 whitespace-nowrap">Satır</th>
+                            <th className="px-2 py-1.5 whitespace-nowrap">Sayfa</th>
+                            <th className="px-2 py-1.5 whitespace-nowrap">Neden</th>
+                            {Array.from({ length: columnCount }, (_, index) => (
+                                <th key={index} className="px-2 py-1.5 whitespace-nowrap">{getColumnLabel(rows.headers, index)}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800 text-slate-300">
+                        {filteredIssues.slice(0, VISIBLE_ROW_LIMIT).map((issue) => (
+                            <tr key={`${issue.sheet}-${issue.rowNumber}-${issue.reason}`}>
+                                <td className="px-2 py-1 font-mono text-white">{issue.rowNumber}</td>
+                                <td className="px-2 py-1 whitespace-nowrap">{issue.sheet}</td>
+                                <td className="px-2 py-1 whitespace-nowrap text-amber-300">{DATA_QUALITY_REASON_LABELS[issue.reason]}</td>
+                                {Array.from({ length: columnCount }, (_, index) => (
+                                    <td key={index} className="px-2 py-1 whitespace-nowrap max-w-[16rem] truncate">{issue.cells[index] || ''}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {(filteredIssues.length > VISIBLE_ROW_LIMIT || rows.omittedCount > 0) && (
+                <p className="text-[11px] text-slate-500">
+                    {filteredIssues.length > VISIBLE_ROW_LIMIT && `İlk ${VISIBLE_ROW_LIMIT} satır gösteriliyor; Excel'e filtredeki tüm satırlar aktarılır. `}
+                    {rows.omittedCount > 0 && `${rows.omittedCount.toLocaleString('tr-TR')} satır listelenme sınırını aştığı için yalnızca sayıldı.`}
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,40 @@
+import { X } from 'lucide-react';
+import type { LedgerParseProgress } from '../../utils/ledgerParseLimits';
+
+interface ParseProgressProps {
+    progress: LedgerParseProgress | null;
+    onCancel?: () => void;
+}
+
+export function ParseProgress({ progress, onCancel }: ParseProgressProps) {
+    const percent = progress && progress.stage === 'ROWS' && progress.totalRows > 0
+        ? Math.min(100, Math.round((progress.processedRows / progress.totalRows) * 100))
+        : null;
+
+    return (
+        <div className="w-full max-w-sm space-y-2">
+            <div className="h-2 rounded-full bg-slate-700 overflow-hidden">
+                <div
+                    className={`h-full bg-blue-500 transition-all ${percent === null ? 'w-1/3 animate-pulse' : ''}`}
+                    style={percent === null ? undefined : { width: `${percent}%` }}
+                />
+            </div>
+            <div className="flex items-center justify-between gap-3 text-xs text-slate-400">
+                <span>
+                    {percent === null || !progress
+                        ? 'Dosya okunuyor...'
+                        : `${Math.min(progress.processedRows, progress.totalRows).toLocaleString('tr-TR')} / ${progress.totalRows.toLocaleString('tr-TR')} satır (%${percent})`}
+                </span>
+                {onCancel && (
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="flex items-center gap-1 px-2 py-1 rounded-md border border-slate-600 text-slate-300 hover:border-red-500/50 hover:text-red-300"
+                    >
+                        <X size={12} /> İptal
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,177 @@
+import { useState, useRef, useEffect } from 'react';
+import { CalendarRange, ChevronDown, Check, Plus, Trash2 } from 'lucide-react';
+import { useCompany } from '../../context/CompanyContext';
+import { formatPeriodLabel, getActivePeriod } from '../../services/companyPeriods';
+
+const MONTHS = ['Ocak', 'Şubat', 'Mart', 'Nisan', 'Mayıs', 'Haziran', 'Temmuz', 'Ağustos', 'Eylül', 'Ekim', 'Kasım', 'Aralık'];
+
+export default function PeriodSelector() {
+    const { activeCompany, selectPeriod, createPeriod, deletePeriod } = useCompany();
+    const [isOpen, setIsOpen] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+    const [year, setYear] = useState(new Date().getFullYear());
+    const [startMonth, setStartMonth] = useState(1);
+    const [endMonth, setEndMonth] = useState(12);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        function handleClickOutside(event: MouseEvent) {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+                setIsCreating(false);
+                setDeletingId(null);
+                setError(null);
+            }
+        }
+        document.addEventListener("mousedown", handleClickOutside);
+        return () => document.removeEventListener("mousedown", handleClickOutside);
+    }, []);
+
+    if (!activeCompany) return null;
+
+    const periods = activeCompany.periods || [];
+    const activePeriod = getActivePeriod(activeCompany);
+
+    const handleCreate = async () => {
+        setError(null);
+        try {
+            await createPeriod(year, startMonth, endMonth);
+            setIsCreating(false);
+            setIsOpen(false);
+        } catch (createError) {
+            setError(createError instanceof Error ? createError.message : 'Dönem oluşturulamadı.');
+        }
+    };
+
+    const handleDelete = async (periodId: string) => {
+        setError(null);
+        try {
+            await deletePeriod(periodId);
+            setDeletingId(null);
+        } catch (deleteError) {
+            setError(deleteError instanceof Error ? deleteError.message : 'Dönem silinemedi.');
+        }
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-3 px-3 py-2 rounded-xl border border-slate-700/50 bg-slate-800/30 hover:bg-slate-800 hover:border-blue-500/50 transition-all group"
+            >
+                <div className="w-8 h-8 rounded-lg bg-emerald-500/20 flex items-center justify-center text-emerald-400 group-hover:text-white transition-colors">
+                    <CalendarRange size={18} />
+                </div>
+                <div className="text-left hidden md:block">
+                    <p className="text-[10px] text-slate-500 font-bold uppercase tracking-wider leading-tight">Dönem</p>
+                    <p className="text-sm font-bold text-white leading-tight">
+                        {activePeriod ? formatPeriodLabel(activePeriod) : 'Dönem Yok'}
+                    </p>
+                </div>
+                <ChevronDown size={16} className={`text-slate-500 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute top-full left-0 mt-2 w-72 bg-slate-900 border border-slate-700/80 rounded-xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-top-2 z-50">
+                    <div className="p-3 border-b border-slate-800">
+                        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 px-2">Dönemler</h3>
+                        <div className="max-h-60 overflow-y-auto space-y-1">
+                            {periods.map(period => (
+                                <div key={period.id} className="group">
+                                    {deletingId === period.id ? (
+                                        <div className="flex items-center gap-2 px-3 py-2 bg-red-500/10 rounded-lg">
+                                            <p className="flex-1 text-xs text-red-300">Dönemin tüm verileri silinecek. Emin misiniz?</p>
+                                            <button onClick={() => handleDelete(period.id)} className="text-xs text-red-400 hover:text-red-300 font-bold">Evet</button>
+                                            <button onClick={() => setDeletingId(null)} className="text-xs text-slate-400 hover:text-white font-bold">Hayır</button>
+                                        </div>
+                                    ) : (
+                                        <div className="flex items-center">
+                                            <button
+                                                onClick={() => {
+                                                    void selectPeriod(period.id);
+                                                    setIsOpen(false);
+                                                }}
+                                                className={`flex-1 text-left px-3 py-2 rounded-lg text-sm flex items-center justify-between transition-colors ${activePeriod?.id === period.id
+                                                    ? 'bg-blue-600 text-white'
+                                                    : 'text-slate-300 hover:bg-slate-800 hover:text-white'
+                                                    }`}
+                                            >
+                                                <span>{formatPeriodLabel(period)}</span>
+                                                {activePeriod?.id === period.id && <Check size={14} />}
+                                            </button>
+                                            {periods.length > 1 && (
+                                                <button
+                                                    onClick={(e) => { e.stopPropagation(); setDeletingId(period.id); }}
+                                                    className="ml-1 p-1.5 rounded opacity-0 group-hover:opacity-100 hover:bg-slate-700 text-slate-500 hover:text-red-400 transition-all"
+                                                    title="Sil"
+                                                >
+                                                    <Trash2 size={12} />
+                                                </button>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="p-3 bg-slate-950/30 space-y-2">
+                        {isCreating ? (
+                            <>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <input
+                                        type="number"
+                                        min={2000}
+                                        max={2100}
+                                        value={year}
+                                        onChange={(e) => setYear(Number(e.target.value))}
+                                        className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                                    />
+                                    <select
+                                        value={startMonth}
+                                        onChange={(e) => setStartMonth(Number(e.target.value))}
+                                        className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                                    >
+                                        {MONTHS.map((month, index) => <option key={month} value={index + 1}>{month}</option>)}
+                                    </select>
+                                    <select
+                                        value={endMonth}
+                                        onChange={(e) => setEndMonth(Number(e.target.value))}
+                                        className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                                    >
+                                        {MONTHS.map((month, index) => <option key={month} value={index + 1}>{month}</option>)}
+                                    </select>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={handleCreate}
+                                        className="flex-1 bg-green-600 hover:bg-green-700 text-white text-xs font-bold py-1.5 rounded-lg transition-colors"
+                                    >
+                                        Kaydet
+                                    </button>
+                                    <button
+                                        onClick={() => setIsCreating(false)}
+                                        className="px-3 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold py-1.5 rounded-lg transition-colors"
+                                    >
+                                        İptal
+                                    </button>
+                                </div>
+                            </>
+                        ) : (
+                            <button
+                                onClick={() => setIsCreating(true)}
+                                className="w-full flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-600/10 hover:bg-blue-600 border border-blue-600/20 hover:border-blue-600 text-blue-400 hover:text-white transition-all text-sm font-medium"
+                            >
+                                <Plus size={16} />
+                                Yeni Dönem Ekle
+                            </button>
+                        )}
+                        {error && <p className="text-xs text-red-400 px-1">{error}</p>}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
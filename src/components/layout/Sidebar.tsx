@@ -1,4 +1,4 @@
-import { LayoutDashboard, ClipboardCheck, LifeBuoy, Settings, ChevronLeft, ChevronRight, PieChart, FileSpreadsheet, Database, Scale, Calculator, FileClock, FileText, FileArchive } from 'lucide-react';
+import { LayoutDashboard, ClipboardCheck, LifeBuoy, Settings, ChevronLeft, ChevronRight, PieChart, FileSpreadsheet, Database, Scale, Calculator, FileClock, FileText, FileArchive, History, Receipt } from 'lucide-react';
 import { cn } from '../common/Button';
 import logo from '../../assets/logo.png';
 
@@ -19,9 +19,11 @@ export default function Sidebar({ activeTab, onTabChange, version, isCollapsed,
         { id: 'kebir', label: 'Kebir Analizi', icon: PieChart },
         { id: 'mizan', label: 'Mizan', icon: Scale },
         { id: 'temporary-tax', label: 'Geçici Vergi', icon: Calculator },
+        { id: 'kdv-return', label: 'KDV Beyanname', icon: Receipt },
         { id: 'voucher-edit-report', label: 'Fiş Düzenleme Raporu', icon: FileClock },
         { id: 'voucher-list', label: 'Fiş Listesi', icon: FileText },
         { id: 'current-account', label: 'Cari Hesap Kontrol', icon: FileSpreadsheet },
+        { id: 'reports', label: 'Rapor Geçmişi', icon: History },
     ];
 
     const bottomItems = [
@@ -1,6 +1,10 @@
-import { createContext, useContext, useState, useEffect, useMemo, type ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useMemo, useRef, type ReactNode } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { dbService } from '../services/db';
+import { COMPANY_SCHEMA_VERSION } from '../services/companyMigrations';
+import { copyCompanyPayloads, getActivePeriodId, stripCompanyPayloads } from '../services/companyPayloads';
+import { importLegacyWorkspaces } from '../services/legacyWorkspaceImport';
+import { createCompanyPeriod, sortPeriods } from '../services/companyPeriods';
 import type { Company } from '../features/common/types';
 
 export interface CompanyUploads {
@@ -54,6 +58,9 @@ interface CompanyContextType {
     setActiveUploads: (updater: (current: CompanyUploads) => CompanyUploads) => void;
     clearActiveUploads: () => void;
     deleteCompany: (id: string) => Promise<void>;
+    selectPeriod: (periodId: string) => Promise<void>;
+    createPeriod: (year: number, startMonth?: number, endMonth?: number) => Promise<void>;
+    deletePeriod: (periodId: string) => Promise<void>;
     refreshCompanies: () => Promise<void>;
 }
 
@@ -66,32 +73,59 @@ const generateCompanyId = (): string => {
     return uuidv4();
 };
 
+// Yuklenen dosyalar donem bazinda tutulur; donem degistiginde diger donemin dosyalari gorunmez.
+const getUploadsKey = (company: Company): string => `${company.id}:${getActivePeriodId(company)}`;
+
 export function CompanyProvider({ children }: { children: ReactNode }) {
     const [companies, setCompanies] = useState<Company[]>([]);
-    const [activeCompany, setActiveCompany] = useState<Company | null>(null);
+    const [activeCompany, setActiveCompanyState] = useState<Company | null>(null);
     const [uploadsByCompany, setUploadsByCompany] = useState<Record<string, CompanyUploads>>({});
     const [isLoading, setIsLoading] = useState(true);
+    // `companies` yalnizca ozet kayitlari tutar; aktif firma agir alanlariyla birlikte yuklenir.
+    // Ref, ardisik patch cagrilarinin bir oncekinin sonucunu gormesini saglar.
+    const activeCompanyRef = useRef<Company | null>(null);
+    const selectRequestRef = useRef(0);
+    const legacyImportRef = useRef<Promise<unknown> | null>(null);
+
+    const setActiveCompany = (company: Company | null) => {
+        activeCompanyRef.current = company;
+        setActiveCompanyState(company);
+    };
+
+    const loadActiveCompany = async (id: string) => {
+        const requestId = ++selectRequestRef.current;
+        const full = await dbService.getCompany(id);
+        if (requestId !== selectRequestRef.current) return;
+        setActiveCompany(full || null);
+    };
 
     const activeUploads = useMemo<CompanyUploads>(() => {
         if (!activeCompany) return EMPTY_UPLOADS;
-        return uploadsByCompany[activeCompany.id] || EMPTY_UPLOADS;
-    }, [activeCompany?.id, uploadsByCompany]);
+        return uploadsByCompany[getUploadsKey(activeCompany)] || EMPTY_UPLOADS;
+    }, [activeCompany?.id, activeCompany?.activePeriodId, uploadsByCompany]);
 
     useEffect(() => {
         loadCompanies();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
     const loadCompanies = async () => {
         setIsLoading(true);
         try {
+            if (!legacyImportRef.current) {
+                legacyImportRef.current = importLegacyWorkspaces().catch((error) => {
+                    console.error('Legacy workspace import failed:', error);
+                });
+            }
+            await legacyImportRef.current;
+
             const list = await dbService.getAllCompanies();
             setCompanies(list);
 
             // Restore active company from localStorage if exists
             const savedId = localStorage.getItem('activeCompanyId');
-            if (savedId) {
-                const found = list.find(c => c.id === savedId);
-                if (found) setActiveCompany(found);
+            if (savedId && list.some(c => c.id === savedId)) {
+                await loadActiveCompany(savedId);
             }
         } catch (error) {
             console.error("Failed to load companies:", error);
@@ -102,14 +136,17 @@ export function CompanyProvider({ children }: { children: ReactNode }) {
 
     const selectCompany = (id: string | null) => {
         if (!id) {
+            selectRequestRef.current += 1;
             setActiveCompany(null);
             localStorage.removeItem('activeCompanyId');
             return;
         }
         const found = companies.find(c => c.id === id);
         if (found) {
-            setActiveCompany(found);
             localStorage.setItem('activeCompanyId', id);
+            void loadActiveCompany(id).catch((error) => {
+                console.error('Failed to load company:', error);
+            });
         }
     };
 
@@ -119,43 +156,47 @@ export function CompanyProvider({ children }: { children: ReactNode }) {
             throw new Error('Firma adi bos olamaz.');
         }
 
+        const initialPeriod = createCompanyPeriod(new Date().getFullYear());
         const newCompany: Company = {
             id: generateCompanyId(),
             name: normalizedName,
             taxNumber,
             createdAt: new Date(),
-            updatedAt: new Date()
+            updatedAt: new Date(),
+            schemaVersion: COMPANY_SCHEMA_VERSION,
+            periods: [initialPeriod],
+            activePeriodId: initialPeriod.id,
         };
         try {
             await dbService.saveCompany(newCompany);
             const refreshed = await dbService.getAllCompanies();
 
             setCompanies(refreshed);
-            const selected = refreshed.find((company) => company.id === newCompany.id) || newCompany;
-            setActiveCompany(selected);
-            localStorage.setItem('activeCompanyId', selected.id);
+            selectRequestRef.current += 1;
+            setActiveCompany(newCompany);
+            localStorage.setItem('activeCompanyId', newCompany.id);
 
-            return selected.id;
+            return newCompany.id;
         } catch (error) {
             console.error('createCompany failed:', error);
             throw new Error('Firma kaydi veritabanina yazilamadi.');
         }
     };
 
+    // Firma bilgilerini (ad, vergi no) gunceller; modul verileri icin patchActiveCompany kullanilir.
     const updateCompany = async (company: Company) => {
-        await dbService.saveCompany(company);
+        const summary = await dbService.saveCompanySummary(company);
 
         // Optimistic update for UI speed
-        setCompanies(prev => prev.map(c => c.id === company.id ? company : c));
-        if (activeCompany?.id === company.id) {
-            setActiveCompany(company);
+        setCompanies(prev => prev.map(c => c.id === summary.id ? summary : c));
+        const current = activeCompanyRef.current;
+        if (current?.id === summary.id) {
+            setActiveCompany(copyCompanyPayloads(summary, current));
         }
     };
 
     const patchActiveCompany = async (updater: (current: Company) => Partial<Company>) => {
-        if (!activeCompany) return;
-
-        const latest = await dbService.getCompany(activeCompany.id);
+        const latest = activeCompanyRef.current;
         if (!latest) return;
 
         const patch = updater(latest);
@@ -170,19 +211,21 @@ export function CompanyProvider({ children }: { children: ReactNode }) {
             mutableNext[key] = value;
         });
 
-        await dbService.saveCompany(next);
-        setCompanies(prev => prev.map(c => c.id === next.id ? next : c));
         setActiveCompany(next);
+        await dbService.saveCompanyChanges(latest, next);
+        const summary = stripCompanyPayloads(next);
+        setCompanies(prev => prev.map(c => c.id === summary.id ? summary : c));
     };
 
     const setActiveUploads = (updater: (current: CompanyUploads) => CompanyUploads) => {
         if (!activeCompany) return;
 
+        const key = getUploadsKey(activeCompany);
         setUploadsByCompany((prev) => {
-            const current = prev[activeCompany.id] || createEmptyCompanyUploads();
+            const current = prev[key] || createEmptyCompanyUploads();
             return {
                 ...prev,
-                [activeCompany.id]: updater(current),
+                [key]: updater(current),
             };
         });
     };
@@ -191,16 +234,17 @@ export function CompanyProvider({ children }: { children: ReactNode }) {
         if (!activeCompany) return;
         setUploadsByCompany((prev) => ({
             ...prev,
-            [activeCompany.id]: createEmptyCompanyUploads(),
+            [getUploadsKey(activeCompany)]: createEmptyCompanyUploads(),
         }));
     };
 
     const deleteCompany = async (id: string) => {
         await dbService.deleteCompany(id);
         setUploadsByCompany((prev) => {
-            if (!prev[id]) return prev;
             const next = { ...prev };
-            delete next[id];
+            Object.keys(next).forEach((key) => {
+                if (key.startsWith(`${id}:`)) delete next[key];
+            });
             return next;
         });
         if (activeCompany?.id === id) {
@@ -209,6 +253,47 @@ export function CompanyProvider({ children }: { children: ReactNode }) {
         await loadCompanies();
     };
 
+    const saveActivePeriods = async (current: Company, periods: Company['periods'], activePeriodId: string) => {
+        const summary = await dbService.saveCompanySummary({ ...current, periods, activePeriodId });
+        setCompanies(prev => prev.map(c => c.id === summary.id ? summary : c));
+        await loadActiveCompany(summary.id);
+    };
+
+    const selectPeriod = async (periodId: string) => {
+        const current = activeCompanyRef.current;
+        if (!current || current.activePeriodId === periodId) return;
+        if (!current.periods?.some((period) => period.id === periodId)) return;
+        await saveActivePeriods(current, current.periods, periodId);
+    };
+
+    const createPeriod = async (year: number, startMonth = 1, endMonth = 12) => {
+        const current = activeCompanyRef.current;
+        if (!current) return;
+        const period = createCompanyPeriod(year, startMonth, endMonth);
+        const periods = current.periods || [];
+        if (periods.some((item) => item.id === period.id)) {
+            throw new Error('Bu donem zaten tanimli.');
+        }
+        await saveActivePeriods(current, sortPeriods([...periods, period]), period.id);
+    };
+
+    const deletePeriod = async (periodId: string) => {
+        const current = activeCompanyRef.current;
+        if (!current) return;
+        const remaining = (current.periods || []).filter((period) => period.id !== periodId);
+        if (remaining.length === 0) {
+            throw new Error('Firmanin en az bir donemi olmalidir.');
+        }
+        await dbService.deleteCompanyPeriodData(current.id, periodId);
+        setUploadsByCompany((prev) => {
+            const next = { ...prev };
+            delete next[`${current.id}:${periodId}`];
+            return next;
+        });
+        const activePeriodId = current.activePeriodId === periodId ? remaining[0].id : getActivePeriodId(current);
+        await saveActivePeriods(current, remaining, activePeriodId);
+    };
+
     return (
         <CompanyContext.Provider value={{
             companies,
@@ -222,6 +307,9 @@ export function CompanyProvider({ children }: { children: ReactNode }) {
             setActiveUploads,
             clearActiveUploads,
             deleteCompany,
+            selectPeriod,
+            createPeriod,
+            deletePeriod,
             refreshCompanies: loadCompanies
         }}>
             {children}
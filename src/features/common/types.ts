@@ -1,4 +1,5 @@
 import type { EInvoiceRow, AccountingRow, AccountingMatrahRow } from '../../types';
+import type { SheetSelection } from '../../utils/workbookSheets';
 
 export interface Transaction {
     id?: string;
@@ -15,6 +16,8 @@ export interface Transaction {
     fxCredit?: number;
     fxBalance?: number;
     fxBalanceManual?: boolean;
+    /** Cok sayfali calisma kitaplarinda hareketin okundugu sayfa. */
+    sourceSheet?: string;
 }
 
 export interface AccountDetail {
@@ -55,7 +58,53 @@ export interface VoucherEditLogEntry {
     description?: string;
 }
 
-export interface CurrentAccountParseSummary {
+export interface ClosingBalanceEntry {
+    code: string;
+    name: string;
+    balance: number; // TL, borc pozitif
+    fxBalance?: number;
+    currencyCode?: string;
+}
+
+// Bir donemin mizan kapanis bakiyeleri; sonraki yilin acilis fisi bunlarla karsilastirilir.
+export interface ClosingBalanceSnapshot {
+    source: 'FIRMA' | 'SMMM';
+    periodId?: string;
+    createdAt: string;
+    balances: ClosingBalanceEntry[];
+    /** Bakiyeden dusulen kapanis fisi hareketi sayisi. */
+    excludedClosingEntryCount?: number;
+    warning?: string;
+}
+
+export type DataQualityReason = 'NO_CODE' | 'NO_NAME' | 'SUMMARY_ROW' | 'ZERO_MOVEMENT' | 'INVALID_DATE' | 'NO_INVOICE_NO';
+
+/** Atlanan ya da supheli bir satir; rowNumber dosyadaki (Excel) satir numarasidir. */
+export interface DataQualityIssue {
+    rowNumber: number;
+    sheet: string;
+    reason: DataQualityReason;
+    cells: string[];
+}
+
+export interface DataQualityRows {
+    /** Dosyanin baslik satiri; cells ile ayni sirada. */
+    headers: string[];
+    issues: DataQualityIssue[];
+    /** Sinir asildigi icin listelenmeyen satir sayisi. */
+    omittedCount: number;
+}
+
+/** KDV mutabakati dosyalari icin; her islenen dosyaya bir rapor. */
+export interface ImportQualityReport {
+    source: string;
+    fileName: string;
+    totalRows: number;
+    rows: DataQualityRows;
+}
+
+/** Defter iceri aktarimindaki satirlarin nasil sayildigi / neden atlandigi. */
+export interface LedgerQualityReport {
     totalRows: number;
     transactionRows: number;
     accountCount: number;
@@ -66,8 +115,11 @@ export interface CurrentAccountParseSummary {
     zeroMovementRows: number;
     invalidDateRows: number;
     voucherNoRows: number;
+    rows?: DataQualityRows;
 }
 
+export type CurrentAccountParseSummary = LedgerQualityReport;
+
 
 
 
@@ -91,10 +143,12 @@ export interface KebirAnalysisResult {
         detectedColumns: Record<string, number>;
         successRate: string;
         fileName: string;
+        sheets?: string[];
         dateMethod?: string;
         sampleDates?: string[];
         parsedDateCount?: number;
     };
+    quality?: LedgerQualityReport;
 
     // Legacy/optional fields kept for backward compatibility
     totalTransactions?: number;
@@ -105,6 +159,45 @@ export interface KebirAnalysisResult {
     processingTime?: number;
 }
 
+// UBL-TR alanlari; bu alanlardan once kaydedilmis faturalarda bulunmayabilecekleri icin opsiyoneldir.
+export interface FaturaXmlDocumentReference {
+    id: string;
+    issueDate?: string;
+}
+
+export interface FaturaXmlAllowanceCharge {
+    /** true: artirim (masraf), false: iskonto. */
+    isCharge: boolean;
+    reason: string;
+    amount: number | string;
+    baseAmount?: number | string;
+    multiplierFactor?: number | string;
+}
+
+export interface FaturaXmlTaxSubtotal {
+    taxTypeCode: string;
+    taxName: string;
+    percent: number | string;
+    taxableAmount: number | string;
+    taxAmount: number | string;
+    exemptionReasonCode?: string;
+    exemptionReason?: string;
+}
+
+export interface FaturaXmlPaymentTerms {
+    note?: string;
+    dueDate?: string;
+    penaltySurchargePercent?: number | string;
+    amount?: number | string;
+}
+
+export interface FaturaXmlPaymentMeans {
+    code: string;
+    dueDate?: string;
+    channelCode?: string;
+    accountId?: string;
+}
+
 export interface FaturaXmlLineItem {
     itemName: string;
     quantity: number | string;
@@ -112,6 +205,12 @@ export interface FaturaXmlLineItem {
     taxPercent: number | string;
     taxAmount: number | string;
     lineTotal: number | string;
+    lineId?: string;
+    unitCode?: string;
+    notes?: string[];
+    allowanceCharges?: FaturaXmlAllowanceCharge[];
+    taxSubtotals?: FaturaXmlTaxSubtotal[];
+    withholdingSubtotals?: FaturaXmlTaxSubtotal[];
 }
 
 export interface FaturaXmlInvoice {
@@ -127,23 +226,136 @@ export interface FaturaXmlInvoice {
     taxAmount: number | string;
     taxInclusiveAmount: number | string;
     currency: string;
+    exchangeRate?: number;
+    withholdingCode?: string;
+    withholdingRatio?: string;
+    withholdingAmount?: number;
     totalAmountLabel: string;
     previewHtml?: string;
     lines: FaturaXmlLineItem[];
+    /** Senaryo: TEMELFATURA, TICARIFATURA, EARSIVFATURA, IHRACAT... */
+    profileId?: string;
+    /** SATIS, IADE, TEVKIFAT, ISTISNA, OZELMATRAH, IHRACKAYITLI... */
+    invoiceTypeCode?: string;
+    /** ETTN */
+    uuid?: string;
+    notes?: string[];
+    orderReferences?: FaturaXmlDocumentReference[];
+    despatchReferences?: FaturaXmlDocumentReference[];
+    allowanceCharges?: FaturaXmlAllowanceCharge[];
+    allowanceTotalAmount?: number | string;
+    chargeTotalAmount?: number | string;
+    payableAmount?: number | string;
+    taxSubtotals?: FaturaXmlTaxSubtotal[];
+    withholdingSubtotals?: FaturaXmlTaxSubtotal[];
+    paymentTerms?: FaturaXmlPaymentTerms;
+    paymentMeans?: FaturaXmlPaymentMeans[];
+    /** Faturanin geldigi arsiv (FaturaXmlSourceArchive.id) ve dosya adi. */
+    sourceId?: string;
+    sourceFileName?: string;
 }
 
 export type FaturaXmlExcelRow = Record<string, string | number | null>;
 
+export interface FaturaXmlSourceArchive {
+    id: string;
+    fileName: string;
+    processedAt: string;
+    invoiceCount: number;
+    itemCount: number;
+    /** Daha once yuklenmis oldugu icin eklenmeyen fatura sayisi. */
+    duplicateCount: number;
+}
+
 export interface FaturaXmlModuleData {
+    /** Son yuklenen arsiv. */
     sourceFileName: string;
     processedAt: string;
     invoiceCount: number;
     itemCount: number;
     invoices: FaturaXmlInvoice[];
     excelRows: FaturaXmlExcelRow[];
+    sources?: FaturaXmlSourceArchive[];
+}
+
+export type ReportRowReviewStatus = 'EXPLAINED' | 'TO_FIX' | 'ASKED_CUSTOMER';
+
+// KDV mutabakat raporu satirlari icin kullanici karari; yeniden calistirmalarda fatura anahtariyla eslenir.
+export interface ReportRowReview {
+    status?: ReportRowReviewStatus;
+    note?: string;
+    carryForward?: boolean;
+    updatedAt: string;
+}
+
+// Donemsellik kontrolunde kullanilan komsu donem kaynagi (satirlari kaydedilmez).
+export interface ReconciliationPeriodShiftSource {
+    position: 'PREVIOUS' | 'NEXT';
+    label: string;
+    origin: 'SAVED_RUN' | 'FILE';
+    fileName?: string;
 }
 
+export interface KdvRateTotal {
+    rate: number;
+    matrah: number;
+    kdv: number;
+}
+
+export interface KdvInvoiceMonthTotals {
+    month: string; // YYYY-MM
+    invoiceCount: number;
+    matrah: number;
+    kdv: number;
+    byRate: KdvRateTotal[];
+    /** Tevkifatli faturalarda alicinin KDV2 ile odedigi kisim. */
+    withheldKdv?: number;
+    /** IADE tipli faturalarin KDV'si; kdv ve matrah toplamlarina dahil edilmez. */
+    returnKdv?: number;
+    returnCount?: number;
+}
+
+// Mutabakat calistirildiginda e-fatura tarafinin aylik KDV toplamlari; beyanname taslagi bunlardan kurulur.
+export interface KdvInvoiceTotals {
+    mode: 'SALES' | 'PURCHASE';
+    capturedAt: string;
+    sourceFiles: string[];
+    months: KdvInvoiceMonthTotals[];
+}
+
+export interface KdvReturnModuleData {
+    sales?: KdvInvoiceTotals;
+    purchase?: KdvInvoiceTotals;
+    openingCarryForward?: number;
+}
 
+export type ReportSnapshotModule = 'KDV_SALES' | 'KDV_PURCHASE' | 'CURRENT_ACCOUNT' | 'TEMPORARY_TAX';
+
+export type ReportSnapshotRow = Record<string, string | number | Date | null>;
+
+export interface ReportSnapshotSheet {
+    name: string;
+    rows: ReportSnapshotRow[];
+}
+
+export interface ReportSnapshot {
+    id: string;
+    createdAt: string;
+    module: ReportSnapshotModule;
+    title: string;
+    sourceFiles: string[];
+    tolerance?: number;
+    summary: Record<string, number>;
+    sheets: ReportSnapshotSheet[];
+}
+
+
+export interface CompanyPeriod {
+    id: string;
+    year: number;
+    startMonth: number; // 1-12, KDV donem araligi
+    endMonth: number;
+}
 
 export interface Company {
     id: string;
@@ -151,6 +363,11 @@ export interface Company {
     taxNumber?: string;
     createdAt: Date;
     updatedAt: Date;
+    schemaVersion?: number;
+    periods?: CompanyPeriod[];
+    activePeriodId?: string;
+
+    // Asagidaki modul alanlari her zaman aktif doneme aittir.
 
     // Module Data
     currentAccount?: {
@@ -167,6 +384,7 @@ export interface Company {
         accountStatementRowApprovals?: Record<string, boolean>;
         voucherEditLogs?: VoucherEditLogEntry[];
         temporaryTaxPriorYearLoss?: number;
+        closingBalances?: ClosingBalanceSnapshot;
         mappings: MappingConfig;
         manualMatches?: Record<string, string>;
         rowReviews?: Record<string, { corrected: boolean; note?: string; updatedAt?: string }>;
@@ -176,17 +394,33 @@ export interface Company {
 
     reconciliation?: {
         eInvoiceData?: EInvoiceRow[];
+        cancelledEInvoiceData?: EInvoiceRow[];
         accountingData?: AccountingRow[];
         accountingMatrahData?: AccountingMatrahRow[];
+        tolerance?: number;
 
         reports?: {
             report1: Record<string, string | number | Date | null>[];
             report2: Record<string, string | number | Date | null>[];
             report3: Record<string, string | number | Date | null>[];
             report4?: Record<string, string | number | Date | null>[];
+            report5?: Record<string, string | number | Date | null>[];
+            report6?: Record<string, string | number | Date | null>[];
+            report7?: Record<string, string | number | Date | null>[];
+            report8?: Record<string, string | number | Date | null>[];
         };
+        rowReviews?: Record<string, ReportRowReview>;
+        mode?: 'SALES' | 'PURCHASE';
+        accountingMapping?: { mapping: Record<string, string>; headerRowIndex: number; sheetSelection?: SheetSelection };
+        periodShiftSources?: ReconciliationPeriodShiftSource[];
         [key: string]: unknown;
     };
 
     faturaXml?: FaturaXmlModuleData;
+
+    kdvReturn?: KdvReturnModuleData;
+
+    reportHistory?: ReportSnapshot[];
 }
+
+export type CompanyPeriodData = Pick<Company, 'currentAccount' | 'kebirAnalysis' | 'reconciliation' | 'faturaXml' | 'kdvReturn' | 'reportHistory'>;
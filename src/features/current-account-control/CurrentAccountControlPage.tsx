@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Layers } from 'lucide-react';
 import { useCompany } from '../../context/CompanyContext';
 import type { AccountDetail, CurrentAccountParseSummary, MappingConfig, VoucherEditSource } from '../common/types';
@@ -7,6 +7,11 @@ import DualFileUpload from './components/DualFileUpload';
 import ColumnMapper from './components/ColumnMapper';
 import ComparisonView from './components/ComparisonView';
 import { runComparison } from './utils/matchingService';
+import { appendReportSnapshot, buildCurrentAccountSnapshot } from '../report-history/reportHistoryService';
+import { parseCurrentAccountFile } from '../../services/ledgerParser';
+import { ParseProgress } from '../../components/common/ParseProgress';
+import { DataQualityTable } from '../../components/common/DataQualityTable';
+import { isLedgerParseCancelled, type LedgerParseProgress } from '../../utils/ledgerParseLimits';
 
 export default function CurrentAccountControlPage() {
     const { activeCompany, patchActiveCompany, activeUploads, setActiveUploads } = useCompany();
@@ -15,6 +20,8 @@ export default function CurrentAccountControlPage() {
     const [firmaFile, setFirmaFile] = useState<File | null>(null);
     const [mappingMode, setMappingMode] = useState<'NONE' | 'SMMM' | 'FIRMA'>('NONE');
     const [isProcessing, setIsProcessing] = useState(false);
+    const [parseProgress, setParseProgress] = useState<LedgerParseProgress | null>(null);
+    const parseAbortRef = useRef<AbortController | null>(null);
 
     const [localSmmmData, setLocalSmmmData] = useState<AccountDetail[]>([]);
     const [localFirmaData, setLocalFirmaData] = useState<AccountDetail[]>([]);
@@ -46,7 +53,7 @@ export default function CurrentAccountControlPage() {
             setDataQuality({});
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [activeCompany?.id, activeUploads.currentAccount.smmmFile, activeUploads.currentAccount.firmaFile]);
+    }, [activeCompany?.id, activeCompany?.activePeriodId, activeUploads.currentAccount.smmmFile, activeUploads.currentAccount.firmaFile]);
 
     const smmmData = useMemo(
         () => (localSmmmData.length > 0 ? localSmmmData : activeCompany?.currentAccount?.smmmData || []),
@@ -159,9 +166,15 @@ export default function CurrentAccountControlPage() {
     const handleMappingComplete = async (mapping: Record<string, string>) => {
         if (!activeCompany) return;
 
+        const controller = new AbortController();
+        parseAbortRef.current = controller;
+        const parseOptions = { onProgress: setParseProgress, signal: controller.signal };
+        const optionSets = [
+            { includeForexOnlyMovement: true },
+            { includeAllAccounts: true, includeForexOnlyMovement: true },
+        ];
         setIsProcessing(true);
         try {
-            const { parseExcelData, parseExcelDataDetailed } = await import('./utils/excelParser');
             let nextSmmmData: AccountDetail[] | null = null;
             let nextSmmmFullData: AccountDetail[] | null = null;
             let nextSmmmSummary: CurrentAccountParseSummary | null = null;
@@ -170,13 +183,7 @@ export default function CurrentAccountControlPage() {
             let nextFirmaSummary: CurrentAccountParseSummary | null = null;
 
             if (mappingMode === 'SMMM' && smmmFile) {
-                const parsedDetailed = await parseExcelDataDetailed(smmmFile, mapping, {
-                    includeForexOnlyMovement: true,
-                });
-                const parsedFull = await parseExcelData(smmmFile, mapping, {
-                    includeAllAccounts: true,
-                    includeForexOnlyMovement: true,
-                });
+                const [parsedDetailed, parsedFull] = await parseCurrentAccountFile(smmmFile, mapping, optionSets, parseOptions);
                 setLocalSmmmData(parsedDetailed.accounts);
                 setComparisonResults([]);
                 setRowReviews({});
@@ -185,18 +192,12 @@ export default function CurrentAccountControlPage() {
                     smmm: parsedDetailed.summary,
                 }));
                 nextSmmmData = parsedDetailed.accounts;
-                nextSmmmFullData = parsedFull;
+                nextSmmmFullData = parsedFull.accounts;
                 nextSmmmSummary = parsedDetailed.summary;
             }
 
             if (mappingMode === 'FIRMA' && firmaFile) {
-                const parsedDetailed = await parseExcelDataDetailed(firmaFile, mapping, {
-                    includeForexOnlyMovement: true,
-                });
-                const parsedFull = await parseExcelData(firmaFile, mapping, {
-                    includeAllAccounts: true,
-                    includeForexOnlyMovement: true,
-                });
+                const [parsedDetailed, parsedFull] = await parseCurrentAccountFile(firmaFile, mapping, optionSets, parseOptions);
                 setLocalFirmaData(parsedDetailed.accounts);
                 setComparisonResults([]);
                 setRowReviews({});
@@ -205,7 +206,7 @@ export default function CurrentAccountControlPage() {
                     firma: parsedDetailed.summary,
                 }));
                 nextFirmaData = parsedDetailed.accounts;
-                nextFirmaFullData = parsedFull;
+                nextFirmaFullData = parsedFull.accounts;
                 nextFirmaSummary = parsedDetailed.summary;
             }
 
@@ -244,10 +245,15 @@ export default function CurrentAccountControlPage() {
             });
             setMappingMode('NONE');
         } catch (error) {
+            if (isLedgerParseCancelled(error)) return;
             console.error('Current account parse error:', error);
-            alert('Dosya islenirken hata olustu. Lutfen sutun eslestirmesini kontrol edin.');
+            alert(error instanceof Error && error.message
+                ? `Dosya islenirken hata olustu: ${error.message}`
+                : 'Dosya islenirken hata olustu. Lutfen sutun eslestirmesini kontrol edin.');
         } finally {
+            parseAbortRef.current = null;
             setIsProcessing(false);
+            setParseProgress(null);
         }
     };
 
@@ -259,6 +265,9 @@ export default function CurrentAccountControlPage() {
             const results = runComparison(smmmData, firmaData, manualMatches);
             setComparisonResults(results);
             setIsProcessing(false);
+
+            const snapshot = buildCurrentAccountSnapshot(results, [smmmFile?.name, firmaFile?.name]);
+            void patchActiveCompany((company) => appendReportSnapshot(company, snapshot));
         }, 50);
     };
 
@@ -354,6 +363,9 @@ export default function CurrentAccountControlPage() {
                             <h3 className="text-lg font-bold text-white">Isleniyor</h3>
                             <p className="text-slate-400 text-sm">Veriler hazirlaniyor...</p>
                         </div>
+                        {parseProgress && (
+                            <ParseProgress progress={parseProgress} onCancel={() => parseAbortRef.current?.abort()} />
+                        )}
                     </div>
                 </div>
             )}
@@ -426,6 +438,14 @@ export default function CurrentAccountControlPage() {
                                 <DataQualityCard label="SMMM" summary={dataQuality.smmm} accentClass="text-blue-300" />
                                 <DataQualityCard label="Firma" summary={dataQuality.firma} accentClass="text-purple-300" />
                             </div>
+                            <div className="mt-3 space-y-3">
+                                {dataQuality.smmm?.rows && (
+                                    <DataQualityTable title="SMMM satır detayı" fileName={smmmFile?.name || 'smmm'} rows={dataQuality.smmm.rows} />
+                                )}
+                                {dataQuality.firma?.rows && (
+                                    <DataQualityTable title="Firma satır detayı" fileName={firmaFile?.name || 'firma'} rows={dataQuality.firma.rows} />
+                                )}
+                            </div>
                         </section>
                     )}
                 </div>
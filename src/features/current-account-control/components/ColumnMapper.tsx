@@ -1,5 +1,18 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import * as XLSX from 'xlsx';
+import { MappingProfileBar } from '../../../components/MappingProfileBar';
+import { SheetSelector } from '../../../components/SheetSelector';
+import { readSpreadsheetData } from '../../../utils/spreadsheetFile';
+import { useCompany } from '../../../context/CompanyContext';
+import type { SheetSelection } from '../../../utils/workbookSheets';
+import { detectLedgerColumns, keywordColumnDetector, toLedgerMapping } from '../../ledger-import/columnDetectors';
+import {
+    getAvailableMappingProfiles,
+    getRowHeaders,
+    loadMappingProfiles,
+    suggestMappingProfile,
+    type MappingProfile,
+} from '../../../services/mappingProfiles';
 
 interface ColumnMapperProps {
     file: File;
@@ -24,91 +37,73 @@ const MAPPING_FIELDS = [
     { key: 'fxBalance', label: 'Doviz Bakiye', required: false },
 ];
 
-const normalizeHeader = (value: string): string => {
-    return value
-        .toLocaleLowerCase('tr-TR')
-        .replace(/ı/g, 'i')
-        .normalize('NFD')
-        .replace(/[\u0300-\u036f]/g, '')
-        .replace(/\s+/g, ' ')
-        .trim();
-};
-
-const detectHeaderRowIndex = (rows: any[][]): number => {
-    let bestIndex = 0;
-    let bestScore = -1;
-    const keywords = ['hesap', 'kod', 'ad', 'tarih', 'aciklama', 'borc', 'alacak', 'evrak', 'fis', 'doviz', 'kur'];
-
-    for (let i = 0; i < Math.min(rows.length, 25); i += 1) {
-        const row = rows[i] || [];
-        const normalizedCells = row.map((cell) => normalizeHeader(String(cell ?? '')));
-        let score = 0;
-
-        normalizedCells.forEach((cell) => {
-            if (keywords.some((keyword) => cell.includes(keyword))) {
-                score += 1;
-            }
-        });
+interface SheetMapping {
+    headerRowIndex: number;
+    mapping: Record<string, string>;
+    activeProfileId: string | null;
+}
 
-        if (score > bestScore) {
-            bestScore = score;
-            bestIndex = i;
-        }
+// Basliklari eslesen kayitli profil once denenir, yoksa anahtar kelimelerle otomatik eslenir.
+const resolveSheetMapping = (rows: unknown[][], profiles: MappingProfile[]): SheetMapping => {
+    const detected = detectLedgerColumns(rows, [keywordColumnDetector], []);
+    const headerRowIndex = detected?.headerRowIndex ?? 0;
+    const suggestion = suggestMappingProfile(profiles, rows, headerRowIndex);
+    if (suggestion) {
+        return { headerRowIndex: suggestion.headerRowIndex, mapping: suggestion.profile.mapping, activeProfileId: suggestion.profile.id };
     }
-
-    return bestIndex;
+    return { headerRowIndex, mapping: detected ? toLedgerMapping(detected) : {}, activeProfileId: null };
 };
 
 export default function ColumnMapper({ file, type, onMappingComplete, onCancel }: ColumnMapperProps) {
-    const [headers, setHeaders] = useState<string[]>([]);
-    const [previewData, setPreviewData] = useState<any[][]>([]);
+    const { activeCompany } = useCompany();
+    const companyId = activeCompany?.id || null;
+    // Profil onerisi ve baslik satiri degisimi icin her sayfanin ilk satirlari tutulur.
+    const [sheetRows, setSheetRows] = useState<Record<string, unknown[][]>>({});
+    const [sheetNames, setSheetNames] = useState<string[]>([]);
+    const [sheetSelection, setSheetSelection] = useState<SheetSelection>({ sheetName: '', allSheets: false });
     const [mapping, setMapping] = useState<Record<string, string>>({});
     const [loading, setLoading] = useState(true);
     const [headerRowIndex, setHeaderRowIndex] = useState(0);
+    const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+    const [profileSuggested, setProfileSuggested] = useState(false);
+
+    const rows = useMemo(() => sheetRows[sheetSelection.sheetName] || [], [sheetRows, sheetSelection.sheetName]);
+    const headers = useMemo(() => getRowHeaders(rows, headerRowIndex), [rows, headerRowIndex]);
+    const previewData = useMemo(() => rows.slice(headerRowIndex + 1, headerRowIndex + 6), [rows, headerRowIndex]);
+
+    const applySheetMapping = useCallback((result: SheetMapping) => {
+        setHeaderRowIndex(result.headerRowIndex);
+        setMapping(result.mapping);
+        setActiveProfileId(result.activeProfileId);
+        setProfileSuggested(result.activeProfileId !== null);
+    }, []);
 
     useEffect(() => {
         const reader = new FileReader();
         reader.onload = (e) => {
             try {
                 const data = new Uint8Array(e.target?.result as ArrayBuffer);
-                const workbook = XLSX.read(data, { type: 'array' });
-                const sheet = workbook.Sheets[workbook.SheetNames[0]];
-                const rows = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: '' }) as any[][];
+                const workbook = readSpreadsheetData(data, file.name, { sheetRows: 50 });
+                const rowsBySheet: Record<string, unknown[][]> = {};
+                workbook.SheetNames.forEach((name) => {
+                    rowsBySheet[name] = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: true, defval: '' });
+                });
+                // Bos kapak sayfalari atlanir
+                const firstSheet = workbook.SheetNames.find((name) => rowsBySheet[name].length > 1) || workbook.SheetNames[0];
 
-                if (!rows.length) {
+                if (!rowsBySheet[firstSheet]?.length) {
                     throw new Error('Excel dosyasi bos veya okunamadi.');
                 }
 
-                const detected = detectHeaderRowIndex(rows);
-                const detectedHeaders = (rows[detected] || []).map((cell) => String(cell ?? '').trim());
-
-                setHeaderRowIndex(detected);
-                setHeaders(detectedHeaders);
-                setPreviewData(rows.slice(detected + 1, detected + 6));
-
-                const autoMapping: Record<string, string> = {};
-                detectedHeaders.forEach((header, idx) => {
-                    const normalized = normalizeHeader(header);
-                    if (normalized.includes('hesap kodu') || normalized === 'kod') autoMapping.code = String(idx);
-                    else if (normalized.includes('hesap adi') || normalized.includes('hesap unvani')) autoMapping.name = String(idx);
-                    else if (normalized.includes('tarih')) autoMapping.date = String(idx);
-                    else if (normalized.includes('aciklama')) autoMapping.desc = String(idx);
-                    else if (normalized.includes('doviz') && normalized.includes('borc')) autoMapping.fxDebit = String(idx);
-                    else if (normalized.includes('doviz') && normalized.includes('alacak')) autoMapping.fxCredit = String(idx);
-                    else if (normalized.includes('doviz') && normalized.includes('bakiye')) autoMapping.fxBalance = String(idx);
-                    else if (normalized.includes('doviz') && (normalized.includes('cinsi') || normalized.includes('tipi') || normalized.includes('para birimi'))) autoMapping.currency = String(idx);
-                    else if (normalized === 'kur' || normalized.includes('doviz kuru') || normalized.includes('efektif')) autoMapping.exchangeRate = String(idx);
-                    else if (normalized.includes('borc')) autoMapping.debit = String(idx);
-                    else if (normalized.includes('alacak')) autoMapping.credit = String(idx);
-                    else if (normalized.includes('fis') || normalized.includes('yevmiye')) autoMapping.voucher = String(idx);
-                    else if (normalized.includes('evrak') || normalized.includes('belge')) autoMapping.document = String(idx);
-                });
-
-                setMapping(autoMapping);
+                const profiles = getAvailableMappingProfiles(loadMappingProfiles(), 'CURRENT_ACCOUNT', companyId);
+                setSheetRows(rowsBySheet);
+                setSheetNames(workbook.SheetNames);
+                setSheetSelection({ sheetName: firstSheet, allSheets: false });
+                applySheetMapping(resolveSheetMapping(rowsBySheet[firstSheet], profiles));
                 setLoading(false);
             } catch (error) {
                 console.error('Error reading excel file:', error);
-                alert('Dosya okunamadi. Lutfen gecerli bir Excel dosyasi secin.');
+                alert('Dosya okunamadi. Lutfen gecerli bir Excel, ODS, CSV veya TXT dosyasi secin.');
                 onCancel();
             }
         };
@@ -118,12 +113,29 @@ export default function ColumnMapper({ file, type, onMappingComplete, onCancel }
             onCancel();
         };
         reader.readAsArrayBuffer(file);
-    }, [file, onCancel]);
+    }, [file, onCancel, companyId, applySheetMapping]);
 
     if (loading) {
         return <div className="text-white">Dosya okunuyor...</div>;
     }
 
+    const applyProfile = (profile: MappingProfile) => {
+        if (profile.headerRowIndex !== null) setHeaderRowIndex(profile.headerRowIndex);
+        setMapping(profile.mapping);
+        setActiveProfileId(profile.id);
+        setProfileSuggested(false);
+    };
+
+    const changeSheet = (selection: SheetSelection) => {
+        if (selection.sheetName !== sheetSelection.sheetName) {
+            const profiles = getAvailableMappingProfiles(loadMappingProfiles(), 'CURRENT_ACCOUNT', companyId);
+            applySheetMapping(resolveSheetMapping(sheetRows[selection.sheetName] || [], profiles));
+        }
+        setSheetSelection(selection);
+    };
+
+    const requiredMapped = MAPPING_FIELDS.every((field) => !field.required || Boolean(mapping[field.key]));
+
     const handleConfirm = () => {
         const missing = MAPPING_FIELDS.filter((field) => field.required && !mapping[field.key]);
         if (missing.length > 0) {
@@ -134,6 +146,8 @@ export default function ColumnMapper({ file, type, onMappingComplete, onCancel }
         onMappingComplete({
             ...mapping,
             __headerRow: String(headerRowIndex),
+            __sheet: sheetSelection.sheetName,
+            __allSheets: sheetSelection.allSheets ? '1' : '',
         });
     };
 
@@ -143,6 +157,23 @@ export default function ColumnMapper({ file, type, onMappingComplete, onCancel }
                 {type === 'smmm' ? 'SMMM' : 'Firma'} Dosyasi Sutun Eslestirme
             </h3>
 
+            {sheetNames.length > 1 && (
+                <div className="mb-4">
+                    <SheetSelector sheetNames={sheetNames} selection={sheetSelection} onChange={changeSheet} />
+                </div>
+            )}
+
+            <MappingProfileBar
+                target="CURRENT_ACCOUNT"
+                rows={rows}
+                headerRowIndex={headerRowIndex}
+                mapping={mapping}
+                canSave={requiredMapped}
+                activeProfileId={activeProfileId}
+                suggested={profileSuggested}
+                onApply={applyProfile}
+            />
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                 <div className="space-y-4">
                     {MAPPING_FIELDS.map((field) => (
@@ -186,7 +217,7 @@ export default function ColumnMapper({ file, type, onMappingComplete, onCancel }
                                 <tr key={rowIndex} className="border-b border-slate-800/50">
                                     {headers.map((_, columnIndex) => (
                                         <td key={columnIndex} className="p-2 whitespace-nowrap">
-                                            {row[columnIndex]}
+                                            {String(row[columnIndex] ?? '')}
                                         </td>
                                     ))}
                                 </tr>
@@ -1,5 +1,6 @@
 import { useRef } from 'react';
 import { Upload, X } from 'lucide-react';
+import { SPREADSHEET_ACCEPT, isSpreadsheetFile } from '../../../utils/spreadsheetFile';
 
 interface DualFileUploadProps {
     smmmFile: File | null;
@@ -24,7 +25,7 @@ export default function DualFileUpload({
     const handleDrop = (e: React.DragEvent, type: 'smmm' | 'firma') => {
         e.preventDefault();
         const file = e.dataTransfer.files[0];
-        if (file && (file.name.endsWith('.xlsx') || file.name.endsWith('.xls'))) {
+        if (file && isSpreadsheetFile(file.name)) {
             if (type === 'smmm') onSmmmFileSelect(file);
             else onFirmaFileSelect(file);
         }
@@ -60,13 +61,13 @@ export default function DualFileUpload({
                         </div>
                         <p className="font-bold text-white text-lg mb-2">SMMM Kebir Dosyası</p>
                         <p className="text-slate-400 text-sm text-center mb-6">
-                            Excel dosyasını buraya sürükleyin veya seçin
+                            Excel, ODS, CSV veya TXT dosyasını buraya sürükleyin veya seçin
                         </p>
                         <input
                             type="file"
                             ref={smmmInputRef}
                             className="hidden"
-                            accept=".xlsx,.xls"
+                            accept={SPREADSHEET_ACCEPT}
                             onChange={(e) => {
                                 const file = e.target.files?.[0];
                                 if (file) onSmmmFileSelect(file);
@@ -110,13 +111,13 @@ export default function DualFileUpload({
                         </div>
                         <p className="font-bold text-white text-lg mb-2">Firma Kayıtları (Kebir)</p>
                         <p className="text-slate-400 text-sm text-center mb-6">
-                            Excel dosyasını buraya sürükleyin veya seçin
+                            Excel, ODS, CSV veya TXT dosyasını buraya sürükleyin veya seçin
                         </p>
                         <input
                             type="file"
                             ref={firmaInputRef}
                             className="hidden"
-                            accept=".xlsx,.xls"
+                            accept={SPREADSHEET_ACCEPT}
                             onChange={(e) => {
                                 const file = e.target.files?.[0];
                                 if (file) onFirmaFileSelect(file);
@@ -1,154 +1,14 @@
-import * as XLSX from 'xlsx';
-import { parseTurkishNumber } from '../../../utils/parsers';
-import type { AccountDetail, CurrentAccountParseSummary, Transaction } from '../../common/types';
+import type * as XLSX from 'xlsx';
+import type { AccountDetail, CurrentAccountParseSummary } from '../../common/types';
+import type { LedgerProgressHandler } from '../../../utils/ledgerParseLimits';
+import { parseLedgerWorkbook } from '../../ledger-import/ledgerEngine';
+import { createMappingDetector } from '../../ledger-import/columnDetectors';
+import { getAccountPrefix } from '../../ledger-import/ledgerValues';
 
 const TARGET_PREFIXES = new Set(['120', '320', '159', '329', '340', '336']);
 
-const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
-const round4 = (value: number): number => Math.round((value + Number.EPSILON) * 10000) / 10000;
-
-const parseIndex = (value: string | undefined): number | null => {
-    if (value === undefined) return null;
-    const parsed = Number(value);
-    if (!Number.isInteger(parsed) || parsed < 0) return null;
-    return parsed;
-};
-
-const parseOptionalNumber = (value: unknown): number | undefined => {
-    if (value === null || value === undefined) return undefined;
-    if (typeof value === 'string' && value.trim() === '') return undefined;
-
-    const parsed = parseTurkishNumber(value);
-    if (!Number.isFinite(parsed)) return undefined;
-    return parsed;
-};
-
-const resolveSingleFxColumnSides = (
-    rawFxValue: number | undefined,
-    debit: number,
-    credit: number
-): { fxDebitRaw: number | undefined; fxCreditRaw: number | undefined } => {
-    if (rawFxValue === undefined || rawFxValue === 0) {
-        return { fxDebitRaw: undefined, fxCreditRaw: undefined };
-    }
-
-    const magnitude = Math.abs(rawFxValue);
-    const hasDebit = debit > 0;
-    const hasCredit = credit > 0;
-
-    if (hasDebit && !hasCredit) {
-        return { fxDebitRaw: magnitude, fxCreditRaw: undefined };
-    }
-
-    if (hasCredit && !hasDebit) {
-        return { fxDebitRaw: undefined, fxCreditRaw: magnitude };
-    }
-
-    const netTlMovement = debit - credit;
-    if (netTlMovement > 0) {
-        return { fxDebitRaw: magnitude, fxCreditRaw: undefined };
-    }
-    if (netTlMovement < 0) {
-        return { fxDebitRaw: undefined, fxCreditRaw: magnitude };
-    }
-
-    if (rawFxValue > 0) {
-        return { fxDebitRaw: magnitude, fxCreditRaw: undefined };
-    }
-    if (rawFxValue < 0) {
-        return { fxDebitRaw: undefined, fxCreditRaw: magnitude };
-    }
-
-    return { fxDebitRaw: undefined, fxCreditRaw: undefined };
-};
-
-const normalizeAccountCode = (value: any): string => String(value ?? '').trim().replace(/\s+/g, '');
-
-const getAccountPrefix = (accountCode: string): string => accountCode.replace(/\D/g, '').slice(0, 3);
-
 const isTargetAccount = (accountCode: string): boolean => TARGET_PREFIXES.has(getAccountPrefix(accountCode));
 
-const toValidCalendarDate = (year: number, month: number, day: number): Date | null => {
-    const date = new Date(year, month - 1, day, 12, 0, 0, 0);
-    if (Number.isNaN(date.getTime())) return null;
-    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
-    return date;
-};
-
-const parseDate = (value: any): Date | null => {
-    if (value === null || value === undefined || value === '') return null;
-
-    if (value instanceof Date && !Number.isNaN(value.getTime())) {
-        return value;
-    }
-
-    if (typeof value === 'number') {
-        const excelEpochUtc = Date.UTC(1899, 11, 30);
-        const date = new Date(excelEpochUtc + Math.round(value * 86400 * 1000));
-        return Number.isNaN(date.getTime()) ? null : date;
-    }
-
-    const raw = String(value).trim();
-    if (!raw) return null;
-
-    const ddMmYyyy = raw.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2,4})(?:\D.*)?$/);
-    if (ddMmYyyy) {
-        const year = ddMmYyyy[3].length === 2 ? Number(`20${ddMmYyyy[3]}`) : Number(ddMmYyyy[3]);
-        const month = Number(ddMmYyyy[2]);
-        const day = Number(ddMmYyyy[1]);
-        const date = toValidCalendarDate(year, month, day);
-        if (date) return date;
-    }
-
-    const yyyyMmDd = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
-    if (yyyyMmDd) {
-        const year = Number(yyyyMmDd[1]);
-        const month = Number(yyyyMmDd[2]);
-        const day = Number(yyyyMmDd[3]);
-        const date = toValidCalendarDate(year, month, day);
-        if (date) return date;
-    }
-
-    const serialLike = raw.replace(',', '.');
-    if (/^\d{4,6}(?:\.\d+)?$/.test(serialLike)) {
-        const serial = Number(serialLike);
-        if (Number.isFinite(serial) && serial > 20000 && serial < 80000) {
-            const excelEpochUtc = Date.UTC(1899, 11, 30);
-            const date = new Date(excelEpochUtc + Math.round(serial * 86400 * 1000));
-            if (!Number.isNaN(date.getTime())) {
-                return date;
-            }
-        }
-    }
-
-    const parsed = new Date(raw);
-    return Number.isNaN(parsed.getTime()) ? null : parsed;
-};
-
-const shouldSkipByName = (name: string): boolean => {
-    const normalized = name.toLocaleUpperCase('tr-TR');
-    return (
-        normalized.includes('TOPLAM') ||
-        normalized.includes('YEKUN') ||
-        normalized.includes('NAKLI') ||
-        normalized.includes('DEVIR')
-    );
-};
-
-const getCell = (row: any[], index: number | null): any => {
-    if (index === null || index < 0 || index >= row.length) return null;
-    return row[index];
-};
-
-export const parseExcelData = async (
-    file: File,
-    mapping: Record<string, string>,
-    options?: ParseExcelOptions
-): Promise<AccountDetail[]> => {
-    const result = await parseExcelDataDetailed(file, mapping, options);
-    return result.accounts;
-};
-
 export interface ParseExcelDataResult {
     accounts: AccountDetail[];
     summary: CurrentAccountParseSummary;
@@ -159,228 +19,29 @@ export interface ParseExcelOptions {
     includeForexOnlyMovement?: boolean;
 }
 
-export const parseExcelDataDetailed = async (
-    file: File,
+/** Satirlar ortak defter motoruyla parca parca okunur; ilerleme her parcadan sonra bildirilir. */
+export const parseCurrentAccountWorkbook = (
+    workbook: XLSX.WorkBook,
     mapping: Record<string, string>,
-    options?: ParseExcelOptions
-): Promise<ParseExcelDataResult> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-
-        reader.onload = (e) => {
-            try {
-                const data = new Uint8Array(e.target?.result as ArrayBuffer);
-                const workbook = XLSX.read(data, { type: 'array' });
-                const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-                const rows = XLSX.utils.sheet_to_json(worksheet, {
-                    header: 1,
-                    raw: true,
-                    defval: null,
-                }) as any[][];
-
-                const headerRowIndex = parseIndex(mapping.__headerRow) ?? 0;
-                const dataRows = rows.slice(headerRowIndex + 1);
-
-                const codeIndex = parseIndex(mapping.code);
-                const nameIndex = parseIndex(mapping.name);
-                const dateIndex = parseIndex(mapping.date);
-                const descIndex = parseIndex(mapping.desc);
-                const debitIndex = parseIndex(mapping.debit);
-                const creditIndex = parseIndex(mapping.credit);
-                const voucherIndex = parseIndex(mapping.voucher);
-                const documentIndex = parseIndex(mapping.document);
-                const currencyIndex = parseIndex(mapping.currency);
-                const exchangeRateIndex = parseIndex(mapping.exchangeRate);
-                const fxDebitIndex = parseIndex(mapping.fxDebit);
-                const fxCreditIndex = parseIndex(mapping.fxCredit);
-                const fxBalanceIndex = parseIndex(mapping.fxBalance);
-                const includeAllAccounts = options?.includeAllAccounts ?? false;
-                const includeForexOnlyMovement = options?.includeForexOnlyMovement ?? false;
-                const summary: CurrentAccountParseSummary = {
-                    totalRows: dataRows.length,
-                    transactionRows: 0,
-                    accountCount: 0,
-                    filteredByPrefixRows: 0,
-                    skippedNoCodeRows: 0,
-                    skippedNoNameRows: 0,
-                    skippedSummaryRows: 0,
-                    zeroMovementRows: 0,
-                    invalidDateRows: 0,
-                    voucherNoRows: 0,
-                };
-
-                if (codeIndex === null || nameIndex === null || dateIndex === null || debitIndex === null || creditIndex === null) {
-                    reject(new Error('Zorunlu alanlar eksik. Lutfen sutun eslestirmesini kontrol edin.'));
-                    return;
-                }
-
-                const accountMap = new Map<string, AccountDetail>();
-
-                dataRows.forEach((row) => {
-                    if (!row || !Array.isArray(row)) return;
-
-                    const code = normalizeAccountCode(getCell(row, codeIndex));
-                    if (!code) {
-                        summary.skippedNoCodeRows += 1;
-                        return;
-                    }
-                    if (!includeAllAccounts && !isTargetAccount(code)) {
-                        summary.filteredByPrefixRows += 1;
-                        return;
-                    }
-
-                    const name = String(getCell(row, nameIndex) ?? '').trim();
-                    if (!name) {
-                        summary.skippedNoNameRows += 1;
-                        return;
-                    }
-                    if (shouldSkipByName(name)) {
-                        summary.skippedSummaryRows += 1;
-                        return;
-                    }
-
-                    const debit = round2(parseTurkishNumber(getCell(row, debitIndex)));
-                    const credit = round2(parseTurkishNumber(getCell(row, creditIndex)));
-                    const currencyCode = currencyIndex === null ? undefined : String(getCell(row, currencyIndex) ?? '').trim() || undefined;
-                    const exchangeRateRaw = exchangeRateIndex === null ? undefined : parseOptionalNumber(getCell(row, exchangeRateIndex));
-                    const singleFxColumnSelected = (
-                        fxDebitIndex !== null &&
-                        fxCreditIndex !== null &&
-                        fxDebitIndex === fxCreditIndex
-                    );
-                    let fxDebitRaw = fxDebitIndex === null ? undefined : parseOptionalNumber(getCell(row, fxDebitIndex));
-                    let fxCreditRaw = fxCreditIndex === null ? undefined : parseOptionalNumber(getCell(row, fxCreditIndex));
-                    if (singleFxColumnSelected) {
-                        const resolved = resolveSingleFxColumnSides(fxDebitRaw, debit, credit);
-                        fxDebitRaw = resolved.fxDebitRaw;
-                        fxCreditRaw = resolved.fxCreditRaw;
-                    }
-                    const fxBalanceRaw = fxBalanceIndex === null ? undefined : parseOptionalNumber(getCell(row, fxBalanceIndex));
-
-                    const fxDebit = fxDebitRaw === undefined ? undefined : round4(fxDebitRaw);
-                    const fxCredit = fxCreditRaw === undefined ? undefined : round4(fxCreditRaw);
-                    const fxBalance = fxBalanceRaw === undefined ? undefined : round4(fxBalanceRaw);
-                    const exchangeRate = exchangeRateRaw === undefined ? undefined : round4(exchangeRateRaw);
-                    const hasForexMovement = (
-                        fxBalance !== undefined ||
-                        (typeof fxDebit === 'number' && fxDebit !== 0) ||
-                        (typeof fxCredit === 'number' && fxCredit !== 0)
-                    );
-                    const hasMovement = debit !== 0 || credit !== 0 || (includeForexOnlyMovement && hasForexMovement);
-                    if (!hasMovement) {
-                        summary.zeroMovementRows += 1;
-                    }
-
-                    const key = code;
-                    if (!accountMap.has(key)) {
-                        accountMap.set(key, {
-                            code,
-                            name,
-                            totalDebit: 0,
-                            totalCredit: 0,
-                            balance: 0,
-                            transactionCount: 0,
-                            transactions: [],
-                        });
-                    }
-
-                    const account = accountMap.get(key)!;
-                    if (!account.name && name) {
-                        account.name = name;
-                    }
-
-                    if (hasMovement) {
-                        account.totalDebit = round2(account.totalDebit + debit);
-                        account.totalCredit = round2(account.totalCredit + credit);
-                        account.transactionCount += 1;
-
-                        const rawDateCell = getCell(row, dateIndex);
-                        const parsedDate = parseDate(rawDateCell);
-                        if (
-                            rawDateCell !== null &&
-                            rawDateCell !== undefined &&
-                            String(rawDateCell).trim() !== '' &&
-                            !parsedDate
-                        ) {
-                            summary.invalidDateRows += 1;
-                        }
-
-                        const voucherNo = voucherIndex === null ? undefined : String(getCell(row, voucherIndex) ?? '').trim() || undefined;
-                        const documentNo = documentIndex === null ? undefined : String(getCell(row, documentIndex) ?? '').trim() || undefined;
-                        if (voucherNo) {
-                            summary.voucherNoRows += 1;
-                        }
-
-                        const transaction: Transaction = {
-                            date: parsedDate,
-                            description: String(getCell(row, descIndex) ?? '').trim(),
-                            debit,
-                            credit,
-                            voucherNo,
-                            documentNo: documentNo || voucherNo,
-                            currencyCode,
-                            exchangeRate,
-                            fxDebit,
-                            fxCredit,
-                            fxBalance,
-                        };
-                        account.transactions.push(transaction);
-                        summary.transactionRows += 1;
-                    }
-                });
-
-                const accounts = Array.from(accountMap.values()).map((account) => {
-                    account.transactions.sort((a, b) => {
-                        const at = a.date ? a.date.getTime() : Number.MAX_SAFE_INTEGER;
-                        const bt = b.date ? b.date.getTime() : Number.MAX_SAFE_INTEGER;
-                        return at - bt;
-                    });
-
-                    let runningBalance = 0;
-                    const runningFxByCurrency = new Map<string, number>();
-                    account.transactions.forEach((transaction) => {
-                        runningBalance = round2(runningBalance + transaction.debit - transaction.credit);
-                        transaction.balance = runningBalance;
-
-                        const currencyKey = String(transaction.currencyCode || '').toLocaleUpperCase('tr-TR');
-                        if (typeof transaction.fxBalance === 'number') {
-                            runningFxByCurrency.set(currencyKey, round4(transaction.fxBalance));
-                            return;
-                        }
-
-                        const fxDebit = typeof transaction.fxDebit === 'number' ? transaction.fxDebit : 0;
-                        const fxCredit = typeof transaction.fxCredit === 'number' ? transaction.fxCredit : 0;
-                        if (fxDebit !== 0 || fxCredit !== 0) {
-                            const previous = runningFxByCurrency.get(currencyKey) || 0;
-                            const next = round4(previous + fxDebit - fxCredit);
-                            runningFxByCurrency.set(currencyKey, next);
-                            transaction.fxBalance = next;
-                        }
-                    });
-
-                    account.totalDebit = round2(account.totalDebit);
-                    account.totalCredit = round2(account.totalCredit);
-                    account.balance = round2(account.totalDebit - account.totalCredit);
-                    return account;
-                });
-
-                accounts.sort((a, b) => {
-                    const codeCompare = a.code.localeCompare(b.code, 'tr-TR');
-                    if (codeCompare !== 0) return codeCompare;
-                    return a.name.localeCompare(b.name, 'tr-TR');
-                });
-
-                summary.accountCount = accounts.length;
-                resolve({
-                    accounts,
-                    summary,
-                });
-            } catch (error) {
-                reject(error);
-            }
-        };
-
-        reader.onerror = (error) => reject(error);
-        reader.readAsArrayBuffer(file);
+    options?: ParseExcelOptions,
+    onProgress?: LedgerProgressHandler
+): ParseExcelDataResult => {
+    const sheetSelection = mapping.__sheet
+        ? { sheetName: mapping.__sheet, allSheets: mapping.__allSheets === '1' }
+        : null;
+
+    const { accounts, quality } = parseLedgerWorkbook(workbook, {
+        sheetSelection,
+        detectors: [createMappingDetector(mapping)],
+        requiredFields: ['code', 'name', 'date', 'debit', 'credit'],
+        requireName: true,
+        accountFilter: options?.includeAllAccounts ? undefined : isTargetAccount,
+        includeForexOnlyMovement: options?.includeForexOnlyMovement ?? false,
+        onProgress,
     });
+
+    return {
+        accounts,
+        summary: quality,
+    };
 };
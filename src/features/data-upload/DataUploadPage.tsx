@@ -4,7 +4,7 @@ import { useCompany } from '../../context/CompanyContext';
 import { Card } from '../../components/common/Card';
 import { Button } from '../../components/common/Button';
 import NoCompanySelected from '../../components/common/NoCompanySelected';
-import { parseKebirFile } from '../kebir-analysis/utils/kebirParser';
+import { parseKebirFile } from '../../services/ledgerParser';
 import { MappingStep } from '../reconciliation/components/MappingStep';
 import {
     processEInvoiceFile,
@@ -20,15 +20,17 @@ import {
 } from '../reconciliation/utils/constants';
 import type { EInvoiceRow, AccountingRow, AccountingMatrahRow } from '../../types';
 import type { ExcelProcessResult } from '../reconciliation/services/excelProcessor';
-import type { VoucherEditSource } from '../common/types';
-
-const EXCEL_ACCEPT = '.xlsx,.xls';
-
-const isExcelFile = (file: File): boolean => /\.(xlsx|xls)$/i.test(file.name);
-
-const toExcelFiles = (fileList: FileList | null): File[] => {
+import type { ImportQualityReport, VoucherEditSource } from '../common/types';
+import type { MappingProfileTarget } from '../../services/mappingProfiles';
+import type { SheetSelection } from '../../utils/workbookSheets';
+import { SPREADSHEET_ACCEPT, isSpreadsheetFile } from '../../utils/spreadsheetFile';
+import { isLedgerParseCancelled, type LedgerParseProgress } from '../../utils/ledgerParseLimits';
+import { ParseProgress } from '../../components/common/ParseProgress';
+import { DataQualityTable } from '../../components/common/DataQualityTable';
+
+const toSpreadsheetFiles = (fileList: FileList | null): File[] => {
     if (!fileList) return [];
-    return Array.from(fileList).filter(isExcelFile);
+    return Array.from(fileList).filter((file) => isSpreadsheetFile(file.name));
 };
 
 interface UploadPanelProps {
@@ -53,7 +55,7 @@ function UploadPanel({
     const inputRef = useRef<HTMLInputElement>(null);
 
     const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
-        const pickedFiles = toExcelFiles(event.target.files);
+        const pickedFiles = toSpreadsheetFiles(event.target.files);
         onSelect(multiple ? pickedFiles : pickedFiles.slice(0, 1));
         event.target.value = '';
     };
@@ -100,7 +102,7 @@ function UploadPanel({
             <input
                 ref={inputRef}
                 type="file"
-                accept={EXCEL_ACCEPT}
+                accept={SPREADSHEET_ACCEPT}
                 multiple={multiple}
                 className="hidden"
                 onChange={handleChange}
@@ -134,6 +136,8 @@ export default function DataUploadPage() {
     } = useCompany();
     const [kebirError, setKebirError] = useState<string | null>(null);
     const [kebirLoading, setKebirLoading] = useState(false);
+    const [kebirProgress, setKebirProgress] = useState<LedgerParseProgress | null>(null);
+    const kebirAbortRef = useRef<AbortController | null>(null);
     const [activeUploadTab, setActiveUploadTab] = useState<'kdv' | 'cari' | 'kebir'>('kdv');
 
     const setReconciliationFiles = (
@@ -201,17 +205,26 @@ export default function DataUploadPage() {
             return;
         }
 
+        const controller = new AbortController();
+        kebirAbortRef.current = controller;
         setKebirLoading(true);
+        setKebirProgress(null);
         try {
-            const result = await parseKebirFile(file);
+            const result = await parseKebirFile(file, null, { onProgress: setKebirProgress, signal: controller.signal });
             await patchActiveCompany(() => ({
                 kebirAnalysis: result,
             }));
         } catch (error) {
+            if (isLedgerParseCancelled(error)) {
+                setActiveUploads((current) => ({ ...current, kebirFile: null }));
+                return;
+            }
             console.error('Kebir parse error:', error);
             setKebirError(error instanceof Error ? error.message : 'Kebir dosyası işlenemedi.');
         } finally {
+            kebirAbortRef.current = null;
             setKebirLoading(false);
+            setKebirProgress(null);
         }
     };
 
@@ -223,6 +236,15 @@ export default function DataUploadPage() {
     }>({ type: null, file: null, mode: 'SALES' });
 
     const [isProcessingModalOpen, setIsProcessingModalOpen] = useState(false);
+    const [importQuality, setImportQuality] = useState<ImportQualityReport[]>([]);
+
+    const addImportQuality = (report?: ImportQualityReport) => {
+        if (!report) return;
+        setImportQuality((prev) => [
+            ...prev.filter((item) => item.source !== report.source || item.fileName !== report.fileName),
+            report,
+        ]);
+    };
 
     const handleProcessClick = (
         type: 'EINVOICE' | 'ACCOUNTING' | 'ACCOUNTING_MATRAH',
@@ -232,7 +254,7 @@ export default function DataUploadPage() {
         setIsProcessingModalOpen(true);
     };
 
-    const handleMappingComplete = async (mapping: Record<string, string>, headerRowIndex: number) => {
+    const handleMappingComplete = async (mapping: Record<string, string>, headerRowIndex: number, sheetSelection: SheetSelection) => {
         const { file, type, mode } = processingState;
         if (!file || !type) return;
 
@@ -243,7 +265,8 @@ export default function DataUploadPage() {
 
             // let result; // Removing this to use scoped typed variables
             if (type === 'EINVOICE') {
-                const result = await processEInvoiceFile(file, mapping, headerRowIndex, mode) as ExcelProcessResult<EInvoiceRow[]>;
+                const result = await processEInvoiceFile(file, mapping, headerRowIndex, mode, sheetSelection) as ExcelProcessResult<EInvoiceRow[]>;
+                addImportQuality(result.quality);
                 if (result.success && result.data) {
                     await patchActiveCompany((company) => {
                         const currentData = company.reconciliation?.eInvoiceData || [];
@@ -256,7 +279,8 @@ export default function DataUploadPage() {
                     });
                 }
             } else if (type === 'ACCOUNTING') {
-                const result = await processAccountingFile(file, mapping, headerRowIndex, mode) as ExcelProcessResult<AccountingRow[]>;
+                const result = await processAccountingFile(file, mapping, headerRowIndex, mode, sheetSelection) as ExcelProcessResult<AccountingRow[]>;
+                addImportQuality(result.quality);
                 if (result.success && result.data) {
                     await patchActiveCompany((company) => {
                         const currentData = company.reconciliation?.accountingData || [];
@@ -269,7 +293,8 @@ export default function DataUploadPage() {
                     });
                 }
             } else if (type === 'ACCOUNTING_MATRAH') {
-                const result = await processAccountingMatrahFile(file, mapping, headerRowIndex) as ExcelProcessResult<AccountingMatrahRow[]>;
+                const result = await processAccountingMatrahFile(file, mapping, headerRowIndex, sheetSelection) as ExcelProcessResult<AccountingMatrahRow[]>;
+                addImportQuality(result.quality);
                 if (result.success && result.data) {
                     await patchActiveCompany((company) => {
                         const currentData = company.reconciliation?.accountingMatrahData || [];
@@ -308,6 +333,13 @@ export default function DataUploadPage() {
         return [];
     };
 
+    const getProfileTarget = (): MappingProfileTarget => {
+        const { type, mode } = processingState;
+        if (type === 'ACCOUNTING_MATRAH') return 'ACCOUNTING_MATRAH';
+        if (type === 'ACCOUNTING') return mode === 'SALES' ? 'SALES_ACCOUNTING_VAT' : 'PURCHASE_ACCOUNTING_VAT';
+        return mode === 'SALES' ? 'SALES_EINVOICE' : 'PURCHASE_EINVOICE';
+    };
+
     const resetCompanyData = async () => {
         clearActiveUploads();
         setKebirError(null);
@@ -408,6 +440,14 @@ export default function DataUploadPage() {
                             isProcessed={(activeCompany.reconciliation?.accountingMatrahData || []).length > 0}
                         />
                     </div>
+                    {importQuality.map((report) => (
+                        <DataQualityTable
+                            key={`${report.source}-${report.fileName}`}
+                            title={`${report.source} · ${report.fileName} (${report.totalRows.toLocaleString('tr-TR')} satır)`}
+                            fileName={report.fileName}
+                            rows={report.rows}
+                        />
+                    ))}
                 </Card>
             )}
 
@@ -454,7 +494,10 @@ export default function DataUploadPage() {
                     />
 
                     {kebirLoading && (
-                        <p className="text-sm text-blue-300">Kebir dosyası analiz ediliyor...</p>
+                        <div className="space-y-2">
+                            <p className="text-sm text-blue-300">Kebir dosyası analiz ediliyor...</p>
+                            <ParseProgress progress={kebirProgress} onCancel={() => kebirAbortRef.current?.abort()} />
+                        </div>
                     )}
 
                     {!kebirLoading && activeCompany.kebirAnalysis && (
@@ -492,6 +535,7 @@ export default function DataUploadPage() {
                                     <MappingStep
                                         file={processingState.file}
                                         canonicalFields={getCanonicalFields()}
+                                        profileTarget={getProfileTarget()}
                                         onComplete={handleMappingComplete}
                                         onCancel={() => setIsProcessingModalOpen(false)}
                                     />
@@ -1,17 +1,29 @@
 import { useMemo, useRef, useState, type DragEvent } from 'react';
 import { createPortal } from 'react-dom';
-import { AlertCircle, FileArchive, Layers, RefreshCcw, Trash2, Upload } from 'lucide-react';
+import { AlertCircle, FileArchive, Layers, RefreshCcw, Search, Trash2, Upload } from 'lucide-react';
 import { Button } from '../../components/common/Button';
 import { Card } from '../../components/common/Card';
 import { useCompany } from '../../context/CompanyContext';
-import type { FaturaXmlInvoice } from '../common/types';
+import type { FaturaXmlInvoice, FaturaXmlSourceArchive } from '../common/types';
 import {
-    buildFaturaXmlModuleData,
     exportFaturaXmlExcel,
     generateInvoiceHtml,
     parseFaturaXmlFile,
     type ParseProgressState,
 } from './utils/parser';
+import {
+    EMPTY_FATURA_XML_FILTERS,
+    FATURA_XML_PROFILE_LABELS,
+    filterFaturaXmlInvoices,
+    getFaturaXmlFilterOptions,
+    type FaturaXmlInvoiceFilters,
+} from './utils/invoiceFilters';
+import {
+    appendFaturaXmlArchive,
+    getFaturaXmlExportRows,
+    getFaturaXmlSources,
+    removeFaturaXmlArchive,
+} from './utils/archiveStore';
 
 const ACCEPTED_FILES = '.zip,.rar,.7z,.xml';
 
@@ -22,6 +34,7 @@ export default function FaturaXmlPage() {
     const [isDragging, setIsDragging] = useState(false);
     const [isProcessing, setIsProcessing] = useState(false);
     const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [noticeMessage, setNoticeMessage] = useState<string | null>(null);
     const [selectedInvoice, setSelectedInvoice] = useState<FaturaXmlInvoice | null>(null);
     const [progress, setProgress] = useState<ParseProgressState>({
         phase: 'reading',
@@ -31,7 +44,18 @@ export default function FaturaXmlPage() {
         processedItems: 0,
     });
 
+    const [filters, setFilters] = useState<FaturaXmlInvoiceFilters>(EMPTY_FATURA_XML_FILTERS);
+
     const moduleData = activeCompany?.faturaXml ?? null;
+    const sources = useMemo(() => getFaturaXmlSources(moduleData), [moduleData]);
+    const filterOptions = useMemo(() => getFaturaXmlFilterOptions(moduleData?.invoices ?? []), [moduleData]);
+    const filteredInvoices = useMemo(
+        () => filterFaturaXmlInvoices(moduleData?.invoices ?? [], filters),
+        [moduleData, filters]
+    );
+    const updateFilter = (key: keyof FaturaXmlInvoiceFilters, value: string) => {
+        setFilters((prev) => ({ ...prev, [key]: value }));
+    };
     const previewHtml = useMemo(() => {
         if (!selectedInvoice) return '';
         if (selectedInvoice.previewHtml?.trim()) {
@@ -44,27 +68,60 @@ export default function FaturaXmlPage() {
         setProgress(state);
     };
 
-    const processFile = async (file: File) => {
+    // Her arsiv kayitli faturalara eklenir; ayni ETTN veya fatura numarasi ikinci kez eklenmez.
+    const processFile = async (file: File): Promise<string> => {
+        const parsed = await parseFaturaXmlFile(file, handleProgress);
+        const result: { source?: FaturaXmlSourceArchive } = {};
+        await patchActiveCompany((current) => {
+            const { moduleData: nextModuleData, source } = appendFaturaXmlArchive(current.faturaXml, file.name, parsed);
+            result.source = source;
+            return { faturaXml: nextModuleData };
+        });
+
+        const { source } = result;
+        if (!source) return '';
+        if (source.invoiceCount === 0) return `${file.name}: tum faturalar (${source.duplicateCount}) zaten kayitli.`;
+        return source.duplicateCount > 0
+            ? `${file.name}: ${source.invoiceCount} fatura eklendi, ${source.duplicateCount} fatura zaten kayitli oldugu icin atlandi.`
+            : `${file.name}: ${source.invoiceCount} fatura eklendi.`;
+    };
+
+    const processFiles = async (files: File[]) => {
         if (!activeCompany) return;
         setErrorMessage(null);
+        setNoticeMessage(null);
         setIsProcessing(true);
         setSelectedInvoice(null);
 
+        const notices: string[] = [];
         try {
-            const parsed = await parseFaturaXmlFile(file, handleProgress);
-            const nextModuleData = buildFaturaXmlModuleData(file.name, parsed);
-            await patchActiveCompany(() => ({ faturaXml: nextModuleData }));
+            for (const file of files) {
+                const notice = await processFile(file);
+                if (notice) notices.push(notice);
+            }
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Dosya islenirken hata olustu.';
             setErrorMessage(message);
         } finally {
+            setNoticeMessage(notices.length > 0 ? notices.join(' ') : null);
             setIsProcessing(false);
         }
     };
 
     const handleFileSelect = (files: FileList | null) => {
         if (!files || files.length === 0) return;
-        void processFile(files[0]);
+        void processFiles(Array.from(files));
+    };
+
+    const removeSource = async (source: FaturaXmlSourceArchive) => {
+        if (!activeCompany?.faturaXml) return;
+        const approved = window.confirm(`${source.fileName} arsivinden gelen ${source.invoiceCount} fatura kayittan cikarilsin mi?`);
+        if (!approved) return;
+        await patchActiveCompany((current) => ({
+            faturaXml: current.faturaXml ? removeFaturaXmlArchive(current.faturaXml, source.id) : undefined,
+        }));
+        setSelectedInvoice(null);
+        setNoticeMessage(null);
     };
 
     const onDragOver = (event: DragEvent<HTMLDivElement>) => {
@@ -90,6 +147,8 @@ export default function FaturaXmlPage() {
         await patchActiveCompany(() => ({ faturaXml: undefined }));
         setSelectedInvoice(null);
         setErrorMessage(null);
+        setNoticeMessage(null);
+        setFilters(EMPTY_FATURA_XML_FILTERS);
         setProgress({
             phase: 'reading',
             percent: 0,
@@ -102,7 +161,7 @@ export default function FaturaXmlPage() {
     const downloadExcel = () => {
         if (!moduleData) return;
         try {
-            exportFaturaXmlExcel(moduleData.excelRows);
+            exportFaturaXmlExcel(getFaturaXmlExportRows(moduleData));
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Excel olusturulamadi.';
             setErrorMessage(message);
@@ -130,7 +189,7 @@ export default function FaturaXmlPage() {
                         Fatura XML Aktarimi
                     </h1>
                     <p className="text-slate-400 text-sm">
-                        ZIP, RAR, 7Z veya XML arsivlerini isleyip Excel raporu uretebilirsiniz.
+                        ZIP, RAR, 7Z veya XML arsivlerini isleyip Excel raporu uretebilirsiniz. Yeni arsivler mevcut kayda eklenir.
                     </p>
                     <p className="text-xs text-blue-300 mt-1">{activeCompany.name}</p>
                 </div>
@@ -179,12 +238,13 @@ export default function FaturaXmlPage() {
                     onClick={() => fileInputRef.current?.click()}
                 >
                     <Upload className="mx-auto text-blue-400 mb-3" size={28} />
-                    <p className="text-white font-semibold">Arsiv veya XML dosyasini buraya birakin</p>
+                    <p className="text-white font-semibold">Arsiv veya XML dosyalarini buraya birakin</p>
                     <p className="text-xs text-slate-400 mt-1">Desteklenen formatlar: .zip, .rar, .7z, .xml</p>
                     <input
                         ref={fileInputRef}
                         type="file"
                         accept={ACCEPTED_FILES}
+                        multiple
                         className="hidden"
                         onChange={(event) => {
                             handleFileSelect(event.target.files);
@@ -210,6 +270,12 @@ export default function FaturaXmlPage() {
                     </div>
                 </div>
 
+                {noticeMessage && (
+                    <div className="text-sm text-blue-200 bg-blue-500/10 border border-blue-500/30 rounded-lg p-3">
+                        {noticeMessage}
+                    </div>
+                )}
+
                 {errorMessage && (
                     <div className="flex items-start gap-2 text-sm text-red-300 bg-red-500/10 border border-red-500/30 rounded-lg p-3">
                         <AlertCircle size={16} className="mt-0.5 shrink-0" />
@@ -218,11 +284,104 @@ export default function FaturaXmlPage() {
                 )}
             </Card>
 
+            {sources.length > 0 && (
+                <Card noPadding className="overflow-hidden">
+                    <div className="p-4 border-b border-slate-700 bg-slate-900/40 flex items-center justify-between">
+                        <h2 className="text-white font-semibold">Yuklenen Arsivler</h2>
+                        <span className="text-xs px-2 py-1 rounded-full bg-blue-500/15 border border-blue-500/30 text-blue-200">
+                            {sources.length} arsiv
+                        </span>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-900/60 text-slate-300">
+                                <tr>
+                                    <th className="text-left px-4 py-3">Dosya</th>
+                                    <th className="text-left px-4 py-3">Yukleme</th>
+                                    <th className="text-left px-4 py-3">Fatura</th>
+                                    <th className="text-left px-4 py-3">Kalem</th>
+                                    <th className="text-left px-4 py-3">Atlanan (mukerrer)</th>
+                                    <th className="text-left px-4 py-3">Islem</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sources.map((source) => (
+                                    <tr key={source.id} className="border-t border-slate-800 text-slate-200">
+                                        <td className="px-4 py-3 font-semibold">{source.fileName || '-'}</td>
+                                        <td className="px-4 py-3">{new Date(source.processedAt).toLocaleString('tr-TR')}</td>
+                                        <td className="px-4 py-3">{source.invoiceCount}</td>
+                                        <td className="px-4 py-3">{source.itemCount}</td>
+                                        <td className="px-4 py-3">{source.duplicateCount}</td>
+                                        <td className="px-4 py-3">
+                                            <Button
+                                                size="sm"
+                                                variant="danger"
+                                                leftIcon={<Trash2 size={14} />}
+                                                onClick={() => {
+                                                    void removeSource(source);
+                                                }}
+                                                disabled={isProcessing}
+                                            >
+                                                Kaldir
+                                            </Button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            )}
+
             <Card noPadding className="overflow-hidden">
-                <div className="p-4 border-b border-slate-700 bg-slate-900/40 flex items-center justify-between">
-                    <h2 className="text-white font-semibold">Islenen Faturalar</h2>
+                <div className="p-4 border-b border-slate-700 bg-slate-900/40 flex flex-wrap items-center gap-2">
+                    <h2 className="text-white font-semibold mr-auto">Islenen Faturalar</h2>
+                    <div className="relative w-full sm:w-56">
+                        <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500" />
+                        <input
+                            type="text"
+                            value={filters.search}
+                            onChange={(event) => updateFilter('search', event.target.value)}
+                            placeholder="No, ETTN, firma, siparis, not..."
+                            className="w-full bg-slate-900 border border-slate-700 rounded-lg pl-8 pr-2 py-1.5 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+                        />
+                    </div>
+                    <select
+                        value={filters.profileId}
+                        onChange={(event) => updateFilter('profileId', event.target.value)}
+                        className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white"
+                    >
+                        <option value="">Tum senaryolar</option>
+                        {filterOptions.profileIds.map((profileId) => (
+                            <option key={profileId} value={profileId}>{FATURA_XML_PROFILE_LABELS[profileId] || profileId}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={filters.invoiceTypeCode}
+                        onChange={(event) => updateFilter('invoiceTypeCode', event.target.value)}
+                        className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white"
+                    >
+                        <option value="">Tum fatura tipleri</option>
+                        {filterOptions.invoiceTypeCodes.map((typeCode) => (
+                            <option key={typeCode} value={typeCode}>{typeCode}</option>
+                        ))}
+                    </select>
+                    {filterOptions.exemptionCodes.length > 0 && (
+                        <select
+                            value={filters.exemptionCode}
+                            onChange={(event) => updateFilter('exemptionCode', event.target.value)}
+                            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white"
+                        >
+                            <option value="">Tum istisna kodlari</option>
+                            {filterOptions.exemptionCodes.map((code) => (
+                                <option key={code} value={code}>{code}</option>
+                            ))}
+                        </select>
+                    )}
                     <span className="text-xs px-2 py-1 rounded-full bg-blue-500/15 border border-blue-500/30 text-blue-200">
-                        {moduleData?.invoiceCount ?? 0} adet
+                        {filteredInvoices.length === (moduleData?.invoiceCount ?? 0)
+                            ? `${moduleData?.invoiceCount ?? 0} adet`
+                            : `${filteredInvoices.length} / ${moduleData?.invoiceCount ?? 0} adet`}
                     </span>
                 </div>
                 {!moduleData || moduleData.invoices.length === 0 ? (
@@ -234,16 +393,29 @@ export default function FaturaXmlPage() {
                                 <tr>
                                     <th className="text-left px-4 py-3">Tarih</th>
                                     <th className="text-left px-4 py-3">Fatura No</th>
+                                    <th className="text-left px-4 py-3">Senaryo / Tip</th>
                                     <th className="text-left px-4 py-3">Firma</th>
                                     <th className="text-left px-4 py-3">Toplam</th>
                                     <th className="text-left px-4 py-3">Islem</th>
                                 </tr>
                             </thead>
                             <tbody>
-                                {moduleData.invoices.map((invoice) => (
+                                {filteredInvoices.length === 0 && (
+                                    <tr className="border-t border-slate-800">
+                                        <td colSpan={6} className="px-4 py-6 text-center text-slate-400">Filtreye uyan fatura yok.</td>
+                                    </tr>
+                                )}
+                                {filteredInvoices.map((invoice) => (
                                     <tr key={invoice.id} className="border-t border-slate-800 text-slate-200">
                                         <td className="px-4 py-3">{invoice.invDate}</td>
-                                        <td className="px-4 py-3 font-semibold">{invoice.invNo}</td>
+                                        <td className="px-4 py-3">
+                                            <p className="font-semibold">{invoice.invNo}</p>
+                                            {invoice.uuid && <p className="text-[11px] text-slate-500 font-mono">{invoice.uuid}</p>}
+                                        </td>
+                                        <td className="px-4 py-3 text-xs">
+                                            <p>{invoice.profileId ? FATURA_XML_PROFILE_LABELS[invoice.profileId] || invoice.profileId : '-'}</p>
+                                            <p className="text-slate-400">{invoice.invoiceTypeCode || '-'}</p>
+                                        </td>
                                         <td className="px-4 py-3">{invoice.companyName || '-'}</td>
                                         <td className="px-4 py-3">{invoice.totalAmountLabel}</td>
                                         <td className="px-4 py-3">
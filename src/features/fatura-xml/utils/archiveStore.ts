@@ -0,0 +1,151 @@
+import type {
+    FaturaXmlExcelRow,
+    FaturaXmlInvoice,
+    FaturaXmlModuleData,
+    FaturaXmlSourceArchive,
+} from '../../common/types';
+import type { ParseFaturaXmlResult } from './parser';
+
+// Arsiv listesi eklenmeden once kaydedilmis faturalar tek bir arsivden gelmis sayilir.
+const LEGACY_SOURCE_ID = 'legacy';
+const SOURCE_COLUMN = 'Kaynak Arsiv';
+// Excel satirinin geldigi arsiv; disa aktarimda kolon olarak yazilmaz.
+const SOURCE_ID_FIELD = '__sourceId';
+
+export interface FaturaXmlAppendResult {
+    moduleData: FaturaXmlModuleData;
+    source: FaturaXmlSourceArchive;
+}
+
+const createSourceId = (): string => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `archive-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const normalizeKeyPart = (value: unknown): string => String(value ?? '').trim().toLocaleUpperCase('tr-TR');
+
+/**
+ * Ayni fatura ETTN ile veya satici VKN + fatura numarasi ile taninir. Numara ya da VKN bos ise
+ * numara anahtari uretilmez; aksi halde bos alanli farkli faturalar birbirinin tekrari sayilirdi.
+ */
+const getInvoiceKeys = (invoice: FaturaXmlInvoice): string[] => {
+    const keys: string[] = [];
+    const uuid = normalizeKeyPart(invoice.uuid);
+    const invNo = normalizeKeyPart(invoice.invNo);
+    const supplierVN = normalizeKeyPart(invoice.supplierVN);
+    if (uuid) keys.push(`uuid:${uuid}`);
+    if (invNo && supplierVN) keys.push(`no:${invNo}|${supplierVN}`);
+    return keys;
+};
+
+const getInvoiceSourceId = (invoice: FaturaXmlInvoice): string => invoice.sourceId || LEGACY_SOURCE_ID;
+
+const getRowSourceId = (row: FaturaXmlExcelRow): string => String(row[SOURCE_ID_FIELD] || LEGACY_SOURCE_ID);
+
+/** Excel'e yazilacak satirlar; arsiv kimligi kolon olarak cikmaz. */
+export const getFaturaXmlExportRows = (moduleData: FaturaXmlModuleData): FaturaXmlExcelRow[] =>
+    moduleData.excelRows.map((row) => {
+        const exportRow = { ...row };
+        delete exportRow[SOURCE_ID_FIELD];
+        return exportRow;
+    });
+
+export const getFaturaXmlSources = (moduleData: FaturaXmlModuleData | null | undefined): FaturaXmlSourceArchive[] => {
+    if (!moduleData) return [];
+    if (moduleData.sources) return moduleData.sources;
+    if (moduleData.invoices.length === 0) return [];
+    return [{
+        id: LEGACY_SOURCE_ID,
+        fileName: moduleData.sourceFileName,
+        processedAt: moduleData.processedAt,
+        invoiceCount: moduleData.invoices.length,
+        itemCount: moduleData.excelRows.length,
+        duplicateCount: 0,
+    }];
+};
+
+const toModuleData = (
+    sources: FaturaXmlSourceArchive[],
+    invoices: FaturaXmlInvoice[],
+    excelRows: FaturaXmlExcelRow[],
+): FaturaXmlModuleData => {
+    const latest = sources[sources.length - 1];
+    return {
+        sourceFileName: latest?.fileName || '',
+        processedAt: latest?.processedAt || new Date().toISOString(),
+        invoiceCount: invoices.length,
+        itemCount: excelRows.length,
+        invoices,
+        excelRows,
+        sources,
+    };
+};
+
+/**
+ * Yeni arsivin faturalarini kayitli faturalara ekler; daha once yuklenmis faturalar atlanir.
+ *
+ * Elle kontrol: fatura numarasi veya satici VKN'si bos, ETTN'leri farkli faturalar iceren iki arsiv
+ * art arda yuklendiginde ikinci arsivin faturalari da eklenmeli (duplicateCount 0); ayni arsiv tekrar
+ * yuklendiginde ETTN ile taninip atlanmali. Arsivlerden biri silindiginde digerinin Excel satirlari kalmali.
+ */
+export const appendFaturaXmlArchive = (
+    current: FaturaXmlModuleData | null | undefined,
+    fileName: string,
+    parsed: ParseFaturaXmlResult,
+): FaturaXmlAppendResult => {
+    const knownKeys = new Set((current?.invoices ?? []).flatMap(getInvoiceKeys));
+    const sourceId = createSourceId();
+    const addedInvoices: FaturaXmlInvoice[] = [];
+    const addedRows: FaturaXmlExcelRow[] = [];
+    let duplicateCount = 0;
+
+    parsed.invoices.forEach((invoice, index) => {
+        const keys = getInvoiceKeys(invoice);
+        if (keys.some((key) => knownKeys.has(key))) {
+            duplicateCount += 1;
+            return;
+        }
+        keys.forEach((key) => knownKeys.add(key));
+        addedInvoices.push({ ...invoice, id: `${sourceId}_${invoice.id}`, sourceId, sourceFileName: fileName });
+        (parsed.invoiceRows[index] ?? []).forEach((row) => addedRows.push({ ...row, [SOURCE_COLUMN]: fileName, [SOURCE_ID_FIELD]: sourceId }));
+    });
+
+    const source: FaturaXmlSourceArchive = {
+        id: sourceId,
+        fileName,
+        processedAt: new Date().toISOString(),
+        invoiceCount: addedInvoices.length,
+        itemCount: addedRows.length,
+        duplicateCount,
+    };
+
+    if (addedInvoices.length === 0 && current) {
+        return { moduleData: current, source };
+    }
+
+    return {
+        moduleData: toModuleData(
+            [...getFaturaXmlSources(current), source],
+            [...(current?.invoices ?? []), ...addedInvoices],
+            [...(current?.excelRows ?? []), ...addedRows],
+        ),
+        source,
+    };
+};
+
+/** Bir arsivin faturalarini ve Excel satirlarini kayittan cikarir; arsiv kalmazsa undefined doner. */
+export const removeFaturaXmlArchive = (
+    current: FaturaXmlModuleData,
+    sourceId: string,
+): FaturaXmlModuleData | undefined => {
+    const sources = getFaturaXmlSources(current).filter((source) => source.id !== sourceId);
+    if (sources.length === 0) return undefined;
+
+    return toModuleData(
+        sources,
+        current.invoices.filter((invoice) => getInvoiceSourceId(invoice) !== sourceId),
+        current.excelRows.filter((row) => getRowSourceId(row) !== sourceId),
+    );
+};
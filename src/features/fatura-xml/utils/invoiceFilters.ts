@@ -0,0 +1,71 @@
+import type { FaturaXmlInvoice } from '../../common/types';
+import { matchesSearchAcrossFields } from '../../../utils/search';
+
+export const FATURA_XML_PROFILE_LABELS: Record<string, string> = {
+    TEMELFATURA: 'Temel Fatura',
+    TICARIFATURA: 'Ticari Fatura',
+    EARSIVFATURA: 'e-Arsiv Fatura',
+    IHRACAT: 'Ihracat',
+    YOLCUBERABERFATURA: 'Yolcu Beraber',
+    KAMU: 'Kamu',
+};
+
+export interface FaturaXmlInvoiceFilters {
+    search: string;
+    profileId: string;
+    invoiceTypeCode: string;
+    exemptionCode: string;
+}
+
+export const EMPTY_FATURA_XML_FILTERS: FaturaXmlInvoiceFilters = {
+    search: '',
+    profileId: '',
+    invoiceTypeCode: '',
+    exemptionCode: '',
+};
+
+/** Fatura ve satir vergi kirilimlarindaki istisna kodlari. */
+export const getInvoiceExemptionCodes = (invoice: FaturaXmlInvoice): string[] => {
+    const subtotals = [
+        ...(invoice.taxSubtotals || []),
+        ...invoice.lines.flatMap((line) => line.taxSubtotals || []),
+    ];
+    return Array.from(new Set(subtotals.map((subtotal) => subtotal.exemptionReasonCode || '').filter(Boolean)));
+};
+
+const getUniqueValues = (values: Array<string | undefined>): string[] =>
+    Array.from(new Set(values.filter((value): value is string => Boolean(value)))).sort((a, b) => a.localeCompare(b, 'tr'));
+
+export const getFaturaXmlFilterOptions = (invoices: FaturaXmlInvoice[]) => ({
+    profileIds: getUniqueValues(invoices.map((invoice) => invoice.profileId)),
+    invoiceTypeCodes: getUniqueValues(invoices.map((invoice) => invoice.invoiceTypeCode)),
+    exemptionCodes: getUniqueValues(invoices.flatMap(getInvoiceExemptionCodes)),
+});
+
+const getSearchFields = (invoice: FaturaXmlInvoice): Array<string | number> => [
+    invoice.invNo,
+    invoice.invDate,
+    invoice.uuid || '',
+    invoice.supplierName,
+    invoice.supplierVN,
+    invoice.customerName,
+    invoice.customerVN,
+    invoice.profileId || '',
+    invoice.invoiceTypeCode || '',
+    ...(invoice.orderReferences || []).map((reference) => reference.id),
+    ...(invoice.despatchReferences || []).map((reference) => reference.id),
+    ...(invoice.notes || []),
+    ...getInvoiceExemptionCodes(invoice),
+    ...invoice.lines.map((line) => line.itemName),
+];
+
+export const filterFaturaXmlInvoices = (
+    invoices: FaturaXmlInvoice[],
+    filters: FaturaXmlInvoiceFilters,
+): FaturaXmlInvoice[] =>
+    invoices.filter((invoice) => (
+        (!filters.profileId || invoice.profileId === filters.profileId)
+        && (!filters.invoiceTypeCode || invoice.invoiceTypeCode === filters.invoiceTypeCode)
+        && (!filters.exemptionCode || getInvoiceExemptionCodes(invoice).includes(filters.exemptionCode))
+        && matchesSearchAcrossFields(filters.search, getSearchFields(invoice))
+    ));
@@ -1,10 +1,15 @@
 import * as XLSX from 'xlsx';
 import type {
+    FaturaXmlAllowanceCharge,
+    FaturaXmlDocumentReference,
     FaturaXmlExcelRow,
     FaturaXmlInvoice,
     FaturaXmlLineItem,
-    FaturaXmlModuleData,
+    FaturaXmlPaymentMeans,
+    FaturaXmlPaymentTerms,
+    FaturaXmlTaxSubtotal,
 } from '../../common/types';
+import { formatWithholdingRatio, parseWithholdingRatio } from '../../reconciliation/utils/withholding';
 
 const SUPPORTED_EXTENSIONS = new Set(['.zip', '.rar', '.7z', '.xml']);
 
@@ -19,6 +24,10 @@ interface ArchiveApi {
 
 let archiveApiPromise: Promise<ArchiveApi> | null = null;
 
+export const isFaturaXmlSourceFile = (file: File): boolean => {
+    return SUPPORTED_EXTENSIONS.has(file.name.slice(file.name.lastIndexOf('.')).toLowerCase());
+};
+
 const resolveAssetUrl = (assetPath: string): string => {
     const baseUri =
         typeof document !== 'undefined'
@@ -51,6 +60,8 @@ export interface ParseProgressState {
 export interface ParseFaturaXmlResult {
     invoices: FaturaXmlInvoice[];
     excelRows: FaturaXmlExcelRow[];
+    /** invoices ile ayni sirada, her faturanin Excel satirlari. */
+    invoiceRows: FaturaXmlExcelRow[][];
     invoiceCount: number;
     itemCount: number;
 }
@@ -83,7 +94,8 @@ const sanitizeInvoiceId = (value: string, index: number): string => {
 const toNumberOrString = (value: string): number | string => {
     const trimmed = value.trim();
     if (!trimmed) return '';
-    const normalized = trimmed.replace(/\./g, '').replace(',', '.');
+    // UBL tutarlari nokta ondaliklidir (1180.00); virgullu degerler Turkce bicimde okunur.
+    const normalized = /^-?\d+(\.\d+)?$/.test(trimmed) ? trimmed : trimmed.replace(/\./g, '').replace(',', '.');
     const parsed = Number.parseFloat(normalized);
     if (Number.isFinite(parsed)) return parsed;
     return trimmed;
@@ -146,6 +158,20 @@ const getText = (xml: XmlRoot, tags: string | string[]): string => {
     return '';
 };
 
+// Fatura ve satir seviyesinde ayni adli elemanlar (TaxTotal, AllowanceCharge, Note) bulundugu icin
+// yapisal alanlar yalnizca dogrudan alt elemanlardan okunur.
+const getChildElements = (parent: Element, tagName: string): Element[] => {
+    const localName = getLocalName(tagName);
+    return Array.from(parent.children).filter((child) => (child.localName || getLocalName(child.nodeName)) === localName);
+};
+
+const getChildText = (parent: Element | undefined, tagName: string): string => {
+    if (!parent) return '';
+    return getChildElements(parent, tagName)[0]?.textContent?.trim() || '';
+};
+
+const toOptionalNumberOrString = (value: string): number | string | undefined => (value ? toNumberOrString(value) : undefined);
+
 const hasParserError = (xmlDoc: Document): boolean => xmlDoc.getElementsByTagName('parsererror').length > 0;
 
 const decodeBase64Utf8 = (encoded: string): string => {
@@ -283,6 +309,96 @@ const getPartyInfo = (partyElement: Element | null): { name: string; taxNo: stri
     return { name, taxNo };
 };
 
+// Baslik seviyesindeki WithholdingTaxTotal esas alinir; yoksa satir seviyesindeki tutarlar toplanir.
+const getWithholdingInfo = (xmlDoc: Document): { code: string; ratio: string; amount: number } | null => {
+    const elements = getElements(xmlDoc, 'cac:WithholdingTaxTotal');
+    if (elements.length === 0) return null;
+
+    const headerElement = elements.find((element) => element.parentElement === xmlDoc.documentElement);
+    const totals = headerElement ? [headerElement] : elements;
+    const amount = totals.reduce((sum, element) => {
+        const value = toNumberOrString(getText(element, ['cbc:TaxAmount', 'TaxAmount']));
+        return sum + (typeof value === 'number' ? value : 0);
+    }, 0);
+
+    const subtotal = getFirstElement(totals[0], 'cac:TaxSubtotal') || getFirstElement(totals[0], 'TaxSubtotal');
+    return {
+        code: subtotal ? getText(subtotal, ['cbc:TaxTypeCode', 'TaxTypeCode']) : '',
+        ratio: subtotal ? formatWithholdingRatio(parseWithholdingRatio(getText(subtotal, ['cbc:Percent', 'Percent']))) : '',
+        amount,
+    };
+};
+
+const getNotes = (parent: Element): string[] =>
+    getChildElements(parent, 'cbc:Note')
+        .map((element) => element.textContent?.trim() || '')
+        .filter(Boolean);
+
+const getDocumentReferences = (root: Element, tagName: string): FaturaXmlDocumentReference[] =>
+    getChildElements(root, tagName)
+        .map((element) => ({
+            id: getChildText(element, 'cbc:ID'),
+            issueDate: formatIssueDate(getChildText(element, 'cbc:IssueDate')) || undefined,
+        }))
+        .filter((reference) => reference.id);
+
+const getAllowanceCharges = (parent: Element): FaturaXmlAllowanceCharge[] =>
+    getChildElements(parent, 'cac:AllowanceCharge').map((element) => ({
+        isCharge: getChildText(element, 'cbc:ChargeIndicator').toLowerCase() === 'true',
+        reason: getChildText(element, 'cbc:AllowanceChargeReason'),
+        amount: toNumberOrString(getChildText(element, 'cbc:Amount')),
+        baseAmount: toOptionalNumberOrString(getChildText(element, 'cbc:BaseAmount')),
+        multiplierFactor: toOptionalNumberOrString(getChildText(element, 'cbc:MultiplierFactorNumeric')),
+    }));
+
+const sumAllowanceCharges = (items: FaturaXmlAllowanceCharge[], isCharge: boolean): number | string => {
+    const matching = items.filter((item) => item.isCharge === isCharge);
+    if (matching.length === 0) return '';
+    return matching.reduce((sum, item) => sum + (typeof item.amount === 'number' ? item.amount : 0), 0);
+};
+
+const getTaxSubtotals = (parent: Element, totalTag: 'cac:TaxTotal' | 'cac:WithholdingTaxTotal'): FaturaXmlTaxSubtotal[] =>
+    getChildElements(parent, totalTag)
+        .flatMap((total) => getChildElements(total, 'cac:TaxSubtotal'))
+        .map((subtotal) => {
+            const category = getChildElements(subtotal, 'cac:TaxCategory')[0];
+            const scheme = category ? getChildElements(category, 'cac:TaxScheme')[0] : undefined;
+            return {
+                taxTypeCode: getChildText(scheme, 'cbc:TaxTypeCode'),
+                taxName: getChildText(scheme, 'cbc:Name'),
+                percent: toNumberOrString(getChildText(subtotal, 'cbc:Percent')),
+                taxableAmount: toNumberOrString(getChildText(subtotal, 'cbc:TaxableAmount')),
+                taxAmount: toNumberOrString(getChildText(subtotal, 'cbc:TaxAmount')),
+                exemptionReasonCode: getChildText(category, 'cbc:TaxExemptionReasonCode') || undefined,
+                exemptionReason: getChildText(category, 'cbc:TaxExemptionReason') || undefined,
+            };
+        });
+
+const getExemptionCodes = (subtotals: FaturaXmlTaxSubtotal[]): string =>
+    Array.from(new Set(subtotals.map((subtotal) => subtotal.exemptionReasonCode).filter(Boolean))).join(', ');
+
+const getExemptionReasons = (subtotals: FaturaXmlTaxSubtotal[]): string =>
+    Array.from(new Set(subtotals.map((subtotal) => subtotal.exemptionReason).filter(Boolean))).join(' | ');
+
+const getPaymentTerms = (root: Element): FaturaXmlPaymentTerms | undefined => {
+    const element = getChildElements(root, 'cac:PaymentTerms')[0];
+    if (!element) return undefined;
+    return {
+        note: getChildText(element, 'cbc:Note') || undefined,
+        dueDate: formatIssueDate(getChildText(element, 'cbc:PaymentDueDate')) || undefined,
+        penaltySurchargePercent: toOptionalNumberOrString(getChildText(element, 'cbc:PenaltySurchargePercent')),
+        amount: toOptionalNumberOrString(getChildText(element, 'cbc:Amount')),
+    };
+};
+
+const getPaymentMeans = (root: Element): FaturaXmlPaymentMeans[] =>
+    getChildElements(root, 'cac:PaymentMeans').map((element) => ({
+        code: getChildText(element, 'cbc:PaymentMeansCode'),
+        dueDate: formatIssueDate(getChildText(element, 'cbc:PaymentDueDate')) || undefined,
+        channelCode: getChildText(element, 'cbc:PaymentChannelCode') || undefined,
+        accountId: getChildText(getChildElements(element, 'cac:PayeeFinancialAccount')[0], 'cbc:ID') || undefined,
+    }));
+
 const collectArchiveFiles = (root: unknown, files: File[]): void => {
     if (!root) return;
     if (root instanceof File) {
@@ -349,6 +465,7 @@ export const parseFaturaXmlFile = async (
     const parser = new DOMParser();
     const excelRows: FaturaXmlExcelRow[] = [];
     const invoices: FaturaXmlInvoice[] = [];
+    const invoiceRows: FaturaXmlExcelRow[][] = [];
 
     let processedInvoices = 0;
     let processedItems = 0;
@@ -377,7 +494,47 @@ export const parseFaturaXmlFile = async (
         const taxAmount = getText(xmlDoc, ['cbc:TaxAmount', 'TaxAmount']);
         const taxInclusiveElement = getFirstElement(xmlDoc, 'cbc:TaxInclusiveAmount');
         const currency = taxInclusiveElement?.getAttribute('currencyID') || 'TRY';
+        const exchangeRateElement =
+            getFirstElement(xmlDoc, 'cac:PricingExchangeRate') || getFirstElement(xmlDoc.documentElement, 'PricingExchangeRate');
+        const exchangeRate = exchangeRateElement
+            ? toNumberOrString(getText(exchangeRateElement, ['cbc:CalculationRate', 'CalculationRate']))
+            : '';
+        const withholding = getWithholdingInfo(xmlDoc);
+
+        const root = xmlDoc.documentElement;
+        const profileId = getChildText(root, 'cbc:ProfileID');
+        const invoiceTypeCode = getChildText(root, 'cbc:InvoiceTypeCode');
+        const uuid = getChildText(root, 'cbc:UUID');
+        const notes = getNotes(root);
+        const orderReferences = getDocumentReferences(root, 'cac:OrderReference');
+        const despatchReferences = getDocumentReferences(root, 'cac:DespatchDocumentReference');
+        const allowanceCharges = getAllowanceCharges(root);
+        const taxSubtotals = getTaxSubtotals(root, 'cac:TaxTotal');
+        const withholdingSubtotals = getTaxSubtotals(root, 'cac:WithholdingTaxTotal');
+        const paymentTerms = getPaymentTerms(root);
+        const paymentMeans = getPaymentMeans(root);
+        const monetaryTotal = getChildElements(root, 'cac:LegalMonetaryTotal')[0];
+        const allowanceTotalAmount = toOptionalNumberOrString(getChildText(monetaryTotal, 'cbc:AllowanceTotalAmount'));
+        const chargeTotalAmount = toOptionalNumberOrString(getChildText(monetaryTotal, 'cbc:ChargeTotalAmount'));
+        const payableAmount = toOptionalNumberOrString(getChildText(monetaryTotal, 'cbc:PayableAmount'));
+        const dueDate = paymentTerms?.dueDate || paymentMeans.find((means) => means.dueDate)?.dueDate || '';
+
+        const headerColumns: FaturaXmlExcelRow = {
+            Senaryo: profileId,
+            'Fatura Tipi': invoiceTypeCode,
+            ETTN: uuid,
+            'Siparis No': orderReferences.map((reference) => reference.id).join(', '),
+            'Irsaliye No': despatchReferences.map((reference) => reference.id).join(', '),
+            'Fatura Iskonto Toplami': allowanceTotalAmount ?? '',
+            'Fatura Artirim Toplami': chargeTotalAmount ?? '',
+            'Odenecek Tutar': payableAmount ?? '',
+            'Fatura Istisna Kodlari': getExemptionCodes(taxSubtotals),
+            'Odeme Vadesi': dueDate,
+            'Odeme Kosulu': paymentTerms?.note || '',
+            Notlar: notes.join(' | '),
+        };
 
+        const firstRowIndex = excelRows.length;
         const headerFlatData = flattenXml(xmlDoc.documentElement);
         const lineNodes = Array.from(xmlDoc.getElementsByTagName('cac:InvoiceLine')).length
             ? Array.from(xmlDoc.getElementsByTagName('cac:InvoiceLine'))
@@ -423,6 +580,15 @@ export const parseFaturaXmlFile = async (
                     }
                 }
 
+                const lineAllowanceCharges = getAllowanceCharges(lineNode);
+                const lineTaxSubtotals = getTaxSubtotals(lineNode, 'cac:TaxTotal');
+                const lineWithholdingSubtotals = getTaxSubtotals(lineNode, 'cac:WithholdingTaxTotal');
+                const lineWithholdingAmount = lineWithholdingSubtotals.reduce(
+                    (sum, subtotal) => sum + (typeof subtotal.taxAmount === 'number' ? subtotal.taxAmount : 0),
+                    0,
+                );
+                const unitCode = getChildElements(lineNode, 'cbc:InvoicedQuantity')[0]?.getAttribute('unitCode') || '';
+
                 const lineFlatData = flattenXml(lineNode);
                 const row: FaturaXmlExcelRow = {
                     'Fatura Numarasi': invNo,
@@ -439,8 +605,19 @@ export const parseFaturaXmlFile = async (
                     'KDV Tutari': toNumberOrString(itemTaxAmount),
                     'Fatura Genel Vergisiz Toplam': toNumberOrString(taxExclusiveAmount),
                     'Fatura Toplam Vergi': toNumberOrString(taxAmount),
+                    'Tevkifat Kodu': withholding?.code || '',
+                    'Tevkifat Orani': withholding?.ratio || '',
+                    'Tevkifat Tutari': withholding ? withholding.amount : '',
                     'Fatura Genel Toplam (Vergiler Dahil)': toNumberOrString(taxInclusiveAmount),
                     'Para Birimi': currency,
+                    ...headerColumns,
+                    'Satir No': getChildText(lineNode, 'cbc:ID'),
+                    Birim: unitCode,
+                    'Satir Iskonto': sumAllowanceCharges(lineAllowanceCharges, false),
+                    'Satir Artirim': sumAllowanceCharges(lineAllowanceCharges, true),
+                    'Satir Istisna Kodu': getExemptionCodes(lineTaxSubtotals),
+                    'Satir Istisna Nedeni': getExemptionReasons(lineTaxSubtotals),
+                    'Satir Tevkifat Tutari': lineWithholdingSubtotals.length > 0 ? lineWithholdingAmount : '',
                     ...headerFlatData,
                     ...lineFlatData,
                 };
@@ -453,6 +630,12 @@ export const parseFaturaXmlFile = async (
                     taxPercent: row['KDV Orani (%)'] as number | string,
                     taxAmount: row['KDV Tutari'] as number | string,
                     lineTotal: row['Satir Toplam (Vergisiz)'] as number | string,
+                    lineId: String(row['Satir No'] || '') || undefined,
+                    unitCode: unitCode || undefined,
+                    notes: getNotes(lineNode),
+                    allowanceCharges: lineAllowanceCharges,
+                    taxSubtotals: lineTaxSubtotals,
+                    withholdingSubtotals: lineWithholdingSubtotals,
                 });
                 processedItems += 1;
             }
@@ -472,8 +655,12 @@ export const parseFaturaXmlFile = async (
                 'KDV Tutari': '',
                 'Fatura Genel Vergisiz Toplam': toNumberOrString(taxExclusiveAmount),
                 'Fatura Toplam Vergi': toNumberOrString(taxAmount),
+                'Tevkifat Kodu': withholding?.code || '',
+                'Tevkifat Orani': withholding?.ratio || '',
+                'Tevkifat Tutari': withholding ? withholding.amount : '',
                 'Fatura Genel Toplam (Vergiler Dahil)': toNumberOrString(taxInclusiveAmount),
                 'Para Birimi': currency,
+                ...headerColumns,
                 ...headerFlatData,
             });
             processedItems += 1;
@@ -493,12 +680,31 @@ export const parseFaturaXmlFile = async (
             taxAmount: toNumberOrString(taxAmount),
             taxInclusiveAmount: toNumberOrString(taxInclusiveAmount),
             currency,
+            exchangeRate: typeof exchangeRate === 'number' && exchangeRate > 0 ? exchangeRate : undefined,
+            withholdingCode: withholding?.code || undefined,
+            withholdingRatio: withholding?.ratio || undefined,
+            withholdingAmount: withholding?.amount || undefined,
             totalAmountLabel: `${toDisplayString(toNumberOrString(taxInclusiveAmount))} ${currency}`.trim(),
             previewHtml: previewHtml || undefined,
             lines: invoiceLines,
+            profileId: profileId || undefined,
+            invoiceTypeCode: invoiceTypeCode || undefined,
+            uuid: uuid || undefined,
+            notes,
+            orderReferences,
+            despatchReferences,
+            allowanceCharges,
+            allowanceTotalAmount,
+            chargeTotalAmount,
+            payableAmount,
+            taxSubtotals,
+            withholdingSubtotals,
+            paymentTerms,
+            paymentMeans,
         };
 
         invoices.push(invoice);
+        invoiceRows.push(excelRows.slice(firstRowIndex));
         processedInvoices += 1;
 
         if (processedInvoices % 25 === 0 || processedInvoices === xmlSources.length) {
@@ -517,6 +723,7 @@ export const parseFaturaXmlFile = async (
     return {
         invoices,
         excelRows,
+        invoiceRows,
         invoiceCount: processedInvoices,
         itemCount: processedItems,
     };
@@ -568,6 +775,25 @@ export const generateInvoiceHtml = (invoice: FaturaXmlInvoice): string => {
         )
         .join('');
 
+    const taxRowsHtml = (invoice.taxSubtotals || [])
+        .map(
+            (subtotal) => `
+                <tr>
+                    <td>${subtotal.taxName || subtotal.taxTypeCode}</td>
+                    <td>${toDisplayString(subtotal.percent)}</td>
+                    <td>${toDisplayString(subtotal.taxableAmount)}</td>
+                    <td>${toDisplayString(subtotal.taxAmount)}</td>
+                    <td>${[subtotal.exemptionReasonCode, subtotal.exemptionReason].filter(Boolean).join(' - ')}</td>
+                </tr>
+            `,
+        )
+        .join('');
+    const references = [
+        ...(invoice.orderReferences || []).map((reference) => `<b>Siparis:</b> ${reference.id}`),
+        ...(invoice.despatchReferences || []).map((reference) => `<b>Irsaliye:</b> ${reference.id}`),
+    ].join(' | ');
+    const notesHtml = (invoice.notes || []).map((note) => `<div>${note}</div>`).join('');
+
     return `
 <!doctype html>
 <html lang="tr">
@@ -591,6 +817,9 @@ export const generateInvoiceHtml = (invoice: FaturaXmlInvoice): string => {
   <div class="header">
     <h2>E-FATURA</h2>
     <p><b>Fatura Numarasi:</b> ${invoice.invNo} | <b>Tarih:</b> ${invoice.invDate}</p>
+    ${invoice.profileId || invoice.invoiceTypeCode ? `<p><b>Senaryo:</b> ${invoice.profileId || '-'} | <b>Tip:</b> ${invoice.invoiceTypeCode || '-'}</p>` : ''}
+    ${invoice.uuid ? `<p><b>ETTN:</b> ${invoice.uuid}</p>` : ''}
+    ${references ? `<p>${references}</p>` : ''}
   </div>
   <div class="row">
     <div class="box">
@@ -617,7 +846,21 @@ export const generateInvoiceHtml = (invoice: FaturaXmlInvoice): string => {
     </thead>
     <tbody>${linesHtml || '<tr><td colspan="6">Kalem bulunamadi.</td></tr>'}</tbody>
   </table>
+  ${taxRowsHtml ? `<table>
+    <thead>
+      <tr>
+        <th>Vergi</th>
+        <th>Oran (%)</th>
+        <th>Matrah</th>
+        <th>Vergi Tutari</th>
+        <th>Istisna</th>
+      </tr>
+    </thead>
+    <tbody>${taxRowsHtml}</tbody>
+  </table>` : ''}
+  ${notesHtml ? `<div class="box" style="margin-bottom: 20px;"><h4>NOTLAR</h4>${notesHtml}</div>` : ''}
   <div class="totals">
+    ${invoice.allowanceTotalAmount ? `<div class="line"><span>Iskonto:</span><span>${toDisplayString(invoice.allowanceTotalAmount)} ${invoice.currency}</span></div>` : ''}
     <div class="line"><span>Vergisiz Tutar:</span><span>${toDisplayString(invoice.taxExclusiveAmount)} ${invoice.currency}</span></div>
     <div class="line"><span>KDV:</span><span>${toDisplayString(invoice.taxAmount)} ${invoice.currency}</span></div>
     <div class="line total"><span>Genel Toplam:</span><span>${toDisplayString(invoice.taxInclusiveAmount)} ${invoice.currency}</span></div>
@@ -626,15 +869,3 @@ export const generateInvoiceHtml = (invoice: FaturaXmlInvoice): string => {
 </html>
     `;
 };
-
-export const buildFaturaXmlModuleData = (
-    sourceFileName: string,
-    parsed: ParseFaturaXmlResult,
-): FaturaXmlModuleData => ({
-    sourceFileName,
-    processedAt: new Date().toISOString(),
-    invoiceCount: parsed.invoiceCount,
-    itemCount: parsed.itemCount,
-    invoices: parsed.invoices,
-    excelRows: parsed.excelRows,
-});
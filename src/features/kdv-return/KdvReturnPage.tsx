@@ -0,0 +1,314 @@
+import { useMemo, useState } from 'react';
+import { Building2, Download, Layers, UserRound } from 'lucide-react';
+import { Card } from '../../components/common/Card';
+import { useCompany } from '../../context/CompanyContext';
+import type { AccountDetail, Company, KdvInvoiceTotals } from '../common/types';
+import { formatPeriodLabel, getActivePeriod } from '../../services/companyPeriods';
+import { formatCurrency } from '../../utils/formatters';
+import { BALANCE_TOLERANCE, parseFlexibleNumber, round2 } from '../../utils/accounting';
+import {
+    buildKdvReturnDraft,
+    exportKdvReturnDraftExcel,
+    formatMonthLabel,
+    type KdvReturnDraftRow,
+} from './kdvReturnCalculator';
+
+type LedgerSource = 'FIRMA' | 'SMMM';
+
+const EMPTY_ACCOUNTS: AccountDetail[] = [];
+
+const formatDateTime = (value: string): string => {
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) return value;
+    return parsed.toLocaleString('tr-TR');
+};
+
+const differenceClass = (value: number): string => {
+    return Math.abs(value) > BALANCE_TOLERANCE ? 'text-red-300 font-semibold' : 'text-emerald-300';
+};
+
+function SourceStatus({ label, totals }: { label: string; totals?: KdvInvoiceTotals }) {
+    return (
+        <div className="rounded-lg border border-slate-700 bg-slate-900/40 p-3">
+            <p className="text-xs font-semibold text-slate-300">{label}</p>
+            {totals ? (
+                <>
+                    <p className="text-[11px] text-slate-400 mt-1">
+                        {totals.months.reduce((sum, month) => sum + month.invoiceCount, 0)} fatura | {formatDateTime(totals.capturedAt)}
+                    </p>
+                    <p className="text-[11px] text-slate-500 truncate" title={totals.sourceFiles.join(', ')}>
+                        {totals.sourceFiles.join(', ') || '-'}
+                    </p>
+                </>
+            ) : (
+                <p className="text-[11px] text-amber-300 mt-1">
+                    Henuz mutabakat calistirilmadi. KDV Kontrol modulunde mutabakati tamamlayin.
+                </p>
+            )}
+        </div>
+    );
+}
+
+function KdvReturnContent({ activeCompany }: { activeCompany: Company }) {
+    const { patchActiveCompany } = useCompany();
+    const [selectedSource, setSelectedSource] = useState<LedgerSource>('FIRMA');
+    const [isEditingCarryForward, setIsEditingCarryForward] = useState(false);
+    const [carryForwardDraft, setCarryForwardDraft] = useState('');
+    const [exporting, setExporting] = useState(false);
+
+    const firmaData = activeCompany.currentAccount?.firmaFullData ?? EMPTY_ACCOUNTS;
+    const smmmData = activeCompany.currentAccount?.smmmFullData ?? EMPTY_ACCOUNTS;
+    const kdvReturn = activeCompany.kdvReturn;
+    const openingCarryForward = kdvReturn?.openingCarryForward || 0;
+    const activePeriod = getActivePeriod(activeCompany);
+    const periodLabel = activePeriod ? formatPeriodLabel(activePeriod) : '-';
+
+    const source = useMemo<LedgerSource>(() => {
+        if (selectedSource === 'FIRMA' && firmaData.length > 0) return 'FIRMA';
+        if (selectedSource === 'SMMM' && smmmData.length > 0) return 'SMMM';
+        if (firmaData.length > 0) return 'FIRMA';
+        if (smmmData.length > 0) return 'SMMM';
+        return selectedSource;
+    }, [selectedSource, firmaData.length, smmmData.length]);
+
+    const sourceData = source === 'FIRMA' ? firmaData : smmmData;
+
+    const rows = useMemo<KdvReturnDraftRow[]>(() => {
+        return buildKdvReturnDraft(activePeriod, kdvReturn?.sales, kdvReturn?.purchase, sourceData, openingCarryForward);
+    }, [activePeriod, kdvReturn?.sales, kdvReturn?.purchase, sourceData, openingCarryForward]);
+
+    const rates = useMemo(() => {
+        return Array.from(new Set(rows.flatMap((row) => row.byRate.map((item) => item.rate)))).sort((a, b) => a - b);
+    }, [rows]);
+
+    const handleSaveCarryForward = async () => {
+        const parsed = parseFlexibleNumber(carryForwardDraft);
+        const nextValue = parsed === null ? 0 : Math.abs(round2(parsed));
+
+        await patchActiveCompany((company) => ({
+            kdvReturn: {
+                ...(company.kdvReturn || {}),
+                openingCarryForward: nextValue,
+            },
+        }));
+
+        setCarryForwardDraft('');
+        setIsEditingCarryForward(false);
+    };
+
+    const handleExport = async () => {
+        setExporting(true);
+        try {
+            await exportKdvReturnDraftExcel(rows, activeCompany.name, periodLabel);
+        } catch (error) {
+            console.error('KDV beyanname taslagi disa aktarilamadi', error);
+            alert('Excel dosyasi olusturulamadi.');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-start justify-between gap-4 flex-wrap">
+                <div>
+                    <h1 className="text-3xl font-bold text-white mb-2">KDV Beyanname Taslagi</h1>
+                    <p className="text-slate-400 text-sm">
+                        Satis ve alis e-fatura KDV toplamlari ile 391/191/360 defter hareketlerinden aylik KDV1 taslagi olusturulur.
+                    </p>
+                    <p className="text-xs text-blue-300 mt-1">{activeCompany.name} | {periodLabel}</p>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => void handleExport()}
+                    disabled={exporting || rows.length === 0}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm font-semibold transition-colors"
+                >
+                    <Download size={16} />
+                    {exporting ? 'Hazirlaniyor...' : "Excel'e Aktar"}
+                </button>
+            </div>
+
+            <Card className="space-y-4">
+                <div className="flex items-center justify-between gap-4 flex-wrap">
+                    <div>
+                        <h2 className="text-lg font-semibold text-white">Kaynaklar</h2>
+                        <p className="text-xs text-slate-400 mt-1">
+                            Defter karsilastirmasi icin secilen kaynagin kebir dosyasi kullanilir.
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            type="button"
+                            onClick={() => setSelectedSource('FIRMA')}
+                            className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${source === 'FIRMA'
+                                ? 'bg-indigo-600 border-indigo-500 text-white'
+                                : 'bg-slate-900/50 border-slate-700 text-slate-300 hover:border-indigo-400/50'
+                                }`}
+                        >
+                            <span className="inline-flex items-center gap-2">
+                                <Building2 size={14} /> Firma ({firmaData.length})
+                            </span>
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setSelectedSource('SMMM')}
+                            className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${source === 'SMMM'
+                                ? 'bg-blue-600 border-blue-500 text-white'
+                                : 'bg-slate-900/50 border-slate-700 text-slate-300 hover:border-blue-400/50'
+                                }`}
+                        >
+                            <span className="inline-flex items-center gap-2">
+                                <UserRound size={14} /> SMMM ({smmmData.length})
+                            </span>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <SourceStatus label="Satis E-Fatura (Hesaplanan KDV)" totals={kdvReturn?.sales} />
+                    <SourceStatus label="Alis E-Fatura (Indirilecek KDV)" totals={kdvReturn?.purchase} />
+                    <div className="rounded-lg border border-slate-700 bg-slate-900/40 p-3">
+                        <p className="text-xs font-semibold text-slate-300">Donem Basi Devreden KDV</p>
+                        <p className="text-[11px] text-slate-500 mt-1">Ilk ayin onceki aydan devreden KDV tutari.</p>
+                        <div className="flex items-center gap-2 mt-2">
+                            {isEditingCarryForward ? (
+                                <>
+                                    <input
+                                        type="text"
+                                        value={carryForwardDraft}
+                                        onChange={(event) => setCarryForwardDraft(event.target.value)}
+                                        onKeyDown={(event) => {
+                                            if (event.key === 'Enter') {
+                                                event.preventDefault();
+                                                void handleSaveCarryForward();
+                                            }
+                                            if (event.key === 'Escape') {
+                                                event.preventDefault();
+                                                setIsEditingCarryForward(false);
+                                            }
+                                        }}
+                                        className="h-8 w-36 px-2 bg-slate-900 border border-slate-700 rounded-md text-xs text-slate-100 focus:outline-none focus:border-blue-500"
+                                        autoFocus
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => void handleSaveCarryForward()}
+                                        className="h-8 px-2 rounded-md border border-emerald-500/40 text-emerald-200 text-xs font-semibold hover:bg-emerald-500/10 transition-colors"
+                                    >
+                                        Kaydet
+                                    </button>
+                                </>
+                            ) : (
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setCarryForwardDraft(String(openingCarryForward));
+                                        setIsEditingCarryForward(true);
+                                    }}
+                                    className="text-sm font-semibold text-blue-300 hover:text-blue-200 transition-colors"
+                                    title="Degistirmek icin tiklayin"
+                                >
+                                    {formatCurrency(openingCarryForward)}
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </Card>
+
+            <Card className="space-y-3">
+                <div>
+                    <h2 className="text-lg font-semibold text-white">KDV1 Taslak</h2>
+                    <p className="text-xs text-slate-400 mt-1">
+                        Fark sutunlari taslak tutar ile defter hareketi arasindaki farki gosterir (391 alacak, 191 borc, 360 KDV alacak).
+                        Odenecek KDV tevkif edilen KDV ve iade faturalari dusulerek hesaplanir; iptal edilen faturalar toplamlara girmez.
+                    </p>
+                </div>
+                <div className="overflow-auto rounded-xl border border-slate-700">
+                    <table className="w-full text-xs text-left">
+                        <thead className="bg-slate-900/80 text-slate-400 uppercase tracking-wider">
+                            <tr>
+                                <th className="p-3">Ay</th>
+                                {rates.map((rate) => (
+                                    <th key={rate} className="p-3 text-right whitespace-nowrap">Matrah %{rate}</th>
+                                ))}
+                                <th className="p-3 text-right whitespace-nowrap">Hesaplanan KDV</th>
+                                <th className="p-3 text-right whitespace-nowrap">Fark (391)</th>
+                                <th className="p-3 text-right whitespace-nowrap">Tevkif Edilen (Satis)</th>
+                                <th className="p-3 text-right whitespace-nowrap">Satistan Iade</th>
+                                <th className="p-3 text-right whitespace-nowrap">Indirilecek KDV</th>
+                                <th className="p-3 text-right whitespace-nowrap">Fark (191)</th>
+                                <th className="p-3 text-right whitespace-nowrap">Alistan Iade</th>
+                                <th className="p-3 text-right whitespace-nowrap">Devreden (Onceki)</th>
+                                <th className="p-3 text-right whitespace-nowrap">Odenecek KDV</th>
+                                <th className="p-3 text-right whitespace-nowrap">Fark (360)</th>
+                                <th className="p-3 text-right whitespace-nowrap">Sonraki Aya Devreden</th>
+                                <th className="p-3 text-right whitespace-nowrap">KDV2 Tevkifat (Alis)</th>
+                                <th className="p-3 text-right whitespace-nowrap">KDV2 (360 Sorumlu)</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5 text-slate-300">
+                            {rows.map((row) => (
+                                <tr key={row.month} className="hover:bg-blue-500/5 transition-colors">
+                                    <td className="p-3 font-semibold text-white whitespace-nowrap">{formatMonthLabel(row.month)}</td>
+                                    {rates.map((rate) => (
+                                        <td key={rate} className="p-3 text-right whitespace-nowrap">
+                                            {formatCurrency(row.byRate.find((item) => item.rate === rate)?.matrah || 0)}
+                                        </td>
+                                    ))}
+                                    <td className="p-3 text-right whitespace-nowrap">{formatCurrency(row.calculatedKdv)}</td>
+                                    <td className={`p-3 text-right whitespace-nowrap ${differenceClass(row.calculatedDifference)}`}>
+                                        {formatCurrency(row.calculatedDifference)}
+                                    </td>
+                                    <td className="p-3 text-right whitespace-nowrap">{formatCurrency(row.salesWithheldKdv)}</td>
+                                    <td className="p-3 text-right whitespace-nowrap">{formatCurrency(row.salesReturnKdv)}</td>
+                                    <td className="p-3 text-right whitespace-nowrap">{formatCurrency(row.deductibleKdv)}</td>
+                                    <td className={`p-3 text-right whitespace-nowrap ${differenceClass(row.deductibleDifference)}`}>
+                                        {formatCurrency(row.deductibleDifference)}
+                                    </td>
+                                    <td className="p-3 text-right whitespace-nowrap">{formatCurrency(row.purchaseReturnKdv)}</td>
+                                    <td className="p-3 text-right whitespace-nowrap">{formatCurrency(row.previousCarryForward)}</td>
+                                    <td className="p-3 text-right whitespace-nowrap font-semibold text-white">{formatCurrency(row.payableKdv)}</td>
+                                    <td className={`p-3 text-right whitespace-nowrap ${differenceClass(row.payableDifference)}`}>
+                                        {formatCurrency(row.payableDifference)}
+                                    </td>
+                                    <td className="p-3 text-right whitespace-nowrap">{formatCurrency(row.nextCarryForward)}</td>
+                                    <td className="p-3 text-right whitespace-nowrap">{formatCurrency(row.purchaseWithheldKdv)}</td>
+                                    <td className="p-3 text-right whitespace-nowrap">{formatCurrency(row.ledger.payableKdv2)}</td>
+                                </tr>
+                            ))}
+                            {rows.length === 0 && (
+                                <tr>
+                                    <td colSpan={14 + rates.length} className="p-10 text-center text-slate-500">
+                                        Taslak icin veri bulunamadi.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+        </div>
+    );
+}
+
+export default function KdvReturnPage() {
+    const { activeCompany } = useCompany();
+
+    if (!activeCompany) {
+        return (
+            <div className="flex flex-col items-center justify-center h-[60vh] text-center animate-fade-in">
+                <div className="w-24 h-24 bg-slate-800 rounded-full flex items-center justify-center mb-6">
+                    <Layers className="text-slate-600 w-12 h-12" />
+                </div>
+                <h2 className="text-2xl font-bold text-white mb-2">Firma secimi gerekli</h2>
+                <p className="text-slate-400 max-w-md">
+                    KDV beyanname taslagi icin lutfen once firma secin.
+                </p>
+            </div>
+        );
+    }
+
+    return <KdvReturnContent key={`${activeCompany.id}:${activeCompany.activePeriodId}`} activeCompany={activeCompany} />;
+}
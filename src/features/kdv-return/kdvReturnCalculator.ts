@@ -0,0 +1,321 @@
+import type {
+    AccountDetail,
+    CompanyPeriod,
+    KdvInvoiceMonthTotals,
+    KdvInvoiceTotals,
+    KdvRateTotal,
+} from '../common/types';
+import { getMainAccountCode } from '../mizan/accountingRules';
+import { BALANCE_TOLERANCE, getTransactionAmount, parseTransactionDate, round2 } from '../../utils/accounting';
+import { KDV_BREAKDOWN_RATES, getRateKdvKey, getRateMatrahKey } from '../reconciliation/utils/kdvRates';
+import { isReturnInvoice } from '../reconciliation/utils/invoiceReversals';
+import { getWithheldKdv } from '../reconciliation/utils/withholding';
+
+const STANDARD_KDV_RATES = [0, 1, 8, 10, 18, 20];
+const RATE_SNAP_TOLERANCE = 0.5;
+
+// 360 altinda KDV2 (sorumlu sifatiyla) hesaplari genellikle bu ifadelerle acilir.
+const KDV2_ACCOUNT_PATTERN = /SORUMLU|TEVK[Iİ]FAT|KDV\s*2|2\s*NO/i;
+const KDV_ACCOUNT_PATTERN = /KDV|KATMA/i;
+
+export interface KdvReturnLedgerMonth {
+    calculatedKdv: number; // 391 alacak
+    deductibleKdv: number; // 191 borc
+    payableKdv1: number; // 360 KDV alacak
+    payableKdv2: number; // 360 sorumlu KDV alacak
+}
+
+export interface KdvReturnDraftRow {
+    month: string;
+    byRate: KdvRateTotal[];
+    salesMatrah: number;
+    calculatedKdv: number;
+    /** Satis faturalarinda aliciya birakilan (tevkif edilen) KDV. */
+    salesWithheldKdv: number;
+    /** Alis listesindeki IADE faturalari: musteriden geri alinan satislarin KDV'si. */
+    salesReturnKdv: number;
+    deductibleKdv: number;
+    /** Satis listesindeki IADE faturalari: saticiya iade edilen alislarin KDV'si. */
+    purchaseReturnKdv: number;
+    /** Alis faturalarinda sorumlu sifatiyla KDV2 ile beyan edilecek tutar. */
+    purchaseWithheldKdv: number;
+    previousCarryForward: number;
+    payableKdv: number;
+    nextCarryForward: number;
+    ledger: KdvReturnLedgerMonth;
+    calculatedDifference: number;
+    deductibleDifference: number;
+    payableDifference: number;
+}
+
+const toMonthKey = (date: Date): string => {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const formatMonthLabel = (month: string): string => {
+    const [year, monthNo] = month.split('-');
+    return `${monthNo}/${year}`;
+};
+
+const inferKdvRate = (matrah: number, kdv: number): number => {
+    if (Math.abs(matrah) <= BALANCE_TOLERANCE) return 0;
+    const raw = (kdv / matrah) * 100;
+    const snapped = STANDARD_KDV_RATES.find((rate) => Math.abs(rate - raw) <= RATE_SNAP_TOLERANCE);
+    return snapped ?? Math.round(raw);
+};
+
+const readNumber = (row: Record<string, unknown>, key: string): number => {
+    return getTransactionAmount(row[key]);
+};
+
+/**
+ * Groups reconciled e-invoice rows by invoice month and KDV rate, converting foreign currency with the row's rate.
+ * Iade faturalari ve tevkifat ayri toplanir; iptal edilen faturalar mutabakatta zaten ayrildigi icin gelmez.
+ */
+export const buildKdvInvoiceTotals = (
+    mode: 'SALES' | 'PURCHASE',
+    rows: ReadonlyArray<object>,
+    sourceFiles: string[]
+): KdvInvoiceTotals => {
+    const months = new Map<string, KdvInvoiceMonthTotals & { rates: Map<number, KdvRateTotal> }>();
+
+    rows.forEach((item) => {
+        const row = item as Record<string, unknown>;
+        const date = parseTransactionDate(row['Fatura Tarihi'] as string | number | Date | null | undefined);
+        if (!date) return;
+
+        const currency = String(row['Para Birimi'] || '').toLocaleUpperCase('tr-TR');
+        const isTry = !currency || currency.includes('TRY') || currency.includes('TL');
+        const exchangeRate = isTry ? 1 : (readNumber(row, 'Döviz Kuru') || 1);
+        const rawKdv = readNumber(row, 'KDV Tutarı');
+        const kdv = round2(rawKdv * exchangeRate);
+        const matrah = round2(readNumber(row, 'Matrah') * exchangeRate);
+
+        const key = toMonthKey(date);
+        let month = months.get(key);
+        if (!month) {
+            month = {
+                month: key,
+                invoiceCount: 0,
+                matrah: 0,
+                kdv: 0,
+                byRate: [],
+                withheldKdv: 0,
+                returnKdv: 0,
+                returnCount: 0,
+                rates: new Map(),
+            };
+            months.set(key, month);
+        }
+        month.invoiceCount += 1;
+
+        if (isReturnInvoice(row)) {
+            month.returnKdv = round2((month.returnKdv || 0) + kdv);
+            month.returnCount = (month.returnCount || 0) + 1;
+            return;
+        }
+
+        month.withheldKdv = round2((month.withheldKdv || 0) + getWithheldKdv(row, rawKdv) * exchangeRate);
+        month.matrah = round2(month.matrah + matrah);
+        month.kdv = round2(month.kdv + kdv);
+
+        // Alis satirlarinda matrah tasinmadigi icin oran dagilimi yalnizca satis tarafinda anlamlidir.
+        if (mode === 'SALES') {
+            const addRate = (rate: number, rateMatrah: number, rateKdv: number) => {
+                const rateTotal = month.rates.get(rate) || { rate, matrah: 0, kdv: 0 };
+                rateTotal.matrah = round2(rateTotal.matrah + rateMatrah);
+                rateTotal.kdv = round2(rateTotal.kdv + rateKdv);
+                month.rates.set(rate, rateTotal);
+            };
+            // Oran sutunlari eslenmisse karma faturalar dagitilir, aksi halde oran tutarlardan cikarilir.
+            const mappedRates = KDV_BREAKDOWN_RATES.filter((rate) => row[getRateKdvKey(rate)] !== undefined || row[getRateMatrahKey(rate)] !== undefined);
+            if (mappedRates.length > 0) {
+                mappedRates.forEach((rate) => addRate(
+                    rate,
+                    round2(readNumber(row, getRateMatrahKey(rate)) * exchangeRate),
+                    round2(readNumber(row, getRateKdvKey(rate)) * exchangeRate)
+                ));
+            } else {
+                addRate(inferKdvRate(matrah, kdv), matrah, kdv);
+            }
+        }
+    });
+
+    return {
+        mode,
+        capturedAt: new Date().toISOString(),
+        sourceFiles,
+        months: Array.from(months.values())
+            .map(({ rates, ...month }) => ({
+                ...month,
+                byRate: Array.from(rates.values()).sort((left, right) => left.rate - right.rate),
+            }))
+            .sort((left, right) => left.month.localeCompare(right.month)),
+    };
+};
+
+/**
+ * Mahsup fisi 391'i borclandirip 191'i alacaklandirdigi icin net bakiye yerine brut taraf kullanilir:
+ * 391 alacak = hesaplanan, 191 borc = indirilecek, 360 KDV alacak = odenecek.
+ */
+export const buildKdvLedgerMonths = (accounts: AccountDetail[]): Map<string, KdvReturnLedgerMonth> => {
+    const months = new Map<string, KdvReturnLedgerMonth>();
+    const getMonth = (key: string) => {
+        let month = months.get(key);
+        if (!month) {
+            month = { calculatedKdv: 0, deductibleKdv: 0, payableKdv1: 0, payableKdv2: 0 };
+            months.set(key, month);
+        }
+        return month;
+    };
+
+    accounts.forEach((account) => {
+        const mainCode = getMainAccountCode(account.code);
+        if (mainCode !== '191' && mainCode !== '391' && mainCode !== '360') return;
+        if (mainCode === '360' && !KDV_ACCOUNT_PATTERN.test(account.name)) return;
+        const isKdv2 = mainCode === '360' && KDV2_ACCOUNT_PATTERN.test(account.name);
+
+        account.transactions.forEach((transaction) => {
+            const date = parseTransactionDate(transaction.date);
+            if (!date) return;
+            const month = getMonth(toMonthKey(date));
+            const debit = getTransactionAmount(transaction.debit);
+            const credit = getTransactionAmount(transaction.credit);
+
+            if (mainCode === '391') month.calculatedKdv = round2(month.calculatedKdv + credit);
+            else if (mainCode === '191') month.deductibleKdv = round2(month.deductibleKdv + debit);
+            else if (isKdv2) month.payableKdv2 = round2(month.payableKdv2 + credit);
+            else month.payableKdv1 = round2(month.payableKdv1 + credit);
+        });
+    });
+
+    return months;
+};
+
+const getPeriodMonths = (period: CompanyPeriod | null, fallbackMonths: string[]): string[] => {
+    if (!period) return [...fallbackMonths].sort();
+    const months: string[] = [];
+    for (let month = period.startMonth; month <= period.endMonth; month += 1) {
+        months.push(`${period.year}-${String(month).padStart(2, '0')}`);
+    }
+    return months;
+};
+
+export const buildKdvReturnDraft = (
+    period: CompanyPeriod | null,
+    sales: KdvInvoiceTotals | undefined,
+    purchase: KdvInvoiceTotals | undefined,
+    ledgerAccounts: AccountDetail[],
+    openingCarryForward = 0
+): KdvReturnDraftRow[] => {
+    const salesByMonth = new Map((sales?.months || []).map((month) => [month.month, month]));
+    const purchaseByMonth = new Map((purchase?.months || []).map((month) => [month.month, month]));
+    const ledgerByMonth = buildKdvLedgerMonths(ledgerAccounts);
+
+    const fallbackMonths = new Set<string>([...salesByMonth.keys(), ...purchaseByMonth.keys(), ...ledgerByMonth.keys()]);
+    const months = getPeriodMonths(period, Array.from(fallbackMonths));
+
+    let carryForward = round2(Math.max(0, openingCarryForward));
+    return months.map((month) => {
+        const salesMonth = salesByMonth.get(month);
+        const purchaseMonth = purchaseByMonth.get(month);
+        const ledger = ledgerByMonth.get(month) || { calculatedKdv: 0, deductibleKdv: 0, payableKdv1: 0, payableKdv2: 0 };
+
+        const calculatedKdv = salesMonth?.kdv || 0;
+        const salesWithheldKdv = salesMonth?.withheldKdv || 0;
+        const salesReturnKdv = purchaseMonth?.returnKdv || 0;
+        const deductibleKdv = purchaseMonth?.kdv || 0;
+        const purchaseReturnKdv = salesMonth?.returnKdv || 0;
+        const previousCarryForward = carryForward;
+        // Tevkif edilen kisim ve musteriden gelen iadeler hesaplanan KDV'yi, saticiya yapilan iadeler indirimi azaltir.
+        const netCalculatedKdv = round2(calculatedKdv - salesWithheldKdv - salesReturnKdv);
+        const netDeductibleKdv = round2(deductibleKdv - purchaseReturnKdv);
+        const balance = round2(netCalculatedKdv - netDeductibleKdv - previousCarryForward);
+        const payableKdv = balance > 0 ? balance : 0;
+        const nextCarryForward = balance < 0 ? round2(-balance) : 0;
+        carryForward = nextCarryForward;
+
+        return {
+            month,
+            byRate: salesMonth?.byRate || [],
+            salesMatrah: salesMonth?.matrah || 0,
+            calculatedKdv,
+            salesWithheldKdv,
+            salesReturnKdv,
+            deductibleKdv,
+            purchaseReturnKdv,
+            purchaseWithheldKdv: purchaseMonth?.withheldKdv || 0,
+            previousCarryForward,
+            payableKdv,
+            nextCarryForward,
+            ledger,
+            calculatedDifference: round2(calculatedKdv - ledger.calculatedKdv),
+            deductibleDifference: round2(deductibleKdv - ledger.deductibleKdv),
+            payableDifference: round2(payableKdv - ledger.payableKdv1),
+        };
+    });
+};
+
+export const exportKdvReturnDraftExcel = async (rows: KdvReturnDraftRow[], companyName: string, periodLabel: string) => {
+    const XLSX = await import('xlsx');
+    const { applyStyledSheet } = await import('../../utils/excelStyle');
+
+    const rates = Array.from(new Set(rows.flatMap((row) => row.byRate.map((item) => item.rate)))).sort((a, b) => a - b);
+
+    const kdv1Rows = rows.map((row) => {
+        const rateColumns: Record<string, number> = {};
+        rates.forEach((rate) => {
+            const item = row.byRate.find((entry) => entry.rate === rate);
+            rateColumns[`Matrah %${rate}`] = item?.matrah || 0;
+            rateColumns[`KDV %${rate}`] = item?.kdv || 0;
+        });
+        return {
+            Donem: formatMonthLabel(row.month),
+            ...rateColumns,
+            'Toplam Matrah': row.salesMatrah,
+            'Hesaplanan KDV': row.calculatedKdv,
+            'Tevkif Edilen KDV (Satis)': row.salesWithheldKdv,
+            'Satistan Iade KDV': row.salesReturnKdv,
+            'Indirilecek KDV': row.deductibleKdv,
+            'Alistan Iade KDV': row.purchaseReturnKdv,
+            'Onceki Aydan Devreden KDV': row.previousCarryForward,
+            'Odenecek KDV': row.payableKdv,
+            'Sonraki Aya Devreden KDV': row.nextCarryForward,
+            'Defter 391 Alacak': row.ledger.calculatedKdv,
+            'Hesaplanan Fark (391)': row.calculatedDifference,
+            'Defter 191 Borc': row.ledger.deductibleKdv,
+            'Indirilecek Fark (191)': row.deductibleDifference,
+            'Defter 360 KDV': row.ledger.payableKdv1,
+            'Odenecek Fark (360)': row.payableDifference,
+        };
+    });
+    const kdv2Rows = rows.map((row) => ({
+        Donem: formatMonthLabel(row.month),
+        'Alis Tevkifat (E-Fatura)': row.purchaseWithheldKdv,
+        'Defter 360 Sorumlu KDV': row.ledger.payableKdv2,
+    }));
+
+    const workbook = XLSX.utils.book_new();
+    const infoSheet = XLSX.utils.json_to_sheet([
+        { Baslik: 'Firma', Deger: companyName },
+        { Baslik: 'Donem', Deger: periodLabel },
+        { Baslik: 'Olusturma Zamani', Deger: new Date().toLocaleString('tr-TR') },
+    ]);
+    applyStyledSheet(infoSheet, { headerRowIndex: 0 });
+    XLSX.utils.book_append_sheet(workbook, infoSheet, 'Bilgi');
+
+    const kdv1Sheet = XLSX.utils.json_to_sheet(kdv1Rows);
+    const kdv1Headers = Object.keys(kdv1Rows[0] || {});
+    applyStyledSheet(kdv1Sheet, {
+        headerRowIndex: 0,
+        numericColumns: kdv1Headers.map((_, index) => index).filter((index) => index > 0),
+    });
+    XLSX.utils.book_append_sheet(workbook, kdv1Sheet, 'KDV1 Taslak');
+
+    const kdv2Sheet = XLSX.utils.json_to_sheet(kdv2Rows);
+    applyStyledSheet(kdv2Sheet, { headerRowIndex: 0, numericColumns: [1, 2] });
+    XLSX.utils.book_append_sheet(workbook, kdv2Sheet, 'KDV2 Defter');
+
+    const safePeriod = periodLabel.replace(/[^0-9A-Za-z]+/g, '_');
+    XLSX.writeFile(workbook, `kdv_beyanname_taslagi_${safePeriod}.xlsx`);
+};
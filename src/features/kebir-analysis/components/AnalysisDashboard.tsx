@@ -5,6 +5,7 @@ import { BarChart2, Hash, Layers, PieChart, TrendingUp, RefreshCw, Activity, Bug
 import { useState } from 'react';
 import AccountDetailModal from './AccountDetailModal';
 import MizanModal from './MizanModal';
+import { DataQualityTable } from '../../../components/common/DataQualityTable';
 
 interface AnalysisDashboardProps {
     data: KebirAnalysisResult;
@@ -68,6 +69,9 @@ export default function AnalysisDashboard({ data, onReset }: AnalysisDashboardPr
                         <AlertTriangle size={14} /> Debug Bilgileri
                     </h4>
                     <p><span className="text-slate-500">Dosya:</span> {data.debugMeta.fileName}</p>
+                    {data.debugMeta.sheets && data.debugMeta.sheets.length > 0 && (
+                        <p><span className="text-slate-500">Sayfalar:</span> {data.debugMeta.sheets.join(', ')}</p>
+                    )}
                     <p><span className="text-slate-500">Tarih Metodu:</span> {data.debugMeta.dateMethod || 'Bilinmiyor'}</p>
                     <p><span className="text-slate-500">Col Map:</span> {JSON.stringify(data.debugMeta.detectedColumns)}</p>
                     <p><span className="text-slate-500">Ayrıştırılan Tarih:</span> {data.debugMeta.parsedDateCount || 0} adet</p>
@@ -299,6 +303,20 @@ export default function AnalysisDashboard({ data, onReset }: AnalysisDashboardPr
                 </Card>
             </div>
 
+            {/* Data quality */}
+            {data.quality?.rows && (
+                <Card className="p-4 space-y-3">
+                    <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-slate-400">
+                        <span>Okunan satır: <span className="text-white font-medium">{data.quality.totalRows.toLocaleString('tr-TR')}</span></span>
+                        <span>Hareket: <span className="text-white font-medium">{data.quality.transactionRows.toLocaleString('tr-TR')}</span></span>
+                        <span>Kodsuz: <span className="text-amber-300 font-medium">{data.quality.skippedNoCodeRows}</span></span>
+                        <span>Toplam / devir: <span className="text-amber-300 font-medium">{data.quality.skippedSummaryRows}</span></span>
+                        <span>Geçersiz tarih: <span className="text-amber-300 font-medium">{data.quality.invalidDateRows}</span></span>
+                    </div>
+                    <DataQualityTable title="Veri Kalitesi" fileName={data.debugMeta?.fileName} rows={data.quality.rows} />
+                </Card>
+            )}
+
             {/* MODALS */}
             {showMizan && data.mizan && (
                 <MizanModal
@@ -1,16 +1,21 @@
-import { useState, useEffect } from 'react';
-import { parseKebirFile } from '../utils/kebirParser';
+import { useState, useEffect, useRef } from 'react';
+import { parseKebirFile } from '../../../services/ledgerParser';
 import UploadSection from './UploadSection';
 import AnalysisDashboard from './AnalysisDashboard';
 import { AlertCircle } from 'lucide-react';
 import { useCompany } from '../../../context/CompanyContext';
 import NoCompanySelected from '../../../components/common/NoCompanySelected';
+import type { SheetSelection } from '../../../utils/workbookSheets';
+import { ParseProgress } from '../../../components/common/ParseProgress';
+import { isLedgerParseCancelled, type LedgerParseProgress } from '../../../utils/ledgerParseLimits';
 
 export default function KebirAnalysisPage() {
     const { activeCompany, patchActiveCompany, setActiveUploads } = useCompany();
     const [step, setStep] = useState<'UPLOAD' | 'ANALYSIS'>('UPLOAD');
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [progress, setProgress] = useState<LedgerParseProgress | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
 
     // Initialize state from active company
     useEffect(() => {
@@ -21,17 +26,20 @@ export default function KebirAnalysisPage() {
         }
     }, [activeCompany?.id, activeCompany?.kebirAnalysis]);
 
-    const handleFileSelect = async (file: File) => {
+    const handleFileSelect = async (file: File, sheetSelection?: SheetSelection) => {
         if (!activeCompany) return;
 
         setActiveUploads((current) => ({
             ...current,
             kebirFile: file,
         }));
+        const controller = new AbortController();
+        abortRef.current = controller;
         setLoading(true);
         setError(null);
+        setProgress(null);
         try {
-            const result = await parseKebirFile(file);
+            const result = await parseKebirFile(file, sheetSelection, { onProgress: setProgress, signal: controller.signal });
 
             // Save to DB via global context
             await patchActiveCompany(() => ({
@@ -40,10 +48,16 @@ export default function KebirAnalysisPage() {
 
             setStep('ANALYSIS');
         } catch (err: unknown) {
+            if (isLedgerParseCancelled(err)) {
+                setActiveUploads((current) => ({ ...current, kebirFile: null }));
+                return;
+            }
             console.error(err);
             setError(err instanceof Error ? err.message : 'Dosya işlenirken bilinmeyen bir hata oluştu.');
         } finally {
+            abortRef.current = null;
             setLoading(false);
+            setProgress(null);
         }
     };
 
@@ -83,7 +97,8 @@ export default function KebirAnalysisPage() {
                         <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin absolute top-0 left-0"></div>
                     </div>
                     <p className="text-lg font-bold text-white animate-pulse">Dosya Analiz Ediliyor...</p>
-                    <p className="text-slate-400 text-sm mt-2">Bu işlem dosya boyutuna göre biraz zaman alabilir.</p>
+                    <p className="text-slate-400 text-sm mt-2 mb-6">Bu işlem dosya boyutuna göre biraz zaman alabilir.</p>
+                    <ParseProgress progress={progress} onCancel={() => abortRef.current?.abort()} />
                 </div>
             )}
 
@@ -1,13 +1,24 @@
 import { useRef, useState } from 'react';
 import { Upload, FileSpreadsheet } from 'lucide-react';
+import { SheetSelector } from '../../../components/SheetSelector';
+import { readWorkbookSheetNames, type SheetSelection } from '../../../utils/workbookSheets';
+import { SPREADSHEET_ACCEPT, isSpreadsheetFile } from '../../../utils/spreadsheetFile';
 
 interface UploadSectionProps {
-    onFileSelect: (file: File) => void;
+    onFileSelect: (file: File, sheetSelection?: SheetSelection) => void;
+}
+
+interface PendingWorkbook {
+    file: File;
+    sheetNames: string[];
+    selection: SheetSelection;
 }
 
 export default function UploadSection({ onFileSelect }: UploadSectionProps) {
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [isDragging, setIsDragging] = useState(false);
+    // Birden fazla sayfali dosyalarda analizden once sayfa secimi istenir.
+    const [pending, setPending] = useState<PendingWorkbook | null>(null);
 
     const handleDragOver = (e: React.DragEvent) => {
         e.preventDefault();
@@ -22,22 +33,32 @@ export default function UploadSection({ onFileSelect }: UploadSectionProps) {
         e.preventDefault();
         setIsDragging(false);
         if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-            validateAndSelect(e.dataTransfer.files[0]);
+            void validateAndSelect(e.dataTransfer.files[0]);
         }
     };
 
     const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
-            validateAndSelect(e.target.files[0]);
+            void validateAndSelect(e.target.files[0]);
         }
     };
 
-    const validateAndSelect = (file: File) => {
-        if (!file.name.match(/\.(xlsx|xls)$/)) {
-            alert("Lütfen geçerli bir Excel dosyası yükleyin (.xlsx veya .xls)");
+    const validateAndSelect = async (file: File) => {
+        if (!isSpreadsheetFile(file.name)) {
+            alert("Lütfen geçerli bir tablo dosyası yükleyin (.xlsx, .xls, .ods, .csv veya .txt)");
+            return;
+        }
+        let sheetNames: string[] = [];
+        try {
+            sheetNames = await readWorkbookSheetNames(file);
+        } catch {
+            // Okunamayan dosyanin hatasi analiz sirasinda gosterilir
+        }
+        if (sheetNames.length < 2) {
+            onFileSelect(file);
             return;
         }
-        onFileSelect(file);
+        setPending({ file, sheetNames, selection: { sheetName: sheetNames[0], allSheets: true } });
     };
 
     return (
@@ -63,7 +84,7 @@ export default function UploadSection({ onFileSelect }: UploadSectionProps) {
                     Kebir Dosyasını Yükle
                 </h3>
                 <p className="text-slate-400 mb-8 max-w-md mx-auto">
-                    Excel formatındaki (.xlsx) Kebir dosyanızı buraya sürükleyin veya seçmek için tıklayın.
+                    Excel, ODS, CSV veya TXT formatındaki Kebir dosyanızı buraya sürükleyin veya seçmek için tıklayın.
                 </p>
 
                 <button className="bg-blue-600 hover:bg-blue-500 text-white px-8 py-3 rounded-xl font-bold transition-all shadow-lg hover:shadow-blue-500/25">
@@ -74,11 +95,41 @@ export default function UploadSection({ onFileSelect }: UploadSectionProps) {
                     type="file"
                     ref={fileInputRef}
                     className="hidden"
-                    accept=".xlsx,.xls"
+                    accept={SPREADSHEET_ACCEPT}
                     onChange={handleFileInput}
                 />
             </div>
 
+            {pending && (
+                <div className="mt-6 rounded-2xl border border-slate-700 bg-slate-800/60 p-4 space-y-3">
+                    <p className="text-sm text-white font-bold">
+                        {pending.file.name} <span className="text-slate-400 font-normal">· {pending.sheetNames.length} sayfa</span>
+                    </p>
+                    <SheetSelector
+                        sheetNames={pending.sheetNames}
+                        selection={pending.selection}
+                        onChange={(selection) => setPending({ ...pending, selection })}
+                    />
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={() => setPending(null)}
+                            className="px-4 py-2 text-sm text-slate-400 hover:text-white transition-colors"
+                        >
+                            Vazgeç
+                        </button>
+                        <button
+                            onClick={() => {
+                                onFileSelect(pending.file, pending.selection);
+                                setPending(null);
+                            }}
+                            className="bg-blue-600 hover:bg-blue-500 text-white px-5 py-2 rounded-xl text-sm font-bold transition-all"
+                        >
+                            Analizi Başlat
+                        </button>
+                    </div>
+                </div>
+            )}
+
             <div className="mt-8 bg-blue-900/20 border border-blue-500/20 rounded-xl p-4 flex items-start gap-3">
                 <FileSpreadsheet className="text-blue-400 shrink-0 mt-1" size={20} />
                 <div className="text-sm">
@@ -0,0 +1,189 @@
+import { normalizeHeaderText } from '../reconciliation/utils/columnDetection';
+
+export const LEDGER_FIELDS = [
+    'code',
+    'name',
+    'date',
+    'desc',
+    'debit',
+    'credit',
+    'voucher',
+    'document',
+    'currency',
+    'exchangeRate',
+    'fxDebit',
+    'fxCredit',
+    'fxBalance',
+] as const;
+
+export type LedgerField = typeof LEDGER_FIELDS[number];
+
+export const LEDGER_FIELD_LABELS: Record<LedgerField, string> = {
+    code: 'Hesap Kodu',
+    name: 'Hesap Adı',
+    date: 'Tarih',
+    desc: 'Açıklama',
+    debit: 'Borç',
+    credit: 'Alacak',
+    voucher: 'Fiş No',
+    document: 'Evrak No',
+    currency: 'Döviz Cinsi',
+    exchangeRate: 'Kur',
+    fxDebit: 'Döviz Borç',
+    fxCredit: 'Döviz Alacak',
+    fxBalance: 'Döviz Bakiye',
+};
+
+export interface LedgerColumns {
+    /** Sutunlari bulan dedektorun kimligi. */
+    detector: string;
+    headerRowIndex: number;
+    columns: Partial<Record<LedgerField, number>>;
+    /** Tarih sutunu baslikta yoksa degerlerden bulunur. */
+    dateSource?: 'HEADER' | 'VALUES';
+}
+
+/** A detector looks at the first rows of a sheet and returns the header row and field columns, or null. */
+export interface LedgerColumnDetector {
+    id: string;
+    detect: (rows: unknown[][]) => LedgerColumns | null;
+}
+
+const HEADER_SCAN_LIMIT = 50;
+const KEYWORD_SCAN_LIMIT = 25;
+const HEADER_KEYWORDS = ['hesap', 'kod', 'ad', 'tarih', 'aciklama', 'borc', 'alacak', 'evrak', 'fis', 'doviz', 'kur'];
+
+const parseIndex = (value: string | undefined): number | undefined => {
+    if (value === undefined || value === '') return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) return undefined;
+    return parsed;
+};
+
+/** Kullanicinin sutun eslestirmesi (alan -> sutun sirasi, __headerRow ile). */
+export const createMappingDetector = (mapping: Record<string, string>): LedgerColumnDetector => ({
+    id: 'mapping',
+    detect: () => {
+        const columns: Partial<Record<LedgerField, number>> = {};
+        LEDGER_FIELDS.forEach((field) => {
+            const index = parseIndex(mapping[field]);
+            if (index !== undefined) columns[field] = index;
+        });
+        return { detector: 'mapping', headerRowIndex: parseIndex(mapping.__headerRow) ?? 0, columns, dateSource: 'HEADER' };
+    },
+});
+
+const detectKeywordColumns = (headers: string[]): Partial<Record<LedgerField, number>> => {
+    const columns: Partial<Record<LedgerField, number>> = {};
+    headers.forEach((header, idx) => {
+        if (header.includes('hesap kodu') || header === 'kod') columns.code = idx;
+        else if (header.includes('hesap adi') || header.includes('hesap unvani')) columns.name = idx;
+        else if (header.includes('tarih')) columns.date = idx;
+        else if (header.includes('aciklama')) columns.desc = idx;
+        else if (header.includes('doviz') && header.includes('borc')) columns.fxDebit = idx;
+        else if (header.includes('doviz') && header.includes('alacak')) columns.fxCredit = idx;
+        else if (header.includes('doviz') && header.includes('bakiye')) columns.fxBalance = idx;
+        else if (header.includes('doviz') && (header.includes('cinsi') || header.includes('tipi') || header.includes('para birimi'))) columns.currency = idx;
+        else if (header === 'kur' || header.includes('doviz kuru') || header.includes('efektif')) columns.exchangeRate = idx;
+        else if (header.includes('borc')) columns.debit = idx;
+        else if (header.includes('alacak')) columns.credit = idx;
+        else if (header.includes('fis') || header.includes('yevmiye')) columns.voucher = idx;
+        else if (header.includes('evrak') || header.includes('belge')) columns.document = idx;
+    });
+    return columns;
+};
+
+/** Picks the row with the most ledger keywords among the first rows and maps its headers by keyword. */
+export const keywordColumnDetector: LedgerColumnDetector = {
+    id: 'keyword',
+    detect: (rows) => {
+        let bestIndex = 0;
+        let bestScore = -1;
+        for (let i = 0; i < Math.min(rows.length, KEYWORD_SCAN_LIMIT); i += 1) {
+            const score = (rows[i] || []).filter((cell) => {
+                const header = normalizeHeaderText(cell);
+                return HEADER_KEYWORDS.some((keyword) => header.includes(keyword));
+            }).length;
+            if (score > bestScore) {
+                bestScore = score;
+                bestIndex = i;
+            }
+        }
+        const headers = Array.from(rows[bestIndex] || [], (cell) => normalizeHeaderText(cell));
+        return { detector: 'keyword', headerRowIndex: bestIndex, columns: detectKeywordColumns(headers), dateSource: 'HEADER' };
+    },
+};
+
+// Kebir ciktilari: "hesap kodu" ve "borc" iceren ilk satir baslik kabul edilir
+export const kebirColumnDetector: LedgerColumnDetector = {
+    id: 'kebir',
+    detect: (rows) => {
+        for (let i = 0; i < Math.min(HEADER_SCAN_LIMIT, rows.length); i++) {
+            const r = rows[i];
+            if (!r) continue;
+            const nr = Array.from(r, (cell) => normalizeHeaderText(cell));
+
+            const codeIdx = nr.findIndex(c => c.includes('hesap kodu'));
+            const debitIdx = nr.findIndex(c => c.includes('borc'));
+            if (codeIdx < 0 || debitIdx < 0) continue;
+
+            const cols: Partial<Record<LedgerField, number>> = {};
+            nr.forEach((cell, idx) => {
+                if (cell.includes('tarih') && cols.date === undefined) cols.date = idx;
+                if (cell.includes('hesap kodu') && cols.code === undefined) cols.code = idx;
+                if ((cell.includes('hesap adi') || cell === 'aciklama') && cols.name === undefined) cols.name = idx;
+                if (cell.includes('borc') && cols.debit === undefined) cols.debit = idx;
+                if (cell.includes('alacak') && cols.credit === undefined) cols.credit = idx;
+                if ((cell.includes('fis') || cell.includes('belge') || cell.includes('makbuz')) && cell.includes('no') && cols.voucher === undefined) {
+                    cols.voucher = idx;
+                }
+                if (cell.includes('aciklama')) cols.desc = idx;
+            });
+
+            if (cols.name === undefined && cols.desc !== undefined) cols.name = cols.desc;
+            return { detector: 'kebir', headerRowIndex: i, columns: cols, dateSource: 'HEADER' };
+        }
+        return null;
+    },
+};
+
+/** Returns the first detector result that covers all required fields. */
+export const detectLedgerColumns = (
+    rows: unknown[][],
+    detectors: LedgerColumnDetector[],
+    requiredFields: LedgerField[]
+): LedgerColumns | null => {
+    for (const detector of detectors) {
+        const result = detector.detect(rows);
+        if (result && requiredFields.every((field) => result.columns[field] !== undefined)) return result;
+    }
+    return null;
+};
+
+const DATE_TEXT = /^\d{1,2}[./-]\d{1,2}[./-]\d{2,4}/;
+
+/** Istatistiksel yedek: en az 5 satirda tarih iceren sutun tarih sutunudur. */
+export const detectDateColumnByValues = (rows: unknown[][]): { column: number; hits: number } | null => {
+    const scores = new Map<number, number>();
+    rows.forEach((row) => {
+        Array.from(row || []).forEach((value, column) => {
+            if (!value) return;
+            const isDate = value instanceof Date ? !Number.isNaN(value.getTime()) : DATE_TEXT.test(String(value).trim());
+            if (isDate) scores.set(column, (scores.get(column) || 0) + 1);
+        });
+    });
+    let best: { column: number; hits: number } | null = null;
+    for (const [column, hits] of scores) {
+        if (!best || hits > best.hits) best = { column, hits };
+    }
+    return best && best.hits >= 5 ? best : null;
+};
+
+/** Kolon eslestirme ekraninin kullandigi bicim: alan -> sutun sirasi (metin). */
+export const toLedgerMapping = (columns: LedgerColumns): Record<string, string> => {
+    const mapping: Record<string, string> = {};
+    Object.entries(columns.columns).forEach(([field, index]) => {
+        if (index !== undefined) mapping[field] = String(index);
+    });
+    return mapping;
+};
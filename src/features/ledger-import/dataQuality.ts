@@ -0,0 +1,45 @@
+import type { DataQualityReason, DataQualityRows } from '../common/types';
+import { formatLedgerDate, isBlankLedgerCell } from './ledgerValues';
+
+// Firma verisi ile birlikte saklanir; cok bozuk dosyalarda ilk satirlar listelenir, kalani sayilir.
+export const MAX_QUALITY_ISSUES = 2000;
+
+export const DATA_QUALITY_REASON_LABELS: Record<DataQualityReason, string> = {
+    NO_CODE: 'Hesap kodu yok',
+    NO_NAME: 'Hesap adı yok',
+    SUMMARY_ROW: 'Toplam / devir satırı',
+    ZERO_MOVEMENT: 'Borç ve alacak sıfır',
+    INVALID_DATE: 'Tarih okunamadı',
+    NO_INVOICE_NO: 'Fatura no bulunamadı',
+};
+
+export const isBlankRow = (row: unknown[] | null | undefined): boolean => !row || Array.from(row).every(isBlankLedgerCell);
+
+/** Ham hucreler ekranda ve Excel'de gorundugu gibi metne cevrilir; sondaki bos hucreler atilir. */
+export const toQualityCells = (row: unknown[] | null | undefined): string[] => {
+    const cells = Array.from(row || [], (cell) => {
+        if (cell instanceof Date) return formatLedgerDate(cell);
+        return isBlankLedgerCell(cell) ? '' : String(cell).trim();
+    });
+    while (cells.length > 0 && !cells[cells.length - 1]) cells.pop();
+    return cells;
+};
+
+export interface QualityCollector {
+    add: (reason: DataQualityReason, rowNumber: number, sheet: string, row: unknown[]) => void;
+    rows: DataQualityRows;
+}
+
+export const createQualityCollector = (headerRow: unknown[] | null | undefined): QualityCollector => {
+    const rows: DataQualityRows = { headers: toQualityCells(headerRow), issues: [], omittedCount: 0 };
+    return {
+        rows,
+        add: (reason, rowNumber, sheet, row) => {
+            if (rows.issues.length >= MAX_QUALITY_ISSUES) {
+                rows.omittedCount += 1;
+                return;
+            }
+            rows.issues.push({ rowNumber, sheet, reason, cells: toQualityCells(row) });
+        },
+    };
+};
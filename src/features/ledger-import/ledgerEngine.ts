@@ -0,0 +1,348 @@
+import type * as XLSX from 'xlsx';
+import type { AccountDetail, DataQualityReason, LedgerQualityReport, Transaction } from '../common/types';
+import { parseTransactionDate } from '../../utils/accounting';
+import { parseTurkishNumber } from '../../utils/parsers';
+import {
+    countWorkbookRows,
+    getSheetRowCount,
+    iterateWorkbookRows,
+    readSheetRows,
+    resolveSheetName,
+    type SheetSelection,
+} from '../../utils/workbookSheets';
+import { assertLedgerMemory, assertLedgerRowCount, type LedgerProgressHandler } from '../../utils/ledgerParseLimits';
+import {
+    LEDGER_FIELD_LABELS,
+    detectDateColumnByValues,
+    detectLedgerColumns,
+    type LedgerColumnDetector,
+    type LedgerColumns,
+    type LedgerField,
+} from './columnDetectors';
+import {
+    isBlankLedgerCell,
+    isLedgerSummaryText,
+    isLedgerTotalText,
+    normalizeAccountCode,
+    parseOptionalLedgerNumber,
+} from './ledgerValues';
+import { createQualityCollector, isBlankRow } from './dataQuality';
+
+export interface LedgerEngineOptions {
+    sheetSelection?: SheetSelection | null;
+    /** Sirayla denenir; zorunlu alanlarin hepsini bulan ilk sonuc kullanilir. */
+    detectors: LedgerColumnDetector[];
+    requiredFields: LedgerField[];
+    /** Secilen sayfada baslik yoksa (kapak sayfasi) diger sayfalar da denenir. */
+    searchOtherSheets?: boolean;
+    /** Hesap adi bos satirlar atlanir. */
+    requireName?: boolean;
+    /** false donen hesap kodlari filteredByPrefixRows olarak sayilir. */
+    accountFilter?: (accountCode: string) => boolean;
+    /** Borc ve alacagi sifir satirlar da hareket olarak eklenir. */
+    includeZeroMovement?: boolean;
+    includeForexOnlyMovement?: boolean;
+    onProgress?: LedgerProgressHandler;
+}
+
+export interface LedgerImportResult {
+    accounts: AccountDetail[];
+    quality: LedgerQualityReport;
+    columns: LedgerColumns;
+    /** Satirlari okunan sayfalar, okunma sirasiyla. */
+    sheets: string[];
+}
+
+const DATE_SAMPLE_ROWS = 100;
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+const round4 = (value: number): number => Math.round((value + Number.EPSILON) * 10000) / 10000;
+
+const resolveSingleFxColumnSides = (
+    rawFxValue: number | undefined,
+    debit: number,
+    credit: number
+): { fxDebitRaw: number | undefined; fxCreditRaw: number | undefined } => {
+    if (rawFxValue === undefined || rawFxValue === 0) {
+        return { fxDebitRaw: undefined, fxCreditRaw: undefined };
+    }
+
+    const magnitude = Math.abs(rawFxValue);
+    const hasDebit = debit > 0;
+    const hasCredit = credit > 0;
+
+    if (hasDebit && !hasCredit) {
+        return { fxDebitRaw: magnitude, fxCreditRaw: undefined };
+    }
+
+    if (hasCredit && !hasDebit) {
+        return { fxDebitRaw: undefined, fxCreditRaw: magnitude };
+    }
+
+    const netTlMovement = debit - credit;
+    if (netTlMovement > 0) {
+        return { fxDebitRaw: magnitude, fxCreditRaw: undefined };
+    }
+    if (netTlMovement < 0) {
+        return { fxDebitRaw: undefined, fxCreditRaw: magnitude };
+    }
+
+    if (rawFxValue > 0) {
+        return { fxDebitRaw: magnitude, fxCreditRaw: undefined };
+    }
+    if (rawFxValue < 0) {
+        return { fxDebitRaw: undefined, fxCreditRaw: magnitude };
+    }
+
+    return { fxDebitRaw: undefined, fxCreditRaw: undefined };
+};
+
+const createQualityReport = (): LedgerQualityReport => ({
+    totalRows: 0,
+    transactionRows: 0,
+    accountCount: 0,
+    filteredByPrefixRows: 0,
+    skippedNoCodeRows: 0,
+    skippedNoNameRows: 0,
+    skippedSummaryRows: 0,
+    zeroMovementRows: 0,
+    invalidDateRows: 0,
+    voucherNoRows: 0,
+});
+
+const findLedgerColumns = (
+    workbook: XLSX.WorkBook,
+    options: LedgerEngineOptions
+): { sheetName: string; columns: LedgerColumns | null } => {
+    const preferredSheet = resolveSheetName(workbook, options.sheetSelection);
+    const candidateSheets = options.searchOtherSheets
+        ? [preferredSheet, ...workbook.SheetNames.filter((name) => name !== preferredSheet)]
+        : [preferredSheet];
+
+    for (const sheetName of candidateSheets) {
+        const columns = detectLedgerColumns(readSheetRows(workbook, sheetName, 0, 50), options.detectors, options.requiredFields);
+        if (columns) return { sheetName, columns };
+    }
+    return { sheetName: preferredSheet, columns: null };
+};
+
+// Hareketler tarihe gore siralanir; TL ve doviz bakiyeleri satir satir yuruyen bakiye olarak yazilir.
+const finalizeAccount = (account: AccountDetail): AccountDetail => {
+    account.transactions.sort((a, b) => {
+        const at = a.date ? a.date.getTime() : Number.MAX_SAFE_INTEGER;
+        const bt = b.date ? b.date.getTime() : Number.MAX_SAFE_INTEGER;
+        return at - bt;
+    });
+
+    let runningBalance = 0;
+    const runningFxByCurrency = new Map<string, number>();
+    account.transactions.forEach((transaction) => {
+        runningBalance = round2(runningBalance + transaction.debit - transaction.credit);
+        transaction.balance = runningBalance;
+
+        const currencyKey = String(transaction.currencyCode || '').toLocaleUpperCase('tr-TR');
+        if (typeof transaction.fxBalance === 'number') {
+            runningFxByCurrency.set(currencyKey, round4(transaction.fxBalance));
+            return;
+        }
+
+        const fxDebit = typeof transaction.fxDebit === 'number' ? transaction.fxDebit : 0;
+        const fxCredit = typeof transaction.fxCredit === 'number' ? transaction.fxCredit : 0;
+        if (fxDebit !== 0 || fxCredit !== 0) {
+            const previous = runningFxByCurrency.get(currencyKey) || 0;
+            const next = round4(previous + fxDebit - fxCredit);
+            runningFxByCurrency.set(currencyKey, next);
+            transaction.fxBalance = next;
+        }
+    });
+
+    account.totalDebit = round2(account.totalDebit);
+    account.totalCredit = round2(account.totalCredit);
+    account.balance = round2(account.totalDebit - account.totalCredit);
+    return account;
+};
+
+/**
+ * Shared ledger reader for kebir and current-account imports: finds the header with the
+ * given detectors, then reads the rows chunk by chunk into accounts with the same date, amount
+ * and summary-row rules everywhere. Every row after the header is counted in the quality report.
+ */
+export const parseLedgerWorkbook = (workbook: XLSX.WorkBook, options: LedgerEngineOptions): LedgerImportResult => {
+    const { sheetName: baseSheet, columns: detected } = findLedgerColumns(workbook, options);
+
+    if (getSheetRowCount(workbook, baseSheet) < 2) throw new Error('Dosya boş.');
+    if (!detected) {
+        const labels = options.requiredFields.map((field) => LEDGER_FIELD_LABELS[field]).join(', ');
+        throw new Error(`Başlık satırı veya zorunlu sütunlar (${labels}) tespit edilemedi. Lütfen sütun eşleştirmesini kontrol edin.`);
+    }
+
+    const headerRowIndex = detected.headerRowIndex;
+    const columns: LedgerColumns = { ...detected, columns: { ...detected.columns } };
+    if (columns.columns.date === undefined) {
+        // Bicimli metin okunur: tarih hucreleri "15.03.2024" / "3/15/24" olarak gelir, tutarlar eslesmez
+        const sampleRows = readSheetRows(workbook, baseSheet, headerRowIndex + 1, headerRowIndex + DATE_SAMPLE_ROWS, { raw: false });
+        const byValues = detectDateColumnByValues(sampleRows);
+        if (byValues) {
+            columns.columns.date = byValues.column;
+            columns.dateSource = 'VALUES';
+        }
+    }
+
+    const col = columns.columns;
+    const getCell = (row: unknown[], field: LedgerField): unknown => {
+        const index = col[field];
+        if (index === undefined || index >= row.length) return null;
+        return row[index];
+    };
+    const getText = (row: unknown[], field: LedgerField): string => String(getCell(row, field) ?? '').trim();
+    const getOptionalNumber = (row: unknown[], field: LedgerField): number | undefined => (
+        col[field] === undefined ? undefined : parseOptionalLedgerNumber(getCell(row, field))
+    );
+    // Kebirde hesap adi sutunu yoksa aciklama kullanilir; o durumda "devir" aciklamalari hareket olarak kalir
+    const hasOwnNameColumn = col.name !== undefined && col.name !== col.desc;
+    const singleFxColumnSelected = col.fxDebit !== undefined && col.fxDebit === col.fxCredit;
+
+    const selection = { sheetName: baseSheet, allSheets: Boolean(options.sheetSelection?.allSheets) };
+    const totalRows = countWorkbookRows(workbook, selection);
+    assertLedgerRowCount(totalRows);
+
+    const quality = createQualityReport();
+    const collector = createQualityCollector(readSheetRows(workbook, baseSheet, headerRowIndex, headerRowIndex + 1)[0]);
+    const accountMap = new Map<string, AccountDetail>();
+    const sheets: string[] = [];
+
+    for (const chunk of iterateWorkbookRows(workbook, headerRowIndex, selection, { raw: true, defval: null })) {
+        if (!sheets.includes(chunk.sheetName)) sheets.push(chunk.sheetName);
+        chunk.rows.forEach((row, index) => {
+            if (chunk.offset + index <= headerRowIndex) return;
+            quality.totalRows += 1;
+            if (!row || !Array.isArray(row)) return;
+            const rowNumber = chunk.firstRowNumber + index;
+            const report = (reason: DataQualityReason) => collector.add(reason, rowNumber, chunk.sheetName, row);
+
+            const code = normalizeAccountCode(getCell(row, 'code'));
+            const name = getText(row, 'name');
+            // Kodu bos "Nakli Yekun" satirlari da kodsuz degil toplam satiri sayilir
+            if (isLedgerTotalText(code) || (code.length < 3 && hasOwnNameColumn && isLedgerSummaryText(name))) {
+                quality.skippedSummaryRows += 1;
+                report('SUMMARY_ROW');
+                return;
+            }
+            // Sayfa numarasi gibi 1-2 karakterlik degerler hesap kodu degildir; tamamen bos satirlar listelenmez
+            if (code.length < 3) {
+                quality.skippedNoCodeRows += 1;
+                if (!isBlankRow(row)) report('NO_CODE');
+                return;
+            }
+            if (options.accountFilter && !options.accountFilter(code)) {
+                quality.filteredByPrefixRows += 1;
+                return;
+            }
+
+            if (options.requireName && !name) {
+                quality.skippedNoNameRows += 1;
+                report('NO_NAME');
+                return;
+            }
+            if (hasOwnNameColumn && isLedgerSummaryText(name)) {
+                quality.skippedSummaryRows += 1;
+                report('SUMMARY_ROW');
+                return;
+            }
+
+            const debit = round2(parseTurkishNumber(getCell(row, 'debit')));
+            const credit = round2(parseTurkishNumber(getCell(row, 'credit')));
+            const currencyCode = getText(row, 'currency') || undefined;
+            const exchangeRateRaw = getOptionalNumber(row, 'exchangeRate');
+            let fxDebitRaw = getOptionalNumber(row, 'fxDebit');
+            let fxCreditRaw = getOptionalNumber(row, 'fxCredit');
+            if (singleFxColumnSelected) {
+                const resolved = resolveSingleFxColumnSides(fxDebitRaw, debit, credit);
+                fxDebitRaw = resolved.fxDebitRaw;
+                fxCreditRaw = resolved.fxCreditRaw;
+            }
+            const fxBalanceRaw = getOptionalNumber(row, 'fxBalance');
+
+            const fxDebit = fxDebitRaw === undefined ? undefined : round4(fxDebitRaw);
+            const fxCredit = fxCreditRaw === undefined ? undefined : round4(fxCreditRaw);
+            const fxBalance = fxBalanceRaw === undefined ? undefined : round4(fxBalanceRaw);
+            const exchangeRate = exchangeRateRaw === undefined ? undefined : round4(exchangeRateRaw);
+            const hasForexMovement = (
+                fxBalance !== undefined ||
+                (typeof fxDebit === 'number' && fxDebit !== 0) ||
+                (typeof fxCredit === 'number' && fxCredit !== 0)
+            );
+            const hasMovement = debit !== 0 || credit !== 0 || (Boolean(options.includeForexOnlyMovement) && hasForexMovement);
+            if (!hasMovement) {
+                quality.zeroMovementRows += 1;
+                report('ZERO_MOVEMENT');
+            }
+
+            if (!accountMap.has(code)) {
+                accountMap.set(code, {
+                    code,
+                    name,
+                    totalDebit: 0,
+                    totalCredit: 0,
+                    balance: 0,
+                    transactionCount: 0,
+                    transactions: [],
+                });
+            }
+
+            const account = accountMap.get(code)!;
+            if (name.length > account.name.length) {
+                account.name = name;
+            }
+
+            if (!hasMovement && !options.includeZeroMovement) return;
+
+            account.totalDebit = round2(account.totalDebit + debit);
+            account.totalCredit = round2(account.totalCredit + credit);
+            account.transactionCount += 1;
+
+            const rawDateCell = getCell(row, 'date');
+            const parsedDate = parseTransactionDate(rawDateCell as Date | string | number | null);
+            if (!isBlankLedgerCell(rawDateCell) && !parsedDate) {
+                quality.invalidDateRows += 1;
+                report('INVALID_DATE');
+            }
+
+            const voucherNo = getText(row, 'voucher') || undefined;
+            const documentNo = getText(row, 'document') || undefined;
+            if (voucherNo) {
+                quality.voucherNoRows += 1;
+            }
+
+            const transaction: Transaction = {
+                date: parsedDate,
+                description: getText(row, 'desc'),
+                debit,
+                credit,
+                voucherNo,
+                documentNo: documentNo || voucherNo,
+                currencyCode,
+                exchangeRate,
+                fxDebit,
+                fxCredit,
+                fxBalance,
+                sourceSheet: chunk.sheetName,
+            };
+            account.transactions.push(transaction);
+            quality.transactionRows += 1;
+        });
+        assertLedgerMemory();
+        options.onProgress?.({ stage: 'ROWS', processedRows: chunk.offset + chunk.rows.length, totalRows });
+    }
+
+    const accounts = Array.from(accountMap.values()).map(finalizeAccount);
+    accounts.sort((a, b) => {
+        const codeCompare = a.code.localeCompare(b.code, 'tr-TR');
+        if (codeCompare !== 0) return codeCompare;
+        return a.name.localeCompare(b.name, 'tr-TR');
+    });
+
+    quality.accountCount = accounts.length;
+    quality.rows = collector.rows;
+    return { accounts, quality, columns, sheets };
+};
@@ -0,0 +1,58 @@
+import { parseTransactionDate } from '../../utils/accounting';
+import { parseTurkishNumber } from '../../utils/parsers';
+
+// Kebir, cari hesap ve KDV mutabakati ayni hucre okuyucularini kullanir; boylece ayni dosya her modulde ayni sonucu verir.
+
+// Tam kelime olarak aranir: "NAKLI" oneki "Nakliyat", "Nakliye" gibi unvan ve hesap adlarinda da gecer.
+const TOTAL_PATTERN = /\b(TOPLAM(I|LAR|LARI)?|YEKUN|NAKLI YEKUN)\b/;
+const SUMMARY_PATTERN = /\b(TOPLAM(I|LAR|LARI)?|YEKUN|NAKLI YEKUN|DEVIR)\b/;
+
+/** "Nakli Yekün" ve "NAKLİ YEKUN" ayni metne iner. */
+export const normalizeLedgerText = (value: unknown): string => {
+    return String(value ?? '')
+        .toLocaleUpperCase('tr-TR')
+        .replace(/İ/g, 'I')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+};
+
+const matchesKeyword = (value: unknown, pattern: RegExp): boolean => {
+    const normalized = normalizeLedgerText(value);
+    return normalized !== '' && pattern.test(normalized);
+};
+
+/** Toplam ve nakli yekun satirlari; satirin tamami icin guvenli (unvanlarda "devir" gecebilir). */
+export const isLedgerTotalText = (value: unknown): boolean => matchesKeyword(value, TOTAL_PATTERN);
+
+/** Toplam, nakli yekun ve devir satirlari hareket degil ara toplamdir. */
+export const isLedgerSummaryText = (value: unknown): boolean => matchesKeyword(value, SUMMARY_PATTERN);
+
+export const normalizeAccountCode = (value: unknown): string => String(value ?? '').trim().replace(/\s+/g, '');
+
+export const getAccountPrefix = (accountCode: string): string => accountCode.replace(/\D/g, '').slice(0, 3);
+
+/** Bos hucre icin undefined; aksi halde Turkce/Ingilizce bicimli sayi. */
+export const parseOptionalLedgerNumber = (value: unknown): number | undefined => {
+    if (value === null || value === undefined) return undefined;
+    if (typeof value === 'string' && value.trim() === '') return undefined;
+
+    const parsed = parseTurkishNumber(value);
+    if (!Number.isFinite(parsed)) return undefined;
+    return parsed;
+};
+
+export const isBlankLedgerCell = (value: unknown): boolean => {
+    return value === null || value === undefined || String(value).trim() === '';
+};
+
+/** Tarih hucresini GG.AA.YYYY olarak verir; tarih olarak okunamayan degerler oldugu gibi kalir. */
+export const formatLedgerDate = (value: unknown): string => {
+    if (isBlankLedgerCell(value)) return '-';
+    const date = parseTransactionDate(value as Date | string | number);
+    if (!date) return String(value);
+    const day = String(date.getDate()).padStart(2, '0');
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    return `${day}.${month}.${date.getFullYear()}`;
+};
@@ -1,5 +1,5 @@
 import { useMemo, useState } from 'react';
-import { AlertTriangle, Building2, Download, Layers, Search, UserRound } from 'lucide-react';
+import { AlertTriangle, Building2, CalendarCheck, Download, Layers, Search, UserRound } from 'lucide-react';
 import { Card } from '../../components/common/Card';
 import { useCompany } from '../../context/CompanyContext';
 import type { AccountDetail, Company, MappingConfig } from '../common/types';
@@ -12,6 +12,7 @@ import {
 } from '../common/voucherEditService';
 import { getMainAccountCode, resolveAccountBalanceRule, type ExpectedBalanceSide } from './accountingRules';
 import { resolveForexAccountType } from './forexAccountRules';
+import { buildClosingBalanceSnapshot } from './openingBalances';
 import AccountStatementModal from './components/AccountStatementModal';
 import VoucherDetailModal, {
     type VoucherAccountOption,
@@ -20,6 +21,7 @@ import VoucherDetailModal, {
 } from './components/VoucherDetailModal';
 import { formatCurrency } from '../../utils/formatters';
 import { matchesSearchAcrossFields } from '../../utils/search';
+import { formatPeriodLabel, getActivePeriod } from '../../services/companyPeriods';
 import {
     round2,
     normalizeVoucherNo,
@@ -355,6 +357,28 @@ function MizanContent({ activeCompany }: { activeCompany: Company }) {
         });
     };
 
+    const closingSnapshot = activeCompany.currentAccount?.closingBalances;
+    const activePeriod = getActivePeriod(activeCompany);
+
+    // Tarih filtresinden bagimsiz, tum donem hareketleriyle kapanis bakiyesi alinir.
+    const handleSaveClosingBalances = async () => {
+        const snapshot = buildClosingBalanceSnapshot(sourceData, source, activeCompany.activePeriodId);
+        if (snapshot.warning && !window.confirm(`${snapshot.warning}\n\nYine de devredilsin mi?`)) return;
+        await patchActiveCompany((company) => {
+            const currentAccount = company.currentAccount || {
+                smmmData: [] as AccountDetail[],
+                firmaData: [] as AccountDetail[],
+                mappings: {} as MappingConfig,
+            };
+            return {
+                currentAccount: {
+                    ...currentAccount,
+                    closingBalances: snapshot,
+                },
+            };
+        });
+    };
+
     const handleAccountApprovalToggle = async (accountCode: string, currentlyApproved: boolean) => {
         const approvalKey = getMizanApprovalKey(source, accountCode);
 
@@ -851,6 +875,41 @@ function MizanContent({ activeCompany }: { activeCompany: Company }) {
                 )
             }
 
+            {
+                sourceData.length > 0 && (
+                    <Card className="flex items-center justify-between gap-4 flex-wrap">
+                        <div className="flex items-start gap-3">
+                            <CalendarCheck size={18} className="text-emerald-400 mt-0.5" />
+                            <div>
+                                <h2 className="text-sm font-semibold text-white">Yil Sonu Devir</h2>
+                                <p className="text-xs text-slate-400 mt-1">
+                                    Bilanco hesaplarinin kapanis bakiyeleri (TL ve doviz), sonraki yilin acilis fisi kontrolunde beklenen deger olarak kullanilir.
+                                </p>
+                                <p className="text-xs text-slate-500 mt-1">
+                                    {closingSnapshot
+                                        ? `Kayitli devir: ${closingSnapshot.source} kaynagi, ${closingSnapshot.balances.length} hesap, ${new Date(closingSnapshot.createdAt).toLocaleString('tr-TR')}`
+                                        : 'Bu donem icin kayitli devir bakiyesi yok.'}
+                                    {closingSnapshot?.excludedClosingEntryCount
+                                        ? ` Kapanis fisine ait ${closingSnapshot.excludedClosingEntryCount} hareket bakiyeden dusuldu.`
+                                        : ''}
+                                </p>
+                                {closingSnapshot?.warning && (
+                                    <p className="text-xs text-amber-300 mt-1">{closingSnapshot.warning}</p>
+                                )}
+                            </div>
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => void handleSaveClosingBalances()}
+                            className="h-10 inline-flex items-center gap-1.5 px-3 rounded-lg border border-emerald-500/40 text-emerald-200 hover:bg-emerald-500/10 transition-colors text-xs font-semibold whitespace-nowrap"
+                        >
+                            <CalendarCheck size={14} />
+                            {activePeriod ? `${formatPeriodLabel(activePeriod)} Kapanisini Devret (${source})` : `Kapanisi Devret (${source})`}
+                        </button>
+                    </Card>
+                )
+            }
+
             {
                 selectedAccountCode && (
                     <AccountStatementModal
@@ -903,5 +962,5 @@ export default function MizanPage() {
         );
     }
 
-    return <MizanContent key={activeCompany.id} activeCompany={activeCompany} />;
+    return <MizanContent key={`${activeCompany.id}:${activeCompany.activePeriodId}`} activeCompany={activeCompany} />;
 }
@@ -0,0 +1,103 @@
+import type { AccountDetail, ClosingBalanceEntry, ClosingBalanceSnapshot, Transaction } from '../common/types';
+import { getMainAccountCode } from './accountingRules';
+import { normalizeLedgerText } from '../ledger-import/ledgerValues';
+import { BALANCE_TOLERANCE, getTransactionAmount, round2 } from '../../utils/accounting';
+
+// Yil sonu kapanis fisi bilanco hesaplarini sifirlar; devir bakiyesi bu fisten onceki bakiyedir.
+// "Kasa kapanis" gibi gunluk ifadeler disarida kalsin diye yalnizca fis kalibi aranir.
+const CLOSING_ENTRY_PATTERN = /^KAPANIS$|\bKAPANIS (FISI|KAYDI|MAHSUBU?)\b|\b(YIL|DONEM) SONU KAPANIS\b|\bBILANCO KAPANIS\b/;
+
+const ALL_ZERO_CLOSING_WARNING = 'Tum bilanco hesaplarinin kapanis bakiyesi sifir. Mizan kapanis fisini iceriyor ve fis aciklamasindan taninamamis olabilir; sonraki donemin acilis kontrolu bos kalir.';
+
+const isClosingEntryText = (transaction: Transaction): boolean => CLOSING_ENTRY_PATTERN.test(normalizeLedgerText(transaction.description));
+
+// Fis numarasi fis turune gore yeniden baslayabildigi icin tarih ile birlikte anahtar olur.
+const getVoucherKey = (transaction: Transaction): string => {
+    const voucherNo = String(transaction.voucherNo || '').trim();
+    if (!voucherNo) return '';
+    return `${voucherNo}|${transaction.date instanceof Date ? transaction.date.toDateString() : ''}`;
+};
+
+/** Aciklamasi kapanis fisi olan bir satir iceren fisin tum satirlari kapanis fisi sayilir. */
+const getClosingVoucherKeys = (accounts: AccountDetail[]): Set<string> => {
+    const voucherKeys = new Set<string>();
+    accounts.forEach((account) => account.transactions.forEach((transaction) => {
+        const voucherKey = getVoucherKey(transaction);
+        if (voucherKey && isClosingEntryText(transaction)) voucherKeys.add(voucherKey);
+    }));
+    return voucherKeys;
+};
+
+// Gelir tablosu hesaplari (6xx, 7xx) donem sonunda kapatilir; yalnizca bilanco hesaplari devreder.
+const isBalanceSheetAccount = (code: string): boolean => {
+    const mainCode = getMainAccountCode(code);
+    return /^[1-5]/.test(mainCode);
+};
+
+const getClosingFxBalance = (
+    account: AccountDetail,
+    isClosingEntry: (transaction: Transaction) => boolean
+): { fxBalance?: number; currencyCode?: string } => {
+    let hasFx = false;
+    let fxBalance = 0;
+    let currencyCode: string | undefined;
+
+    account.transactions.forEach((transaction) => {
+        if (isClosingEntry(transaction)) return;
+        if (typeof transaction.fxDebit === 'number' || typeof transaction.fxCredit === 'number') {
+            hasFx = true;
+            fxBalance = round2(fxBalance + getTransactionAmount(transaction.fxDebit) - getTransactionAmount(transaction.fxCredit));
+        }
+        if (!currencyCode && transaction.currencyCode) {
+            currencyCode = transaction.currencyCode;
+        }
+    });
+
+    return hasFx ? { fxBalance, currencyCode } : { currencyCode };
+};
+
+export const buildClosingBalanceSnapshot = (
+    accounts: AccountDetail[],
+    source: ClosingBalanceSnapshot['source'],
+    periodId?: string
+): ClosingBalanceSnapshot => {
+    const closingVoucherKeys = getClosingVoucherKeys(accounts);
+    const isClosingEntry = (transaction: Transaction): boolean => {
+        const voucherKey = getVoucherKey(transaction);
+        return (voucherKey !== '' && closingVoucherKeys.has(voucherKey)) || isClosingEntryText(transaction);
+    };
+
+    let excludedClosingEntryCount = 0;
+    const balanceSheetAccounts = accounts.filter((account) => isBalanceSheetAccount(account.code));
+    const balances: ClosingBalanceEntry[] = balanceSheetAccounts
+        .map((account) => {
+            let closingNet = 0;
+            account.transactions.forEach((transaction) => {
+                if (!isClosingEntry(transaction)) return;
+                excludedClosingEntryCount += 1;
+                closingNet += getTransactionAmount(transaction.debit) - getTransactionAmount(transaction.credit);
+            });
+            return {
+                code: account.code,
+                name: account.name,
+                balance: round2(account.totalDebit - account.totalCredit - closingNet),
+                ...getClosingFxBalance(account, isClosingEntry),
+            };
+        })
+        .filter((entry) => (
+            Math.abs(entry.balance) > BALANCE_TOLERANCE ||
+            Math.abs(entry.fxBalance || 0) > BALANCE_TOLERANCE
+        ))
+        .sort((left, right) => left.code.localeCompare(right.code, 'tr-TR'));
+
+    const hasMovements = balanceSheetAccounts.some((account) => account.totalDebit !== 0 || account.totalCredit !== 0);
+
+    return {
+        source,
+        periodId,
+        createdAt: new Date().toISOString(),
+        balances,
+        excludedClosingEntryCount: excludedClosingEntryCount || undefined,
+        warning: balances.length === 0 && hasMovements ? ALL_ZERO_CLOSING_WARNING : undefined,
+    };
+};
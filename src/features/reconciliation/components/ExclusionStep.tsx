@@ -80,6 +80,7 @@ export function ExclusionStep({ data, onComplete, onBack }: ExclusionStepProps)
                     <div className="flex-1">
                         <h3 className="text-2xl font-bold text-white">Filtreleme Ayarları</h3>
                         <p className="text-slate-400">Hariç tutulacak kayıtları ve hata toleransını belirleyin.</p>
+                        <p className="text-xs text-slate-500 mt-1">Hariç tutulan (iptal / red) faturalar muhasebede ters kaydı olmadan kalmışsa "İade / İptal" raporunda listelenir.</p>
                     </div>
                     <div className="text-right bg-red-500/10 px-6 py-4 rounded-xl border border-red-500/20">
                         <p className="text-4xl font-black text-red-500">{excludedCount}</p>
@@ -1,100 +1,166 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import * as XLSX from 'xlsx';
-import { AlertCircle, Link2, ArrowRight, Layers, Save, Trash2, RotateCcw } from 'lucide-react';
+import { AlertCircle, Link2, ArrowRight, Layers, Trash2, RotateCcw } from 'lucide-react';
 import { Button } from '../../../components/common/Button';
 import { Card } from '../../../components/common/Card';
 import { cn } from '../../../components/common/Button';
+import { MappingProfileBar } from '../../../components/MappingProfileBar';
+import { detectColumnMapping, detectHeaderAndColumns, getConfidenceLevel } from '../utils/columnDetection';
+import { SheetSelector } from '../../../components/SheetSelector';
+import { useCompany } from '../../../context/CompanyContext';
+import type { SheetSelection } from '../../../utils/workbookSheets';
+import { describeTextFileFormat, detectTextFileFormat, isTextSpreadsheetFile, readSpreadsheetData } from '../../../utils/spreadsheetFile';
+import {
+    getAvailableMappingProfiles,
+    getRowHeaders,
+    loadMappingProfiles,
+    suggestMappingProfile,
+    type MappingProfile,
+    type MappingProfileTarget,
+} from '../../../services/mappingProfiles';
 
 interface MappingStepProps {
     file: File;
-    canonicalFields: { key: string; label: string; required: boolean }[];
-    onComplete: (mapping: Record<string, string>, headerRowIndex: number) => void;
+    canonicalFields: { key: string; label: string; required: boolean; exactMatchOnly?: boolean }[];
+    profileTarget: MappingProfileTarget;
+    onComplete: (mapping: Record<string, string>, headerRowIndex: number, sheetSelection: SheetSelection) => void;
     onCancel: () => void;
 }
 
-export function MappingStep({ file, canonicalFields, onComplete, onCancel }: MappingStepProps) {
-    const [headers, setHeaders] = useState<string[]>([]);
-    const [mapping, setMapping] = useState<Record<string, string>>({});
-    const [preview, setPreview] = useState<any[]>([]);
-    const [detectedHeaderRow, setDetectedHeaderRow] = useState<number>(0);
-    const [saveStatus, setSaveStatus] = useState<'idle' | 'saved' | 'cleared'>('idle');
+const CONFIDENCE_CLASSES = {
+    HIGH: 'bg-emerald-500/15 text-emerald-400',
+    MEDIUM: 'bg-amber-500/15 text-amber-400',
+    LOW: 'bg-red-500/15 text-red-400',
+};
+
+interface AutoMapping {
+    headerRow: number;
+    mapping: Record<string, string>;
+    activeProfileId: string | null;
+    headerConfidence: number | null;
+    fieldConfidence: Record<string, number>;
+}
 
-    // Create a unique fingerprint for the excel file based on its headers
-    const getFingerprint = (h: string[]) => {
-        return h.slice().sort().join('|');
+// 1. Basliklari eslesen kayitli profil, 2. esanlamli basliklarla otomatik tespit.
+const resolveAutoMapping = (
+    rows: unknown[][],
+    fields: MappingStepProps['canonicalFields'],
+    profiles: MappingProfile[]
+): AutoMapping => {
+    const detected = detectHeaderAndColumns(rows, fields);
+    const suggestion = suggestMappingProfile(profiles, rows, detected.headerRowIndex);
+    if (suggestion) {
+        return {
+            headerRow: suggestion.headerRowIndex,
+            mapping: suggestion.profile.mapping,
+            activeProfileId: suggestion.profile.id,
+            headerConfidence: null,
+            fieldConfidence: {},
+        };
+    }
+    return {
+        headerRow: detected.headerRowIndex,
+        mapping: detected.mapping,
+        activeProfileId: null,
+        headerConfidence: detected.headerConfidence,
+        fieldConfidence: detected.confidence,
     };
+};
+
+export function MappingStep({ file, canonicalFields, profileTarget, onComplete, onCancel }: MappingStepProps) {
+    const { activeCompany } = useCompany();
+    const companyId = activeCompany?.id || null;
+    const [sheetRows, setSheetRows] = useState<Record<string, unknown[][]>>({});
+    const [sheetNames, setSheetNames] = useState<string[]>([]);
+    const [sheetSelection, setSheetSelection] = useState<SheetSelection>({ sheetName: '', allSheets: false });
+    const [mapping, setMapping] = useState<Record<string, string>>({});
+    const [headerRow, setHeaderRow] = useState<number>(0);
+    const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+    const [profileSuggested, setProfileSuggested] = useState(false);
+    const [headerConfidence, setHeaderConfidence] = useState<number | null>(null);
+    const [fieldConfidence, setFieldConfidence] = useState<Record<string, number>>({});
+    const [textFormat, setTextFormat] = useState<string | null>(null);
+
+    const rows = useMemo(() => sheetRows[sheetSelection.sheetName] || [], [sheetRows, sheetSelection.sheetName]);
+    const headers = useMemo(() => getRowHeaders(rows, headerRow).filter(val => val !== ''), [rows, headerRow]);
+    const preview = useMemo(() => rows.slice(headerRow + 1, headerRow + 6), [rows, headerRow]);
+
+    const applyAutoMapping = useCallback((result: AutoMapping) => {
+        setHeaderRow(result.headerRow);
+        setMapping(result.mapping);
+        setActiveProfileId(result.activeProfileId);
+        setProfileSuggested(result.activeProfileId !== null);
+        setHeaderConfidence(result.headerConfidence);
+        setFieldConfidence(result.fieldConfidence);
+    }, []);
 
     useEffect(() => {
         const reader = new FileReader();
         reader.onload = (e) => {
             const data = new Uint8Array(e.target?.result as ArrayBuffer);
-            const workbook = XLSX.read(data, { type: 'array', sheetRows: 50 });
-            const firstSheetName = workbook.SheetNames[0];
-            const firstSheet = workbook.Sheets[firstSheetName];
-            const allRows = XLSX.utils.sheet_to_json(firstSheet, { header: 1 }) as any[][];
-
-            // Intelligent Header Search
-            let headerRowIndex = 0;
-            const keywords = ['TARİH', 'AÇIKLAMA', 'FATURA', 'ALACAK', 'BORÇ', 'MÜŞTERİ', 'STATÜ', 'REF.NO', 'KDV'];
+            const workbook = readSpreadsheetData(data, file.name, { sheetRows: 50 });
+            setTextFormat(isTextSpreadsheetFile(file.name) ? describeTextFileFormat(detectTextFileFormat(data)) : null);
+            const rowsBySheet: Record<string, unknown[][]> = {};
+            workbook.SheetNames.forEach((name) => {
+                rowsBySheet[name] = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1 });
+            });
 
-            for (let i = 0; i < Math.min(allRows.length, 20); i++) {
-                const row = (allRows[i] || []).map(v => String(v || '').toLocaleUpperCase('tr-TR'));
-                const matches = row.filter(cell => keywords.some(k => cell.includes(k))).length;
-                if (matches >= 2) {
-                    headerRowIndex = i;
-                    break;
+            // Kapak sayfasi olan dosyalarda zorunlu alanlari en iyi karsilayan sayfa secilir
+            const profiles = getAvailableMappingProfiles(loadMappingProfiles(), profileTarget, companyId);
+            let bestSheet = workbook.SheetNames[0];
+            let best = resolveAutoMapping(rowsBySheet[bestSheet] || [], canonicalFields, profiles);
+            workbook.SheetNames.slice(1).forEach((name) => {
+                if (best.activeProfileId !== null) return;
+                const candidate = resolveAutoMapping(rowsBySheet[name], canonicalFields, profiles);
+                if (candidate.activeProfileId !== null || (candidate.headerConfidence ?? 0) > (best.headerConfidence ?? 0)) {
+                    bestSheet = name;
+                    best = candidate;
                 }
-            }
+            });
 
-            const h = (allRows[headerRowIndex] as string[]) || [];
-            const cleanHeaders = h.map(val => String(val || '').trim()).filter(val => val !== '');
-            setHeaders(cleanHeaders);
-            setPreview(allRows.slice(headerRowIndex + 1, headerRowIndex + 6));
-            setDetectedHeaderRow(headerRowIndex);
-
-            // 1. Try to load from saved templates
-            const fingerprint = getFingerprint(cleanHeaders);
-            const savedMappings = JSON.parse(localStorage.getItem('mapping_templates') || '{}');
-
-            if (savedMappings[fingerprint]) {
-                setMapping(savedMappings[fingerprint]);
-                setSaveStatus('saved');
-                setTimeout(() => setSaveStatus('idle'), 3000);
-            } else {
-                // 2. Fallback to auto-match
-                const newMapping: any = {};
-                canonicalFields.forEach(cf => {
-                    const normCF = cf.label.toLocaleLowerCase('tr-TR').replace(/\s+/g, '');
-
-                    // First try exact fuzzy match
-                    let match = cleanHeaders.find(header => {
-                        const normH = header.toLocaleLowerCase('tr-TR').replace(/\s+/g, '');
-                        return normH.includes(normCF) || normCF.includes(normH);
-                    });
-
-                    if (match) newMapping[cf.key] = match;
-                });
-                setMapping(newMapping);
-            }
+            setSheetRows(rowsBySheet);
+            setSheetNames(workbook.SheetNames);
+            setSheetSelection({ sheetName: bestSheet, allSheets: false });
+            applyAutoMapping(best);
         };
         reader.readAsArrayBuffer(file);
-    }, [file, canonicalFields]);
+    }, [file, canonicalFields, profileTarget, companyId, applyAutoMapping]);
 
-    const saveMapping = () => {
-        const fingerprint = getFingerprint(headers);
-        const savedMappings = JSON.parse(localStorage.getItem('mapping_templates') || '{}');
-        savedMappings[fingerprint] = mapping;
-        localStorage.setItem('mapping_templates', JSON.stringify(savedMappings));
-        setSaveStatus('saved');
-        setTimeout(() => setSaveStatus('idle'), 2000);
+    const changeSheet = (selection: SheetSelection) => {
+        if (selection.sheetName !== sheetSelection.sheetName) {
+            const profiles = getAvailableMappingProfiles(loadMappingProfiles(), profileTarget, companyId);
+            applyAutoMapping(resolveAutoMapping(sheetRows[selection.sheetName] || [], canonicalFields, profiles));
+        }
+        setSheetSelection(selection);
     };
 
-    const clearMemory = () => {
-        if (window.confirm('Tüm kayıtlı eşleştirme şablonlarını silmek istediğinize emin misiniz?')) {
-            localStorage.removeItem('mapping_templates');
-            setSaveStatus('cleared');
-            setTimeout(() => setSaveStatus('idle'), 2000);
-        }
+    const changeHeaderRow = (index: number) => {
+        const detected = detectColumnMapping(rows[index] || [], canonicalFields);
+        setHeaderRow(index);
+        setMapping(detected.mapping);
+        setActiveProfileId(null);
+        setProfileSuggested(false);
+        setHeaderConfidence(null);
+        setFieldConfidence(detected.confidence);
+    };
+
+    // Elle degistirilen alanin otomatik tespit guveni artik gecerli degildir.
+    const updateField = (key: string, value: string) => {
+        setMapping({ ...mapping, [key]: value });
+        setFieldConfidence((prev) => {
+            const next = { ...prev };
+            delete next[key];
+            return next;
+        });
+    };
+
+    const applyProfile = (profile: MappingProfile) => {
+        if (profile.headerRowIndex !== null) setHeaderRow(profile.headerRowIndex);
+        setMapping(profile.mapping);
+        setActiveProfileId(profile.id);
+        setProfileSuggested(false);
+        setHeaderConfidence(null);
+        setFieldConfidence({});
     };
 
     const allRequiredMapped = canonicalFields
@@ -115,6 +181,7 @@ export function MappingStep({ file, canonicalFields, onComplete, onCancel }: Map
                         <div>
                             <h3 className="text-2xl font-bold text-white">Sütun Eşleştirme</h3>
                             <p className="text-slate-400">Dosya: <span className="text-blue-400 font-medium">{file.name}</span></p>
+                            {textFormat && <p className="text-xs text-slate-500 mt-1">Metin dosyası: {textFormat}</p>}
                         </div>
                     </div>
                     <div className="text-right flex flex-col items-end gap-2">
@@ -125,15 +192,29 @@ export function MappingStep({ file, canonicalFields, onComplete, onCancel }: Map
                                 <span className="text-[10px] font-black uppercase tracking-widest text-blue-500">Eşleşti</span>
                             </div>
                         </div>
-                        {saveStatus === 'saved' && (
-                            <div className="flex items-center gap-2 bg-emerald-500/20 text-emerald-500 px-3 py-1 rounded-full border border-emerald-500/30 animate-pulse">
-                                <div className="w-1.5 h-1.5 bg-emerald-500 rounded-full animate-ping"></div>
-                                <span className="text-[10px] font-black tracking-widest uppercase italic whitespace-nowrap">Hafızadan Yüklendi</span>
-                            </div>
-                        )}
                     </div>
                 </div>
 
+                {sheetNames.length > 1 && (
+                    <div className="mb-4">
+                        <SheetSelector sheetNames={sheetNames} selection={sheetSelection} onChange={changeSheet} />
+                    </div>
+                )}
+
+                {rows.length > 0 && (
+                    <MappingProfileBar
+                        key={`${file.name}-${file.lastModified}`}
+                        target={profileTarget}
+                        rows={rows}
+                        headerRowIndex={headerRow}
+                        mapping={mapping}
+                        canSave={allRequiredMapped}
+                        activeProfileId={activeProfileId}
+                        suggested={profileSuggested}
+                        onApply={applyProfile}
+                    />
+                )}
+
                 {/* Mapping Grid */}
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 gap-4 mb-8">
                     {canonicalFields.map(field => {
@@ -149,19 +230,17 @@ export function MappingStep({ file, canonicalFields, onComplete, onCancel }: Map
                         const handleMultiChange = (index: number, val: string) => {
                             const newCols = [...selectedCols];
                             newCols[index] = val;
-                            const newVal = newCols.join('|||');
-                            setMapping({ ...mapping, [field.key]: newVal });
-                            setSaveStatus('idle');
+                            updateField(field.key, newCols.join('|||'));
                         };
 
                         const addColumn = () => {
                             const newCols = [...selectedCols, ''];
-                            setMapping({ ...mapping, [field.key]: newCols.join('|||') });
+                            updateField(field.key, newCols.join('|||'));
                         };
 
                         const removeColumn = (index: number) => {
                             const newCols = selectedCols.filter((_, i) => i !== index);
-                            setMapping({ ...mapping, [field.key]: newCols.length ? newCols.join('|||') : '' });
+                            updateField(field.key, newCols.length ? newCols.join('|||') : '');
                         };
 
                         return (
@@ -188,6 +267,17 @@ export function MappingStep({ file, canonicalFields, onComplete, onCancel }: Map
                                         ) : (
                                             <span className="text-[10px] bg-slate-700 text-slate-400 px-2 py-0.5 rounded-md font-bold uppercase tracking-wider">İsteğe Bağlı</span>
                                         )}
+                                        {fieldConfidence[field.key] !== undefined && (
+                                            <span
+                                                title="Başlık adına göre otomatik eşleştirildi"
+                                                className={cn(
+                                                    "text-[10px] px-2 py-0.5 rounded-md font-bold uppercase tracking-wider ml-auto shrink-0",
+                                                    CONFIDENCE_CLASSES[getConfidenceLevel(fieldConfidence[field.key])]
+                                                )}
+                                            >
+                                                Oto %{Math.round(fieldConfidence[field.key] * 100)}
+                                            </span>
+                                        )}
                                     </div>
                                     {!isMapped && (
                                         <div className="mt-2 flex items-center gap-2 text-red-400 text-xs font-bold animate-pulse">
@@ -223,8 +313,7 @@ export function MappingStep({ file, canonicalFields, onComplete, onCancel }: Map
                                                         if (isMultiColumn) {
                                                             handleMultiChange(colIndex, e.target.value);
                                                         } else {
-                                                            setMapping({ ...mapping, [field.key]: e.target.value });
-                                                            setSaveStatus('idle');
+                                                            updateField(field.key, e.target.value);
                                                         }
                                                     }}
                                                 >
@@ -274,7 +363,7 @@ export function MappingStep({ file, canonicalFields, onComplete, onCancel }: Map
                                 {preview.map((row, i) => (
                                     <tr key={i} className="hover:bg-white/[0.02] transition-colors">
                                         {headers.slice(0, 8).map((_, j) => (
-                                            <td key={j} className="p-3 border-b border-slate-800 font-medium text-slate-300">{row[j] || '-'}</td>
+                                            <td key={j} className="p-3 border-b border-slate-800 font-medium text-slate-300">{String(row[j] || '-')}</td>
                                         ))}
                                     </tr>
                                 ))}
@@ -285,26 +374,28 @@ export function MappingStep({ file, canonicalFields, onComplete, onCancel }: Map
 
                 {/* Actions */}
                 <div className="flex items-center justify-between pt-8 border-t border-slate-800 mt-8">
-                    {/* Left side: Persistence Tools */}
-                    <div className="flex gap-3">
-                        <Button
-                            variant="secondary"
-                            onClick={saveMapping}
-                            disabled={!allRequiredMapped}
-                            leftIcon={<Save size={18} />}
-                            title="Bu dosya formatı için eşleştirmeleri hafızaya kaydet"
-                            size="sm"
+                    <div className="flex items-center gap-2 text-xs text-slate-400">
+                        <label htmlFor="mapping-header-row">Başlık satırı</label>
+                        <select
+                            id="mapping-header-row"
+                            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white"
+                            value={headerRow}
+                            onChange={(e) => changeHeaderRow(Number(e.target.value))}
                         >
-                            {saveStatus === 'saved' ? 'KAYDEDİLDİ' : 'Hafızaya Kaydet'}
-                        </Button>
-
-                        <button
-                            onClick={clearMemory}
-                            className="text-xs font-bold text-slate-600 hover:text-red-400 transition-colors flex items-center gap-1 px-3"
-                            title="Tüm kayıtlı eşleştirme hafızasını temizle"
-                        >
-                            <Trash2 size={14} /> Hafızayı Sil
-                        </button>
+                            {rows.slice(0, 50).map((_, index) => (
+                                <option key={index} value={index}>
+                                    {index + 1}. {getRowHeaders(rows, index).filter(Boolean).slice(0, 3).join(' · ') || '(boş satır)'}
+                                </option>
+                            ))}
+                        </select>
+                        {headerConfidence !== null && (
+                            <span className={cn(
+                                "px-2 py-0.5 rounded-md font-bold",
+                                CONFIDENCE_CLASSES[getConfidenceLevel(headerConfidence)]
+                            )}>
+                                Otomatik bulundu · güven %{Math.round(headerConfidence * 100)}
+                            </span>
+                        )}
                     </div>
 
                     {/* Right side: Navigation */}
@@ -320,7 +411,7 @@ export function MappingStep({ file, canonicalFields, onComplete, onCancel }: Map
                         <Button
                             variant="primary"
                             disabled={!allRequiredMapped}
-                            onClick={() => onComplete(mapping, detectedHeaderRow)}
+                            onClick={() => onComplete(mapping, headerRow, sheetSelection)}
                             rightIcon={<ArrowRight size={20} />}
                         >
                             Tamamla ve Devam Et
@@ -0,0 +1,88 @@
+import { CalendarClock, Upload, X } from 'lucide-react';
+import type { ReconciliationPeriodShiftSource } from '../../common/types';
+import type { AdjacentPeriodPosition } from '../utils/periodShift';
+import { SPREADSHEET_ACCEPT } from '../../../utils/spreadsheetFile';
+
+interface PeriodShiftPanelProps {
+    sources: ReconciliationPeriodShiftSource[];
+    uploadedFiles: Partial<Record<AdjacentPeriodPosition, string>>;
+    busy: boolean;
+    error: string | null;
+    onFileChange: (position: AdjacentPeriodPosition, file: File | null) => void;
+}
+
+const POSITIONS: { position: AdjacentPeriodPosition; label: string }[] = [
+    { position: 'PREVIOUS', label: 'Önceki Dönem' },
+    { position: 'NEXT', label: 'Sonraki Dönem' },
+];
+
+export function PeriodShiftPanel({ sources, uploadedFiles, busy, error, onFileChange }: PeriodShiftPanelProps) {
+    return (
+        <div className="rounded-2xl border border-[var(--border-color)] bg-[var(--bg-card)] p-4 space-y-3">
+            <div className="flex items-center gap-2">
+                <CalendarClock size={16} className="text-sky-400" />
+                <h3 className="text-sm font-bold text-white">Dönemsellik Kontrolü</h3>
+                <p className="text-xs text-slate-500">
+                    Komşu dönemde karşılığı olan eksik kayıtlar "dönemsellik farkı" olarak ayrı toplanır.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {POSITIONS.map(({ position, label }) => {
+                    const source = sources.find(item => item.position === position);
+                    const uploadedFile = uploadedFiles[position];
+                    const inputId = `period-shift-${position}`;
+                    return (
+                        <div key={position} className="flex items-center justify-between gap-3 rounded-xl border border-slate-700 bg-slate-900/40 px-3 py-2">
+                            <div className="min-w-0">
+                                <p className="text-xs font-semibold text-slate-300">{label}{source?.label ? ` (${source.label})` : ''}</p>
+                                <p className="text-[11px] text-slate-500 truncate">
+                                    {uploadedFile
+                                        ? `Muhasebe dosyası: ${uploadedFile}`
+                                        : source
+                                            ? 'Kayıtlı mutabakat çalışması kullanıldı'
+                                            : 'Kayıtlı çalışma yok'}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-1 shrink-0">
+                                <input
+                                    type="file"
+                                    id={inputId}
+                                    className="hidden"
+                                    accept={SPREADSHEET_ACCEPT}
+                                    onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        e.target.value = '';
+                                        if (file) onFileChange(position, file);
+                                    }}
+                                />
+                                <button
+                                    type="button"
+                                    disabled={busy}
+                                    onClick={() => document.getElementById(inputId)?.click()}
+                                    className="px-2 py-1 rounded-md border border-slate-600 text-xs font-semibold text-slate-300 hover:border-sky-500/50 flex items-center gap-1 disabled:opacity-50"
+                                >
+                                    <Upload size={12} /> Muhasebe Dosyası
+                                </button>
+                                {uploadedFile && (
+                                    <button
+                                        type="button"
+                                        disabled={busy}
+                                        onClick={() => onFileChange(position, null)}
+                                        title="Dosyayı kaldır"
+                                        className="p-1 rounded-md text-slate-500 hover:text-red-400 disabled:opacity-50"
+                                    >
+                                        <X size={14} />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {busy && <p className="text-xs text-sky-300">Mutabakat komşu dönem verileriyle yeniden çalıştırılıyor...</p>}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+    );
+}
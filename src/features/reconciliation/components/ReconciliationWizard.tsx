@@ -4,6 +4,8 @@ import { ReportView } from './ReportView';
 import { MappingStep } from './MappingStep';
 import { ExclusionStep } from './ExclusionStep';
 import { useReconciliation } from '../hooks/useReconciliation';
+import { isFaturaXmlSourceFile } from '../../fatura-xml/utils/parser';
+import { DataQualityTable } from '../../../components/common/DataQualityTable';
 
 interface ReconciliationWizardProps {
     recon: ReturnType<typeof useReconciliation>;
@@ -46,13 +48,36 @@ export function ReconciliationWizard({ recon, mode }: ReconciliationWizardProps)
 
     // Report Step
     if (state.step === 6 && state.reports) {
-        return <ReportView reports={state.reports} onReset={actions.resetAll} />;
+        return (
+            <ReportView
+                reports={state.reports}
+                mode={mode}
+                fuzzyDecisions={state.fuzzyDecisions}
+                onFuzzyDecision={actions.setFuzzyDecision}
+                rowReviews={state.rowReviews}
+                onRowReviewChange={actions.setRowReview}
+                periodShiftSources={state.periodShiftSources}
+                adjacentFiles={Object.fromEntries(
+                    Object.entries(state.adjacentUploads).map(([position, upload]) => [position, upload?.fileName])
+                )}
+                onAdjacentFileChange={(position, file) => actions.setAdjacentAccountingFile(position, file, mode)}
+                busy={state.loading}
+                error={state.error}
+                onReset={actions.resetAll}
+            />
+        );
     }
 
     return (
         <div>
             <WizardStepper currentStep={state.step} mode={mode} />
 
+            {state.step === 1 && ((state.loading && state.eFiles.length === 0) || state.error) && (
+                <p className={`mt-6 text-sm text-center ${state.error ? 'text-red-400' : 'text-slate-400'}`}>
+                    {state.error || 'XML faturalar okunuyor...'}
+                </p>
+            )}
+
             <div className="mt-8">
                 {/* Step 1: E-Invoice Upload & Mapping */}
                 {state.step === 1 && (
@@ -60,15 +85,24 @@ export function ReconciliationWizard({ recon, mode }: ReconciliationWizardProps)
                         <UploadStep
                             type="EINVOICE"
                             files={state.eFiles}
-                            onFilesChange={actions.setEFiles}
+                            onFilesChange={(files) => {
+                                // Portal arsivleri eslestirme adimi olmadan okunur
+                                const xmlFiles = files.filter(isFaturaXmlSourceFile);
+                                if (xmlFiles.length > 0) void actions.processXmlEFiles(xmlFiles, mode);
+                                else actions.setEFiles(files);
+                            }}
                             onNext={() => { }} // Auto handled when files > 0
                             onDemo={() => actions.handleDemoData('EINVOICE')}
+                            acceptXml
+                            faturaXmlCount={state.faturaXmlInvoiceCount}
+                            onUseFaturaXml={() => actions.loadFaturaXmlInvoices(mode)}
                         />
                     ) : (
                         <MappingStep
                             file={state.eFiles[state.currentFileIndex]}
                             canonicalFields={mode === 'SALES' ? SALES_EINVOICE_FIELDS : PURCHASE_EINVOICE_FIELDS}
-                            onComplete={(mapping, headerIndex) => actions.processEFile(mapping, headerIndex, mode)}
+                            profileTarget={mode === 'SALES' ? 'SALES_EINVOICE' : 'PURCHASE_EINVOICE'}
+                            onComplete={(mapping, headerIndex, sheetSelection) => actions.processEFile(mapping, headerIndex, mode, sheetSelection)}
                             onCancel={() => { actions.setEFiles([]); actions.setStep(1); }}
                         />
                     )
@@ -77,7 +111,7 @@ export function ReconciliationWizard({ recon, mode }: ReconciliationWizardProps)
                 {/* Step 2: Exclusion */}
                 {state.step === 2 && (
                     <ExclusionStep
-                        data={state.eInvoiceData}
+                        data={state.exclusionData}
                         onComplete={actions.handleExclusionComplete}
                         onBack={() => { actions.setStep(1); actions.setEFiles([]); }}
                     />
@@ -97,7 +131,8 @@ export function ReconciliationWizard({ recon, mode }: ReconciliationWizardProps)
                         <MappingStep
                             file={state.accFiles[state.currentFileIndex]}
                             canonicalFields={mode === 'SALES' ? SALES_ACCOUNTING_VAT_FIELDS : PURCHASE_ACCOUNTING_VAT_FIELDS}
-                            onComplete={(mapping, headerIndex) => actions.processAccFile(mapping, headerIndex, mode)}
+                            profileTarget={mode === 'SALES' ? 'SALES_ACCOUNTING_VAT' : 'PURCHASE_ACCOUNTING_VAT'}
+                            onComplete={(mapping, headerIndex, sheetSelection) => actions.processAccFile(mapping, headerIndex, mode, sheetSelection)}
                             onCancel={() => { actions.setAccFiles([]); actions.setStep(3); }}
                         />
                     )
@@ -117,12 +152,27 @@ export function ReconciliationWizard({ recon, mode }: ReconciliationWizardProps)
                         <MappingStep
                             file={state.accMatrahFiles[state.currentFileIndex]}
                             canonicalFields={ACCOUNTING_MATRAH_FIELDS}
+                            profileTarget="ACCOUNTING_MATRAH"
                             onComplete={actions.processAccMatrahFile}
                             onCancel={() => { actions.setAccMatrahFiles([]); actions.setStep(4); }}
                         />
                     )
                 )}
             </div>
+
+            {state.importQuality.length > 0 && (
+                <section className="mt-8 space-y-3">
+                    <h3 className="text-sm font-semibold text-white">Veri Kalitesi</h3>
+                    {state.importQuality.map((report) => (
+                        <DataQualityTable
+                            key={`${report.source}-${report.fileName}`}
+                            title={`${report.source} · ${report.fileName} (${report.totalRows.toLocaleString('tr-TR')} satır)`}
+                            fileName={report.fileName}
+                            rows={report.rows}
+                        />
+                    ))}
+                </section>
+            )}
         </div>
     );
 }
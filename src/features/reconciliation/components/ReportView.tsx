@@ -1,27 +1,124 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import * as XLSX from 'xlsx';
-import { Download, Filter, Check } from 'lucide-react';
+import { Download, Filter, Check, X } from 'lucide-react';
 import { Button } from '../../../components/common/Button';
 import { cn } from '../../../components/common/Button';
 import { applyStyledSheet } from '../../../utils/excelStyle';
 
 import type { ReconciliationReportData } from '../../../types';
+import {
+    FUZZY_HIDDEN_KEYS,
+    FUZZY_MATCH_ID_KEY,
+    applyFuzzyDecisions,
+    type FuzzyMatchDecision,
+} from '../utils/fuzzyMatching';
+import type { ReconciliationPeriodShiftSource, ReportRowReview, ReportRowReviewStatus } from '../../common/types';
+import {
+    ROW_REVIEW_STATUS_LABELS,
+    getReportRowReviewKey,
+    toReviewExportColumns,
+    type ReconciliationMode,
+    type ResolvedRowReview,
+} from '../utils/rowReviews';
+import { summarizeMissingRows, type AdjacentPeriodPosition } from '../utils/periodShift';
+import { PeriodShiftPanel } from './PeriodShiftPanel';
 
 /** A single report row — keys are column headers, values are display data */
 type ReportRow = Record<string, string | number | Date | null>;
 
 interface ReportViewProps {
     reports: ReconciliationReportData;
+    mode: ReconciliationMode;
+    fuzzyDecisions: Record<string, FuzzyMatchDecision>;
+    onFuzzyDecision: (matchId: string, decision: FuzzyMatchDecision | null) => void;
+    rowReviews: Record<string, ResolvedRowReview>;
+    onRowReviewChange: (key: string, patch: Partial<ReportRowReview>) => void;
+    periodShiftSources: ReconciliationPeriodShiftSource[];
+    adjacentFiles: Partial<Record<AdjacentPeriodPosition, string>>;
+    onAdjacentFileChange: (position: AdjacentPeriodPosition, file: File | null) => void;
+    busy: boolean;
+    error: string | null;
     onReset: () => void;
 }
 
-export function ReportView({ reports, onReset }: ReportViewProps) {
+type ReviewFilter = 'ALL' | 'UNREVIEWED' | 'CARRY' | ReportRowReviewStatus;
+
+const REVIEW_FILTER_OPTIONS: { value: ReviewFilter; label: string }[] = [
+    { value: 'ALL', label: 'Tümü' },
+    { value: 'UNREVIEWED', label: 'İncelenmemiş' },
+    { value: 'EXPLAINED', label: ROW_REVIEW_STATUS_LABELS.EXPLAINED },
+    { value: 'TO_FIX', label: ROW_REVIEW_STATUS_LABELS.TO_FIX },
+    { value: 'ASKED_CUSTOMER', label: ROW_REVIEW_STATUS_LABELS.ASKED_CUSTOMER },
+    { value: 'CARRY', label: 'Devredilecek' },
+];
+
+// Olasi eslesme sekmesi kabul/red karariyla yonetilir; satir incelemesi diger sekmeler icindir.
+const FUZZY_TAB_ID = 6;
+
+const formatAmount = (value: number) => value.toLocaleString('tr-TR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const HIDDEN_COLUMNS = ['id', 'originalRow', 'validationError', 'multipleInvoicesFound', ...FUZZY_HIDDEN_KEYS];
+
+const TAB_GRID_CLASSES: Record<number, string> = {
+    4: 'md:grid-cols-4',
+    5: 'md:grid-cols-5',
+    6: 'md:grid-cols-3 xl:grid-cols-6',
+    7: 'md:grid-cols-4 xl:grid-cols-7',
+    8: 'md:grid-cols-4 xl:grid-cols-8',
+};
+
+const stripHiddenFuzzyKeys = (row: ReportRow): ReportRow => {
+    const next: ReportRow = {};
+    Object.entries(row).forEach(([key, val]) => {
+        if (!FUZZY_HIDDEN_KEYS.includes(key)) next[key] = val;
+    });
+    return next;
+};
+
+export function ReportView({
+    reports: rawReports,
+    mode,
+    fuzzyDecisions,
+    onFuzzyDecision,
+    rowReviews,
+    onRowReviewChange,
+    periodShiftSources,
+    adjacentFiles,
+    onAdjacentFileChange,
+    busy,
+    error,
+    onReset,
+}: ReportViewProps) {
     const [activeTab, setActiveTab] = useState(1);
+    const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('ALL');
+    const reports = useMemo(() => applyFuzzyDecisions(rawReports, fuzzyDecisions), [rawReports, fuzzyDecisions]);
+    // Eksik kayit sekmelerinde donemsellik farklari gercek eksiklerden ayri toplanir.
+    const missingTotals = useMemo(() => ({
+        1: summarizeMissingRows(reports.report1),
+        2: summarizeMissingRows(reports.report2),
+    } as Record<number, ReturnType<typeof summarizeMissingRows>>), [reports]);
+
+    const getReviewKey = (tabId: number, row: ReportRow) => getReportRowReviewKey(mode, `report${tabId}`, row);
+
+    const matchesReviewFilter = (tabId: number, row: ReportRow) => {
+        if (reviewFilter === 'ALL' || tabId === FUZZY_TAB_ID) return true;
+        const review = rowReviews[getReviewKey(tabId, row)];
+        if (reviewFilter === 'UNREVIEWED') return !review?.status;
+        if (reviewFilter === 'CARRY') return Boolean(review?.carryForward);
+        return review?.status === reviewFilter;
+    };
+
+    const toExportRows = (tabId: number, rows: ReportRow[]): ReportRow[] => {
+        return rows.map(row => ({
+            ...stripHiddenFuzzyKeys(row),
+            ...(tabId === FUZZY_TAB_ID ? {} : toReviewExportColumns(rowReviews[getReviewKey(tabId, row)])),
+        }));
+    };
 
     const downloadExcel = (data: ReportRow[], fileName: string) => {
         const formattedData = data.map(row => {
             const newRow: Record<string, unknown> = {};
-            Object.entries(row).forEach(([key, val]) => {
+            Object.entries(stripHiddenFuzzyKeys(row)).forEach(([key, val]) => {
                 if (typeof val === 'string' && /^\d{2}\.\d{2}\.\d{4}$/.test(val)) {
                     const [d, m, y] = val.split('.').map(Number);
                     newRow[key] = new Date(Date.UTC(y, m - 1, d));
@@ -52,11 +149,17 @@ export function ReportView({ reports, onReset }: ReportViewProps) {
         { id: 1, label: 'E-Fatura Eksik', data: reports.report1, color: 'text-red-400', badge: 'bg-red-500/10 text-red-400' },
         { id: 2, label: 'Muhasebe Eksik', data: reports.report2, color: 'text-orange-400', badge: 'bg-orange-500/10 text-orange-400' },
         { id: 3, label: 'Tutar Farkları', data: reports.report3, color: 'text-cyan-400', badge: 'bg-cyan-500/10 text-cyan-400' },
-        { id: 4, label: 'Hatalı Kayıtlar', data: reports.report4 || [], color: 'text-rose-400', badge: 'bg-rose-500/10 text-rose-400' }
+        { id: 4, label: 'Hatalı Kayıtlar', data: reports.report4 || [], color: 'text-rose-400', badge: 'bg-rose-500/10 text-rose-400' },
+        // Oran bazlı rapor yalnızca satış mutabakatında üretilir
+        ...(reports.report5 ? [{ id: 5, label: 'Oran Farkları', data: reports.report5, color: 'text-amber-400', badge: 'bg-amber-500/10 text-amber-400' }] : []),
+        ...(reports.report6 ? [{ id: 6, label: 'Olası Eşleşme', data: reports.report6, color: 'text-violet-400', badge: 'bg-violet-500/10 text-violet-400' }] : []),
+        ...(reports.report7 ? [{ id: 7, label: 'Tevkifat Farkları', data: reports.report7, color: 'text-teal-400', badge: 'bg-teal-500/10 text-teal-400' }] : []),
+        ...(reports.report8 ? [{ id: 8, label: 'İade / İptal', data: reports.report8, color: 'text-pink-400', badge: 'bg-pink-500/10 text-pink-400' }] : [])
     ];
 
     const currentTab = tabs.find(t => t.id === activeTab);
-    const currentTabData = currentTab?.data || [];
+    const currentTabData = (currentTab?.data || []).filter(row => matchesReviewFilter(activeTab, row));
+    const showReviewColumns = activeTab !== FUZZY_TAB_ID;
 
     return (
         <div className="space-y-6 animate-fade-in">
@@ -75,8 +178,9 @@ export function ReportView({ reports, onReset }: ReportViewProps) {
                             const wb = XLSX.utils.book_new();
                             tabs.forEach(tab => {
                                 if (tab.data.length > 0) {
-                                    const ws = XLSX.utils.json_to_sheet(tab.data);
-                                    const hdrs = Object.keys(tab.data[0] || {});
+                                    const exportRows = toExportRows(tab.id, tab.data);
+                                    const ws = XLSX.utils.json_to_sheet(exportRows);
+                                    const hdrs = Object.keys(exportRows[0] || {});
                                     const numCols = hdrs
                                         .map((h, i) => (/tutar|bor[çc]|alacak|fark|matrah|kdv/i.test(h) ? i : -1))
                                         .filter((i) => i >= 0);
@@ -94,8 +198,16 @@ export function ReportView({ reports, onReset }: ReportViewProps) {
                 </div>
             </div>
 
+            <PeriodShiftPanel
+                sources={periodShiftSources}
+                uploadedFiles={adjacentFiles}
+                busy={busy}
+                error={error}
+                onFileChange={onAdjacentFileChange}
+            />
+
             {/* Tabs Grid */}
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className={cn("grid grid-cols-1 gap-4", TAB_GRID_CLASSES[tabs.length])}>
                 {tabs.map(tab => (
                     <div
                         key={tab.id}
@@ -112,6 +224,9 @@ export function ReportView({ reports, onReset }: ReportViewProps) {
                             <span className={`text-4xl font-black ${tab.color}`}>{tab.data.length}</span>
                             <span className="text-slate-500 text-sm font-medium">Kayıt</span>
                         </div>
+                        {missingTotals[tab.id]?.periodShift.count > 0 && (
+                            <p className="text-xs text-sky-300 mt-1">{missingTotals[tab.id].periodShift.count} dönemsellik farkı</p>
+                        )}
                         {activeTab === tab.id && <div className="absolute bottom-0 left-0 w-full h-1 bg-blue-500"></div>}
                     </div>
                 ))}
@@ -124,27 +239,61 @@ export function ReportView({ reports, onReset }: ReportViewProps) {
                         <Filter className="text-blue-400" size={20} />
                         <h3 className="font-bold text-lg text-white">{currentTab?.label} Listesi</h3>
                     </div>
-                    <button
-                        onClick={() => downloadExcel(currentTabData, currentTab?.label || 'Rapor')}
-                        className="text-xs font-bold text-blue-400 hover:text-white transition-colors flex items-center gap-2"
-                    >
-                        <Download size={14} /> Bu Listeyi İndir
-                    </button>
+                    <div className="flex items-center gap-4">
+                        {showReviewColumns && (
+                            <select
+                                value={reviewFilter}
+                                onChange={(e) => setReviewFilter(e.target.value as ReviewFilter)}
+                                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+                            >
+                                {REVIEW_FILTER_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        )}
+                        <button
+                            onClick={() => downloadExcel(toExportRows(activeTab, currentTabData), currentTab?.label || 'Rapor')}
+                            className="text-xs font-bold text-blue-400 hover:text-white transition-colors flex items-center gap-2"
+                        >
+                            <Download size={14} /> Bu Listeyi İndir
+                        </button>
+                    </div>
                 </div>
 
+                {missingTotals[activeTab]?.periodShift.count > 0 && (
+                    <div className="px-6 py-3 border-b border-[var(--border-color)] grid grid-cols-1 md:grid-cols-2 gap-3 text-xs">
+                        <div className="text-slate-300">
+                            <span className="font-bold text-red-300">Gerçek eksik:</span> {missingTotals[activeTab].missing.count} kayıt, KDV {formatAmount(missingTotals[activeTab].missing.kdv)} TL
+                        </div>
+                        <div className="text-slate-300">
+                            <span className="font-bold text-sky-300">Dönemsellik farkı:</span> {missingTotals[activeTab].periodShift.count} kayıt, KDV {formatAmount(missingTotals[activeTab].periodShift.kdv)} TL
+                        </div>
+                    </div>
+                )}
+
                 <div className="flex-1 overflow-auto">
                     <table className="w-full text-left border-collapse">
                         <thead className="bg-slate-900/80 backdrop-blur sticky top-0 z-10">
                             <tr>
-                                {currentTabData.length > 0 && Object.keys(currentTabData[0]).filter(k => !['id', 'originalRow', 'validationError', 'multipleInvoicesFound'].includes(k)).map(key => (
+                                {currentTabData.length > 0 && Object.keys(currentTabData[0]).filter(k => !HIDDEN_COLUMNS.includes(k)).map(key => (
                                     <th key={key} className="p-4 text-xs font-bold text-slate-400 uppercase tracking-wider border-b border-white/10">{key}</th>
                                 ))}
+                                {activeTab === FUZZY_TAB_ID && currentTabData.length > 0 && (
+                                    <th className="p-4 text-xs font-bold text-slate-400 uppercase tracking-wider border-b border-white/10">Karar</th>
+                                )}
+                                {showReviewColumns && currentTabData.length > 0 && (
+                                    <>
+                                        <th className="p-4 text-xs font-bold text-slate-400 uppercase tracking-wider border-b border-white/10">İnceleme</th>
+                                        <th className="p-4 text-xs font-bold text-slate-400 uppercase tracking-wider border-b border-white/10">Not</th>
+                                        <th className="p-4 text-xs font-bold text-slate-400 uppercase tracking-wider border-b border-white/10">Devret</th>
+                                    </>
+                                )}
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-white/5 text-sm text-slate-300">
                             {currentTabData.map((row: ReportRow, i: number) => (
                                 <tr key={i} className="hover:bg-blue-500/5 transition-colors">
-                                    {Object.keys(row).filter(k => !['id', 'originalRow', 'validationError', 'multipleInvoicesFound'].includes(k)).map(key => {
+                                    {Object.keys(row).filter(k => !HIDDEN_COLUMNS.includes(k)).map(key => {
                                         let val = row[key];
                                         if (val instanceof Date) val = val.toLocaleDateString('tr-TR');
                                         if (typeof val === 'number' && (key.toLowerCase().includes('tutar') || key.toLowerCase().includes('borç') || key.toLowerCase().includes('alacak'))) {
@@ -152,6 +301,86 @@ export function ReportView({ reports, onReset }: ReportViewProps) {
                                         }
                                         return <td key={key} className="p-4 font-medium whitespace-nowrap">{val}</td>
                                     })}
+                                    {activeTab === FUZZY_TAB_ID && (() => {
+                                        const matchId = String(row[FUZZY_MATCH_ID_KEY]);
+                                        const decision = fuzzyDecisions[matchId];
+                                        return (
+                                            <td className="p-4 whitespace-nowrap">
+                                                <div className="flex items-center gap-2">
+                                                    <button
+                                                        onClick={() => onFuzzyDecision(matchId, decision === 'ACCEPTED' ? null : 'ACCEPTED')}
+                                                        className={cn(
+                                                            "px-2 py-1 rounded-md border text-xs font-semibold flex items-center gap-1 transition-colors",
+                                                            decision === 'ACCEPTED'
+                                                                ? 'bg-emerald-500/20 border-emerald-500/50 text-emerald-200'
+                                                                : 'border-slate-600 text-slate-300 hover:border-emerald-500/50'
+                                                        )}
+                                                    >
+                                                        <Check size={12} /> Kabul
+                                                    </button>
+                                                    <button
+                                                        onClick={() => onFuzzyDecision(matchId, decision === 'REJECTED' ? null : 'REJECTED')}
+                                                        className={cn(
+                                                            "px-2 py-1 rounded-md border text-xs font-semibold flex items-center gap-1 transition-colors",
+                                                            decision === 'REJECTED'
+                                                                ? 'bg-red-500/20 border-red-500/50 text-red-200'
+                                                                : 'border-slate-600 text-slate-300 hover:border-red-500/50'
+                                                        )}
+                                                    >
+                                                        <X size={12} /> Red
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        );
+                                    })()}
+                                    {showReviewColumns && (() => {
+                                        const reviewKey = getReviewKey(activeTab, row);
+                                        const review = rowReviews[reviewKey];
+                                        return (
+                                            <>
+                                                <td className="p-4 whitespace-nowrap">
+                                                    <select
+                                                        value={review?.status || ''}
+                                                        onChange={(e) => onRowReviewChange(reviewKey, { status: (e.target.value || undefined) as ReportRowReviewStatus | undefined })}
+                                                        className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+                                                    >
+                                                        <option value="">—</option>
+                                                        {(Object.keys(ROW_REVIEW_STATUS_LABELS) as ReportRowReviewStatus[]).map(status => (
+                                                            <option key={status} value={status}>{ROW_REVIEW_STATUS_LABELS[status]}</option>
+                                                        ))}
+                                                    </select>
+                                                    {review?.carriedFrom && (
+                                                        <p className="text-[10px] text-amber-300 mt-1">{review.carriedFrom} döneminden</p>
+                                                    )}
+                                                </td>
+                                                <td className="p-4">
+                                                    <input
+                                                        key={`${reviewKey}:${review?.note || ''}`}
+                                                        type="text"
+                                                        defaultValue={review?.note || ''}
+                                                        placeholder="Not ekle..."
+                                                        onBlur={(e) => {
+                                                            const note = e.target.value.trim();
+                                                            if (note !== (review?.note || '')) onRowReviewChange(reviewKey, { note: note || undefined });
+                                                        }}
+                                                        onKeyDown={(e) => {
+                                                            if (e.key === 'Enter') e.currentTarget.blur();
+                                                        }}
+                                                        className="w-48 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+                                                    />
+                                                </td>
+                                                <td className="p-4 text-center">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={Boolean(review?.carryForward)}
+                                                        onChange={(e) => onRowReviewChange(reviewKey, { carryForward: e.target.checked || undefined })}
+                                                        title="Sonraki döneme devret"
+                                                        className="accent-blue-500"
+                                                    />
+                                                </td>
+                                            </>
+                                        );
+                                    })()}
                                 </tr>
                             ))}
                             {currentTabData.length === 0 && (
@@ -160,8 +389,14 @@ export function ReportView({ reports, onReset }: ReportViewProps) {
                                         <div className="w-16 h-16 bg-emerald-500/10 rounded-full flex items-center justify-center mx-auto mb-4 border border-emerald-500/20">
                                             <Check className="text-emerald-500 w-8 h-8" />
                                         </div>
-                                        <p className="text-lg font-bold text-white">Harika!</p>
-                                        <p className="text-slate-500">Bu kategoride herhangi bir fark bulunamadı.</p>
+                                        {reviewFilter !== 'ALL' && (currentTab?.data.length || 0) > 0 ? (
+                                            <p className="text-slate-500">Filtreye uyan kayıt bulunamadı.</p>
+                                        ) : (
+                                            <>
+                                                <p className="text-lg font-bold text-white">Harika!</p>
+                                                <p className="text-slate-500">Bu kategoride herhangi bir fark bulunamadı.</p>
+                                            </>
+                                        )}
                                     </td>
                                 </tr>
                             )}
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Upload, FileSpreadsheet, X, ChevronRight, FileUp } from 'lucide-react';
 import { cn, Button } from '../../../components/common/Button';
+import { SPREADSHEET_EXTENSIONS } from '../../../utils/spreadsheetFile';
 
 
 interface UploadStepProps {
@@ -9,25 +10,32 @@ interface UploadStepProps {
     onFilesChange: (files: File[]) => void;
     onNext: () => void;
     onDemo: () => void;
+    acceptXml?: boolean;
+    faturaXmlCount?: number;
+    onUseFaturaXml?: () => void;
 }
 
-export function UploadStep({ type, files, onFilesChange, onNext, onDemo }: UploadStepProps) {
+const XML_EXTENSIONS = ['.zip', '.rar', '.7z', '.xml'];
+
+export function UploadStep({ type, files, onFilesChange, onNext, onDemo, acceptXml, faturaXmlCount = 0, onUseFaturaXml }: UploadStepProps) {
     const [isDragging, setIsDragging] = useState(false);
     const max = type === 'EINVOICE' ? 5 : 2;
+    const extensions = acceptXml ? [...SPREADSHEET_EXTENSIONS, ...XML_EXTENSIONS] : SPREADSHEET_EXTENSIONS;
+    const isAccepted = (file: File) => extensions.some(ext => file.name.toLowerCase().endsWith(ext));
 
     const handleDrop = (e: React.DragEvent) => {
         e.preventDefault();
         setIsDragging(false);
         const dropped = Array.from(e.dataTransfer.files)
-            .filter(f => f.name.toLowerCase().endsWith('.xlsx') || f.name.toLowerCase().endsWith('.xls'))
+            .filter(isAccepted)
             .slice(0, max - files.length);
         if (dropped.length > 0) onFilesChange([...files, ...dropped]);
     };
 
     const title = type === 'EINVOICE' ? 'E-Fatura Listesini Yükle' : 'Muhasebe Kayıtlarını Yükle';
     const description = type === 'EINVOICE'
-        ? 'GİB veya Entegratör portalından indirdiğiniz Excel formatındaki e-fatura listesini buraya yükleyin.'
-        : 'Muhasebe programınızdan (Logo, Mikro, Zirve vb.) aldığınız muavin dökümünü (Excel) buraya yükleyin.';
+        ? 'GİB veya Entegratör portalından indirdiğiniz e-fatura listesini (Excel, ODS, CSV veya TXT) buraya yükleyin.'
+        : 'Muhasebe programınızdan (Logo, Mikro, Zirve vb.) aldığınız muavin dökümünü (Excel, ODS, CSV veya TXT) buraya yükleyin.';
 
     return (
         <div className="max-w-3xl mx-auto animate-fade-in">
@@ -37,6 +45,11 @@ export function UploadStep({ type, files, onFilesChange, onNext, onDemo }: Uploa
                 </div>
                 <h2 className="text-2xl font-bold text-white mb-2">{title}</h2>
                 <p className="text-slate-400 max-w-lg mx-auto">{description}</p>
+                {acceptXml && (
+                    <p className="text-xs text-slate-500 max-w-lg mx-auto mt-2">
+                        Portal ZIP/XML arşivleri de yüklenebilir; UBL alanları sütun eşleştirmesi olmadan okunur.
+                    </p>
+                )}
             </div>
 
             <div
@@ -59,10 +72,10 @@ export function UploadStep({ type, files, onFilesChange, onNext, onDemo }: Uploa
                     id={`file-upload-${type}`}
                     className="hidden"
                     multiple
-                    accept=".xlsx, .xls"
+                    accept={extensions.join(', ')}
                     onChange={(e) => {
                         const selected = Array.from(e.target.files || [])
-                            .filter((f: any) => f.name.toLowerCase().endsWith('.xlsx') || f.name.toLowerCase().endsWith('.xls'))
+                            .filter(isAccepted)
                             .slice(0, max - files.length);
                         if (selected.length > 0) onFilesChange([...files, ...selected]);
                     }}
@@ -102,9 +115,16 @@ export function UploadStep({ type, files, onFilesChange, onNext, onDemo }: Uploa
             )}
 
             <div className="mt-8 flex items-center justify-between">
-                <Button variant="ghost" onClick={onDemo} size="sm">
-                    Örnek Veri Kullan
-                </Button>
+                <div className="flex items-center gap-2">
+                    <Button variant="ghost" onClick={onDemo} size="sm">
+                        Örnek Veri Kullan
+                    </Button>
+                    {onUseFaturaXml && faturaXmlCount > 0 && (
+                        <Button variant="ghost" onClick={onUseFaturaXml} size="sm">
+                            Fatura XML Kayıtlarını Kullan ({faturaXmlCount})
+                        </Button>
+                    )}
+                </div>
 
                 <Button
                     disabled={files.length === 0}
@@ -1,7 +1,21 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import type { EInvoiceRow, AccountingRow, AccountingMatrahRow, ReconciliationReportData } from '../../../types';
 import { createDemoData } from '../../../utils/demo';
 import { useCompany } from '../../../context/CompanyContext';
+import {
+    appendReportSnapshot,
+    buildReconciliationSnapshot,
+    collectSourceFileNames,
+} from '../../report-history/reportHistoryService';
+import { buildKdvInvoiceTotals } from '../../kdv-return/kdvReturnCalculator';
+import { FUZZY_MATCH_ID_KEY, type FuzzyMatchDecision } from '../utils/fuzzyMatching';
+import type { ImportQualityReport, ReconciliationPeriodShiftSource, ReportRowReview } from '../../common/types';
+import { isEmptyReview, mergeCarriedReviews } from '../utils/rowReviews';
+import { dbService } from '../../../services/db';
+import { findNextPeriod, findPreviousPeriod, formatPeriodLabel } from '../../../services/companyPeriods';
+import type { AdjacentPeriodPosition, AdjacentPeriodSource } from '../utils/periodShift';
+import { convertFaturaXmlInvoices } from '../utils/xmlInvoiceSource';
+import type { SheetSelection } from '../../../utils/workbookSheets';
 
 export interface UpdateInfo {
     message: string;
@@ -11,6 +25,9 @@ export interface UpdateInfo {
 
 type ReconciliationReports = ReconciliationReportData;
 
+type AccountingMapping = { mapping: Record<string, string>; headerRowIndex: number; sheetSelection?: SheetSelection };
+type AdjacentAccountingUploads = Partial<Record<AdjacentPeriodPosition, { fileName: string; rows: Record<string, unknown>[] }>>;
+
 export function useReconciliation() {
     const { activeCompany, patchActiveCompany, activeUploads, setActiveUploads } = useCompany();
 
@@ -21,11 +38,19 @@ export function useReconciliation() {
 
     const [currentFileIndex, setCurrentFileIndex] = useState(0);
     const [eInvoiceData, setEInvoiceData] = useState<EInvoiceRow[]>([]);
+    const [cancelledEInvoiceData, setCancelledEInvoiceData] = useState<EInvoiceRow[]>([]);
     const [accountingData, setAccountingData] = useState<AccountingRow[]>([]);
     const [accountingMatrahData, setAccountingMatrahData] = useState<AccountingMatrahRow[]>([]);
     const [tolerance, setTolerance] = useState<number>(0.25);
 
     const [reports, setReports] = useState<ReconciliationReports | null>(null);
+    const [fuzzyDecisions, setFuzzyDecisions] = useState<Record<string, FuzzyMatchDecision>>({});
+    const [currentRowReviews, setCurrentRowReviews] = useState<Record<string, ReportRowReview>>({});
+    const [previousRowReviews, setPreviousRowReviews] = useState<{ periodId: string; reviews: Record<string, ReportRowReview> } | null>(null);
+    const [accountingMapping, setAccountingMapping] = useState<AccountingMapping | null>(null);
+    const [adjacentUploads, setAdjacentUploads] = useState<AdjacentAccountingUploads>({});
+    const [periodShiftSources, setPeriodShiftSources] = useState<ReconciliationPeriodShiftSource[]>([]);
+    const [importQuality, setImportQuality] = useState<ImportQualityReport[]>([]);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [updateInfo, setUpdateInfo] = useState<UpdateInfo | null>(null);
@@ -69,13 +94,20 @@ export function useReconciliation() {
         setAccMatrahFiles(activeUploads.reconciliation.accountingMatrahFiles);
         setCurrentFileIndex(0);
         setError(null);
+        setAdjacentUploads({});
 
         if (!activeCompany) {
             setEInvoiceData([]);
+            setCancelledEInvoiceData([]);
             setAccountingData([]);
             setAccountingMatrahData([]);
             setReports(null);
+            setFuzzyDecisions({});
+            setCurrentRowReviews({});
+            setAccountingMapping(null);
+            setPeriodShiftSources([]);
             setTolerance(0.25);
+            setImportQuality([]);
             setStep(0);
             return;
         }
@@ -83,10 +115,16 @@ export function useReconciliation() {
         if (activeCompany.reconciliation) {
             const savedState = activeCompany.reconciliation;
             setEInvoiceData(savedState.eInvoiceData || []);
+            setCancelledEInvoiceData(savedState.cancelledEInvoiceData || []);
             setAccountingData(savedState.accountingData || []);
             setAccountingMatrahData(savedState.accountingMatrahData || []);
             setReports(savedState.reports || null);
+            setFuzzyDecisions((savedState.fuzzyDecisions as Record<string, FuzzyMatchDecision> | undefined) || {});
+            setCurrentRowReviews(savedState.rowReviews || {});
+            setAccountingMapping(savedState.accountingMapping || null);
+            setPeriodShiftSources(savedState.periodShiftSources || []);
             setTolerance(typeof savedState.tolerance === 'number' ? savedState.tolerance : 0.25);
+            setImportQuality([]);
 
             if (savedState.reports) {
                 setStep(6);
@@ -99,19 +137,50 @@ export function useReconciliation() {
         }
 
         setEInvoiceData([]);
+        setCancelledEInvoiceData([]);
         setAccountingData([]);
         setAccountingMatrahData([]);
         setReports(null);
+        setFuzzyDecisions({});
+        setCurrentRowReviews({});
+        setAccountingMapping(null);
+        setPeriodShiftSources([]);
         setTolerance(0.25);
+        setImportQuality([]);
         setStep(1);
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [
         activeCompany?.id,
+        activeCompany?.activePeriodId,
         activeUploads.reconciliation.eInvoiceFiles,
         activeUploads.reconciliation.accountingFiles,
         activeUploads.reconciliation.accountingMatrahFiles,
     ]);
 
+    const previousPeriod = useMemo(() => (activeCompany ? findPreviousPeriod(activeCompany) : null), [activeCompany]);
+    const activeCompanyId = activeCompany?.id;
+
+    // Onceki donemde "devret" isaretlenen satir notlari bu donemin raporlarinda da gosterilir.
+    useEffect(() => {
+        if (!activeCompanyId || !previousPeriod) return;
+        let cancelled = false;
+        dbService.getPeriodModuleSummary(activeCompanyId, previousPeriod.id, 'reconciliation')
+            .then((reconciliation) => {
+                if (!cancelled) setPreviousRowReviews({ periodId: previousPeriod.id, reviews: reconciliation?.rowReviews || {} });
+            })
+            .catch((err) => console.error('Onceki donem rapor notlari okunamadi', err));
+        return () => {
+            cancelled = true;
+        };
+    }, [activeCompanyId, previousPeriod]);
+
+    const rowReviews = useMemo(() => {
+        const carried = previousPeriod && previousRowReviews?.periodId === previousPeriod.id ? previousRowReviews.reviews : {};
+        return mergeCarriedReviews(currentRowReviews, carried, previousPeriod ? formatPeriodLabel(previousPeriod) : '');
+    }, [currentRowReviews, previousRowReviews, previousPeriod]);
+
+    const exclusionData = useMemo(() => [...eInvoiceData, ...cancelledEInvoiceData], [eInvoiceData, cancelledEInvoiceData]);
+
     const saveDataToCompany = useCallback(async (newData: Record<string, unknown>) => {
         await patchActiveCompany((company) => ({
             reconciliation: {
@@ -144,7 +213,16 @@ export function useReconciliation() {
         };
     }, []);
 
-    const processEFile = useCallback(async (mapping: Record<string, string>, headerRowIndex: number, mode: 'SALES' | 'PURCHASE') => {
+    // Ayni dosya yeniden islenirse onceki raporunun yerine gecer
+    const addImportQuality = useCallback((report?: ImportQualityReport) => {
+        if (!report) return;
+        setImportQuality((prev) => [
+            ...prev.filter((item) => item.source !== report.source || item.fileName !== report.fileName),
+            report,
+        ]);
+    }, []);
+
+    const processEFile = useCallback(async (mapping: Record<string, string>, headerRowIndex: number, mode: 'SALES' | 'PURCHASE', sheetSelection?: SheetSelection) => {
         const currentFile = eFiles[currentFileIndex];
         if (!currentFile) {
             setError('Secili e-fatura dosyasi bulunamadi.');
@@ -154,13 +232,18 @@ export function useReconciliation() {
         setLoading(true);
         try {
             const { processEInvoiceFile } = await import('../services/excelProcessor');
-            const result = await processEInvoiceFile(currentFile, mapping, headerRowIndex, mode);
+            const result = await processEInvoiceFile(currentFile, mapping, headerRowIndex, mode, sheetSelection);
 
             if (result.success && result.data) {
+                addImportQuality(result.quality);
+                // Yeni e-fatura seti onceki yuklemenin iptal/iade ayrimini tasimaz
+                if (currentFileIndex === 0) setCancelledEInvoiceData([]);
                 setEInvoiceData((prev) => {
                     const base = currentFileIndex === 0 ? [] : prev;
                     const updated = [...base, ...result.data!];
-                    void saveDataToCompany({ eInvoiceData: updated });
+                    void saveDataToCompany(currentFileIndex === 0
+                        ? { eInvoiceData: updated, cancelledEInvoiceData: [] }
+                        : { eInvoiceData: updated });
                     return updated;
                 });
 
@@ -178,9 +261,52 @@ export function useReconciliation() {
         } finally {
             setLoading(false);
         }
-    }, [eFiles, currentFileIndex, saveDataToCompany]);
+    }, [eFiles, currentFileIndex, saveDataToCompany, addImportQuality]);
+
+    // XML kaynakli satirlar eslestirme adimini atlayip dogrudan haric tutma adimina gecer.
+    const applyXmlEInvoices = useCallback((rows: Record<string, unknown>[]) => {
+        const data = rows as unknown as EInvoiceRow[];
+        setEInvoiceData(data);
+        setCancelledEInvoiceData([]);
+        void saveDataToCompany({ eInvoiceData: data, cancelledEInvoiceData: [] });
+        setCurrentFileIndex(0);
+        setStep(2);
+    }, [saveDataToCompany]);
+
+    const processXmlEFiles = useCallback(async (files: File[], mode: 'SALES' | 'PURCHASE') => {
+        setLoading(true);
+        setError(null);
+        try {
+            const { parseFaturaXmlFile } = await import('../../fatura-xml/utils/parser');
+            const rows: Record<string, unknown>[] = [];
+            for (const file of files) {
+                const parsed = await parseFaturaXmlFile(file);
+                rows.push(...convertFaturaXmlInvoices(parsed.invoices, mode, file.name));
+            }
+            if (rows.length === 0) {
+                setError('XML dosyalarinda fatura numarasi olan kayit bulunamadi.');
+                return;
+            }
+            applyXmlEInvoices(rows);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            setError(`XML dosyasi okunamadi: ${message}`);
+        } finally {
+            setLoading(false);
+        }
+    }, [applyXmlEInvoices]);
 
-    const processAccFile = useCallback(async (mapping: Record<string, string>, headerRowIndex: number, mode: 'SALES' | 'PURCHASE') => {
+    const loadFaturaXmlInvoices = useCallback((mode: 'SALES' | 'PURCHASE') => {
+        const moduleData = activeCompany?.faturaXml;
+        if (!moduleData || moduleData.invoices.length === 0) {
+            setError('Fatura XML modulunde kayitli fatura bulunamadi.');
+            return;
+        }
+        setError(null);
+        applyXmlEInvoices(convertFaturaXmlInvoices(moduleData.invoices, mode, moduleData.sourceFileName));
+    }, [activeCompany, applyXmlEInvoices]);
+
+    const processAccFile = useCallback(async (mapping: Record<string, string>, headerRowIndex: number, mode: 'SALES' | 'PURCHASE', sheetSelection?: SheetSelection) => {
         const currentFile = accFiles[currentFileIndex];
         if (!currentFile) {
             setError('Secili muhasebe dosyasi bulunamadi.');
@@ -190,15 +316,17 @@ export function useReconciliation() {
         setLoading(true);
         try {
             const { processAccountingFile } = await import('../services/excelProcessor');
-            const result = await processAccountingFile(currentFile, mapping, headerRowIndex, mode);
+            const result = await processAccountingFile(currentFile, mapping, headerRowIndex, mode, sheetSelection);
 
             if (result.success && result.data) {
+                addImportQuality(result.quality);
                 setAccountingData((prev) => {
                     const base = currentFileIndex === 0 ? [] : prev;
                     const updated = [...base, ...result.data!];
-                    void saveDataToCompany({ accountingData: updated });
+                    void saveDataToCompany({ accountingData: updated, accountingMapping: { mapping, headerRowIndex, sheetSelection } });
                     return updated;
                 });
+                setAccountingMapping({ mapping, headerRowIndex, sheetSelection });
 
                 if (currentFileIndex + 1 < accFiles.length) {
                     setCurrentFileIndex(currentFileIndex + 1);
@@ -218,9 +346,9 @@ export function useReconciliation() {
         } finally {
             setLoading(false);
         }
-    }, [accFiles, currentFileIndex, saveDataToCompany]);
+    }, [accFiles, currentFileIndex, saveDataToCompany, addImportQuality]);
 
-    const processAccMatrahFile = useCallback(async (mapping: Record<string, string>, headerRowIndex: number) => {
+    const processAccMatrahFile = useCallback(async (mapping: Record<string, string>, headerRowIndex: number, sheetSelection?: SheetSelection) => {
         const currentFile = accMatrahFiles[currentFileIndex];
         if (!currentFile) {
             setError('Secili matrah dosyasi bulunamadi.');
@@ -230,9 +358,10 @@ export function useReconciliation() {
         setLoading(true);
         try {
             const { processAccountingMatrahFile } = await import('../services/excelProcessor');
-            const result = await processAccountingMatrahFile(currentFile, mapping, headerRowIndex);
+            const result = await processAccountingMatrahFile(currentFile, mapping, headerRowIndex, sheetSelection);
 
             if (result.success && result.data) {
+                addImportQuality(result.quality);
                 setAccountingMatrahData((prev) => {
                     const base = currentFileIndex === 0 ? [] : prev;
                     const updated = [...base, ...result.data!];
@@ -253,36 +382,178 @@ export function useReconciliation() {
         } finally {
             setLoading(false);
         }
-    }, [accMatrahFiles, currentFileIndex, saveDataToCompany]);
+    }, [accMatrahFiles, currentFileIndex, saveDataToCompany, addImportQuality]);
+
+    // Komsu donemin ayni moddaki kayitli calismasi ve/veya yuklenen muhasebe dosyasi donemsellik kontrolune girer.
+    const loadAdjacentPeriods = useCallback(async (
+        mode: 'SALES' | 'PURCHASE',
+        uploads: AdjacentAccountingUploads
+    ): Promise<AdjacentPeriodSource[]> => {
+        if (!activeCompany) return [];
+        const sources: AdjacentPeriodSource[] = [];
+        const positions: [AdjacentPeriodPosition, ReturnType<typeof findPreviousPeriod>][] = [
+            ['PREVIOUS', findPreviousPeriod(activeCompany)],
+            ['NEXT', findNextPeriod(activeCompany)],
+        ];
+
+        for (const [position, period] of positions) {
+            const upload = uploads[position];
+            let savedEInvoices: Record<string, unknown>[] = [];
+            let savedAccounting: Record<string, unknown>[] = [];
+            if (period) {
+                const saved = await dbService.getPeriodModuleSummary(activeCompany.id, period.id, 'reconciliation');
+                if (saved?.mode === mode) {
+                    const [eInvoices, accounting] = await Promise.all([
+                        dbService.getPeriodModuleField(activeCompany.id, period.id, 'reconciliation', 'eInvoiceData'),
+                        dbService.getPeriodModuleField(activeCompany.id, period.id, 'reconciliation', 'accountingData'),
+                    ]);
+                    savedEInvoices = (eInvoices || []) as unknown as Record<string, unknown>[];
+                    savedAccounting = (accounting || []) as unknown as Record<string, unknown>[];
+                }
+            }
+            if (!upload && savedEInvoices.length === 0 && savedAccounting.length === 0) continue;
+
+            sources.push({
+                position,
+                label: period ? formatPeriodLabel(period) : '',
+                origin: upload ? 'FILE' : 'SAVED_RUN',
+                fileName: upload?.fileName,
+                eInvoices: savedEInvoices,
+                accountingRows: upload ? upload.rows : savedAccounting,
+            });
+        }
+        return sources;
+    }, [activeCompany]);
 
-    const runReconciliation = useCallback((mode: 'SALES' | 'PURCHASE') => {
+    const runReconciliation = useCallback(async (mode: 'SALES' | 'PURCHASE', uploads: AdjacentAccountingUploads = adjacentUploads) => {
         if (eInvoiceData.length === 0 || (accountingData.length === 0 && accountingMatrahData.length === 0)) {
             setError('Veri setleri eksik.');
             return;
         }
 
         setLoading(true);
+        let adjacentPeriods: AdjacentPeriodSource[] = [];
+        try {
+            adjacentPeriods = await loadAdjacentPeriods(mode, uploads);
+        } catch (err) {
+            console.error('Komsu donem verileri okunamadi', err);
+        }
+        const sourceInfos: ReconciliationPeriodShiftSource[] = adjacentPeriods.map(({ position, label, origin, fileName }) => (
+            { position, label, origin, ...(fileName ? { fileName } : {}) }
+        ));
+
         const worker = new Worker(new URL('../../../workers/reconciliation.worker.ts', import.meta.url), { type: 'module' });
         worker.postMessage({
             type: 'RECONCILE',
             payload: {
                 eInvoices: eInvoiceData,
+                cancelledEInvoices: cancelledEInvoiceData,
                 accountingVATRows: accountingData,
                 accountingMatrahRows: accountingMatrahData,
+                adjacentPeriods,
                 tolerance,
                 mode,
             },
         });
         worker.onmessage = (event) => {
             if (event.data.type === 'RECONCILE_SUCCESS') {
-                setReports(event.data.payload);
-                void saveDataToCompany({ reports: event.data.payload });
+                const nextReports = event.data.payload as ReconciliationReports;
+                const sourceFiles = [
+                    ...collectSourceFileNames(eInvoiceData),
+                    ...collectSourceFileNames(accountingData),
+                    ...collectSourceFileNames(accountingMatrahData),
+                ];
+                const snapshot = buildReconciliationSnapshot(mode, nextReports, sourceFiles, tolerance);
+                const invoiceTotals = buildKdvInvoiceTotals(mode, eInvoiceData, collectSourceFileNames(eInvoiceData));
+
+                // Olasi eslesme kimlikleri kaynak satirlardan uretilir; ayni veriyle yeniden calistirmada kararlar korunur.
+                const proposalIds = new Set((nextReports.report6 || []).map((row) => String(row[FUZZY_MATCH_ID_KEY])));
+                const nextDecisions = Object.fromEntries(
+                    Object.entries(fuzzyDecisions).filter(([matchId]) => proposalIds.has(matchId))
+                ) as Record<string, FuzzyMatchDecision>;
+
+                setReports(nextReports);
+                setFuzzyDecisions(nextDecisions);
+                setPeriodShiftSources(sourceInfos);
+                void patchActiveCompany((company) => ({
+                    reconciliation: {
+                        ...(company.reconciliation || {}),
+                        reports: nextReports,
+                        fuzzyDecisions: nextDecisions,
+                        mode,
+                        periodShiftSources: sourceInfos,
+                    },
+                    kdvReturn: {
+                        ...(company.kdvReturn || {}),
+                        [mode === 'SALES' ? 'sales' : 'purchase']: invoiceTotals,
+                    },
+                    ...appendReportSnapshot(company, snapshot),
+                }));
                 setStep(6);
             }
             setLoading(false);
             worker.terminate();
         };
-    }, [eInvoiceData, accountingData, accountingMatrahData, tolerance, saveDataToCompany]);
+    }, [eInvoiceData, cancelledEInvoiceData, accountingData, accountingMatrahData, tolerance, fuzzyDecisions, adjacentUploads, loadAdjacentPeriods, patchActiveCompany]);
+
+    const setAdjacentAccountingFile = useCallback(async (position: AdjacentPeriodPosition, file: File | null, mode: 'SALES' | 'PURCHASE') => {
+        const nextUploads: AdjacentAccountingUploads = { ...adjacentUploads };
+        if (!file) {
+            delete nextUploads[position];
+        } else {
+            if (!accountingMapping) {
+                setError('Komsu donem dosyasi icin once bu donemin muhasebe dosyasi eslestirilmelidir.');
+                return;
+            }
+            setLoading(true);
+            try {
+                const { processAccountingFile } = await import('../services/excelProcessor');
+                const result = await processAccountingFile(file, accountingMapping.mapping, accountingMapping.headerRowIndex, mode, accountingMapping.sheetSelection);
+                if (!result.success || !result.data) {
+                    setError(result.error || 'Dosya islenirken hata olustu.');
+                    setLoading(false);
+                    return;
+                }
+                nextUploads[position] = { fileName: file.name, rows: result.data };
+            } catch (err) {
+                setError('Beklenmeyen bir hata olustu: ' + String(err));
+                setLoading(false);
+                return;
+            }
+        }
+
+        setError(null);
+        setAdjacentUploads(nextUploads);
+        await runReconciliation(mode, nextUploads);
+    }, [adjacentUploads, accountingMapping, runReconciliation]);
+
+    const setFuzzyDecision = useCallback((matchId: string, decision: FuzzyMatchDecision | null) => {
+        setFuzzyDecisions((prev) => {
+            const updated = { ...prev };
+            if (decision) updated[matchId] = decision;
+            else delete updated[matchId];
+            void saveDataToCompany({ fuzzyDecisions: updated });
+            return updated;
+        });
+    }, [saveDataToCompany]);
+
+    const setRowReview = useCallback((key: string, patch: Partial<ReportRowReview>) => {
+        const base = rowReviews[key];
+        setCurrentRowReviews((prev) => {
+            const updated = { ...prev };
+            const next: ReportRowReview = {
+                status: base?.status,
+                note: base?.note,
+                carryForward: base?.carryForward,
+                ...patch,
+                updatedAt: new Date().toISOString(),
+            };
+            if (isEmptyReview(next)) delete updated[key];
+            else updated[key] = next;
+            void saveDataToCompany({ rowReviews: updated });
+            return updated;
+        });
+    }, [rowReviews, saveDataToCompany]);
 
     const handleDemoData = async (type: 'EINVOICE' | 'ACCOUNTING' | 'ACCOUNTING_MATRAH') => {
         try {
@@ -310,16 +581,26 @@ export function useReconciliation() {
         setSharedAccFiles([]);
         setSharedAccMatrahFiles([]);
         setEInvoiceData([]);
+        setCancelledEInvoiceData([]);
         setAccountingData([]);
         setAccountingMatrahData([]);
         setReports(null);
+        setFuzzyDecisions({});
+        setAdjacentUploads({});
+        setPeriodShiftSources([]);
+        setImportQuality([]);
         setStep(1);
         setCurrentFileIndex(0);
         setError(null);
         setTolerance(0.25);
 
+        // Satir notlari yeni analizde ayni faturalara tekrar baglanir; sifirlamada korunur.
         if (activeCompany) {
-            await patchActiveCompany(() => ({ reconciliation: undefined }));
+            await patchActiveCompany((company) => ({
+                reconciliation: company.reconciliation?.rowReviews
+                    ? { rowReviews: company.reconciliation.rowReviews }
+                    : undefined,
+            }));
         }
     };
 
@@ -334,15 +615,21 @@ export function useReconciliation() {
     };
 
     const handleExclusionComplete = (statuses: string[], validities: string[], toleranceVal: number = 0.25) => {
-        const filtered = eInvoiceData.filter((row) => {
+        const filtered: EInvoiceRow[] = [];
+        const cancelled: EInvoiceRow[] = [];
+        // Adım tekrarlandığında önceki hariç tutmalar da yeniden değerlendirilir
+        [...eInvoiceData, ...cancelledEInvoiceData].forEach((row) => {
             const rowRecord = row as unknown as Record<string, unknown>;
             const status = pickFieldValue(rowRecord, ['Statü', 'Statu', 'StatÃ¼']);
             const validity = pickFieldValue(rowRecord, ['Geçerlilik Durumu', 'Gecerlilik Durumu', 'GeÃ§erlilik Durumu']);
-            return !statuses.includes(status) && !validities.includes(validity);
+            if (statuses.includes(status) || validities.includes(validity)) cancelled.push(row);
+            else filtered.push(row);
         });
 
+        // Hariç tutulan faturalar mutabakatta muhasebe kaydı kalıp kalmadığı için ayrıca kontrol edilir
         setEInvoiceData(filtered);
-        void saveDataToCompany({ eInvoiceData: filtered });
+        setCancelledEInvoiceData(cancelled);
+        void saveDataToCompany({ eInvoiceData: filtered, cancelledEInvoiceData: cancelled });
 
         setTolerance(toleranceVal);
         setStep(3);
@@ -357,9 +644,16 @@ export function useReconciliation() {
             accMatrahFiles,
             currentFileIndex,
             eInvoiceData,
+            exclusionData,
             accountingData,
             accountingMatrahData,
             reports,
+            fuzzyDecisions,
+            rowReviews,
+            periodShiftSources,
+            adjacentUploads,
+            importQuality,
+            faturaXmlInvoiceCount: activeCompany?.faturaXml?.invoices.length || 0,
             loading,
             error,
             updateInfo,
@@ -373,9 +667,14 @@ export function useReconciliation() {
             setCurrentFileIndex,
             setError,
             processEFile,
+            processXmlEFiles,
+            loadFaturaXmlInvoices,
             processAccFile,
             processAccMatrahFile,
             runReconciliation,
+            setAdjacentAccountingFile,
+            setFuzzyDecision,
+            setRowReview,
             handleDemoData,
             resetAll,
             handleExclusionComplete,
@@ -1,15 +1,20 @@
+import type { SheetSelection } from '../../../utils/workbookSheets';
+import type { ImportQualityReport } from '../../common/types';
+
 
 export interface ExcelProcessResult<T> {
     success: boolean;
     data?: T;
     error?: string;
+    quality?: ImportQualityReport;
 }
 
 export const processEInvoiceFile = (
     file: File,
     mapping: Record<string, string>,
     headerRowIndex: number,
-    mode: 'SALES' | 'PURCHASE'
+    mode: 'SALES' | 'PURCHASE',
+    sheetSelection?: SheetSelection | null
 ): Promise<ExcelProcessResult<any[]>> => {
     return new Promise((resolve) => {
         const worker = new Worker(new URL('../../../workers/reconciliation.worker.ts', import.meta.url), { type: 'module' });
@@ -23,12 +28,13 @@ export const processEInvoiceFile = (
                 fileName: file.name,
                 headerRowIndex,
                 mode,
+                sheetSelection,
             },
         });
 
         worker.onmessage = (event) => {
             if (event.data.type === 'PARSE_SUCCESS') {
-                resolve({ success: true, data: event.data.payload.rows });
+                resolve({ success: true, data: event.data.payload.rows, quality: { source: 'E-Fatura', ...event.data.payload.quality } });
             } else if (event.data.type === 'PARSE_ERROR') {
                 resolve({ success: false, error: event.data.payload });
             }
@@ -46,7 +52,8 @@ export const processAccountingFile = (
     file: File,
     mapping: Record<string, string>,
     headerRowIndex: number,
-    mode: 'SALES' | 'PURCHASE'
+    mode: 'SALES' | 'PURCHASE',
+    sheetSelection?: SheetSelection | null
 ): Promise<ExcelProcessResult<any[]>> => {
     return new Promise((resolve) => {
         const worker = new Worker(new URL('../../../workers/reconciliation.worker.ts', import.meta.url), { type: 'module' });
@@ -60,12 +67,13 @@ export const processAccountingFile = (
                 fileName: file.name,
                 headerRowIndex,
                 mode,
+                sheetSelection,
             },
         });
 
         worker.onmessage = (event) => {
             if (event.data.type === 'PARSE_SUCCESS') {
-                resolve({ success: true, data: event.data.payload.rows });
+                resolve({ success: true, data: event.data.payload.rows, quality: { source: 'Muhasebe KDV', ...event.data.payload.quality } });
             } else if (event.data.type === 'PARSE_ERROR') {
                 resolve({ success: false, error: event.data.payload });
             }
@@ -82,7 +90,8 @@ export const processAccountingFile = (
 export const processAccountingMatrahFile = (
     file: File,
     mapping: Record<string, string>,
-    headerRowIndex: number
+    headerRowIndex: number,
+    sheetSelection?: SheetSelection | null
 ): Promise<ExcelProcessResult<any[]>> => {
     return new Promise((resolve) => {
         const worker = new Worker(new URL('../../../workers/reconciliation.worker.ts', import.meta.url), { type: 'module' });
@@ -95,12 +104,13 @@ export const processAccountingMatrahFile = (
                 fileType: 'ACCOUNTING',
                 fileName: file.name,
                 headerRowIndex,
+                sheetSelection,
             },
         });
 
         worker.onmessage = (event) => {
             if (event.data.type === 'PARSE_SUCCESS') {
-                resolve({ success: true, data: event.data.payload.rows });
+                resolve({ success: true, data: event.data.payload.rows, quality: { source: 'Muhasebe Matrah', ...event.data.payload.quality } });
             } else if (event.data.type === 'PARSE_ERROR') {
                 resolve({ success: false, error: event.data.payload });
             }
@@ -0,0 +1,158 @@
+import { KDV_BREAKDOWN_RATES, getRateKdvKey, getRateMatrahKey } from './kdvRates';
+import { WITHHOLDING_AMOUNT_KEY, WITHHOLDING_CODE_KEY, WITHHOLDING_RATIO_KEY } from './withholding';
+
+export interface DetectableField {
+    key: string;
+    label: string;
+    required: boolean;
+    exactMatchOnly?: boolean;
+}
+
+export interface ColumnDetectionResult {
+    headerRowIndex: number;
+    /** Zorunlu alanlarin ne kadarinin baslik satirinda bulundugu (0-1). */
+    headerConfidence: number;
+    mapping: Record<string, string>;
+    /** Alan bazinda eslesme guveni (0-1); yalnizca eslenen alanlar icin. */
+    confidence: Record<string, number>;
+}
+
+const HEADER_SCAN_LIMIT = 50;
+const MIN_COLUMN_SCORE = 0.5;
+
+// Luca, Logo, Mikro, Zirve, Netsis ve GIB portali ciktilarinda gorulen baslik adlari (normalize edilmis halde).
+const HEADER_SYNONYMS: Record<string, string[]> = {
+    'Fatura Tarihi': ['fatura tarihi', 'fatura tarih', 'belge tarihi', 'duzenleme tarihi', 'duzenlenme tarihi', 'tarih'],
+    'Fatura No': ['fatura no', 'fatura numarasi', 'fatura seri no', 'belge no', 'belge numarasi', 'evrak no', 'fatura belge no'],
+    'VKN': ['vkn', 'tckn', 'vkn tckn', 'tckn vkn', 'vergi no', 'vergi numarasi', 'vergi kimlik no', 'vergi kimlik numarasi', 'tc kimlik no', 'alici vkn', 'satici vkn', 'gonderici vkn', 'alici vkn tckn', 'gonderici vkn tckn'],
+    'Matrah': ['matrah', 'kdv matrahi', 'mal hizmet tutari', 'mal hizmet toplam tutari', 'vergiler haric tutar', 'matrah tutari'],
+    'KDV Tutarı': ['kdv', 'kdv tutari', 'hesaplanan kdv', 'toplam kdv', 'kdv toplami', 'vergi tutari', 'fatura toplam vergi'],
+    'GİB Fatura Türü': ['fatura turu', 'fatura tipi', 'gib fatura turu', 'belge turu', 'fatura senaryosu'],
+    'Ödeme Şekli': ['odeme sekli', 'odeme turu', 'odeme yontemi'],
+    'Para Birimi': ['para birimi', 'doviz cinsi', 'doviz turu', 'doviz', 'currency'],
+    'Döviz Kuru': ['doviz kuru', 'kur', 'kur degeri', 'doviz kur'],
+    'Müşteri': ['musteri', 'musteri unvani', 'alici', 'alici unvani', 'alici adi', 'satici', 'satici unvani', 'gonderici', 'gonderici unvani', 'cari unvan', 'unvan'],
+    'Statü': ['statu', 'durum', 'fatura durumu', 'zarf durumu'],
+    'Geçerlilik Durumu': ['gecerlilik durumu', 'gecerlilik', 'iptal durumu'],
+    [WITHHOLDING_CODE_KEY]: ['tevkifat kodu', 'tevkifat turu', 'tevkifat tipi'],
+    [WITHHOLDING_RATIO_KEY]: ['tevkifat orani', 'tevkifat oran'],
+    [WITHHOLDING_AMOUNT_KEY]: ['tevkifat tutari', 'tevkif edilen kdv', 'tevkifatli kdv'],
+    'Tarih': ['tarih', 'fis tarihi', 'yevmiye tarihi', 'islem tarihi', 'evrak tarihi', 'kayit tarihi'],
+    'Ref.No': ['ref no', 'referans no', 'fis no', 'yevmiye no', 'yevmiye madde no', 'madde no', 'fis numarasi'],
+    'Açıklama': ['aciklama', 'fis aciklamasi', 'satir aciklamasi', 'detay aciklama'],
+    'Alacak Tutarı': ['alacak', 'alacak tutari', 'alacak tl'],
+    'Borç Tutarı': ['borc', 'borc tutari', 'borc tl'],
+    'Hesap Kodu': ['hesap kodu', 'hesap no', 'hesap numarasi'],
+    ...Object.fromEntries(KDV_BREAKDOWN_RATES.flatMap((rate) => [
+        [getRateMatrahKey(rate), [`matrah ${rate}`, `${rate} matrah`, `kdv matrahi ${rate}`, `matrah kdv ${rate}`]],
+        [getRateKdvKey(rate), [`kdv ${rate}`, `${rate} kdv`, `hesaplanan kdv ${rate}`, `kdv tutari ${rate}`]],
+    ])),
+};
+
+/** Turkce karakterleri sadelestirir, noktalama ve yuzde isaretlerini bosluga cevirir: "KDV %20" -> "kdv 20". */
+export const normalizeHeaderText = (value: unknown): string => {
+    return String(value ?? '')
+        .toLocaleLowerCase('tr-TR')
+        .replace(/ı/g, 'i')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+};
+
+const getFieldTerms = (field: DetectableField): string[] => {
+    return Array.from(new Set([
+        normalizeHeaderText(field.key),
+        normalizeHeaderText(field.label),
+        ...(HEADER_SYNONYMS[field.key] || []),
+    ].filter(Boolean)));
+};
+
+// Tam eslesme 1; baslik terimi kelime olarak iceriyorsa, fazladan kelime oranina gore 0.6-0.9.
+const scoreHeader = (header: string, terms: string[], exactOnly: boolean): number => {
+    if (!header) return 0;
+    let best = 0;
+    const padded = ` ${header} `;
+    terms.forEach((term) => {
+        if (header === term) best = 1;
+        else if (!exactOnly && padded.includes(` ${term} `)) {
+            best = Math.max(best, 0.6 + 0.3 * (term.length / header.length));
+        }
+    });
+    return best;
+};
+
+/** Assigns each field to its best-scoring column; a column is used by at most one field. */
+export const detectColumnMapping = (
+    headers: unknown[],
+    fields: DetectableField[]
+): { mapping: Record<string, string>; confidence: Record<string, number> } => {
+    const candidates: { field: string; column: number; score: number }[] = [];
+    const normalized = headers.map(normalizeHeaderText);
+    fields.forEach((field) => {
+        const terms = getFieldTerms(field);
+        normalized.forEach((header, column) => {
+            const score = scoreHeader(header, terms, Boolean(field.exactMatchOnly));
+            if (score >= MIN_COLUMN_SCORE) candidates.push({ field: field.key, column, score });
+        });
+    });
+
+    // Zorunlu alanlar esit puanda once yerlesir; ayni sutun iki alana verilmez.
+    const requiredKeys = new Set(fields.filter((field) => field.required).map((field) => field.key));
+    candidates.sort((left, right) => (
+        right.score - left.score
+        || Number(requiredKeys.has(right.field)) - Number(requiredKeys.has(left.field))
+        || left.column - right.column
+    ));
+
+    const mapping: Record<string, string> = {};
+    const confidence: Record<string, number> = {};
+    const usedColumns = new Set<number>();
+    candidates.forEach(({ field, column, score }) => {
+        if (mapping[field] !== undefined || usedColumns.has(column)) return;
+        mapping[field] = String(headers[column] ?? '').trim();
+        confidence[field] = Math.round(score * 100) / 100;
+        usedColumns.add(column);
+    });
+    return { mapping, confidence };
+};
+
+/**
+ * Scans the first rows for the one that best covers the fields (required fields weigh double)
+ * and returns it with the pre-filled mapping. Falls back to the first row when nothing matches.
+ */
+export const detectHeaderAndColumns = (rows: unknown[][], fields: DetectableField[]): ColumnDetectionResult => {
+    const requiredCount = fields.filter((field) => field.required).length;
+    let best: ColumnDetectionResult | null = null;
+    let bestScore = 0;
+
+    for (let index = 0; index < Math.min(rows.length, HEADER_SCAN_LIMIT); index += 1) {
+        const row = rows[index];
+        if (!row || row.length === 0) continue;
+        const detected = detectColumnMapping(row, fields);
+        let requiredScore = 0;
+        let score = 0;
+        fields.forEach((field) => {
+            const fieldScore = detected.confidence[field.key] || 0;
+            if (field.required) requiredScore += fieldScore;
+            score += field.required ? fieldScore * 2 : fieldScore;
+        });
+        if (score > bestScore) {
+            bestScore = score;
+            best = {
+                headerRowIndex: index,
+                headerConfidence: requiredCount ? Math.round((requiredScore / requiredCount) * 100) / 100 : 1,
+                ...detected,
+            };
+        }
+    }
+
+    return best || { headerRowIndex: 0, headerConfidence: 0, mapping: {}, confidence: {} };
+};
+
+export type DetectionConfidenceLevel = 'HIGH' | 'MEDIUM' | 'LOW';
+
+export const getConfidenceLevel = (score: number): DetectionConfidenceLevel => {
+    if (score >= 0.95) return 'HIGH';
+    return score >= 0.7 ? 'MEDIUM' : 'LOW';
+};
@@ -1,3 +1,6 @@
+import { SALES_EINVOICE_RATE_FIELDS } from './kdvRates';
+import { EINVOICE_WITHHOLDING_FIELDS } from './withholding';
+
 // SALES E-Invoice fields - Matrah is required for sales
 export const SALES_EINVOICE_FIELDS = [
     { key: 'Fatura Tarihi', label: 'Fatura Tarihi', required: true },
@@ -11,7 +14,10 @@ export const SALES_EINVOICE_FIELDS = [
     { key: 'Döviz Kuru', label: 'Döviz Kuru', required: false },
     { key: 'Müşteri', label: 'Müşteri', required: false },
     { key: 'Statü', label: 'Statü', required: false },
-    { key: 'Geçerlilik Durumu', label: 'Geçerlilik Durumu', required: false }
+    { key: 'Geçerlilik Durumu', label: 'Geçerlilik Durumu', required: false },
+    ...EINVOICE_WITHHOLDING_FIELDS,
+    // Oran bazlı sütunlar isteğe bağlıdır; eşlenirse oran bazında fark raporu üretilir.
+    ...SALES_EINVOICE_RATE_FIELDS
 ];
 
 // PURCHASE E-Invoice fields - Matrah kontrolü alış için yapılmıyor
@@ -26,7 +32,8 @@ export const PURCHASE_EINVOICE_FIELDS = [
     { key: 'Döviz Kuru', label: 'Döviz Kuru', required: false },
     { key: 'Müşteri', label: 'Müşteri', required: false },
     { key: 'Statü', label: 'Statü', required: false },
-    { key: 'Geçerlilik Durumu', label: 'Geçerlilik Durumu', required: false }
+    { key: 'Geçerlilik Durumu', label: 'Geçerlilik Durumu', required: false },
+    ...EINVOICE_WITHHOLDING_FIELDS
 ];
 
 // SALES (Default)
@@ -36,7 +43,10 @@ export const SALES_ACCOUNTING_VAT_FIELDS = [
     { key: 'Fatura No', label: 'Fatura No', required: true },
     { key: 'VKN', label: 'VKN / TCKN', required: false },
     { key: 'Açıklama', label: 'Açıklama', required: false },
-    { key: 'Alacak Tutarı', label: 'KDV Tutarı (Alacak)', required: true }
+    { key: 'Alacak Tutarı', label: 'KDV Tutarı (Alacak)', required: true },
+    // Karşı taraf tutarı iade / iptal ters kayıtlarını negatif olarak netleştirir
+    { key: 'Borç Tutarı', label: 'Borç Tutarı (Ters Kayıt)', required: false },
+    { key: 'Hesap Kodu', label: 'Hesap Kodu (391.01 / 391.10 / 391.20 / 360)', required: false }
 ];
 
 // PURCHASE - Matrah kontrolü alış için yapılmıyor
@@ -46,7 +56,10 @@ export const PURCHASE_ACCOUNTING_VAT_FIELDS = [
     { key: 'Fatura No', label: 'Fatura No', required: true },
     { key: 'VKN', label: 'VKN / TCKN', required: false },
     { key: 'Açıklama', label: 'Açıklama', required: false },
-    { key: 'Borç Tutarı', label: 'KDV Tutarı (Borç)', required: true }
+    { key: 'Borç Tutarı', label: 'KDV Tutarı (Borç)', required: true },
+    // Alacak tarafı 191 ters kayıtlarını ve 360 sorumlu sıfatıyla KDV satırlarını taşır
+    { key: 'Alacak Tutarı', label: 'Alacak Tutarı (Ters Kayıt / 360 Sorumlu KDV)', required: false },
+    { key: 'Hesap Kodu', label: 'Hesap Kodu (191 / 360)', required: false }
 ];
 
 // SALES Matrah fields - only used for sales, not purchases
@@ -0,0 +1,101 @@
+import type { ReconciliationReportData } from '../../../types';
+
+type ReportRow = Record<string, string | number | Date | null>;
+
+export type FuzzyMatchDecision = 'ACCEPTED' | 'REJECTED';
+
+// Olasi eslesme satirlarinda kaynak satirlari isaret eden, tabloda gosterilmeyen alanlar.
+export const FUZZY_MATCH_ID_KEY = 'matchId';
+export const FUZZY_EINVOICE_REF_KEY = 'eInvoiceRef';
+export const FUZZY_ACCOUNTING_REFS_KEY = 'accountingRefs';
+export const FUZZY_HIDDEN_KEYS = [FUZZY_MATCH_ID_KEY, FUZZY_EINVOICE_REF_KEY, FUZZY_ACCOUNTING_REFS_KEY];
+
+export const FUZZY_MAX_EDIT_DISTANCE = 2;
+export const FUZZY_MAX_DAY_DIFFERENCE = 31;
+
+const REF_SEPARATOR = '||';
+
+/** Row identity that survives multi-file uploads, where worker ids restart per file. */
+export const getReportRowRef = (row: Record<string, unknown>): string => {
+    return `${String(row['Kaynak Dosya'] ?? '')}#${String(row.id ?? '')}`;
+};
+
+export const joinRowRefs = (refs: string[]): string => refs.join(REF_SEPARATOR);
+
+const splitRowRefs = (value: unknown): string[] => {
+    return String(value ?? '').split(REF_SEPARATOR).filter(Boolean);
+};
+
+// O/0 ve I/1 karisikliklari numaranin sayisal kisminda tek hata sayilmasin diye esitlenir.
+export const normalizeInvoiceNoForFuzzy = (value: string): string => {
+    return String(value || '')
+        .toLocaleUpperCase('tr-TR')
+        .replace(/[^A-Z0-9]/g, '')
+        .replace(/O/g, '0')
+        .replace(/[IL]/g, '1');
+};
+
+export const getEditDistance = (left: string, right: string): number => {
+    if (left === right) return 0;
+    if (!left) return right.length;
+    if (!right) return left.length;
+
+    let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= left.length; i += 1) {
+        const current = [i];
+        for (let j = 1; j <= right.length; j += 1) {
+            const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[right.length];
+};
+
+/**
+ * Seri oneki eksik yazilmis numaralar (yil + sira no, 13 karakter) tek hata sayilir.
+ * Karsilastirma normalize edilmis numaralar uzerinden yapilir.
+ */
+export const getInvoiceNoDistance = (invoiceNo: string, candidate: string): number => {
+    const left = normalizeInvoiceNoForFuzzy(invoiceNo);
+    const right = normalizeInvoiceNoForFuzzy(candidate);
+    if (!left || !right) return Number.POSITIVE_INFINITY;
+    if (left === right) return 0;
+    if (left.length === 16 && right.length === 13 && left.endsWith(right)) return 1;
+    return getEditDistance(left, right);
+};
+
+/** Removes accepted pairs from the missing lists and tags each proposal with its decision. */
+export const applyFuzzyDecisions = (
+    reports: ReconciliationReportData,
+    decisions: Record<string, FuzzyMatchDecision>
+): ReconciliationReportData => {
+    if (!reports.report6) return reports;
+
+    const acceptedEInvoiceRefs = new Set<string>();
+    const acceptedAccountingRefs = new Set<string>();
+    reports.report6.forEach((row) => {
+        if (decisions[String(row[FUZZY_MATCH_ID_KEY])] !== 'ACCEPTED') return;
+        acceptedEInvoiceRefs.add(String(row[FUZZY_EINVOICE_REF_KEY]));
+        splitRowRefs(row[FUZZY_ACCOUNTING_REFS_KEY]).forEach((ref) => acceptedAccountingRefs.add(ref));
+    });
+
+    const withoutRefs = (rows: ReportRow[] | undefined, refs: Set<string>) => {
+        if (!rows || refs.size === 0) return rows;
+        return rows.filter((row) => !refs.has(getReportRowRef(row)));
+    };
+
+    return {
+        ...reports,
+        report1: withoutRefs(reports.report1, acceptedEInvoiceRefs) || [],
+        report2: withoutRefs(reports.report2, acceptedAccountingRefs) || [],
+        report4: withoutRefs(reports.report4, acceptedAccountingRefs),
+        report6: reports.report6.map((row) => {
+            const decision = decisions[String(row[FUZZY_MATCH_ID_KEY])];
+            return {
+                ...row,
+                Durum: decision === 'ACCEPTED' ? 'Kabul Edildi' : decision === 'REJECTED' ? 'Reddedildi' : 'Bekliyor',
+            };
+        }),
+    };
+};
@@ -0,0 +1,14 @@
+// Iade faturalari ve iptal/red edilen faturalar mutabakatta ters kayit beklentisiyle ayri kontrol edilir.
+export const RETURN_INVOICE_TYPE_KEY = 'GİB Fatura Türü';
+
+export const REVERSAL_STATUS_LABELS = {
+    returnNotReversed: 'İade faturası ters kayıtla eşleşmedi',
+    cancelledStillBooked: 'İptal edilen fatura muhasebede kayıtlı',
+} as const;
+
+export const isReturnInvoice = (row: Record<string, unknown>): boolean => {
+    const type = String(row[RETURN_INVOICE_TYPE_KEY] ?? '')
+        .toLocaleUpperCase('tr-TR')
+        .replace(/İ/g, 'I');
+    return type.includes('IADE');
+};
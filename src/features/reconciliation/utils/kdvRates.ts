@@ -0,0 +1,32 @@
+// Karma oranli faturalarin 391.01 / 391.10 / 391.20 alt hesaplariyla karsilastirilmasi icin oran sutunlari.
+export const KDV_BREAKDOWN_RATES = [1, 10, 20] as const;
+
+const KNOWN_KDV_RATES = new Set([0, 1, 8, 10, 18, 20]);
+
+export const getRateMatrahKey = (rate: number): string => `Matrah %${rate}`;
+export const getRateKdvKey = (rate: number): string => `KDV %${rate}`;
+
+// Tek "KDV" / "Matrah" sutunu oran alanlarina otomatik eslenmesin diye yalnizca tam ad eslesmesi kullanilir.
+export const SALES_EINVOICE_RATE_FIELDS = KDV_BREAKDOWN_RATES.flatMap((rate) => [
+    { key: getRateMatrahKey(rate), label: `Matrah (%${rate})`, required: false, exactMatchOnly: true },
+    { key: getRateKdvKey(rate), label: `KDV (%${rate})`, required: false, exactMatchOnly: true },
+]);
+
+/**
+ * Alt hesap kodunun ikinci kademesinden oran cozer: 391.01 -> 1, 391.10 -> 10, 391 20 001 -> 20.
+ * Ikinci kademe bilinen bir KDV orani degilse null doner.
+ */
+export const resolveKdvRateFromAccountCode = (accountCode: unknown): number | null => {
+    const raw = String(accountCode ?? '').trim();
+    if (!raw) return null;
+
+    const segments = raw.split(/[.\s\-_/]+/).filter(Boolean);
+    let rateSegment = segments[1];
+    if (segments.length === 1 && /^\d{5,}$/.test(raw)) {
+        rateSegment = raw.slice(3, 5);
+    }
+    if (!rateSegment || !/^\d{1,2}$/.test(rateSegment)) return null;
+
+    const rate = Number(rateSegment);
+    return KNOWN_KDV_RATES.has(rate) ? rate : null;
+};
@@ -0,0 +1,49 @@
+import type { ReconciliationPeriodShiftSource } from '../../common/types';
+
+export type AdjacentPeriodPosition = ReconciliationPeriodShiftSource['position'];
+
+/** Komsu donemin mutabakatta kullanilan satirlari; kayitli calismadan ya da yuklenen muhasebe dosyasindan gelir. */
+export interface AdjacentPeriodSource extends ReconciliationPeriodShiftSource {
+    eInvoices: Record<string, unknown>[];
+    accountingRows: Record<string, unknown>[];
+}
+
+// report1/report2 satirlarinda komsu donemde karsiligi bulunanlari isaretleyen sutun.
+export const PERIOD_SHIFT_KEY = 'Dönemsellik';
+
+const POSITION_LABELS: Record<AdjacentPeriodPosition, string> = {
+    PREVIOUS: 'önceki dönem',
+    NEXT: 'sonraki dönem',
+};
+
+export const formatPeriodShiftTag = (position: AdjacentPeriodPosition, label: string): string => {
+    return `Dönemsellik farkı (${POSITION_LABELS[position]}${label ? ` ${label}` : ''})`;
+};
+
+export const isPeriodShiftRow = (row: Record<string, unknown>): boolean => Boolean(row[PERIOD_SHIFT_KEY]);
+
+// report1 satirlari e-fatura (doviz kuru ile TL'ye cevrilir), report2 satirlari muhasebe KDV kaydidir.
+const getMissingRowKdv = (row: Record<string, unknown>): number => {
+    if (row['KDV Tutarı'] !== undefined) {
+        const currency = String(row['Para Birimi'] || '').toLocaleUpperCase('tr-TR');
+        const isTry = !currency || currency.includes('TRY') || currency.includes('TL');
+        return (Number(row['KDV Tutarı']) || 0) * (isTry ? 1 : Number(row['Döviz Kuru']) || 1);
+    }
+    return row.source === 'MATRAH' ? 0 : Number(row['Alacak Tutarı']) || 0;
+};
+
+export interface MissingRowTotals {
+    missing: { count: number; kdv: number };
+    periodShift: { count: number; kdv: number };
+}
+
+/** Splits a missing-records list into real omissions and rows booked in an adjacent period. */
+export const summarizeMissingRows = (rows: Record<string, unknown>[]): MissingRowTotals => {
+    const totals: MissingRowTotals = { missing: { count: 0, kdv: 0 }, periodShift: { count: 0, kdv: 0 } };
+    rows.forEach((row) => {
+        const bucket = isPeriodShiftRow(row) ? totals.periodShift : totals.missing;
+        bucket.count += 1;
+        bucket.kdv += getMissingRowKdv(row);
+    });
+    return totals;
+};
@@ -0,0 +1,62 @@
+import type { ReportRowReview, ReportRowReviewStatus } from '../../common/types';
+
+export type ReconciliationMode = 'SALES' | 'PURCHASE';
+
+export const ROW_REVIEW_STATUS_LABELS: Record<ReportRowReviewStatus, string> = {
+    EXPLAINED: 'Açıklandı',
+    TO_FIX: 'Düzeltilecek',
+    ASKED_CUSTOMER: 'Müşteriye Soruldu',
+};
+
+export const ROW_REVIEW_EXPORT_KEYS = {
+    status: 'İnceleme Durumu',
+    note: 'Not',
+    carryForward: 'Sonraki Döneme Devret',
+} as const;
+
+export interface ResolvedRowReview extends ReportRowReview {
+    carriedFrom?: string;
+}
+
+const pickText = (row: Record<string, unknown>, key: string): string => {
+    const value = row[key];
+    return value === null || value === undefined ? '' : String(value).trim();
+};
+
+/**
+ * Fatura numarasi olan satirlar rapordan bagimsiz anahtarlanir; boylece sonraki ayda "muhasebe eksik"
+ * listesine dusen fatura onceki aciklamasini korur. Numarasiz satirlar rapor + fis bilgisiyle anahtarlanir.
+ */
+export const getReportRowReviewKey = (mode: ReconciliationMode, reportKey: string, row: Record<string, unknown>): string => {
+    const invoiceNo = pickText(row, 'Fatura No');
+    if (invoiceNo) {
+        return `${mode}:${invoiceNo}|${pickText(row, 'VKN')}`;
+    }
+    return `${mode}:${reportKey}:${pickText(row, 'Ref.No')}|${pickText(row, 'Tarih')}|${pickText(row, 'Alacak Tutarı')}|${pickText(row, 'Açıklama')}`;
+};
+
+export const isEmptyReview = (review: ReportRowReview): boolean => {
+    return !review.status && !review.note?.trim() && !review.carryForward;
+};
+
+/** Current-period reviews win; carried ones from the previous period fill the gaps. */
+export const mergeCarriedReviews = (
+    current: Record<string, ReportRowReview>,
+    previous: Record<string, ReportRowReview>,
+    previousLabel: string
+): Record<string, ResolvedRowReview> => {
+    const merged: Record<string, ResolvedRowReview> = {};
+    Object.entries(previous).forEach(([key, review]) => {
+        if (review.carryForward) merged[key] = { ...review, carriedFrom: previousLabel };
+    });
+    Object.entries(current).forEach(([key, review]) => {
+        merged[key] = review;
+    });
+    return merged;
+};
+
+export const toReviewExportColumns = (review: ResolvedRowReview | undefined): Record<string, string> => ({
+    [ROW_REVIEW_EXPORT_KEYS.status]: review?.status ? ROW_REVIEW_STATUS_LABELS[review.status] : '',
+    [ROW_REVIEW_EXPORT_KEYS.note]: review?.note || '',
+    [ROW_REVIEW_EXPORT_KEYS.carryForward]: review?.carryForward ? 'Evet' : '',
+});
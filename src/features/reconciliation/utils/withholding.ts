@@ -0,0 +1,49 @@
+import { parseTurkishNumber } from '../../../utils/parsers';
+
+// Tevkifatli faturalarda KDV, aliciya kesilen net kisim ve 360 hesabinda izlenen tevkif edilen kisim olarak ayrilir.
+export const WITHHOLDING_CODE_KEY = 'Tevkifat Kodu';
+export const WITHHOLDING_RATIO_KEY = 'Tevkifat Oranı';
+export const WITHHOLDING_AMOUNT_KEY = 'Tevkifat Tutarı';
+
+export const EINVOICE_WITHHOLDING_FIELDS = [
+    { key: WITHHOLDING_CODE_KEY, label: 'Tevkifat Kodu', required: false },
+    { key: WITHHOLDING_RATIO_KEY, label: 'Tevkifat Oranı (9/10)', required: false },
+    { key: WITHHOLDING_AMOUNT_KEY, label: 'Tevkifat Tutarı', required: false },
+];
+
+export const isWithholdingAccountCode = (accountCode: unknown): boolean => {
+    return /^360/.test(String(accountCode ?? '').trim());
+};
+
+/** Reads "9/10", "90", "%90", "0,9" and "9" (tenths) as a fraction between 0 and 1. */
+export const parseWithholdingRatio = (value: unknown): number | null => {
+    const raw = String(value ?? '').trim().replace('%', '');
+    if (!raw) return null;
+
+    const fraction = raw.match(/^(\d+(?:[.,]\d+)?)\s*\/\s*(\d+)$/);
+    if (fraction) {
+        const denominator = Number(fraction[2]);
+        return denominator > 0 ? parseTurkishNumber(fraction[1]) / denominator : null;
+    }
+
+    const numeric = parseTurkishNumber(raw);
+    if (!Number.isFinite(numeric) || numeric <= 0) return null;
+    if (numeric <= 1) return numeric;
+    if (numeric <= 10) return numeric / 10;
+    return numeric <= 100 ? numeric / 100 : null;
+};
+
+export const formatWithholdingRatio = (ratio: number | null): string => {
+    if (ratio === null) return '';
+    const tenths = ratio * 10;
+    if (Math.abs(tenths - Math.round(tenths)) < 0.001) return `${Math.round(tenths)}/10`;
+    return `%${Math.round(ratio * 10000) / 100}`;
+};
+
+/** Withheld KDV from the explicit amount, falling back to ratio x KDV. Zero when the invoice has no tevkifat. */
+export const getWithheldKdv = (row: Record<string, unknown>, kdv: number): number => {
+    const amount = parseTurkishNumber(row[WITHHOLDING_AMOUNT_KEY]);
+    if (amount > 0) return amount;
+    const ratio = parseWithholdingRatio(row[WITHHOLDING_RATIO_KEY]);
+    return ratio ? kdv * ratio : 0;
+};
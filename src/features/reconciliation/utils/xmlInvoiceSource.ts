@@ -0,0 +1,57 @@
+import type { FaturaXmlInvoice } from '../../common/types';
+import { normalizeString, normalizeVKN, parseTurkishNumber } from '../../../utils/parsers';
+import { KDV_BREAKDOWN_RATES, getRateKdvKey, getRateMatrahKey } from './kdvRates';
+import type { ReconciliationMode } from './rowReviews';
+import { WITHHOLDING_AMOUNT_KEY, WITHHOLDING_CODE_KEY, WITHHOLDING_RATIO_KEY } from './withholding';
+
+const toAmount = (value: number | string): number => (typeof value === 'number' ? value : parseTurkishNumber(value));
+
+/**
+ * Fatura XML kayitlarini sutun eslestirmesi olmadan, Excel e-fatura listesiyle ayni satir yapisina cevirir.
+ * Karsi taraf satista alici, alista saticidir.
+ */
+export const convertFaturaXmlInvoices = (
+    invoices: FaturaXmlInvoice[],
+    mode: ReconciliationMode,
+    sourceFileName: string
+): Record<string, unknown>[] => {
+    return invoices
+        .filter((invoice) => normalizeString(invoice.invNo))
+        .map((invoice, index) => {
+            const row: Record<string, unknown> = {
+                id: `ei-${index}`,
+                "Kaynak Dosya": invoice.sourceFileName || sourceFileName,
+                "Fatura Tarihi": invoice.invDate,
+                "Fatura No": normalizeString(invoice.invNo),
+                "VKN": normalizeVKN(mode === 'SALES' ? invoice.customerVN : invoice.supplierVN),
+                "KDV Tutarı": toAmount(invoice.taxAmount),
+                "GİB Fatura Türü": invoice.invoiceTypeCode || '',
+                "Ödeme Şekli": '',
+                "Para Birimi": invoice.currency || 'TRY',
+                "Döviz Kuru": invoice.exchangeRate || 1,
+                "Müşteri": mode === 'SALES' ? invoice.customerName : invoice.supplierName,
+                "Statü": '',
+                "Geçerlilik Durumu": '',
+            };
+
+            if (invoice.withholdingAmount) {
+                row[WITHHOLDING_CODE_KEY] = invoice.withholdingCode || '';
+                row[WITHHOLDING_RATIO_KEY] = invoice.withholdingRatio || '';
+                row[WITHHOLDING_AMOUNT_KEY] = invoice.withholdingAmount;
+            }
+
+            if (mode === 'SALES') {
+                row["Matrah"] = toAmount(invoice.taxExclusiveAmount);
+
+                // Satir KDV oranlari karma oranli faturalar icin oran sutunlarini doldurur
+                KDV_BREAKDOWN_RATES.forEach((rate) => {
+                    const lines = invoice.lines.filter((line) => toAmount(line.taxPercent) === rate);
+                    if (lines.length === 0) return;
+                    row[getRateMatrahKey(rate)] = lines.reduce((sum, line) => sum + toAmount(line.lineTotal), 0);
+                    row[getRateKdvKey(rate)] = lines.reduce((sum, line) => sum + toAmount(line.taxAmount), 0);
+                });
+            }
+
+            return row;
+        });
+};
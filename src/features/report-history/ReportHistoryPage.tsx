@@ -0,0 +1,420 @@
+import { ArrowLeft, Download, Eye, GitCompare, History, Layers, Trash2 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Card } from '../../components/common/Card';
+import { useCompany } from '../../context/CompanyContext';
+import type { ReportSnapshot, ReportSnapshotModule, ReportSnapshotRow } from '../common/types';
+import { parseDateInput } from '../../utils/accounting';
+import {
+    REPORT_MODULE_LABELS,
+    exportReportSnapshotExcel,
+    getSnapshotRowCount,
+} from './reportHistoryService';
+import { isReconciliationSnapshot } from './reportDiff';
+import ReconciliationDiffView from './components/ReconciliationDiffView';
+
+type ModuleFilter = 'ALL' | ReportSnapshotModule;
+
+const MAX_VISIBLE_ROWS = 500;
+
+const formatDateTime = (value: string): string => {
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) return value;
+    return parsed.toLocaleString('tr-TR');
+};
+
+const normalizeText = (value: string): string => {
+    return String(value || '').toLocaleLowerCase('tr-TR');
+};
+
+const formatCellValue = (value: ReportSnapshotRow[string]): string => {
+    if (value === null || value === undefined || value === '') return '-';
+    if (value instanceof Date) return value.toLocaleDateString('tr-TR');
+    if (typeof value === 'number') {
+        return value.toLocaleString('tr-TR', { minimumFractionDigits: Number.isInteger(value) ? 0 : 2, maximumFractionDigits: 2 });
+    }
+    return String(value);
+};
+
+const MODULE_BADGE_CLASSES: Record<ReportSnapshotModule, string> = {
+    KDV_SALES: 'bg-blue-500/20 text-blue-200 border border-blue-500/30',
+    KDV_PURCHASE: 'bg-purple-500/20 text-purple-200 border border-purple-500/30',
+    CURRENT_ACCOUNT: 'bg-indigo-500/20 text-indigo-200 border border-indigo-500/30',
+    TEMPORARY_TAX: 'bg-emerald-500/20 text-emerald-200 border border-emerald-500/30',
+};
+
+function SnapshotDetail({
+    snapshot,
+    companyName,
+    onBack,
+}: {
+    snapshot: ReportSnapshot;
+    companyName: string;
+    onBack: () => void;
+}) {
+    const [activeSheetIndex, setActiveSheetIndex] = useState(0);
+    const activeSheet = snapshot.sheets[activeSheetIndex] || snapshot.sheets[0];
+    const rows = useMemo(() => activeSheet?.rows || [], [activeSheet]);
+    const headers = useMemo(() => {
+        const keys = new Set<string>();
+        rows.slice(0, 50).forEach((row) => Object.keys(row).forEach((key) => keys.add(key)));
+        return Array.from(keys);
+    }, [rows]);
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+                <div>
+                    <button
+                        type="button"
+                        onClick={onBack}
+                        className="inline-flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors mb-2"
+                    >
+                        <ArrowLeft size={14} />
+                        Rapor listesine don
+                    </button>
+                    <h1 className="text-3xl font-bold text-white mb-2">{snapshot.title}</h1>
+                    <p className="text-slate-400 text-sm">
+                        {REPORT_MODULE_LABELS[snapshot.module]} | {formatDateTime(snapshot.createdAt)}
+                        {snapshot.tolerance !== undefined && ` | Tolerans: ${snapshot.tolerance}`}
+                    </p>
+                    <p className="text-xs text-blue-300 mt-1">
+                        Kaynak: {snapshot.sourceFiles.join(', ') || '-'}
+                    </p>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => void exportReportSnapshotExcel(snapshot, companyName)}
+                    className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-blue-500/40 text-blue-200 hover:bg-blue-500/10 transition-colors text-xs font-semibold"
+                >
+                    <Download size={14} />
+                    Excel Indir
+                </button>
+            </div>
+
+            <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-xs text-amber-200">
+                Bu rapor arsivden salt okunur olarak acildi. Guncel veriler uzerinde degisiklik yapmaz.
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {Object.entries(snapshot.summary).map(([label, count]) => (
+                    <div key={label} className="rounded-lg border border-slate-700 bg-slate-900/40 p-3">
+                        <p className="text-xs text-slate-400 truncate" title={label}>{label}</p>
+                        <p className="text-2xl font-bold text-white">{count}</p>
+                    </div>
+                ))}
+            </div>
+
+            <Card className="space-y-4">
+                <div className="flex items-center gap-2 flex-wrap">
+                    {snapshot.sheets.map((sheet, index) => (
+                        <button
+                            key={sheet.name}
+                            type="button"
+                            onClick={() => setActiveSheetIndex(index)}
+                            className={`px-3 py-1.5 rounded-md border text-xs font-semibold transition-colors ${index === activeSheetIndex
+                                ? 'bg-blue-600/20 border-blue-500/40 text-blue-200'
+                                : 'bg-slate-900 border-slate-700 text-slate-300 hover:border-blue-500/40'
+                                }`}
+                        >
+                            {sheet.name} ({sheet.rows.length})
+                        </button>
+                    ))}
+                </div>
+
+                {rows.length > MAX_VISIBLE_ROWS && (
+                    <p className="text-xs text-slate-400">
+                        Ilk {MAX_VISIBLE_ROWS} kayit gosteriliyor. Tum kayitlar icin Excel indirin.
+                    </p>
+                )}
+
+                <div className="overflow-auto rounded-xl border border-slate-700 bg-slate-900/40 max-h-[60vh]">
+                    <table className="w-full text-left border-collapse text-xs">
+                        <thead className="bg-slate-800/80 sticky top-0 z-10">
+                            <tr>
+                                {headers.map((header) => (
+                                    <th key={header} className="p-2.5 border-b border-slate-700 text-slate-400 uppercase whitespace-nowrap">
+                                        {header}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800">
+                            {rows.slice(0, MAX_VISIBLE_ROWS).map((row, rowIndex) => (
+                                <tr key={rowIndex} className="hover:bg-slate-800/30">
+                                    {headers.map((header) => (
+                                        <td key={header} className="p-2.5 text-slate-300 whitespace-nowrap">
+                                            {formatCellValue(row[header])}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                            {rows.length === 0 && (
+                                <tr>
+                                    <td colSpan={Math.max(headers.length, 1)} className="p-10 text-center text-slate-500">
+                                        Bu sayfada kayit yok.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+        </div>
+    );
+}
+
+export default function ReportHistoryPage() {
+    const { activeCompany, patchActiveCompany } = useCompany();
+    const [search, setSearch] = useState('');
+    const [moduleFilter, setModuleFilter] = useState<ModuleFilter>('ALL');
+    const [dateFrom, setDateFrom] = useState('');
+    const [dateTo, setDateTo] = useState('');
+    const [openedSnapshotId, setOpenedSnapshotId] = useState<string | null>(null);
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+    const [isComparing, setIsComparing] = useState(false);
+
+    const snapshots = useMemo(() => {
+        return [...(activeCompany?.reportHistory || [])].sort((left, right) => {
+            return new Date(right.createdAt).getTime() - new Date(left.createdAt).getTime();
+        });
+    }, [activeCompany?.reportHistory]);
+
+    const filteredSnapshots = useMemo(() => {
+        const query = normalizeText(search.trim());
+        const from = parseDateInput(dateFrom, false);
+        const to = parseDateInput(dateTo, true);
+
+        return snapshots.filter((snapshot) => {
+            if (moduleFilter !== 'ALL' && snapshot.module !== moduleFilter) return false;
+
+            const createdAt = new Date(snapshot.createdAt);
+            if (from && createdAt.getTime() < from.getTime()) return false;
+            if (to && createdAt.getTime() > to.getTime()) return false;
+
+            if (!query) return true;
+            const haystack = normalizeText([
+                snapshot.title,
+                REPORT_MODULE_LABELS[snapshot.module],
+                ...snapshot.sourceFiles,
+            ].join(' | '));
+            return haystack.includes(query);
+        });
+    }, [snapshots, search, moduleFilter, dateFrom, dateTo]);
+
+    const openedSnapshot = useMemo(() => {
+        if (!openedSnapshotId) return null;
+        return snapshots.find((snapshot) => snapshot.id === openedSnapshotId) || null;
+    }, [snapshots, openedSnapshotId]);
+
+    const compareSnapshots = useMemo(() => {
+        return compareIds
+            .map((id) => snapshots.find((snapshot) => snapshot.id === id))
+            .filter((snapshot): snapshot is ReportSnapshot => Boolean(snapshot));
+    }, [snapshots, compareIds]);
+
+    const canCompare = compareSnapshots.length === 2 && compareSnapshots[0].module === compareSnapshots[1].module;
+
+    if (!activeCompany) {
+        return (
+            <div className="flex flex-col items-center justify-center h-[60vh] text-center animate-fade-in">
+                <div className="w-24 h-24 bg-slate-800 rounded-full flex items-center justify-center mb-6">
+                    <Layers className="text-slate-600 w-12 h-12" />
+                </div>
+                <h2 className="text-2xl font-bold text-white mb-2">Firma secimi gerekli</h2>
+                <p className="text-slate-400 max-w-md">
+                    Rapor gecmisini gormek icin lutfen once firma secin.
+                </p>
+            </div>
+        );
+    }
+
+    if (isComparing && canCompare) {
+        return (
+            <ReconciliationDiffView
+                left={compareSnapshots[0]}
+                right={compareSnapshots[1]}
+                companyName={activeCompany.name}
+                onBack={() => setIsComparing(false)}
+            />
+        );
+    }
+
+    if (openedSnapshot) {
+        return (
+            <SnapshotDetail
+                key={openedSnapshot.id}
+                snapshot={openedSnapshot}
+                companyName={activeCompany.name}
+                onBack={() => setOpenedSnapshotId(null)}
+            />
+        );
+    }
+
+    const removeSnapshot = async (id: string) => {
+        const approved = window.confirm('Bu rapor arsivden silinsin mi?');
+        if (!approved) return;
+        await patchActiveCompany((company) => ({
+            reportHistory: (company.reportHistory || []).filter((snapshot) => snapshot.id !== id),
+        }));
+        setCompareIds((current) => current.filter((item) => item !== id));
+    };
+
+    // En fazla iki KDV calismasi secilir; ucuncu secim en eskisinin yerine gecer.
+    const toggleCompare = (id: string) => {
+        setCompareIds((current) => {
+            if (current.includes(id)) return current.filter((item) => item !== id);
+            return [...current, id].slice(-2);
+        });
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+                <div>
+                    <h1 className="text-3xl font-bold text-white mb-2">Rapor Gecmisi</h1>
+                    <p className="text-slate-400 text-sm">
+                        KDV, cari hesap ve gecici vergi calismalarinin arsivlenmis sonuclarini goruntuleyin ve tekrar indirin.
+                    </p>
+                    <p className="text-xs text-blue-300 mt-1">{activeCompany.name}</p>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => setIsComparing(true)}
+                    disabled={!canCompare}
+                    className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-blue-500/40 text-blue-200 hover:bg-blue-500/10 transition-colors text-xs font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Ayni modulden iki KDV mutabakat calismasi secin"
+                >
+                    <GitCompare size={14} />
+                    Karsilastir ({compareSnapshots.length}/2)
+                </button>
+            </div>
+
+            <Card className="space-y-4">
+                <div className="flex items-center gap-2 flex-wrap">
+                    <input
+                        value={search}
+                        onChange={(event) => setSearch(event.target.value)}
+                        placeholder="Rapor adi veya kaynak dosya ara..."
+                        className="w-72 max-w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+                    />
+                    <select
+                        value={moduleFilter}
+                        onChange={(event) => setModuleFilter(event.target.value as ModuleFilter)}
+                        className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+                    >
+                        <option value="ALL">Tum Moduller</option>
+                        {(Object.keys(REPORT_MODULE_LABELS) as ReportSnapshotModule[]).map((module) => (
+                            <option key={module} value={module}>{REPORT_MODULE_LABELS[module]}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="date"
+                        value={dateFrom}
+                        onChange={(event) => setDateFrom(event.target.value)}
+                        className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+                        title="Baslangic tarihi"
+                    />
+                    <input
+                        type="date"
+                        value={dateTo}
+                        onChange={(event) => setDateTo(event.target.value)}
+                        className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+                        title="Bitis tarihi"
+                    />
+                </div>
+
+                <div className="overflow-auto rounded-xl border border-slate-700 bg-slate-900/40">
+                    <table className="w-full min-w-[1000px] text-left border-collapse text-xs">
+                        <thead className="bg-slate-800/80 sticky top-0 z-10">
+                            <tr>
+                                <th className="p-2.5 border-b border-slate-700 w-10" title="Karsilastirma icin sec" />
+                                <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Tarih Saat</th>
+                                <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Modul</th>
+                                <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Rapor</th>
+                                <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Kaynak Dosyalar</th>
+                                <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Tolerans</th>
+                                <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Ozet</th>
+                                <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase w-40">Islem</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800">
+                            {filteredSnapshots.map((snapshot) => (
+                                <tr key={snapshot.id} className="hover:bg-slate-800/30">
+                                    <td className="p-2.5">
+                                        {isReconciliationSnapshot(snapshot) && (
+                                            <input
+                                                type="checkbox"
+                                                checked={compareIds.includes(snapshot.id)}
+                                                onChange={() => toggleCompare(snapshot.id)}
+                                                title="Karsilastirma icin sec"
+                                            />
+                                        )}
+                                    </td>
+                                    <td className="p-2.5 text-slate-300 whitespace-nowrap">{formatDateTime(snapshot.createdAt)}</td>
+                                    <td className="p-2.5">
+                                        <span className={`px-2 py-0.5 rounded text-[11px] font-semibold whitespace-nowrap ${MODULE_BADGE_CLASSES[snapshot.module]}`}>
+                                            {REPORT_MODULE_LABELS[snapshot.module]}
+                                        </span>
+                                    </td>
+                                    <td className="p-2.5 text-slate-200">{snapshot.title}</td>
+                                    <td className="p-2.5 text-slate-400">{snapshot.sourceFiles.join(', ') || '-'}</td>
+                                    <td className="p-2.5 text-slate-300">{snapshot.tolerance ?? '-'}</td>
+                                    <td className="p-2.5 text-slate-300">
+                                        <div className="flex flex-wrap gap-1">
+                                            {Object.entries(snapshot.summary).map(([label, count]) => (
+                                                <span key={label} className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-[11px]">
+                                                    {label}: {count}
+                                                </span>
+                                            ))}
+                                        </div>
+                                        <p className="text-[11px] text-slate-500 mt-1">Toplam satir: {getSnapshotRowCount(snapshot)}</p>
+                                    </td>
+                                    <td className="p-2.5">
+                                        <div className="flex items-center gap-1">
+                                            <button
+                                                type="button"
+                                                onClick={() => setOpenedSnapshotId(snapshot.id)}
+                                                className="p-1.5 rounded border border-blue-500/40 text-blue-200 hover:bg-blue-500/10 transition-colors"
+                                                title="Raporu ac"
+                                            >
+                                                <Eye size={14} />
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => void exportReportSnapshotExcel(snapshot, activeCompany.name)}
+                                                className="p-1.5 rounded border border-emerald-500/40 text-emerald-200 hover:bg-emerald-500/10 transition-colors"
+                                                title="Excel indir"
+                                            >
+                                                <Download size={14} />
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => void removeSnapshot(snapshot.id)}
+                                                className="p-1.5 rounded border border-red-500/40 text-red-200 hover:bg-red-500/10 transition-colors"
+                                                title="Arsivden sil"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                            {filteredSnapshots.length === 0 && (
+                                <tr>
+                                    <td colSpan={8} className="p-10 text-center text-slate-500">
+                                        <div className="inline-flex items-center gap-2">
+                                            <History size={16} />
+                                            {snapshots.length === 0
+                                                ? 'Henuz arsivlenmis rapor yok. Mutabakat calistirdiginizda sonuclar burada listelenir.'
+                                                : 'Filtreye uyan rapor bulunamadi.'}
+                                        </div>
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,218 @@
+import { ArrowLeft, ArrowRight, Download } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Card } from '../../../components/common/Card';
+import type { ReportSnapshot, ReportSnapshotRow } from '../../common/types';
+import {
+    diffReconciliationSnapshots,
+    exportReconciliationDiffExcel,
+    type ReportValueChange,
+} from '../reportDiff';
+import { REPORT_MODULE_LABELS } from '../reportHistoryService';
+
+type DiffSection = 'report1' | 'report2' | 'report3' | 'changed';
+
+interface ReconciliationDiffViewProps {
+    left: ReportSnapshot;
+    right: ReportSnapshot;
+    companyName: string;
+    onBack: () => void;
+}
+
+const MAX_VISIBLE_ROWS = 300;
+const PREFERRED_COLUMNS = ['Fatura Tarihi', 'Tarih', 'Fatura No', 'VKN', 'Müşteri', 'Açıklama', 'KDV Tutarı', 'Alacak Tutarı', 'KDV Farkı', 'Matrah Farkı'];
+
+const formatValue = (value: ReportSnapshotRow[string]): string => {
+    if (value === null || value === undefined || value === '') return '-';
+    if (value instanceof Date) return value.toLocaleDateString('tr-TR');
+    if (typeof value === 'number') return value.toLocaleString('tr-TR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return String(value);
+};
+
+const pickColumns = (rows: ReportSnapshotRow[]): string[] => {
+    const available = new Set<string>();
+    rows.slice(0, 50).forEach((row) => Object.keys(row).forEach((key) => available.add(key)));
+    const preferred = PREFERRED_COLUMNS.filter((column) => available.has(column));
+    return preferred.length > 0 ? preferred : Array.from(available).slice(0, 8);
+};
+
+function RowList({ title, rows, tone }: { title: string; rows: ReportSnapshotRow[]; tone: 'resolved' | 'added' }) {
+    const columns = useMemo(() => pickColumns(rows), [rows]);
+    const toneClass = tone === 'resolved' ? 'text-emerald-300' : 'text-red-300';
+
+    return (
+        <div className="rounded-xl border border-slate-700 bg-slate-900/40 overflow-hidden flex flex-col min-h-[200px]">
+            <div className="px-3 py-2 border-b border-slate-700 flex items-center justify-between">
+                <p className={`text-sm font-semibold ${toneClass}`}>{title}</p>
+                <span className="text-xs text-slate-400">{rows.length} kayit</span>
+            </div>
+            <div className="overflow-auto max-h-[50vh]">
+                <table className="w-full text-left border-collapse text-xs">
+                    <thead className="bg-slate-800/80 sticky top-0">
+                        <tr>
+                            {columns.map((column) => (
+                                <th key={column} className="p-2 border-b border-slate-700 text-slate-400 uppercase whitespace-nowrap">{column}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800">
+                        {rows.slice(0, MAX_VISIBLE_ROWS).map((row, index) => (
+                            <tr key={index} className="hover:bg-slate-800/30">
+                                {columns.map((column) => (
+                                    <td key={column} className="p-2 text-slate-300 whitespace-nowrap">{formatValue(row[column])}</td>
+                                ))}
+                            </tr>
+                        ))}
+                        {rows.length === 0 && (
+                            <tr>
+                                <td colSpan={Math.max(columns.length, 1)} className="p-6 text-center text-slate-500">Kayit yok.</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
+
+function ChangeList({ changes }: { changes: ReportValueChange[] }) {
+    return (
+        <div className="overflow-auto rounded-xl border border-slate-700 bg-slate-900/40 max-h-[60vh]">
+            <table className="w-full text-left border-collapse text-xs">
+                <thead className="bg-slate-800/80 sticky top-0">
+                    <tr>
+                        <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Fatura No</th>
+                        <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">VKN</th>
+                        <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Alan</th>
+                        <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase text-right">Onceki</th>
+                        <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase text-right">Sonraki</th>
+                        <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase text-right">Degisim</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800">
+                    {changes.slice(0, MAX_VISIBLE_ROWS).map((change) => {
+                        const improved = Math.abs(change.after) < Math.abs(change.before);
+                        return (
+                            <tr key={`${change.key}-${change.field}`} className="hover:bg-slate-800/30">
+                                <td className="p-2.5 text-blue-300 font-mono whitespace-nowrap">{change.faturaNo || '-'}</td>
+                                <td className="p-2.5 text-slate-300">{change.vkn || '-'}</td>
+                                <td className="p-2.5 text-slate-300">{change.field}</td>
+                                <td className="p-2.5 text-slate-300 text-right">{formatValue(change.before)}</td>
+                                <td className="p-2.5 text-slate-200 text-right">{formatValue(change.after)}</td>
+                                <td className={`p-2.5 text-right font-semibold ${improved ? 'text-emerald-300' : 'text-red-300'}`}>
+                                    {formatValue(change.delta)}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                    {changes.length === 0 && (
+                        <tr>
+                            <td colSpan={6} className="p-6 text-center text-slate-500">Degisen fark tutari yok.</td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+export default function ReconciliationDiffView({ left, right, companyName, onBack }: ReconciliationDiffViewProps) {
+    const [section, setSection] = useState<DiffSection>('report1');
+    const diff = useMemo(() => diffReconciliationSnapshots(left, right), [left, right]);
+
+    const sections: Array<{ id: DiffSection; label: string; resolved: number; added: number }> = [
+        { id: 'report1', label: 'E-Fatura var, muhasebe yok', resolved: diff.report1.resolved.length, added: diff.report1.added.length },
+        { id: 'report2', label: 'Muhasebe var, e-fatura yok', resolved: diff.report2.resolved.length, added: diff.report2.added.length },
+        { id: 'report3', label: 'Tutar farklari', resolved: diff.report3.resolved.length, added: diff.report3.added.length },
+        { id: 'changed', label: 'Degisen KDV/Matrah farki', resolved: 0, added: diff.report3.changed.length },
+    ];
+
+    const activeSetDiff = section === 'report1' ? diff.report1 : section === 'report2' ? diff.report2 : diff.report3;
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+                <div>
+                    <button
+                        type="button"
+                        onClick={onBack}
+                        className="inline-flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors mb-2"
+                    >
+                        <ArrowLeft size={14} />
+                        Rapor listesine don
+                    </button>
+                    <h1 className="text-3xl font-bold text-white mb-2">KDV Mutabakat Karsilastirmasi</h1>
+                    <p className="text-slate-400 text-sm">{REPORT_MODULE_LABELS[diff.base.module]}</p>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => void exportReconciliationDiffExcel(diff, companyName)}
+                    className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-blue-500/40 text-blue-200 hover:bg-blue-500/10 transition-colors text-xs font-semibold"
+                >
+                    <Download size={14} />
+                    Excel Indir
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-3 items-center">
+                {[diff.base, diff.target].map((snapshot, index) => (
+                    <div key={snapshot.id} className={`rounded-lg border border-slate-700 bg-slate-900/40 p-3 ${index === 1 ? 'md:order-3' : ''}`}>
+                        <p className="text-xs text-slate-400">{index === 0 ? 'Onceki calisma' : 'Sonraki calisma'}</p>
+                        <p className="text-sm font-semibold text-white">{new Date(snapshot.createdAt).toLocaleString('tr-TR')}</p>
+                        <p className="text-[11px] text-slate-500 mt-1 truncate" title={snapshot.sourceFiles.join(', ')}>
+                            {snapshot.sourceFiles.join(', ') || '-'}
+                        </p>
+                        <div className="flex flex-wrap gap-1 mt-2">
+                            {Object.entries(snapshot.summary).map(([label, count]) => (
+                                <span key={label} className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-[11px] text-slate-300">
+                                    {label}: {count}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+                <ArrowRight className="hidden md:block text-slate-500 md:order-2" size={20} />
+            </div>
+
+            <Card className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {sections.map((item) => (
+                        <button
+                            key={item.id}
+                            type="button"
+                            onClick={() => setSection(item.id)}
+                            className={`text-left rounded-xl border p-3 transition-colors ${section === item.id
+                                ? 'border-blue-500/50 bg-blue-500/10'
+                                : 'border-slate-700 bg-slate-900/40 hover:border-slate-500'
+                                }`}
+                        >
+                            <p className="text-xs text-slate-400">{item.label}</p>
+                            {item.id === 'changed' ? (
+                                <p className="text-lg font-bold text-amber-300">{item.added} degisen</p>
+                            ) : (
+                                <p className="text-lg font-bold">
+                                    <span className="text-emerald-300">-{item.resolved}</span>
+                                    <span className="text-slate-500 mx-1">/</span>
+                                    <span className="text-red-300">+{item.added}</span>
+                                </p>
+                            )}
+                        </button>
+                    ))}
+                </div>
+
+                {section === 'changed' ? (
+                    <ChangeList changes={diff.report3.changed} />
+                ) : (
+                    <>
+                        <p className="text-xs text-slate-400">
+                            Iki calismada da devam eden kayit: {activeSetDiff.unchangedCount}
+                        </p>
+                        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                            <RowList title="Listeden cikanlar (kapanan)" rows={activeSetDiff.resolved} tone="resolved" />
+                            <RowList title="Yeni ortaya cikanlar" rows={activeSetDiff.added} tone="added" />
+                        </div>
+                    </>
+                )}
+            </Card>
+        </div>
+    );
+}
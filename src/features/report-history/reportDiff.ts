@@ -0,0 +1,211 @@
+import type { ReportSnapshot, ReportSnapshotRow } from '../common/types';
+import { round2 } from '../../utils/accounting';
+import { RECONCILIATION_SHEET_NAMES } from './reportHistoryService';
+
+export type ReconciliationDiffField = 'KDV Farkı' | 'Matrah Farkı';
+
+export interface ReportValueChange {
+    key: string;
+    faturaNo: string;
+    vkn: string;
+    field: ReconciliationDiffField;
+    before: number;
+    after: number;
+    delta: number;
+}
+
+export interface ReportSetDiff {
+    resolved: ReportSnapshotRow[];
+    added: ReportSnapshotRow[];
+    unchangedCount: number;
+}
+
+export interface ReconciliationSnapshotDiff {
+    base: ReportSnapshot;
+    target: ReportSnapshot;
+    report1: ReportSetDiff;
+    report2: ReportSetDiff;
+    report3: ReportSetDiff & { changed: ReportValueChange[] };
+}
+
+const DIFF_FIELDS: ReconciliationDiffField[] = ['KDV Farkı', 'Matrah Farkı'];
+const VALUE_CHANGE_TOLERANCE = 0.01;
+
+export const isReconciliationSnapshot = (snapshot: ReportSnapshot): boolean => {
+    return snapshot.module === 'KDV_SALES' || snapshot.module === 'KDV_PURCHASE';
+};
+
+const getSheetRows = (snapshot: ReportSnapshot, sheetName: string): ReportSnapshotRow[] => {
+    return snapshot.sheets.find((sheet) => sheet.name === sheetName)?.rows || [];
+};
+
+const readText = (row: ReportSnapshotRow, key: string): string => {
+    const value = row[key];
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    return String(value).trim();
+};
+
+const readNumber = (row: ReportSnapshotRow, key: string): number | null => {
+    const value = row[key];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    return null;
+};
+
+// Fatura no + VKN worker'daki eslestirme anahtari ile ayni; fatura nosu olmayan
+// muhasebe satirlari icin tarih/ref/tutar ile ayirt edilir.
+export const getReportRowKey = (row: ReportSnapshotRow): string => {
+    const faturaNo = readText(row, 'Fatura No');
+    const vkn = readText(row, 'VKN');
+    if (faturaNo) return vkn ? `${faturaNo}_${vkn}` : faturaNo;
+
+    return [
+        readText(row, 'Tarih'),
+        readText(row, 'Ref.No'),
+        readText(row, 'Açıklama'),
+        readText(row, 'Alacak Tutarı'),
+    ].join('|');
+};
+
+const groupByKey = (rows: ReportSnapshotRow[]): Map<string, ReportSnapshotRow[]> => {
+    const map = new Map<string, ReportSnapshotRow[]>();
+    rows.forEach((row) => {
+        const key = getReportRowKey(row);
+        const bucket = map.get(key);
+        if (bucket) bucket.push(row);
+        else map.set(key, [row]);
+    });
+    return map;
+};
+
+const diffRowSets = (baseRows: ReportSnapshotRow[], targetRows: ReportSnapshotRow[]): ReportSetDiff => {
+    const baseMap = groupByKey(baseRows);
+    const targetMap = groupByKey(targetRows);
+    const resolved: ReportSnapshotRow[] = [];
+    const added: ReportSnapshotRow[] = [];
+    let unchangedCount = 0;
+
+    baseMap.forEach((rows, key) => {
+        if (targetMap.has(key)) unchangedCount += 1;
+        else resolved.push(...rows);
+    });
+    targetMap.forEach((rows, key) => {
+        if (!baseMap.has(key)) added.push(...rows);
+    });
+
+    return { resolved, added, unchangedCount };
+};
+
+const diffValueChanges = (baseRows: ReportSnapshotRow[], targetRows: ReportSnapshotRow[]): ReportValueChange[] => {
+    const targetByKey = new Map<string, ReportSnapshotRow>();
+    targetRows.forEach((row) => targetByKey.set(getReportRowKey(row), row));
+
+    const changes: ReportValueChange[] = [];
+    baseRows.forEach((baseRow) => {
+        const key = getReportRowKey(baseRow);
+        const targetRow = targetByKey.get(key);
+        if (!targetRow) return;
+
+        DIFF_FIELDS.forEach((field) => {
+            const before = readNumber(baseRow, field);
+            const after = readNumber(targetRow, field);
+            if (before === null && after === null) return;
+            const beforeValue = before ?? 0;
+            const afterValue = after ?? 0;
+            if (Math.abs(afterValue - beforeValue) <= VALUE_CHANGE_TOLERANCE) return;
+
+            changes.push({
+                key,
+                faturaNo: readText(baseRow, 'Fatura No'),
+                vkn: readText(baseRow, 'VKN'),
+                field,
+                before: beforeValue,
+                after: afterValue,
+                delta: round2(afterValue - beforeValue),
+            });
+        });
+    });
+
+    return changes;
+};
+
+/** Compares two KDV reconciliation snapshots; the older one is always used as the base. */
+export const diffReconciliationSnapshots = (left: ReportSnapshot, right: ReportSnapshot): ReconciliationSnapshotDiff => {
+    const [base, target] = new Date(left.createdAt).getTime() <= new Date(right.createdAt).getTime()
+        ? [left, right]
+        : [right, left];
+
+    const baseReport3 = getSheetRows(base, RECONCILIATION_SHEET_NAMES.report3);
+    const targetReport3 = getSheetRows(target, RECONCILIATION_SHEET_NAMES.report3);
+
+    return {
+        base,
+        target,
+        report1: diffRowSets(
+            getSheetRows(base, RECONCILIATION_SHEET_NAMES.report1),
+            getSheetRows(target, RECONCILIATION_SHEET_NAMES.report1)
+        ),
+        report2: diffRowSets(
+            getSheetRows(base, RECONCILIATION_SHEET_NAMES.report2),
+            getSheetRows(target, RECONCILIATION_SHEET_NAMES.report2)
+        ),
+        report3: {
+            ...diffRowSets(baseReport3, targetReport3),
+            changed: diffValueChanges(baseReport3, targetReport3),
+        },
+    };
+};
+
+export const exportReconciliationDiffExcel = async (diff: ReconciliationSnapshotDiff, companyName: string) => {
+    const XLSX = await import('xlsx');
+    const { applyStyledSheet } = await import('../../utils/excelStyle');
+
+    const workbook = XLSX.utils.book_new();
+    const formatRunDate = (snapshot: ReportSnapshot) => new Date(snapshot.createdAt).toLocaleString('tr-TR');
+
+    const summaryRows = [
+        { Baslik: 'Firma', Deger: companyName },
+        { Baslik: 'Onceki Calisma', Deger: formatRunDate(diff.base) },
+        { Baslik: 'Sonraki Calisma', Deger: formatRunDate(diff.target) },
+        { Baslik: 'E-Fatura Eksik - Kapanan', Deger: diff.report1.resolved.length },
+        { Baslik: 'E-Fatura Eksik - Yeni', Deger: diff.report1.added.length },
+        { Baslik: 'Muhasebe Eksik - Kapanan', Deger: diff.report2.resolved.length },
+        { Baslik: 'Muhasebe Eksik - Yeni', Deger: diff.report2.added.length },
+        { Baslik: 'Tutar Farklari - Kapanan', Deger: diff.report3.resolved.length },
+        { Baslik: 'Tutar Farklari - Yeni', Deger: diff.report3.added.length },
+        { Baslik: 'Tutar Farklari - Degisen', Deger: diff.report3.changed.length },
+    ];
+
+    const appendRowsSheet = (rows: Array<Record<string, unknown>>, name: string) => {
+        if (rows.length === 0) return;
+        const worksheet = XLSX.utils.json_to_sheet(rows, { cellDates: true });
+        const headers = Object.keys(rows[0] || {});
+        const numericColumns = headers
+            .map((header, index) => (/tutar|fark|matrah|kdv|once|sonra|degisim/i.test(header) ? index : -1))
+            .filter((index) => index >= 0);
+        applyStyledSheet(worksheet, { headerRowIndex: 0, numericColumns });
+        XLSX.utils.book_append_sheet(workbook, worksheet, name);
+    };
+
+    const summarySheet = XLSX.utils.json_to_sheet(summaryRows);
+    applyStyledSheet(summarySheet, { headerRowIndex: 0 });
+    XLSX.utils.book_append_sheet(workbook, summarySheet, 'Ozet');
+
+    appendRowsSheet(diff.report1.resolved, 'EFatura Eksik Kapanan');
+    appendRowsSheet(diff.report1.added, 'EFatura Eksik Yeni');
+    appendRowsSheet(diff.report2.resolved, 'Muhasebe Eksik Kapanan');
+    appendRowsSheet(diff.report2.added, 'Muhasebe Eksik Yeni');
+    appendRowsSheet(diff.report3.resolved, 'Tutar Farki Kapanan');
+    appendRowsSheet(diff.report3.added, 'Tutar Farki Yeni');
+    appendRowsSheet(diff.report3.changed.map((change) => ({
+        'Fatura No': change.faturaNo,
+        VKN: change.vkn,
+        Alan: change.field,
+        Once: change.before,
+        Sonra: change.after,
+        Degisim: change.delta,
+    })), 'Tutar Farki Degisen');
+
+    const datePart = new Date().toISOString().slice(0, 10);
+    XLSX.writeFile(workbook, `kdv_mutabakat_karsilastirma_${datePart}.xlsx`);
+};
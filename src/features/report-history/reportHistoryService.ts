@@ -0,0 +1,283 @@
+import type {
+    Company,
+    ReportSnapshot,
+    ReportSnapshotModule,
+    ReportSnapshotRow,
+    ReportSnapshotSheet,
+} from '../common/types';
+import type { ReconciliationReportData } from '../../types';
+import type { ComparisonResult, MatchStatus } from '../current-account-control/utils/types';
+import type { TemporaryTaxControlResult } from '../temporary-tax/controlChecks';
+import { FUZZY_HIDDEN_KEYS } from '../reconciliation/utils/fuzzyMatching';
+import { isPeriodShiftRow } from '../reconciliation/utils/periodShift';
+
+export const REPORT_HISTORY_LIMIT = 50;
+
+export const REPORT_MODULE_LABELS: Record<ReportSnapshotModule, string> = {
+    KDV_SALES: 'Satis KDV Kontrol',
+    KDV_PURCHASE: 'Alis KDV Kontrol',
+    CURRENT_ACCOUNT: 'Cari Hesap Kontrol',
+    TEMPORARY_TAX: 'Gecici Vergi Kontrol',
+};
+
+export const RECONCILIATION_SHEET_NAMES = {
+    report1: 'E-Fatura Eksik',
+    report2: 'Muhasebe Eksik',
+    report3: 'Tutar Farklari',
+    report4: 'Hatali Kayitlar',
+    report5: 'Oran Farklari',
+    report6: 'Olasi Eslesmeler',
+    report7: 'Tevkifat Farklari',
+    report8: 'Iade Iptal',
+} as const;
+
+export interface ReportSnapshotInput {
+    module: ReportSnapshotModule;
+    title: string;
+    sourceFiles: Array<string | null | undefined>;
+    tolerance?: number;
+    summary: Record<string, number>;
+    sheets: ReportSnapshotSheet[];
+}
+
+const createSnapshotId = (): string => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `report-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const uniqueFileNames = (names: Array<string | null | undefined>): string[] => {
+    const seen = new Set<string>();
+    names.forEach((name) => {
+        const trimmed = String(name || '').trim();
+        if (trimmed) seen.add(trimmed);
+    });
+    return Array.from(seen);
+};
+
+// originalRow / validationError gibi ic alanlar arsive yazilmaz.
+const HIDDEN_ROW_KEYS = new Set(['id', 'originalRow', 'validationError', 'multipleInvoicesFound', ...FUZZY_HIDDEN_KEYS]);
+
+const toSnapshotRows = (rows: ReportSnapshotRow[] | undefined): ReportSnapshotRow[] => {
+    return (rows || []).map((row) => {
+        const next: ReportSnapshotRow = {};
+        Object.entries(row).forEach(([key, value]) => {
+            if (HIDDEN_ROW_KEYS.has(key)) return;
+            next[key] = value;
+        });
+        return next;
+    });
+};
+
+export const createReportSnapshot = (input: ReportSnapshotInput): ReportSnapshot => ({
+    id: createSnapshotId(),
+    createdAt: new Date().toISOString(),
+    module: input.module,
+    title: input.title,
+    sourceFiles: uniqueFileNames(input.sourceFiles),
+    tolerance: input.tolerance,
+    summary: input.summary,
+    sheets: input.sheets,
+});
+
+/** Ayni modul ve baslikli son kayit ayni dosya ve satirlari iceriyorsa yeni kayit tekrardir. */
+export const isRepeatedReportSnapshot = (history: ReportSnapshot[] | undefined, snapshot: ReportSnapshot): boolean => {
+    const previous = (history || []).find((item) => item.module === snapshot.module && item.title === snapshot.title);
+    if (!previous) return false;
+    return JSON.stringify(previous.sourceFiles) === JSON.stringify(snapshot.sourceFiles)
+        && JSON.stringify(previous.sheets) === JSON.stringify(snapshot.sheets);
+};
+
+/** Returns the company patch that prepends the snapshot to the report history. */
+export const appendReportSnapshot = (company: Company, snapshot: ReportSnapshot): Partial<Company> => ({
+    reportHistory: [snapshot, ...(company.reportHistory || [])].slice(0, REPORT_HISTORY_LIMIT),
+});
+
+/** Like appendReportSnapshot, but drops the entry with replaceId so a draft snapshot is updated instead of repeated. */
+export const replaceReportSnapshot = (company: Company, snapshot: ReportSnapshot, replaceId: string | null): Partial<Company> => ({
+    reportHistory: [snapshot, ...(company.reportHistory || []).filter((item) => item.id !== replaceId)].slice(0, REPORT_HISTORY_LIMIT),
+});
+
+export const buildReconciliationSnapshot = (
+    mode: 'SALES' | 'PURCHASE',
+    reports: ReconciliationReportData,
+    sourceFiles: Array<string | null | undefined>,
+    tolerance: number
+): ReportSnapshot => {
+    const sheets: ReportSnapshotSheet[] = [
+        { name: RECONCILIATION_SHEET_NAMES.report1, rows: toSnapshotRows(reports.report1) },
+        { name: RECONCILIATION_SHEET_NAMES.report2, rows: toSnapshotRows(reports.report2) },
+        { name: RECONCILIATION_SHEET_NAMES.report3, rows: toSnapshotRows(reports.report3) },
+        { name: RECONCILIATION_SHEET_NAMES.report4, rows: toSnapshotRows(reports.report4) },
+    ];
+    if (reports.report5) {
+        sheets.push({ name: RECONCILIATION_SHEET_NAMES.report5, rows: toSnapshotRows(reports.report5) });
+    }
+    if (reports.report6) {
+        sheets.push({ name: RECONCILIATION_SHEET_NAMES.report6, rows: toSnapshotRows(reports.report6) });
+    }
+    if (reports.report7) {
+        sheets.push({ name: RECONCILIATION_SHEET_NAMES.report7, rows: toSnapshotRows(reports.report7) });
+    }
+    if (reports.report8) {
+        sheets.push({ name: RECONCILIATION_SHEET_NAMES.report8, rows: toSnapshotRows(reports.report8) });
+    }
+
+    const summary: Record<string, number> = Object.fromEntries(sheets.map((sheet) => [sheet.name, sheet.rows.length]));
+    const periodShiftCount = [...reports.report1, ...reports.report2].filter(isPeriodShiftRow).length;
+    if (periodShiftCount > 0) {
+        summary['Donemsellik Farki'] = periodShiftCount;
+    }
+
+    return createReportSnapshot({
+        module: mode === 'SALES' ? 'KDV_SALES' : 'KDV_PURCHASE',
+        title: mode === 'SALES' ? 'Satis KDV Mutabakati' : 'Alis KDV Mutabakati',
+        sourceFiles,
+        tolerance,
+        summary,
+        sheets,
+    });
+};
+
+const CURRENT_ACCOUNT_STATUS_LABELS: Record<MatchStatus, string> = {
+    MATCHED: 'Eslesti',
+    DIFFERENCE: 'Hatali/Farkli',
+    UNMATCHED_SMMM: "SMMM'de Var",
+    UNMATCHED_FIRMA: 'Firmada Var',
+};
+
+export const buildCurrentAccountSnapshot = (
+    results: ComparisonResult[],
+    sourceFiles: Array<string | null | undefined>
+): ReportSnapshot => {
+    const rows: ReportSnapshotRow[] = results.map((item) => ({
+        Durum: CURRENT_ACCOUNT_STATUS_LABELS[item.status],
+        Manuel: item.isManual ? 'Evet' : 'Hayir',
+        Skor: item.isManual ? 'MANUEL' : `%${item.matchScore}`,
+        'SMMM Kod': item.smmmAccount?.code || '-',
+        'SMMM Ad': item.smmmAccount?.name || '-',
+        'SMMM Bakiye': item.smmmAccount?.balance ?? null,
+        'Firma Kod': item.firmaAccount?.code || '-',
+        'Firma Ad': item.firmaAccount?.name || '-',
+        'Firma Bakiye': item.firmaAccount?.balance ?? null,
+        'Bakiye Farki': item.difference,
+        'Borc Farki': item.debitDifference,
+        'Alacak Farki': item.creditDifference,
+    }));
+
+    const countByStatus = (statuses: MatchStatus[]) => results.filter((item) => statuses.includes(item.status)).length;
+
+    return createReportSnapshot({
+        module: 'CURRENT_ACCOUNT',
+        title: 'Cari Hesap Mutabakati',
+        sourceFiles,
+        summary: {
+            Toplam: results.length,
+            'Tam Eslesen': countByStatus(['MATCHED']),
+            'Hatali/Farkli': countByStatus(['DIFFERENCE']),
+            'Eksik/Fazla': countByStatus(['UNMATCHED_SMMM', 'UNMATCHED_FIRMA']),
+        },
+        sheets: [{ name: 'Sonuclar', rows }],
+    });
+};
+
+export const getTemporaryTaxSnapshotTitle = (source: 'FIRMA' | 'SMMM'): string => {
+    return `Gecici Vergi Kontrolleri (${source === 'FIRMA' ? 'Firma' : 'SMMM'})`;
+};
+
+export const buildTemporaryTaxSnapshot = (
+    source: 'FIRMA' | 'SMMM',
+    controls: TemporaryTaxControlResult[],
+    sourceFiles: Array<string | null | undefined>
+): ReportSnapshot => {
+    const summaryRows: ReportSnapshotRow[] = controls.map((control) => ({
+        Kontrol: control.title,
+        Aciklama: control.description,
+        'Problemli Hesap': control.accounts.length,
+    }));
+    const detailRows: ReportSnapshotRow[] = controls.flatMap((control) => control.accounts.map((item) => ({
+        Kontrol: control.title,
+        'Hesap Kodu': item.account.code,
+        'Hesap Adi': item.account.name || '-',
+        'Kontrol Sonucu': item.reason,
+        Detay: item.detail || '-',
+        Bakiye: item.account.balance,
+        Hareket: item.account.transactionCount,
+    })));
+
+    return createReportSnapshot({
+        module: 'TEMPORARY_TAX',
+        title: getTemporaryTaxSnapshotTitle(source),
+        sourceFiles,
+        summary: Object.fromEntries(controls.map((control) => [control.title, control.accounts.length])),
+        sheets: [
+            { name: 'Kontrol Ozet', rows: summaryRows },
+            { name: 'Kontrol Detay', rows: detailRows },
+        ],
+    });
+};
+
+/** Collects "Kaynak Dosya" values from parsed rows when the original File objects are gone. */
+export const collectSourceFileNames = (rows: ReadonlyArray<object>): string[] => {
+    return uniqueFileNames(rows.map((row) => {
+        const value = (row as Record<string, unknown>)['Kaynak Dosya'];
+        return typeof value === 'string' ? value : '';
+    }));
+};
+
+export const getSnapshotRowCount = (snapshot: ReportSnapshot): number => {
+    return snapshot.sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0);
+};
+
+const sanitizeSheetName = (name: string, used: Set<string>): string => {
+    const base = name.replace(/[\\/?*[\]:]/g, '_').slice(0, 31) || 'Sayfa';
+    let candidate = base;
+    let counter = 2;
+    while (used.has(candidate)) {
+        const suffix = `_${counter}`;
+        candidate = `${base.slice(0, 31 - suffix.length)}${suffix}`;
+        counter += 1;
+    }
+    used.add(candidate);
+    return candidate;
+};
+
+export const exportReportSnapshotExcel = async (snapshot: ReportSnapshot, companyName: string) => {
+    const XLSX = await import('xlsx');
+    const { applyStyledSheet } = await import('../../utils/excelStyle');
+
+    const workbook = XLSX.utils.book_new();
+    const usedNames = new Set<string>();
+    const createdAt = new Date(snapshot.createdAt);
+
+    const summaryRows = [
+        { Baslik: 'Firma', Deger: companyName },
+        { Baslik: 'Modul', Deger: REPORT_MODULE_LABELS[snapshot.module] },
+        { Baslik: 'Rapor', Deger: snapshot.title },
+        { Baslik: 'Calisma Zamani', Deger: createdAt.toLocaleString('tr-TR') },
+        { Baslik: 'Kaynak Dosyalar', Deger: snapshot.sourceFiles.join(', ') || '-' },
+        { Baslik: 'Tolerans', Deger: snapshot.tolerance ?? '-' },
+        ...Object.entries(snapshot.summary).map(([label, count]) => ({ Baslik: label, Deger: count })),
+    ];
+    const summarySheet = XLSX.utils.json_to_sheet(summaryRows);
+    applyStyledSheet(summarySheet, { headerRowIndex: 0 });
+    XLSX.utils.book_append_sheet(workbook, summarySheet, sanitizeSheetName('Ozet', usedNames));
+
+    snapshot.sheets.forEach((sheet) => {
+        if (sheet.rows.length === 0) return;
+        const worksheet = XLSX.utils.json_to_sheet(sheet.rows, { cellDates: true });
+        const headers = Object.keys(sheet.rows[0] || {});
+        const numericColumns = headers
+            .map((header, index) => (/tutar|bor[çc]|alacak|fark|matrah|kdv|bakiye/i.test(header) ? index : -1))
+            .filter((index) => index >= 0);
+        applyStyledSheet(worksheet, { headerRowIndex: 0, numericColumns });
+        XLSX.utils.book_append_sheet(workbook, worksheet, sanitizeSheetName(sheet.name, usedNames));
+    });
+
+    const datePart = Number.isNaN(createdAt.getTime())
+        ? new Date().toISOString().slice(0, 10)
+        : createdAt.toISOString().slice(0, 10);
+    const moduleKey = snapshot.module.toLocaleLowerCase('en-US');
+    XLSX.writeFile(workbook, `rapor_arsivi_${moduleKey}_${datePart}.xlsx`);
+};
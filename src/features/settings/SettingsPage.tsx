@@ -0,0 +1,18 @@
+import BackupRestoreCard from './components/BackupRestoreCard';
+import MigrationLogCard from './components/MigrationLogCard';
+
+export default function SettingsPage() {
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div>
+                <h1 className="text-3xl font-bold text-white mb-2">Ayarlar</h1>
+                <p className="text-slate-400 text-sm">
+                    Firma yönetimi için sol üstteki firma seçicisini kullanabilirsiniz.
+                </p>
+            </div>
+
+            <BackupRestoreCard />
+            <MigrationLogCard />
+        </div>
+    );
+}
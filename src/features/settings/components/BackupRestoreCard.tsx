@@ -0,0 +1,287 @@
+import { useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, DatabaseBackup, Download, Upload } from 'lucide-react';
+import { Button } from '../../../components/common/Button';
+import { Card } from '../../../components/common/Card';
+import { useCompany } from '../../../context/CompanyContext';
+import {
+    BACKUP_FILE_EXTENSION,
+    applyBackupImport,
+    buildBackupImportItems,
+    downloadBackupArchive,
+    readBackupArchive,
+    type BackupConflictStrategy,
+    type BackupImportItem,
+    type BackupImportResult,
+    type CompanyBackupArchive,
+} from '../../../services/backupService';
+
+const STRATEGY_LABELS: Record<BackupConflictStrategy, string> = {
+    SKIP: 'Atla',
+    OVERWRITE: 'Üzerine yaz',
+    COPY: 'Kopya olarak ekle',
+};
+
+const formatDateTime = (value: string | Date | undefined): string => {
+    if (!value) return '-';
+    const parsed = value instanceof Date ? value : new Date(value);
+    if (Number.isNaN(parsed.getTime())) return '-';
+    return parsed.toLocaleString('tr-TR');
+};
+
+export default function BackupRestoreCard() {
+    const { companies, refreshCompanies } = useCompany();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [selectedIds, setSelectedIds] = useState<Record<string, boolean>>({});
+    const [isBusy, setIsBusy] = useState(false);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [pendingArchive, setPendingArchive] = useState<CompanyBackupArchive | null>(null);
+    const [importItems, setImportItems] = useState<BackupImportItem[]>([]);
+    const [defaultStrategy, setDefaultStrategy] = useState<BackupConflictStrategy>('SKIP');
+    const [importResult, setImportResult] = useState<BackupImportResult | null>(null);
+
+    const selectedCompanies = companies.filter((company) => selectedIds[company.id]);
+
+    const handleExport = async (targets: typeof companies) => {
+        if (targets.length === 0) return;
+        setErrorMessage(null);
+        setIsBusy(true);
+        try {
+            await downloadBackupArchive(targets);
+        } catch (error) {
+            setErrorMessage(error instanceof Error ? error.message : 'Yedek oluşturulamadı.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleFileSelect = async (file: File | undefined) => {
+        if (!file) return;
+        setErrorMessage(null);
+        setImportResult(null);
+        setIsBusy(true);
+        try {
+            const archive = await readBackupArchive(file);
+            setPendingArchive(archive);
+            setImportItems(buildBackupImportItems(archive, companies, defaultStrategy));
+        } catch (error) {
+            setPendingArchive(null);
+            setImportItems([]);
+            setErrorMessage(error instanceof Error ? error.message : 'Yedek dosyası okunamadı.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleDefaultStrategyChange = (strategy: BackupConflictStrategy) => {
+        setDefaultStrategy(strategy);
+        setImportItems((current) => current.map((item) => (
+            item.existing ? { ...item, strategy } : item
+        )));
+    };
+
+    const handleItemStrategyChange = (companyId: string, strategy: BackupConflictStrategy) => {
+        setImportItems((current) => current.map((item) => (
+            item.company.id === companyId ? { ...item, strategy } : item
+        )));
+    };
+
+    const handleImport = async () => {
+        if (importItems.length === 0) return;
+        setErrorMessage(null);
+        setIsBusy(true);
+        try {
+            const result = await applyBackupImport(importItems, companies);
+            await refreshCompanies();
+            setImportResult(result);
+            setPendingArchive(null);
+            setImportItems([]);
+        } catch (error) {
+            setErrorMessage(error instanceof Error ? error.message : 'Yedek içe aktarılamadı.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const conflictCount = importItems.filter((item) => item.existing).length;
+
+    return (
+        <Card className="space-y-5">
+            <div className="flex items-start gap-3">
+                <div className="p-2 rounded-lg bg-blue-500/10 border border-blue-500/30">
+                    <DatabaseBackup className="text-blue-400" size={20} />
+                </div>
+                <div>
+                    <h2 className="text-lg font-bold text-white">Yedekleme ve Geri Yükleme</h2>
+                    <p className="text-sm text-slate-400">
+                        Firma verilerini (defterler, fiş düzenlemeleri, onaylar, eşleştirmeler, Fatura XML) tek bir sıkıştırılmış dosyaya alın veya geri yükleyin.
+                    </p>
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                <div className="flex items-center justify-between gap-3 flex-wrap">
+                    <p className="text-sm font-semibold text-slate-200">Dışa Aktar</p>
+                    <div className="flex items-center gap-2">
+                        <Button
+                            size="sm"
+                            variant="secondary"
+                            leftIcon={<Download size={14} />}
+                            onClick={() => void handleExport(selectedCompanies)}
+                            disabled={isBusy || selectedCompanies.length === 0}
+                        >
+                            Seçilenleri Yedekle ({selectedCompanies.length})
+                        </Button>
+                        <Button
+                            size="sm"
+                            leftIcon={<Download size={14} />}
+                            onClick={() => void handleExport(companies)}
+                            disabled={isBusy || companies.length === 0}
+                        >
+                            Tümünü Yedekle
+                        </Button>
+                    </div>
+                </div>
+                <div className="max-h-60 overflow-auto rounded-lg border border-slate-700 divide-y divide-slate-800">
+                    {companies.map((company) => (
+                        <label key={company.id} className="flex items-center gap-3 px-3 py-2 text-sm text-slate-300 hover:bg-slate-800/40 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={!!selectedIds[company.id]}
+                                onChange={(event) => {
+                                    const checked = event.target.checked;
+                                    setSelectedIds((current) => ({ ...current, [company.id]: checked }));
+                                }}
+                            />
+                            <span className="flex-1 text-white">{company.name}</span>
+                            <span className="text-xs text-slate-500">Son güncelleme: {formatDateTime(company.updatedAt)}</span>
+                        </label>
+                    ))}
+                    {companies.length === 0 && (
+                        <p className="px-3 py-4 text-sm text-slate-500">Kayıtlı firma yok.</p>
+                    )}
+                </div>
+            </div>
+
+            <div className="space-y-3 border-t border-slate-700 pt-4">
+                <div className="flex items-center justify-between gap-3 flex-wrap">
+                    <p className="text-sm font-semibold text-slate-200">İçe Aktar</p>
+                    <Button
+                        size="sm"
+                        variant="secondary"
+                        leftIcon={<Upload size={14} />}
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isBusy}
+                    >
+                        Yedek Dosyası Seç
+                    </Button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept={`${BACKUP_FILE_EXTENSION},.json,.gz`}
+                        className="hidden"
+                        onChange={(event) => {
+                            void handleFileSelect(event.target.files?.[0]);
+                            event.target.value = '';
+                        }}
+                    />
+                </div>
+
+                {pendingArchive && (
+                    <div className="space-y-3">
+                        <div className="text-xs text-slate-400 flex flex-wrap gap-x-6 gap-y-1">
+                            <span>Yedek tarihi: {formatDateTime(pendingArchive.exportedAt)}</span>
+                            <span>Uygulama sürümü: {pendingArchive.appVersion}</span>
+                            <span>Firma sayısı: {pendingArchive.companies.length}</span>
+                            <span>Çakışan firma: {conflictCount}</span>
+                        </div>
+
+                        {conflictCount > 0 && (
+                            <div className="flex items-center gap-2 text-sm text-slate-300">
+                                <span>Çakışmalarda varsayılan işlem:</span>
+                                <select
+                                    value={defaultStrategy}
+                                    onChange={(event) => handleDefaultStrategyChange(event.target.value as BackupConflictStrategy)}
+                                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                                >
+                                    {(Object.keys(STRATEGY_LABELS) as BackupConflictStrategy[]).map((strategy) => (
+                                        <option key={strategy} value={strategy}>{STRATEGY_LABELS[strategy]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        <div className="overflow-auto rounded-lg border border-slate-700">
+                            <table className="w-full text-left text-xs border-collapse">
+                                <thead className="bg-slate-800/80">
+                                    <tr>
+                                        <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Firma</th>
+                                        <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Yedekteki Güncelleme</th>
+                                        <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Mevcut Güncelleme</th>
+                                        <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">İşlem</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-800">
+                                    {importItems.map((item) => (
+                                        <tr key={item.company.id}>
+                                            <td className="p-2.5 text-white">{item.company.name}</td>
+                                            <td className="p-2.5 text-slate-300">{formatDateTime(item.company.updatedAt)}</td>
+                                            <td className="p-2.5 text-slate-300">{item.existing ? formatDateTime(item.existing.updatedAt) : '-'}</td>
+                                            <td className="p-2.5">
+                                                {item.existing ? (
+                                                    <select
+                                                        value={item.strategy}
+                                                        onChange={(event) => handleItemStrategyChange(item.company.id, event.target.value as BackupConflictStrategy)}
+                                                        className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500"
+                                                    >
+                                                        {(Object.keys(STRATEGY_LABELS) as BackupConflictStrategy[]).map((strategy) => (
+                                                            <option key={strategy} value={strategy}>{STRATEGY_LABELS[strategy]}</option>
+                                                        ))}
+                                                    </select>
+                                                ) : (
+                                                    <span className="text-emerald-300">Yeni firma</span>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="flex justify-end gap-2">
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => {
+                                    setPendingArchive(null);
+                                    setImportItems([]);
+                                }}
+                                disabled={isBusy}
+                            >
+                                Vazgeç
+                            </Button>
+                            <Button size="sm" onClick={() => void handleImport()} isLoading={isBusy}>
+                                İçe Aktar
+                            </Button>
+                        </div>
+                    </div>
+                )}
+
+                {importResult && (
+                    <div className="flex items-start gap-2 text-sm text-emerald-200 bg-emerald-500/10 border border-emerald-500/30 rounded-lg p-3">
+                        <CheckCircle2 size={16} className="mt-0.5 shrink-0" />
+                        <p>
+                            Yeni: {importResult.imported}, üzerine yazılan: {importResult.overwritten}, kopya: {importResult.copied}, atlanan: {importResult.skipped}
+                        </p>
+                    </div>
+                )}
+            </div>
+
+            {errorMessage && (
+                <div className="flex items-start gap-2 text-sm text-red-300 bg-red-500/10 border border-red-500/30 rounded-lg p-3">
+                    <AlertCircle size={16} className="mt-0.5 shrink-0" />
+                    <p>{errorMessage}</p>
+                </div>
+            )}
+        </Card>
+    );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { Card } from '../../../components/common/Card';
+import { dbService } from '../../../services/db';
+import { COMPANY_SCHEMA_VERSION, type CompanyMigrationLogEntry } from '../../../services/companyMigrations';
+
+export default function MigrationLogCard() {
+    const [logs, setLogs] = useState<CompanyMigrationLogEntry[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        dbService.getMigrationLogs()
+            .then((entries) => {
+                if (!cancelled) setLogs(entries);
+            })
+            .catch((error) => console.error('Gecis kayitlari okunamadi', error));
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    return (
+        <Card className="space-y-4">
+            <div className="flex items-start gap-3">
+                <div className="p-2 rounded-lg bg-slate-500/10 border border-slate-500/30">
+                    <History className="text-slate-300" size={20} />
+                </div>
+                <div>
+                    <h2 className="text-lg font-bold text-white">Veri Şeması Geçişleri</h2>
+                    <p className="text-sm text-slate-400">
+                        Güncel şema sürümü: v{COMPANY_SCHEMA_VERSION}. Her geçişten önce firma kaydının bir kopyası saklanır.
+                    </p>
+                </div>
+            </div>
+
+            {logs.length === 0 ? (
+                <p className="text-sm text-slate-500">Henüz geçiş uygulanmadı.</p>
+            ) : (
+                <div className="max-h-72 overflow-auto rounded-lg border border-slate-700">
+                    <table className="w-full text-left text-xs border-collapse">
+                        <thead className="bg-slate-800/80 sticky top-0">
+                            <tr>
+                                <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Tarih</th>
+                                <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Firma</th>
+                                <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Sürüm</th>
+                                <th className="p-2.5 border-b border-slate-700 text-slate-400 uppercase">Değişiklikler</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800">
+                            {logs.map((log, index) => (
+                                <tr key={log.id ?? index}>
+                                    <td className="p-2.5 text-slate-300 whitespace-nowrap">{new Date(log.migratedAt).toLocaleString('tr-TR')}</td>
+                                    <td className="p-2.5 text-white">{log.companyName}</td>
+                                    <td className="p-2.5 text-slate-300 whitespace-nowrap">v{log.fromVersion} → v{log.toVersion}</td>
+                                    <td className="p-2.5 text-slate-300">
+                                        <p className={log.error ? 'text-red-300' : 'text-slate-200'}>{log.description}</p>
+                                        {log.error ? (
+                                            <p className="text-red-400/80">{log.error}</p>
+                                        ) : log.changes.length > 0 ? (
+                                            <p className="text-slate-500">{log.changes.join(', ')}</p>
+                                        ) : (
+                                            <p className="text-slate-500">Değişiklik gerekmedi</p>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </Card>
+    );
+}
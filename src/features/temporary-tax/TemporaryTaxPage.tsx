@@ -1,8 +1,8 @@
-import { useEffect, useMemo, useState } from 'react';
-import { AlertTriangle, Building2, Download, Layers, UserRound } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Archive, Building2, Download, Layers, UserRound } from 'lucide-react';
 import { Card } from '../../components/common/Card';
 import { useCompany } from '../../context/CompanyContext';
-import type { AccountDetail, Company, MappingConfig } from '../common/types';
+import type { AccountDetail, ClosingBalanceSnapshot, Company, MappingConfig } from '../common/types';
 import {
     applyVoucherEditsToAccounts,
     appendVoucherRowToAccounts,
@@ -18,12 +18,21 @@ import VoucherDetailModal, {
     type VoucherMutationResponse,
 } from '../mizan/components/VoucherDetailModal';
 import { buildTemporaryTaxControls, type TemporaryTaxControlResult } from './controlChecks';
+import {
+    buildTemporaryTaxSnapshot,
+    getTemporaryTaxSnapshotTitle,
+    isRepeatedReportSnapshot,
+    replaceReportSnapshot,
+} from '../report-history/reportHistoryService';
 import { formatCurrency } from '../../utils/formatters';
+import { dbService } from '../../services/db';
+import { findPreviousYearPeriod, formatPeriodLabel } from '../../services/companyPeriods';
 import { resolveMainAccountStandardName } from '../mizan/accountNameResolver';
 import {
     round2,
     normalizeVoucherNo,
     toValidCalendarDate,
+    parseTransactionDate,
     parseFlexibleNumber,
     formatPercent,
     BALANCE_TOLERANCE,
@@ -42,6 +51,7 @@ const STOCK_MAIN_CODES = new Set(['150', '151', '152', '153', '157']);
 const SMM_COST_MAIN_CODES = new Set(['620', '621']);
 const SMM_SALES_MAIN_CODES = new Set(['600', '601', '602']);
 const SMM_CURRENT_COST_MAIN_CODES = new Set(['620', '621', '622']);
+const SNAPSHOT_DELAY_MS = 1500;
 const INCOME_STATEMENT_ROLLUP_CODES: Record<string, string> = {
     '740': '622',
     '741': '622',
@@ -101,66 +111,6 @@ const getStatusTextClass = (status: ProfitLossStatus): string => {
     return 'text-slate-300';
 };
 
-const getValidDate = (value: Date | string | number | null | undefined): Date | null => {
-    if (!value) return null;
-    if (value instanceof Date) {
-        return Number.isNaN(value.getTime()) ? null : value;
-    }
-
-    const raw = String(value).trim();
-    if (!raw) return null;
-
-    const yyyymmddMatch = raw.match(/^(\d{4})(\d{2})(\d{2})(?:\D.*)?$/);
-    if (yyyymmddMatch) {
-        const year = Number(yyyymmddMatch[1]);
-        const month = Number(yyyymmddMatch[2]);
-        const day = Number(yyyymmddMatch[3]);
-        const date = toValidCalendarDate(year, month, day);
-        if (date) {
-            return date;
-        }
-    }
-
-    const trDateMatch = raw.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2,4})(?:\D.*)?$/);
-    if (trDateMatch) {
-        const day = Number(trDateMatch[1]);
-        const month = Number(trDateMatch[2]);
-        const rawYear = trDateMatch[3];
-        const year = rawYear.length === 2 ? Number(`20${rawYear}`) : Number(rawYear);
-        const date = toValidCalendarDate(year, month, day);
-        if (date) {
-            return date;
-        }
-    }
-
-    const isoDateMatch = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
-    if (isoDateMatch) {
-        const year = Number(isoDateMatch[1]);
-        const month = Number(isoDateMatch[2]);
-        const day = Number(isoDateMatch[3]);
-        const date = toValidCalendarDate(year, month, day);
-        if (date) {
-            return date;
-        }
-    }
-
-    const serialLike = raw.replace(',', '.');
-    if (/^\d{4,6}(?:\.\d+)?$/.test(serialLike)) {
-        const serial = Number(serialLike);
-        if (Number.isFinite(serial) && serial > 20000 && serial < 80000) {
-            const excelEpochUtc = Date.UTC(1899, 11, 30);
-            const date = new Date(excelEpochUtc + Math.round(serial * 86400 * 1000));
-            if (!Number.isNaN(date.getTime())) {
-                return date;
-            }
-        }
-    }
-
-    const parsed = new Date(raw);
-    if (Number.isNaN(parsed.getTime())) return null;
-    return parsed;
-};
-
 const getDateFromTextHint = (value: string | null | undefined): Date | null => {
     const text = String(value || '').trim();
     if (!text) return null;
@@ -194,7 +144,7 @@ const getTransactionEffectiveDate = (transaction: {
     documentNo?: string;
     voucherNo?: string;
 }): Date | null => {
-    const direct = getValidDate(transaction.date);
+    const direct = parseTransactionDate(transaction.date);
     if (direct) return direct;
 
     const fromDescription = getDateFromTextHint(transaction.description);
@@ -331,7 +281,7 @@ const calculateMainCodePeriodBalance = (
 
 
 function TemporaryTaxContent({ activeCompany }: { activeCompany: Company }) {
-    const { patchActiveCompany } = useCompany();
+    const { patchActiveCompany, activeUploads } = useCompany();
     const [selectedSource, setSelectedSource] = useState<TemporaryTaxSource>('FIRMA');
     const [activeSubModule, setActiveSubModule] = useState<TemporaryTaxSubModule>('CONTROL');
     const [selectedControlId, setSelectedControlId] = useState<string>('reverse-balance');
@@ -353,6 +303,9 @@ function TemporaryTaxContent({ activeCompany }: { activeCompany: Company }) {
     const [smmApplyByContext, setSmmApplyByContext] = useState<Record<string, boolean>>({});
     const [isEditingPriorYearLoss, setIsEditingPriorYearLoss] = useState(false);
     const [priorYearLossDraft, setPriorYearLossDraft] = useState('');
+    const [previousClosing, setPreviousClosing] = useState<{ periodId: string; snapshot: ClosingBalanceSnapshot | null } | null>(null);
+    // Bu oturumda kaynak bazinda rapor gecmisine yazilan son kontrol kaydi.
+    const sessionSnapshotIdsRef = useRef<Partial<Record<'FIRMA' | 'SMMM', string>>>({});
 
     const firmaData = activeCompany.currentAccount?.firmaFullData ?? EMPTY_ACCOUNTS;
     const smmmData = activeCompany.currentAccount?.smmmFullData ?? EMPTY_ACCOUNTS;
@@ -439,9 +392,29 @@ function TemporaryTaxContent({ activeCompany }: { activeCompany: Company }) {
         }, []);
     }, [sourceData, effectiveProfitLossYear, selectedProfitLossPeriod, effectiveProfitLossCumulative]);
 
+    const previousPeriod = useMemo(() => findPreviousYearPeriod(activeCompany), [activeCompany]);
+
+    // Onceki yilin kapanis bakiyeleri MizanPage'de devredilir; yalnizca modul govdesi okunur.
+    useEffect(() => {
+        if (!previousPeriod) return;
+        let cancelled = false;
+        dbService.getPeriodModuleSummary(activeCompany.id, previousPeriod.id, 'currentAccount')
+            .then((currentAccount) => {
+                if (!cancelled) setPreviousClosing({ periodId: previousPeriod.id, snapshot: currentAccount?.closingBalances || null });
+            })
+            .catch((error) => console.error('Onceki donem kapanis bakiyeleri okunamadi', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [activeCompany.id, previousPeriod]);
+
+    const expectedOpening = previousPeriod && previousClosing?.periodId === previousPeriod.id
+        ? previousClosing.snapshot
+        : null;
+
     const controls = useMemo<TemporaryTaxControlResult[]>(() => {
-        return buildTemporaryTaxControls(sourceData, forexOverrides);
-    }, [sourceData, forexOverrides]);
+        return buildTemporaryTaxControls(sourceData, forexOverrides, expectedOpening);
+    }, [sourceData, forexOverrides, expectedOpening]);
 
     const baseProfitLoss = useMemo(() => {
         const mainMap = new Map<string, { code: string; name: string; balance: number; count: number }>();
@@ -806,6 +779,30 @@ function TemporaryTaxContent({ activeCompany }: { activeCompany: Company }) {
         return controls.find((control) => control.id === selectedControlId) || controls[0];
     }, [controls, selectedControlId]);
 
+    const sourceFileName = (source === 'FIRMA' ? activeUploads.currentAccount.firmaFile : activeUploads.currentAccount.smmmFile)?.name;
+    const archivedAt = useMemo(() => {
+        const title = getTemporaryTaxSnapshotTitle(source);
+        return activeCompany.reportHistory?.find((item) => item.module === 'TEMPORARY_TAX' && item.title === title)?.createdAt || null;
+    }, [activeCompany.reportHistory, source]);
+
+    // Diger moduller gibi her hesaplama rapor gecmisine yazilir. Acilis kontrolu sonradan yuklendigi icin
+    // sonuclar kisa bir sure sabit kaldiginda kaydedilir; degismeyen sonuc tekrar yazilmaz. Ayni sayfa
+    // acikken yapilan duzeltmeler bu oturumda yazilan kaydi gunceller, ara sonuclar gecmise eklenmez.
+    useEffect(() => {
+        if (sourceData.length === 0) return;
+        const timer = window.setTimeout(() => {
+            const snapshot = buildTemporaryTaxSnapshot(source, controls, [sourceFileName]);
+            if (isRepeatedReportSnapshot(activeCompany.reportHistory, snapshot)) return;
+            void patchActiveCompany((company) => {
+                if (isRepeatedReportSnapshot(company.reportHistory, snapshot)) return {};
+                const replaceId = sessionSnapshotIdsRef.current[source] ?? null;
+                sessionSnapshotIdsRef.current[source] = snapshot.id;
+                return replaceReportSnapshot(company, snapshot, replaceId);
+            });
+        }, SNAPSHOT_DELAY_MS);
+        return () => window.clearTimeout(timer);
+    }, [activeCompany.reportHistory, controls, patchActiveCompany, source, sourceData.length, sourceFileName]);
+
     const handleDownloadTemporaryTaxExcel = async () => {
         const XLSX = await import('xlsx');
         const { applyStyledSheet } = await import('../../utils/excelStyle');
@@ -1242,15 +1239,26 @@ function TemporaryTaxContent({ activeCompany }: { activeCompany: Company }) {
                                     </button>
                                 </div>
                             </div>
-                            <button
-                                type="button"
-                                onClick={() => void handleDownloadTemporaryTaxExcel()}
-                                className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-600 text-sm text-slate-200 hover:border-blue-500/50 hover:text-blue-200 transition-colors"
-                                title="Gecici vergi ciktisini Excel olarak indir"
-                            >
-                                <Download size={14} />
-                                Excel Indir
-                            </button>
+                            <div className="flex items-center gap-2">
+                                {activeSubModule === 'CONTROL' && archivedAt && (
+                                    <span
+                                        className="inline-flex items-center gap-2 px-3 py-2 text-xs text-slate-400"
+                                        title="Kontrol sonuclari her hesaplamada Rapor Gecmisi arsivine kaydedilir"
+                                    >
+                                        <Archive size={14} />
+                                        Arsivlendi: {new Date(archivedAt).toLocaleString('tr-TR')}
+                                    </span>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={() => void handleDownloadTemporaryTaxExcel()}
+                                    className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-600 text-sm text-slate-200 hover:border-blue-500/50 hover:text-blue-200 transition-colors"
+                                    title="Gecici vergi ciktisini Excel olarak indir"
+                                >
+                                    <Download size={14} />
+                                    Excel Indir
+                                </button>
+                            </div>
                         </div>
                     </div>
                 )}
@@ -1285,6 +1293,12 @@ function TemporaryTaxContent({ activeCompany }: { activeCompany: Company }) {
                         })}
                     </div>
 
+                    {previousPeriod && previousClosing?.periodId === previousPeriod.id && !expectedOpening && (
+                        <p className="text-xs text-amber-300">
+                            {formatPeriodLabel(previousPeriod)} donemi icin devredilmis kapanis bakiyesi yok. Acilis fisi kontrolu icin onceki donemde Mizan sayfasindan kapanisi devredin.
+                        </p>
+                    )}
+
                     {selectedControl && (
                         <div className="space-y-3">
                             <div className="flex items-center justify-between gap-3 flex-wrap">
@@ -1807,5 +1821,5 @@ export default function TemporaryTaxPage() {
         );
     }
 
-    return <TemporaryTaxContent key={activeCompany.id} activeCompany={activeCompany} />;
+    return <TemporaryTaxContent key={`${activeCompany.id}:${activeCompany.activePeriodId}`} activeCompany={activeCompany} />;
 }
@@ -1,4 +1,4 @@
-import type { AccountDetail } from '../common/types';
+import type { AccountDetail, ClosingBalanceSnapshot } from '../common/types';
 import { getMainAccountCode, resolveAccountBalanceRule, type ExpectedBalanceSide } from '../mizan/accountingRules';
 import type { ForexOverrideMap } from '../mizan/forexAccountRules';
 import { resolveForexAccountType } from '../mizan/forexAccountRules';
@@ -34,6 +34,7 @@ const CODE_REVERSE_BALANCE = 'TB-001';
 const CODE_KASA_DAY_END_CREDIT = 'KS-001';
 const CODE_FOREX_EQUAL_AMOUNTS = 'DV-001';
 const CODE_TAX_ACCRUAL_PAYMENT_MATCH = 'TV-360-361-001';
+const CODE_OPENING_CARRY_FORWARD = 'AC-001';
 const OPENING_VOUCHER_SEQUENCE_LIMIT = 50;
 
 const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
@@ -498,10 +499,107 @@ const evaluateTaxAccrualPaymentMatch = (accounts: AccountDetail[]): TemporaryTax
     });
 };
 
+const formatSignedBalance = (value: number): string => {
+    return `${Math.abs(value).toFixed(2)} ${value >= 0 ? '(B)' : '(A)'}`;
+};
+
+// Onceki yil kapanis bakiyeleri ile bu yilin 01.01 acilis fisi hesap bazinda karsilastirilir.
+const evaluateOpeningCarryForward = (
+    accounts: AccountDetail[],
+    expectedOpening: ClosingBalanceSnapshot
+): TemporaryTaxControlItem[] => {
+    type OpeningAggregate = { balance: number; fxBalance: number; hasFx: boolean; rowIndexes: number[] };
+
+    const accountByCode = new Map(accounts.map((account) => [account.code, account]));
+    const openingByCode = new Map<string, OpeningAggregate>();
+
+    accounts.forEach((account) => {
+        account.transactions.forEach((transaction, rowIndex) => {
+            if (!isJanuaryFirst(transaction.date)) return;
+            if (!hasOpeningVoucherHint(transaction.voucherNo, transaction.documentNo, transaction.description, transaction.date)) return;
+
+            const current = openingByCode.get(account.code) || { balance: 0, fxBalance: 0, hasFx: false, rowIndexes: [] };
+            current.balance = round2(current.balance + (transaction.debit || 0) - (transaction.credit || 0));
+            if (typeof transaction.fxDebit === 'number' || typeof transaction.fxCredit === 'number') {
+                current.hasFx = true;
+                current.fxBalance = round2(current.fxBalance + (transaction.fxDebit || 0) - (transaction.fxCredit || 0));
+            }
+            current.rowIndexes.push(rowIndex);
+            openingByCode.set(account.code, current);
+        });
+    });
+
+    const expectedByCode = new Map(expectedOpening.balances.map((entry) => [entry.code, entry]));
+    const codes = Array.from(new Set([...expectedByCode.keys(), ...openingByCode.keys()]))
+        .sort((left, right) => left.localeCompare(right, 'tr-TR'));
+
+    return codes.flatMap((code) => {
+        const expected = expectedByCode.get(code);
+        const opening = openingByCode.get(code);
+        const expectedBalance = expected?.balance || 0;
+        const openingBalance = opening?.balance || 0;
+        const diff = round2(openingBalance - expectedBalance);
+
+        const issueParts: string[] = [];
+        if (Math.abs(diff) > BALANCE_TOLERANCE) {
+            issueParts.push(`TL beklenen: ${formatSignedBalance(expectedBalance)} | acilis: ${formatSignedBalance(openingBalance)} | fark: ${diff.toFixed(2)}`);
+        }
+
+        const expectedFx = expected?.fxBalance;
+        if (typeof expectedFx === 'number' || opening?.hasFx) {
+            const fxDiff = round2((opening?.fxBalance || 0) - (expectedFx || 0));
+            if (Math.abs(fxDiff) > FX_EQUAL_TOLERANCE) {
+                const currency = expected?.currencyCode ? ` ${expected.currencyCode}` : '';
+                issueParts.push(`Doviz beklenen: ${formatSignedBalance(expectedFx || 0)}${currency} | acilis: ${formatSignedBalance(opening?.fxBalance || 0)}${currency} | fark: ${fxDiff.toFixed(2)}`);
+            }
+        }
+
+        if (!issueParts.length) return [];
+
+        const account = accountByCode.get(code) || {
+            code,
+            name: expected?.name || '',
+            totalDebit: 0,
+            totalCredit: 0,
+            balance: 0,
+            transactionCount: 0,
+            transactions: [],
+        };
+        const rowIssues: TemporaryTaxRowIssue[] = (opening?.rowIndexes || []).map((rowIndex) => ({
+            rowIndex,
+            code: CODE_OPENING_CARRY_FORWARD,
+            message: issueParts.join(' | '),
+        }));
+        const reason = !opening
+            ? 'Onceki donem kapanis bakiyesi var, acilis fisinde hesap yok.'
+            : !expected
+                ? 'Acilis fisinde var, onceki donem kapanisinda bakiye yok.'
+                : 'Acilis bakiyesi onceki donem kapanisindan farkli.';
+
+        return [{
+            account,
+            reason: `[${CODE_OPENING_CARRY_FORWARD}] ${reason}`,
+            detail: issueParts.join(' || '),
+            issueCount: rowIssues.length || undefined,
+            rowIssues,
+        }];
+    });
+};
+
 export const buildTemporaryTaxControls = (
     accounts: AccountDetail[],
-    forexOverrides?: ForexOverrideMap
+    forexOverrides?: ForexOverrideMap,
+    expectedOpening?: ClosingBalanceSnapshot | null
 ): TemporaryTaxControlResult[] => {
+    const openingControls: TemporaryTaxControlResult[] = expectedOpening
+        ? [{
+            id: 'opening-carry-forward',
+            title: 'Acilis Fisi - Onceki Yil Kapanis Kontrolu',
+            description: 'Onceki donem mizan kapanis bakiyeleri, 01.01 acilis fisiyle hesap bazinda (TL ve doviz) karsilastirilir.',
+            accounts: evaluateOpeningCarryForward(accounts, expectedOpening),
+        }]
+        : [];
+
     return [
         {
             id: 'reverse-balance',
@@ -527,5 +625,6 @@ export const buildTemporaryTaxControls = (
             description: 'Ayin alacak tahakkuku, bir sonraki ay borc odemesiyle eslesmeli. Son ay otomatik dislanir.',
             accounts: evaluateTaxAccrualPaymentMatch(accounts),
         },
+        ...openingControls,
     ];
 };
@@ -522,5 +522,5 @@ export default function VoucherListPage() {
         return <NoCompanySelected moduleName="Fiş Listesi" />;
     }
 
-    return <VoucherListContent key={activeCompany.id} activeCompany={activeCompany} />;
+    return <VoucherListContent key={`${activeCompany.id}:${activeCompany.activePeriodId}`} activeCompany={activeCompany} />;
 }
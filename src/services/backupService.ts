@@ -0,0 +1,303 @@
+import type { Company, CompanyPeriodData } from '../features/common/types';
+import { dbService } from './db';
+import { migrateCompanyRecord } from './companyMigrations';
+import { extractPeriodData, getActivePeriodId } from './companyPayloads';
+
+export const BACKUP_FORMAT = 'kdv-kontrol-backup';
+export const BACKUP_FORMAT_VERSION = 2;
+export const BACKUP_FILE_EXTENSION = '.kdvyedek';
+
+// Ust seviye modul alanlari aktif doneme aittir; diger donemler periodData altinda tasinir.
+export interface BackupCompany extends Company {
+    periodData?: Record<string, CompanyPeriodData>;
+}
+
+export interface CompanyBackupArchive {
+    format: typeof BACKUP_FORMAT;
+    formatVersion: number;
+    appVersion: string;
+    exportedAt: string;
+    companies: BackupCompany[];
+}
+
+export type BackupConflictStrategy = 'SKIP' | 'OVERWRITE' | 'COPY';
+
+export interface BackupImportItem {
+    company: BackupCompany;
+    existing?: Company;
+    strategy: BackupConflictStrategy;
+}
+
+export interface BackupImportResult {
+    imported: number;
+    overwritten: number;
+    copied: number;
+    skipped: number;
+}
+
+interface BackupMigration {
+    from: number;
+    to: number;
+    migrate: (archive: Record<string, unknown>) => Record<string, unknown>;
+}
+
+// Her adim arsivi bir surum ileri tasir. Yeni bir alan eklendiginde buraya
+// yeni adim eklenir ve BACKUP_FORMAT_VERSION arttirilir.
+const BACKUP_MIGRATIONS: BackupMigration[] = [
+    {
+        // Surumsuz arsiv: dogrudan Company[] dizisi olarak kaydedilmis JSON.
+        from: 0,
+        to: 1,
+        migrate: (archive) => ({
+            format: BACKUP_FORMAT,
+            formatVersion: 1,
+            appVersion: 'unknown',
+            exportedAt: new Date().toISOString(),
+            companies: Array.isArray(archive.companies) ? archive.companies : [],
+        }),
+    },
+    {
+        // v2: firmalar birden fazla mali donem tasiyabilir (periodData). v1 arsivleri tek donemlidir.
+        from: 1,
+        to: 2,
+        migrate: (archive) => ({ ...archive, formatVersion: 2 }),
+    },
+];
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+const DATE_TAG = '__date';
+
+// JSON.stringify, Date icin replacer'a zaten string verir; ham degeri `this[key]` ile okuyoruz.
+function encodeValue(this: unknown, key: string, value: unknown): unknown {
+    const raw = (this as Record<string, unknown>)[key];
+    if (raw instanceof Date) {
+        return { [DATE_TAG]: Number.isNaN(raw.getTime()) ? null : raw.toISOString() };
+    }
+    return value;
+}
+
+const decodeValue = (_key: string, value: unknown): unknown => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        const record = value as Record<string, unknown>;
+        const keys = Object.keys(record);
+        if (keys.length === 1 && keys[0] === DATE_TAG) {
+            const iso = record[DATE_TAG];
+            return typeof iso === 'string' ? new Date(iso) : new Date(NaN);
+        }
+    }
+    return value;
+};
+
+const readStream = async (stream: ReadableStream<Uint8Array>): Promise<Uint8Array> => {
+    const buffer = await new Response(stream).arrayBuffer();
+    return new Uint8Array(buffer);
+};
+
+const gzip = async (text: string): Promise<Blob> => {
+    const source = new Blob([text], { type: 'application/json' }).stream();
+    const compressed = await readStream(source.pipeThrough(new CompressionStream('gzip')));
+    return new Blob([compressed as BlobPart], { type: 'application/gzip' });
+};
+
+const gunzip = async (bytes: Uint8Array): Promise<string> => {
+    const source = new Blob([bytes as BlobPart]).stream();
+    const decompressed = await readStream(source.pipeThrough(new DecompressionStream('gzip')));
+    return new TextDecoder('utf-8').decode(decompressed);
+};
+
+const isGzip = (bytes: Uint8Array): boolean => {
+    return bytes.length > 2 && bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1];
+};
+
+const migrateBackupCompany = (company: BackupCompany): BackupCompany => {
+    const { periodData, ...record } = company;
+    const migrated: BackupCompany = migrateCompanyRecord(record).company;
+    if (!periodData) return migrated;
+
+    const activePeriodId = getActivePeriodId(migrated);
+    const migratedPeriodData: Record<string, CompanyPeriodData> = {};
+    Object.entries(periodData).forEach(([periodId, data]) => {
+        if (periodId === activePeriodId) return;
+        const periodCompany = migrateCompanyRecord({ ...record, ...data, activePeriodId: periodId }).company;
+        migratedPeriodData[periodId] = extractPeriodData(periodCompany);
+    });
+    return { ...migrated, periodData: migratedPeriodData };
+};
+
+const migrateBackupArchive = (parsed: unknown): CompanyBackupArchive => {
+    let archive: Record<string, unknown>;
+    if (Array.isArray(parsed)) {
+        archive = { formatVersion: 0, companies: parsed };
+    } else if (parsed && typeof parsed === 'object') {
+        archive = parsed as Record<string, unknown>;
+    } else {
+        throw new Error('Yedek dosyasi okunamadi.');
+    }
+
+    if (archive.format !== undefined && archive.format !== BACKUP_FORMAT) {
+        throw new Error('Bu dosya KDV Kontrol yedegi degil.');
+    }
+
+    let version = typeof archive.formatVersion === 'number' ? archive.formatVersion : 0;
+    if (version > BACKUP_FORMAT_VERSION) {
+        throw new Error(`Yedek daha yeni bir surumle alinmis (v${version}). Lutfen uygulamayi guncelleyin.`);
+    }
+
+    while (version < BACKUP_FORMAT_VERSION) {
+        const step = BACKUP_MIGRATIONS.find((migration) => migration.from === version);
+        if (!step) {
+            throw new Error(`Yedek surumu v${version} icin donusum adimi bulunamadi.`);
+        }
+        archive = step.migrate(archive);
+        version = step.to;
+    }
+
+    const companies = Array.isArray(archive.companies) ? (archive.companies as BackupCompany[]) : [];
+    const validCompanies = companies.filter((company) => (
+        company && typeof company.id === 'string' && typeof company.name === 'string'
+    ));
+    if (validCompanies.length === 0) {
+        throw new Error('Yedek dosyasinda firma kaydi bulunamadi.');
+    }
+
+    return {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        appVersion: String(archive.appVersion || 'unknown'),
+        exportedAt: String(archive.exportedAt || ''),
+        // Arsivdeki kayitlar eski sema surumunde olabilir; yazmadan once guncellenir.
+        companies: validCompanies.map(migrateBackupCompany),
+    };
+};
+
+export const createBackupArchive = async (companies: BackupCompany[]): Promise<Blob> => {
+    const archive: CompanyBackupArchive = {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        appVersion: __APP_VERSION__,
+        exportedAt: new Date().toISOString(),
+        companies,
+    };
+    return gzip(JSON.stringify(archive, encodeValue));
+};
+
+export const downloadBackupArchive = async (companies: Company[]) => {
+    // Firma listesi ozet kayit tutar; yedege tum donemlerin verileriyle birlikte tam kayit yazilir.
+    const fullCompanies = await Promise.all(companies.map(async (company): Promise<BackupCompany> => {
+        const full = (await dbService.getCompany(company.id)) || company;
+        const periodData = await dbService.getCompanyPeriodData(company.id);
+        delete periodData[getActivePeriodId(full)];
+        return Object.keys(periodData).length > 0 ? { ...full, periodData } : full;
+    }));
+    const blob = await createBackupArchive(fullCompanies);
+    const datePart = new Date().toISOString().slice(0, 10);
+    const namePart = companies.length === 1
+        ? companies[0].name.replace(/[<>:"/\\|?*\s]+/g, '_')
+        : 'tum_firmalar';
+
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `kdv_kontrol_yedek_${namePart}_${datePart}${BACKUP_FILE_EXTENSION}`;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const readBackupArchive = async (file: File): Promise<CompanyBackupArchive> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let text: string;
+    try {
+        text = isGzip(bytes) ? await gunzip(bytes) : new TextDecoder('utf-8').decode(bytes);
+    } catch {
+        throw new Error('Yedek dosyasi acilamadi. Dosya bozuk olabilir.');
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text, decodeValue);
+    } catch {
+        throw new Error('Yedek dosyasi gecerli bir JSON icermiyor.');
+    }
+
+    return migrateBackupArchive(parsed);
+};
+
+export const buildBackupImportItems = (
+    archive: CompanyBackupArchive,
+    existingCompanies: Company[],
+    defaultStrategy: BackupConflictStrategy
+): BackupImportItem[] => {
+    const existingById = new Map(existingCompanies.map((company) => [company.id, company]));
+    return archive.companies.map((company) => {
+        const existing = existingById.get(company.id);
+        return {
+            company,
+            existing,
+            strategy: existing ? defaultStrategy : 'OVERWRITE',
+        };
+    });
+};
+
+const createCopyId = (): string => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `company-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const resolveCopyName = (name: string, takenNames: Set<string>): string => {
+    let candidate = `${name} (Kopya)`;
+    let counter = 2;
+    while (takenNames.has(candidate.toLocaleLowerCase('tr-TR'))) {
+        candidate = `${name} (Kopya ${counter})`;
+        counter += 1;
+    }
+    takenNames.add(candidate.toLocaleLowerCase('tr-TR'));
+    return candidate;
+};
+
+const writeBackupCompany = async (company: BackupCompany): Promise<void> => {
+    const { periodData, ...record } = company;
+    await dbService.replaceCompanyWithPeriods(record, periodData || {});
+};
+
+export const applyBackupImport = async (
+    items: BackupImportItem[],
+    existingCompanies: Company[]
+): Promise<BackupImportResult> => {
+    const result: BackupImportResult = { imported: 0, overwritten: 0, copied: 0, skipped: 0 };
+    const takenNames = new Set(existingCompanies.map((company) => company.name.toLocaleLowerCase('tr-TR')));
+
+    for (const item of items) {
+        if (!item.existing) {
+            await writeBackupCompany(item.company);
+            result.imported += 1;
+            continue;
+        }
+
+        if (item.strategy === 'SKIP') {
+            result.skipped += 1;
+            continue;
+        }
+
+        if (item.strategy === 'OVERWRITE') {
+            // Yedekte olmayan donemler ayni islemde silinir; yazma basarisiz olursa mevcut kayit korunur.
+            await writeBackupCompany(item.company);
+            result.overwritten += 1;
+            continue;
+        }
+
+        await writeBackupCompany({
+            ...item.company,
+            id: createCopyId(),
+            name: resolveCopyName(item.company.name, takenNames),
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        });
+        result.copied += 1;
+    }
+
+    return result;
+};
@@ -0,0 +1,174 @@
+import type { Company } from '../features/common/types';
+import { ensureCompanyPeriod, formatPeriodLabel } from './companyPeriods';
+
+type CompanyRecord = Record<string, unknown>;
+
+export interface CompanyMigration {
+    version: number;
+    description: string;
+    /** Mutates the given record in place and returns a human readable list of changes. */
+    migrate: (record: CompanyRecord) => string[];
+}
+
+export interface CompanyMigrationLogEntry {
+    id?: number;
+    companyId: string;
+    companyName: string;
+    fromVersion: number;
+    toVersion: number;
+    description: string;
+    changes: string[];
+    /** Gecis basarisiz olduysa hata mesaji; kayit eski haliyle kalir. */
+    error?: string;
+    migratedAt: string;
+}
+
+export interface CompanyMigrationResult {
+    company: Company;
+    fromVersion: number;
+    logs: CompanyMigrationLogEntry[];
+}
+
+const isRecord = (value: unknown): value is CompanyRecord => {
+    return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+};
+
+const toDate = (value: unknown): Date | null => {
+    if (value instanceof Date) return value;
+    if (typeof value === 'string' || typeof value === 'number') {
+        const parsed = new Date(value);
+        if (!Number.isNaN(parsed.getTime())) return parsed;
+    }
+    return null;
+};
+
+// Surum numaralari yalnizca artar; yayinlanmis bir adim degistirilmez, yeni adim eklenir.
+export const COMPANY_MIGRATIONS: CompanyMigration[] = [
+    {
+        version: 1,
+        description: 'Firma tarih alanlari Date tipine cevrildi',
+        migrate: (record) => {
+            const changes: string[] = [];
+            (['createdAt', 'updatedAt'] as const).forEach((key) => {
+                if (record[key] instanceof Date) return;
+                record[key] = toDate(record[key]) || new Date();
+                changes.push(`${key} Date tipine cevrildi`);
+            });
+            return changes;
+        },
+    },
+    {
+        version: 2,
+        description: 'Cari hesap kaydinda zorunlu alanlar tamamlandi',
+        migrate: (record) => {
+            const currentAccount = record.currentAccount;
+            if (!isRecord(currentAccount)) return [];
+
+            const changes: string[] = [];
+            (['smmmData', 'firmaData'] as const).forEach((key) => {
+                if (Array.isArray(currentAccount[key])) return;
+                currentAccount[key] = [];
+                changes.push(`currentAccount.${key} bos dizi olarak eklendi`);
+            });
+            if (!isRecord(currentAccount.mappings)) {
+                currentAccount.mappings = {};
+                changes.push('currentAccount.mappings bos nesne olarak eklendi');
+            }
+            return changes;
+        },
+    },
+    {
+        version: 3,
+        description: 'Kebir analizindeki eski alanlar yeni alanlara tasindi',
+        migrate: (record) => {
+            const kebir = record.kebirAnalysis;
+            if (!isRecord(kebir)) return [];
+
+            const changes: string[] = [];
+            if (!Array.isArray(kebir.mizan) || kebir.mizan.length === 0) {
+                if (Array.isArray(kebir.rawData) && kebir.rawData.length > 0) {
+                    kebir.mizan = kebir.rawData;
+                    changes.push('kebirAnalysis.rawData -> mizan');
+                } else if (!Array.isArray(kebir.mizan)) {
+                    kebir.mizan = [];
+                    changes.push('kebirAnalysis.mizan bos dizi olarak eklendi');
+                }
+            }
+            if (kebir.rawData !== undefined) {
+                delete kebir.rawData;
+                changes.push('kebirAnalysis.rawData silindi');
+            }
+            if (typeof kebir.totalLines !== 'number' && typeof kebir.totalTransactions === 'number') {
+                kebir.totalLines = kebir.totalTransactions;
+                changes.push('kebirAnalysis.totalTransactions -> totalLines');
+            }
+            return changes;
+        },
+    },
+    {
+        version: 4,
+        description: 'KDV mutabakat toleransi sayiya cevrildi',
+        migrate: (record) => {
+            const reconciliation = record.reconciliation;
+            if (!isRecord(reconciliation) || reconciliation.tolerance === undefined) return [];
+            if (typeof reconciliation.tolerance === 'number' && Number.isFinite(reconciliation.tolerance)) return [];
+
+            const parsed = Number(String(reconciliation.tolerance).replace(',', '.'));
+            if (Number.isFinite(parsed)) {
+                reconciliation.tolerance = parsed;
+                return [`reconciliation.tolerance sayiya cevrildi (${parsed})`];
+            }
+            delete reconciliation.tolerance;
+            return ['Gecersiz reconciliation.tolerance silindi'];
+        },
+    },
+    {
+        version: 5,
+        description: 'Firma verileri mali doneme baglandi',
+        migrate: (record) => {
+            const period = ensureCompanyPeriod(record as unknown as Company);
+            return period ? [`Mevcut veriler ${formatPeriodLabel(period)} donemine atandi`] : [];
+        },
+    },
+];
+
+export const COMPANY_SCHEMA_VERSION = COMPANY_MIGRATIONS.reduce((max, step) => Math.max(max, step.version), 0);
+
+export const getCompanySchemaVersion = (company: Company): number => {
+    return typeof company.schemaVersion === 'number' ? company.schemaVersion : 0;
+};
+
+export const needsCompanyMigration = (company: Company): boolean => {
+    return getCompanySchemaVersion(company) < COMPANY_SCHEMA_VERSION;
+};
+
+/** Runs every pending step on a copy of the record; the input object is left untouched. */
+export const migrateCompanyRecord = (company: Company): CompanyMigrationResult => {
+    const fromVersion = getCompanySchemaVersion(company);
+    const record = structuredClone(company) as unknown as CompanyRecord;
+    const logs: CompanyMigrationLogEntry[] = [];
+
+    [...COMPANY_MIGRATIONS]
+        .sort((left, right) => left.version - right.version)
+        .filter((step) => step.version > fromVersion)
+        .forEach((step) => {
+            const previousVersion = typeof record.schemaVersion === 'number' ? record.schemaVersion : fromVersion;
+            const changes = step.migrate(record);
+            record.schemaVersion = step.version;
+            logs.push({
+                companyId: String(record.id),
+                companyName: String(record.name || ''),
+                fromVersion: previousVersion,
+                toVersion: step.version,
+                description: step.description,
+                changes,
+                migratedAt: new Date().toISOString(),
+            });
+        });
+
+    return {
+        company: record as unknown as Company,
+        fromVersion,
+        logs,
+    };
+};
@@ -0,0 +1,177 @@
+import type { Company, CompanyPeriodData } from '../features/common/types';
+
+type CompanyRecord = Record<string, unknown>;
+
+export interface CompanyPayload {
+    id: string;
+    companyId: string;
+    periodId: string;
+    module: string;
+    field: string;
+    value: unknown;
+}
+
+export interface CompanyPayloadChanges {
+    put: CompanyPayload[];
+    deleteIds: string[];
+}
+
+// Donem bazinda saklanan modul alanlari. Firma kaydinda yalnizca kimlik ve donem listesi kalir.
+export const COMPANY_PERIOD_MODULES = [
+    'currentAccount',
+    'kebirAnalysis',
+    'reconciliation',
+    'faturaXml',
+    'kdvReturn',
+    'reportHistory',
+] as const satisfies readonly (keyof CompanyPeriodData)[];
+
+// Defter satirlari, faturalar ve raporlar modulun geri kalanindan ayri yazilir; onay gibi kucuk
+// degisikliklerde bu diziler tekrar yazilmaz.
+const HEAVY_FIELDS: Partial<Record<keyof CompanyPeriodData, string[]>> = {
+    currentAccount: ['smmmData', 'firmaData', 'smmmFullData', 'firmaFullData'],
+    kebirAnalysis: ['mizan'],
+    reconciliation: ['eInvoiceData', 'cancelledEInvoiceData', 'accountingData', 'accountingMatrahData', 'reports'],
+    faturaXml: ['invoices', 'excelRows'],
+};
+
+// Donem bilgisi eklenmeden once yazilmis kayitlarin okunabilmesi icin.
+export const DEFAULT_PERIOD_ID = 'default';
+
+const isRecord = (value: unknown): value is CompanyRecord => {
+    return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+};
+
+export const getActivePeriodId = (company: Company): string => {
+    return company.activePeriodId || DEFAULT_PERIOD_ID;
+};
+
+export const getCompanyPayloadId = (companyId: string, periodId: string, module: string, field = ''): string => {
+    return field ? `${companyId}:${periodId}:${module}.${field}` : `${companyId}:${periodId}:${module}`;
+};
+
+const createPayload = (companyId: string, periodId: string, module: string, field: string, value: unknown): CompanyPayload => ({
+    id: getCompanyPayloadId(companyId, periodId, module, field),
+    companyId,
+    periodId,
+    module,
+    field,
+    value,
+});
+
+const splitModule = (companyId: string, periodId: string, module: keyof CompanyPeriodData, value: unknown): CompanyPayload[] => {
+    const heavyFields = HEAVY_FIELDS[module];
+    if (!heavyFields || !isRecord(value)) {
+        return [createPayload(companyId, periodId, module, '', value)];
+    }
+
+    const base = { ...value };
+    const payloads: CompanyPayload[] = [];
+    heavyFields.forEach((field) => {
+        if (value[field] !== undefined) {
+            payloads.push(createPayload(companyId, periodId, module, field, value[field]));
+        }
+        delete base[field];
+    });
+    payloads.unshift(createPayload(companyId, periodId, module, '', base));
+    return payloads;
+};
+
+const getModulePayloadIds = (companyId: string, periodId: string, module: keyof CompanyPeriodData): string[] => {
+    return [
+        getCompanyPayloadId(companyId, periodId, module),
+        ...(HEAVY_FIELDS[module] || []).map((field) => getCompanyPayloadId(companyId, periodId, module, field)),
+    ];
+};
+
+/** Returns the company record without module data plus the module data of the given period. */
+export const splitCompanyPayloads = (company: Company, periodId = getActivePeriodId(company)): { summary: Company; payloads: CompanyPayload[] } => {
+    const summary = { ...company } as unknown as CompanyRecord;
+    const payloads: CompanyPayload[] = [];
+
+    COMPANY_PERIOD_MODULES.forEach((module) => {
+        const value = company[module];
+        delete summary[module];
+        if (value !== undefined) {
+            payloads.push(...splitModule(company.id, periodId, module, value));
+        }
+    });
+
+    return { summary: summary as unknown as Company, payloads };
+};
+
+export const stripCompanyPayloads = (company: Company): Company => {
+    return splitCompanyPayloads(company).summary;
+};
+
+export const mergeCompanyPayloads = (summary: Company, payloads: CompanyPayload[]): Company => {
+    const company = { ...summary } as unknown as CompanyRecord;
+    // Once modul govdesi, sonra ayri saklanan alanlar yerlestirilir.
+    const ordered = [...payloads].sort((left, right) => Number(Boolean(left.field)) - Number(Boolean(right.field)));
+
+    ordered.forEach((payload) => {
+        if (!payload.field) {
+            company[payload.module] = isRecord(payload.value) ? { ...payload.value } : payload.value;
+            return;
+        }
+        const moduleValue = company[payload.module];
+        company[payload.module] = {
+            ...(isRecord(moduleValue) ? moduleValue : {}),
+            [payload.field]: payload.value,
+        };
+    });
+
+    return company as unknown as Company;
+};
+
+export const extractPeriodData = (company: Company): CompanyPeriodData => {
+    const data: CompanyPeriodData = {};
+    const mutableData = data as CompanyRecord;
+    COMPANY_PERIOD_MODULES.forEach((module) => {
+        if (company[module] !== undefined) mutableData[module] = company[module];
+    });
+    return data;
+};
+
+/** Copies the module data of `source` onto `summary`; used when only company fields were edited. */
+export const copyCompanyPayloads = (summary: Company, source: Company): Company => {
+    return { ...stripCompanyPayloads(summary), ...extractPeriodData(source) };
+};
+
+// Alanlar referans ile karsilastirilir: patch icinde dokunulmayan diziler ayni referansla kalir.
+export const getCompanyPayloadChanges = (previous: Company, next: Company): CompanyPayloadChanges => {
+    const periodId = getActivePeriodId(next);
+    const changes: CompanyPayloadChanges = { put: [], deleteIds: [] };
+
+    COMPANY_PERIOD_MODULES.forEach((module) => {
+        const previousValue = previous[module] as unknown;
+        const nextValue = next[module] as unknown;
+        if (previousValue === nextValue) return;
+
+        if (nextValue === undefined) {
+            changes.deleteIds.push(...getModulePayloadIds(next.id, periodId, module));
+            return;
+        }
+
+        const heavyFields = HEAVY_FIELDS[module];
+        if (!heavyFields || !isRecord(nextValue)) {
+            changes.put.push(createPayload(next.id, periodId, module, '', nextValue));
+            return;
+        }
+
+        const [base, ...fieldPayloads] = splitModule(next.id, periodId, module, nextValue);
+        changes.put.push(base);
+        heavyFields.forEach((field) => {
+            const previousField = isRecord(previousValue) ? previousValue[field] : undefined;
+            if (previousField === nextValue[field]) return;
+            const payload = fieldPayloads.find((item) => item.field === field);
+            if (payload) {
+                changes.put.push(payload);
+            } else {
+                changes.deleteIds.push(getCompanyPayloadId(next.id, periodId, module, field));
+            }
+        });
+    });
+
+    return changes;
+};
@@ -0,0 +1,104 @@
+import type { Company, CompanyPeriod } from '../features/common/types';
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+export const createPeriodId = (year: number, startMonth: number, endMonth: number): string => {
+    return `${year}-${pad(startMonth)}-${pad(endMonth)}`;
+};
+
+export const createCompanyPeriod = (year: number, startMonth = 1, endMonth = 12): CompanyPeriod => {
+    if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+        throw new Error('Gecersiz donem yili.');
+    }
+    if (startMonth < 1 || endMonth > 12 || startMonth > endMonth) {
+        throw new Error('Gecersiz donem ay araligi.');
+    }
+    return { id: createPeriodId(year, startMonth, endMonth), year, startMonth, endMonth };
+};
+
+export const formatPeriodLabel = (period: CompanyPeriod): string => {
+    if (period.startMonth === 1 && period.endMonth === 12) return String(period.year);
+    if (period.startMonth === period.endMonth) return `${period.year}/${pad(period.startMonth)}`;
+    return `${period.year}/${pad(period.startMonth)}-${pad(period.endMonth)}`;
+};
+
+export const sortPeriods = (periods: CompanyPeriod[]): CompanyPeriod[] => {
+    return [...periods].sort((left, right) => (
+        right.year - left.year || left.startMonth - right.startMonth || left.endMonth - right.endMonth
+    ));
+};
+
+export const getActivePeriod = (company: Company): CompanyPeriod | null => {
+    const periods = company.periods || [];
+    return periods.find((period) => period.id === company.activePeriodId) || periods[0] || null;
+};
+
+// Devir kontrolleri icin: aktif donemden bir onceki yilin donemi (yillik donem tercih edilir).
+export const findPreviousYearPeriod = (company: Company): CompanyPeriod | null => {
+    const active = getActivePeriod(company);
+    if (!active) return null;
+    const candidates = (company.periods || []).filter((period) => period.year === active.year - 1);
+    if (candidates.length === 0) return null;
+    return candidates.find((period) => period.startMonth === 1 && period.endMonth === 12)
+        || [...candidates].sort((left, right) => right.endMonth - left.endMonth)[0];
+};
+
+// Aktif donemden hemen once biten donem; devredilen rapor notlari buradan okunur.
+export const findPreviousPeriod = (company: Company): CompanyPeriod | null => {
+    const active = getActivePeriod(company);
+    if (!active) return null;
+    const activeStart = active.year * 12 + active.startMonth;
+    return (company.periods || [])
+        .filter((period) => period.id !== active.id && period.year * 12 + period.endMonth < activeStart)
+        .sort((left, right) => (right.year * 12 + right.endMonth) - (left.year * 12 + left.endMonth))[0] || null;
+};
+
+// Aktif donem bittikten sonra baslayan ilk donem.
+export const findNextPeriod = (company: Company): CompanyPeriod | null => {
+    const active = getActivePeriod(company);
+    if (!active) return null;
+    const activeEnd = active.year * 12 + active.endMonth;
+    return (company.periods || [])
+        .filter((period) => period.id !== active.id && period.year * 12 + period.startMonth > activeEnd)
+        .sort((left, right) => (left.year * 12 + left.startMonth) - (right.year * 12 + right.startMonth))[0] || null;
+};
+
+// Donem bilgisi olmayan kayitlarda veri tek bir doneme aittir; yil, defter tarihlerinden tahmin edilir.
+const inferPeriodYear = (company: Company): number => {
+    const counts = new Map<number, number>();
+    const addDate = (value: unknown) => {
+        const date = value instanceof Date ? value : null;
+        if (!date || Number.isNaN(date.getTime())) return;
+        counts.set(date.getFullYear(), (counts.get(date.getFullYear()) || 0) + 1);
+    };
+
+    const accounts = [
+        ...(company.currentAccount?.smmmData || []),
+        ...(company.currentAccount?.firmaData || []),
+    ];
+    accounts.forEach((account) => account.transactions?.forEach((transaction) => addDate(transaction.date)));
+    addDate(company.kebirAnalysis?.dateRange?.start);
+
+    let bestYear: number | null = null;
+    counts.forEach((count, year) => {
+        if (bestYear === null || count > (counts.get(bestYear) || 0)) bestYear = year;
+    });
+    if (bestYear !== null) return bestYear;
+
+    const createdAt = company.createdAt instanceof Date ? company.createdAt : new Date();
+    return Number.isNaN(createdAt.getTime()) ? new Date().getFullYear() : createdAt.getFullYear();
+};
+
+/** Adds a default period to records that predate fiscal periods; returns the added period, if any. */
+export const ensureCompanyPeriod = (company: Company): CompanyPeriod | null => {
+    if (company.periods && company.periods.length > 0) {
+        if (!company.periods.some((period) => period.id === company.activePeriodId)) {
+            company.activePeriodId = company.periods[0].id;
+        }
+        return null;
+    }
+    const period = createCompanyPeriod(inferPeriodYear(company));
+    company.periods = [period];
+    company.activePeriodId = period.id;
+    return period;
+};
@@ -1,5 +1,32 @@
-import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
-import type { Company } from '../features/common/types';
+import { openDB, type DBSchema, type IDBPDatabase, type IDBPTransaction, type StoreNames } from 'idb';
+import type { Company, CompanyPeriodData } from '../features/common/types';
+import {
+    extractPeriodData,
+    getActivePeriodId,
+    getCompanyPayloadChanges,
+    getCompanyPayloadId,
+    mergeCompanyPayloads,
+    splitCompanyPayloads,
+    stripCompanyPayloads,
+    type CompanyPayload,
+} from './companyPayloads';
+import { ensureCompanyPeriod } from './companyPeriods';
+import {
+    COMPANY_SCHEMA_VERSION,
+    getCompanySchemaVersion,
+    migrateCompanyRecord,
+    needsCompanyMigration,
+    type CompanyMigrationLogEntry,
+} from './companyMigrations';
+
+export interface CompanyMigrationBackup {
+    id: string;
+    companyId: string;
+    fromVersion: number;
+    toVersion: number;
+    createdAt: string;
+    record: Company;
+}
 
 interface AppDB extends DBSchema {
     companies: {
@@ -7,17 +34,65 @@ interface AppDB extends DBSchema {
         value: Company;
         indexes: { 'by-date': Date };
     };
+    companyPayloads: {
+        key: string;
+        value: CompanyPayload;
+        indexes: { 'by-company': string; 'by-period': [string, string] };
+    };
+    migrationBackups: {
+        key: string;
+        value: CompanyMigrationBackup;
+        indexes: { 'by-company': string };
+    };
+    migrationLogs: {
+        key: number;
+        value: CompanyMigrationLogEntry;
+        indexes: { 'by-company': string };
+    };
 }
 
 const DB_NAME = 'kdv-kontrol-app-db';
-const DB_VERSION = 2;
+const DB_VERSION = 5;
+
+type CompanyWriteTransaction = IDBPTransaction<AppDB, StoreNames<AppDB>[], 'readwrite' | 'versionchange'>;
+
+const replacePeriodPayloads = async (
+    tx: CompanyWriteTransaction,
+    companyId: string,
+    periodId: string,
+    payloads: CompanyPayload[]
+): Promise<void> => {
+    const payloadStore = tx.objectStore('companyPayloads');
+    const keepIds = new Set(payloads.map((payload) => payload.id));
+    const existingIds = await payloadStore.index('by-period').getAllKeys([companyId, periodId]);
+
+    for (const id of existingIds) {
+        if (!keepIds.has(id)) await payloadStore.delete(id);
+    }
+    for (const payload of payloads) {
+        await payloadStore.put(payload);
+    }
+};
+
+// Firma kaydini ve aktif donemin modul verilerini yazar; donemde olmayan eski alanlar silinir.
+const replaceCompany = async (tx: CompanyWriteTransaction, company: Company): Promise<void> => {
+    const periodId = getActivePeriodId(company);
+    const { summary, payloads } = splitCompanyPayloads(company, periodId);
+    await replacePeriodPayloads(tx, company.id, periodId, payloads);
+    await tx.objectStore('companies').put(summary);
+};
+
+const loadCompany = async (tx: CompanyWriteTransaction, summary: Company): Promise<Company> => {
+    const payloads = await tx.objectStore('companyPayloads').index('by-period').getAll([summary.id, getActivePeriodId(summary)]);
+    return mergeCompanyPayloads(summary, payloads);
+};
 
 class DatabaseService {
     private dbPromise: Promise<IDBPDatabase<AppDB>>;
 
     constructor() {
         this.dbPromise = openDB<AppDB>(DB_NAME, DB_VERSION, {
-            upgrade(db, _oldVersion, _newVersion, transaction) {
+            async upgrade(db, oldVersion, _newVersion, transaction) {
                 let store;
 
                 if (!db.objectStoreNames.contains('companies')) {
@@ -29,10 +104,117 @@ class DatabaseService {
                 if (!store.indexNames.contains('by-date')) {
                     store.createIndex('by-date', 'updatedAt');
                 }
+
+                const payloadStore = db.objectStoreNames.contains('companyPayloads')
+                    ? transaction.objectStore('companyPayloads')
+                    : db.createObjectStore('companyPayloads', { keyPath: 'id' });
+                if (!payloadStore.indexNames.contains('by-company')) {
+                    payloadStore.createIndex('by-company', 'companyId');
+                }
+                if (!payloadStore.indexNames.contains('by-period')) {
+                    payloadStore.createIndex('by-period', ['companyId', 'periodId']);
+                }
+
+                if (!db.objectStoreNames.contains('migrationBackups')) {
+                    const backupStore = db.createObjectStore('migrationBackups', { keyPath: 'id' });
+                    backupStore.createIndex('by-company', 'companyId');
+                }
+
+                if (!db.objectStoreNames.contains('migrationLogs')) {
+                    const logStore = db.createObjectStore('migrationLogs', { keyPath: 'id', autoIncrement: true });
+                    logStore.createIndex('by-company', 'companyId');
+                }
+
+                // v4 oncesi kayitlar tum verileri tek nesnede, v4 kayitlari donemsiz payload'larda
+                // tutuyordu. Hepsi tek bir doneme tasinir.
+                if (oldVersion > 0 && oldVersion < 5) {
+                    const companies = await transaction.objectStore('companies').getAll();
+                    for (const record of companies) {
+                        const legacyPayloads = await payloadStore.index('by-company').getAll(record.id);
+                        for (const payload of legacyPayloads) {
+                            await payloadStore.delete(payload.id);
+                        }
+                        const company = mergeCompanyPayloads(record, legacyPayloads);
+                        ensureCompanyPeriod(company);
+                        await replaceCompany(transaction as CompanyWriteTransaction, company);
+                    }
+                }
             },
+        }).then(async (db) => {
+            await this.migrateCompanies(db);
+            return db;
         });
     }
 
+    // Firma kayitlarini COMPANY_SCHEMA_VERSION'a tasir. Her kaydin gecis oncesi hali
+    // migrationBackups'a, her adimin degisiklikleri migrationLogs'a yazilir.
+    private async migrateCompanies(db: IDBPDatabase<AppDB>): Promise<void> {
+        const companies = await db.getAll('companies');
+        const pending = companies.filter(needsCompanyMigration);
+        if (pending.length === 0) return;
+
+        const migratedAt = new Date().toISOString();
+        // Her firma kendi islemiyle gecirilir; bozuk bir kayit diger firmalari ve veritabanini kilitlemez.
+        for (const summary of pending) {
+            const tx = db.transaction(['companies', 'companyPayloads', 'migrationBackups', 'migrationLogs'], 'readwrite');
+            try {
+                await this.migrateCompany(tx, summary, migratedAt);
+                await tx.done;
+            } catch (error) {
+                try {
+                    tx.abort();
+                } catch {
+                    // Islem hata ile zaten sonlanmis olabilir.
+                }
+                tx.done.catch(() => undefined);
+                await db.add('migrationLogs', {
+                    companyId: summary.id,
+                    companyName: summary.name || '',
+                    fromVersion: getCompanySchemaVersion(summary),
+                    toVersion: COMPANY_SCHEMA_VERSION,
+                    description: 'Gecis basarisiz; kayit degistirilmeden birakildi',
+                    changes: [],
+                    error: error instanceof Error ? error.message : String(error),
+                    migratedAt,
+                });
+            }
+        }
+    }
+
+    private async migrateCompany(tx: CompanyWriteTransaction, summary: Company, migratedAt: string): Promise<void> {
+        // Her donemin verisi ayri gecirilir; firma kaydi son adimin sonucuyla yazilir.
+        const hasPeriods = Boolean(summary.periods && summary.periods.length > 0);
+        const periodIds = hasPeriods ? summary.periods!.map((period) => period.id) : [getActivePeriodId(summary)];
+        let base: Company = summary;
+
+        for (const periodId of periodIds) {
+            const company = await loadCompany(tx, { ...summary, activePeriodId: periodId });
+            const result = migrateCompanyRecord(company);
+            await tx.objectStore('migrationBackups').put({
+                id: `${company.id}@v${result.fromVersion}:${periodId}`,
+                companyId: company.id,
+                fromVersion: result.fromVersion,
+                toVersion: COMPANY_SCHEMA_VERSION,
+                createdAt: migratedAt,
+                record: company,
+            });
+            for (const log of result.logs) {
+                await tx.objectStore('migrationLogs').add(log);
+            }
+
+            // Donemsiz kayitlarda gecis bir donem olusturur; veri o doneme tasinir.
+            const targetPeriodId = hasPeriods ? periodId : getActivePeriodId(result.company);
+            if (targetPeriodId !== periodId) {
+                await replacePeriodPayloads(tx, company.id, periodId, []);
+            }
+            await replacePeriodPayloads(tx, company.id, targetPeriodId, splitCompanyPayloads(result.company, targetPeriodId).payloads);
+            base = { ...result.company, activePeriodId: summary.activePeriodId || result.company.activePeriodId };
+        }
+
+        await tx.objectStore('companies').put(stripCompanyPayloads(base));
+    }
+
+    // Yalnizca ozet kayitlari doner; agir alanlar icin getCompany kullanilir.
     async getAllCompanies(): Promise<Company[]> {
         const db = await this.dbPromise;
         try {
@@ -49,21 +231,165 @@ class DatabaseService {
         }
     }
 
-    async getCompany(id: string): Promise<Company | undefined> {
+    // Firma kaydini verilen donemin (varsayilan: aktif donem) modul verileriyle birlikte doner.
+    async getCompany(id: string, periodId?: string): Promise<Company | undefined> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(['companies', 'companyPayloads'], 'readonly');
+        const summary = await tx.objectStore('companies').get(id);
+        if (!summary) return undefined;
+        const targetPeriodId = periodId || getActivePeriodId(summary);
+        const payloads = await tx.objectStore('companyPayloads').index('by-period').getAll([id, targetPeriodId]);
+        await tx.done;
+        return mergeCompanyPayloads({ ...summary, activePeriodId: targetPeriodId }, payloads);
+    }
+
+    async getCompanyPeriodData(companyId: string): Promise<Record<string, CompanyPeriodData>> {
         const db = await this.dbPromise;
-        return await db.get('companies', id);
+        const payloads = await db.getAllFromIndex('companyPayloads', 'by-company', companyId);
+        const byPeriod = new Map<string, CompanyPayload[]>();
+        payloads.forEach((payload) => {
+            byPeriod.set(payload.periodId, [...(byPeriod.get(payload.periodId) || []), payload]);
+        });
+
+        const result: Record<string, CompanyPeriodData> = {};
+        byPeriod.forEach((periodPayloads, periodId) => {
+            const merged = mergeCompanyPayloads({ id: companyId } as Company, periodPayloads);
+            result[periodId] = extractPeriodData(merged);
+        });
+        return result;
+    }
+
+    // Baska bir donemin modul govdesini (defter satirlari haric) okur.
+    async getPeriodModuleSummary<K extends keyof CompanyPeriodData>(
+        companyId: string,
+        periodId: string,
+        module: K
+    ): Promise<CompanyPeriodData[K] | undefined> {
+        const db = await this.dbPromise;
+        const payload = await db.get('companyPayloads', getCompanyPayloadId(companyId, periodId, module));
+        return payload?.value as CompanyPeriodData[K] | undefined;
+    }
+
+    async getPeriodModuleField<K extends keyof CompanyPeriodData, F extends keyof NonNullable<CompanyPeriodData[K]>>(
+        companyId: string,
+        periodId: string,
+        module: K,
+        field: F
+    ): Promise<NonNullable<CompanyPeriodData[K]>[F] | undefined> {
+        const db = await this.dbPromise;
+        const payload = await db.get('companyPayloads', getCompanyPayloadId(companyId, periodId, module, String(field)));
+        return payload?.value as NonNullable<CompanyPeriodData[K]>[F] | undefined;
+    }
+
+    async putCompanyPeriodData(companyId: string, periodId: string, data: CompanyPeriodData): Promise<void> {
+        const db = await this.dbPromise;
+        const { payloads } = splitCompanyPayloads({ ...data, id: companyId } as Company, periodId);
+        const tx = db.transaction(['companies', 'companyPayloads'], 'readwrite');
+        await replacePeriodPayloads(tx, companyId, periodId, payloads);
+        await tx.done;
+    }
+
+    async deleteCompanyPeriodData(companyId: string, periodId: string): Promise<void> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(['companies', 'companyPayloads'], 'readwrite');
+        await replacePeriodPayloads(tx, companyId, periodId, []);
+        await tx.done;
     }
 
     async saveCompany(company: Company): Promise<void> {
         const db = await this.dbPromise;
         company.updatedAt = new Date(); // Always update timestamp
-        await db.put('companies', company);
+        const tx = db.transaction(['companies', 'companyPayloads'], 'readwrite');
+        await replaceCompany(tx, company);
+        await tx.done;
+    }
+
+    // Yedekten geri yuklemede kullanilir; updatedAt degistirilmez.
+    async putCompany(company: Company): Promise<void> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(['companies', 'companyPayloads'], 'readwrite');
+        await replaceCompany(tx, company);
+        await tx.done;
+    }
+
+    // Yedekten uzerine yazmada firmanin tum donemleri tek islemde degistirilir; hata olursa eski kayit kalir.
+    async replaceCompanyWithPeriods(company: Company, periodData: Record<string, CompanyPeriodData>): Promise<void> {
+        const db = await this.dbPromise;
+        const { summary, payloads } = splitCompanyPayloads(company);
+        const periodPayloads = new Map([[getActivePeriodId(company), payloads]]);
+        Object.entries(periodData).forEach(([periodId, data]) => {
+            periodPayloads.set(periodId, splitCompanyPayloads({ ...data, id: company.id } as Company, periodId).payloads);
+        });
+        const nextPayloads = Array.from(periodPayloads.values()).flat();
+        const keepIds = new Set(nextPayloads.map((payload) => payload.id));
+
+        const tx = db.transaction(['companies', 'companyPayloads'], 'readwrite');
+        const payloadStore = tx.objectStore('companyPayloads');
+        const existingIds = await payloadStore.index('by-company').getAllKeys(company.id);
+        for (const id of existingIds) {
+            if (!keepIds.has(id)) await payloadStore.delete(id);
+        }
+        for (const payload of nextPayloads) {
+            await payloadStore.put(payload);
+        }
+        await tx.objectStore('companies').put(summary);
+        await tx.done;
+    }
+
+    // Yalnizca firma alanlarini (ad, vergi no, donemler) yazar; modul verileri oldugu gibi kalir.
+    async saveCompanySummary(company: Company): Promise<Company> {
+        const db = await this.dbPromise;
+        const summary = { ...stripCompanyPayloads(company), updatedAt: new Date() };
+        await db.put('companies', summary);
+        return summary;
+    }
+
+    // Firma kaydini ve aktif donemde yalnizca referansi degisen modul alanlarini yazar.
+    async saveCompanyChanges(previous: Company, next: Company): Promise<void> {
+        const db = await this.dbPromise;
+        next.updatedAt = new Date();
+        const changes = getCompanyPayloadChanges(previous, next);
+        const tx = db.transaction(['companies', 'companyPayloads'], 'readwrite');
+        const payloadStore = tx.objectStore('companyPayloads');
+
+        for (const id of changes.deleteIds) {
+            await payloadStore.delete(id);
+        }
+        for (const payload of changes.put) {
+            await payloadStore.put(payload);
+        }
+        await tx.objectStore('companies').put(stripCompanyPayloads(next));
+        await tx.done;
     }
 
     async deleteCompany(id: string): Promise<void> {
         const db = await this.dbPromise;
-        await db.delete('companies', id);
+        const tx = db.transaction(['companies', 'companyPayloads'], 'readwrite');
+        const payloadStore = tx.objectStore('companyPayloads');
+        const payloadIds = await payloadStore.index('by-company').getAllKeys(id);
+        for (const payloadId of payloadIds) {
+            await payloadStore.delete(payloadId);
+        }
+        await tx.objectStore('companies').delete(id);
+        await tx.done;
+    }
+
+    async addMigrationLog(entry: CompanyMigrationLogEntry): Promise<void> {
+        const db = await this.dbPromise;
+        await db.add('migrationLogs', entry);
+    }
+
+    async getMigrationLogs(): Promise<CompanyMigrationLogEntry[]> {
+        const db = await this.dbPromise;
+        const logs = await db.getAll('migrationLogs');
+        return logs.reverse();
     }
+
+    async getMigrationBackups(companyId: string): Promise<CompanyMigrationBackup[]> {
+        const db = await this.dbPromise;
+        return await db.getAllFromIndex('migrationBackups', 'by-company', companyId);
+    }
+
 }
 
 export const dbService = new DatabaseService();
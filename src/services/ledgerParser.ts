@@ -0,0 +1,82 @@
+import type { KebirAnalysisResult } from '../features/common/types';
+import type { ParseExcelDataResult, ParseExcelOptions } from '../features/current-account-control/utils/excelParser';
+import type { SheetSelection } from '../utils/workbookSheets';
+import { assertLedgerFileSize, type LedgerProgressHandler } from '../utils/ledgerParseLimits';
+
+export interface LedgerParseOptions {
+    onProgress?: LedgerProgressHandler;
+    /** Iptal edildiginde worker sonlandirilir ve AbortError ile reddedilir. */
+    signal?: AbortSignal;
+}
+
+const createCancelledError = () => new DOMException('İşlem iptal edildi.', 'AbortError');
+
+const runLedgerWorker = <T>(
+    type: 'PARSE_KEBIR' | 'PARSE_CURRENT_ACCOUNT',
+    file: File,
+    payload: Record<string, unknown>,
+    { onProgress, signal }: LedgerParseOptions = {}
+): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createCancelledError());
+            return;
+        }
+        try {
+            assertLedgerFileSize(file);
+        } catch (error) {
+            reject(error);
+            return;
+        }
+
+        const worker = new Worker(new URL('../workers/ledgerParser.worker.ts', import.meta.url), { type: 'module' });
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', cancel);
+        };
+        const cancel = () => {
+            finish();
+            reject(createCancelledError());
+        };
+        signal?.addEventListener('abort', cancel);
+
+        worker.onmessage = (event) => {
+            if (event.data.type === 'PARSE_PROGRESS') {
+                onProgress?.(event.data.payload);
+                return;
+            }
+            finish();
+            if (event.data.type === 'PARSE_SUCCESS') {
+                resolve(event.data.payload as T);
+            } else {
+                reject(new Error(String(event.data.payload)));
+            }
+        };
+
+        // Worker'in cokmesi (or. bellek yetersizligi) pencereyi degil yalnizca bu islemi sonlandirir.
+        worker.onerror = (error) => {
+            finish();
+            reject(new Error(`Dosya işlenemedi${error.message ? `: ${error.message}` : '. Dosya bellek sınırını aşmış olabilir.'}`));
+        };
+
+        worker.postMessage({ type, payload: { ...payload, file } });
+    });
+};
+
+export const parseKebirFile = (
+    file: File,
+    sheetSelection?: SheetSelection | null,
+    options?: LedgerParseOptions
+): Promise<KebirAnalysisResult> => {
+    return runLedgerWorker('PARSE_KEBIR', file, { sheetSelection }, options);
+};
+
+/** Dosya bir kez okunur; her filtre seti icin ayri sonuc doner. */
+export const parseCurrentAccountFile = (
+    file: File,
+    mapping: Record<string, string>,
+    optionSets: ParseExcelOptions[],
+    options?: LedgerParseOptions
+): Promise<ParseExcelDataResult[]> => {
+    return runLedgerWorker('PARSE_CURRENT_ACCOUNT', file, { mapping, optionSets }, options);
+};
@@ -0,0 +1,156 @@
+import { deleteDB, openDB, type DBSchema } from 'idb';
+import type { AccountDetail, Company, MappingConfig } from '../features/common/types';
+import { COMPANY_SCHEMA_VERSION } from './companyMigrations';
+import { ensureCompanyPeriod } from './companyPeriods';
+import { dbService } from './db';
+
+// Cari hesap kontrolunun eski, firma bagimsiz calisma alani veritabani.
+const LEGACY_DB_NAME = 'kdv-kontrol-current-account-db';
+const LEGACY_DB_VERSION = 1;
+
+interface LegacyWorkspace {
+    id: string;
+    companyName: string;
+    lastUpdated: Date;
+    smmmData: AccountDetail[];
+    firmaData: AccountDetail[];
+    mappings: { smmm: Record<string, string>; firma: Record<string, string> };
+}
+
+interface LegacyWorkspaceDB extends DBSchema {
+    workspaces: {
+        key: string;
+        value: LegacyWorkspace;
+        indexes: { 'by-date': Date };
+    };
+}
+
+export interface LegacyWorkspaceImportResult {
+    attached: number;
+    created: number;
+}
+
+const normalizeName = (value: string): string => {
+    return value
+        .toLocaleLowerCase('tr-TR')
+        .replace(/[^0-9a-zçğıöşü]+/g, ' ')
+        .trim();
+};
+
+const extractTaxNumber = (value: string): string | null => {
+    const match = value.match(/\b\d{10,11}\b/);
+    return match ? match[0] : null;
+};
+
+const hasCurrentAccountData = (company: Company): boolean => {
+    const currentAccount = company.currentAccount;
+    if (!currentAccount) return false;
+    return (currentAccount.smmmData?.length || 0) > 0 || (currentAccount.firmaData?.length || 0) > 0;
+};
+
+const findMatchingCompany = (workspace: LegacyWorkspace, companies: Company[]): Company | undefined => {
+    const taxNumber = extractTaxNumber(workspace.companyName);
+    if (taxNumber) {
+        const byTaxNumber = companies.find((company) => company.taxNumber?.trim() === taxNumber);
+        if (byTaxNumber) return byTaxNumber;
+    }
+    const name = normalizeName(workspace.companyName);
+    return companies.find((company) => normalizeName(company.name) === name);
+};
+
+const toCurrentAccount = (workspace: LegacyWorkspace): NonNullable<Company['currentAccount']> => ({
+    smmmData: Array.isArray(workspace.smmmData) ? workspace.smmmData : [],
+    firmaData: Array.isArray(workspace.firmaData) ? workspace.firmaData : [],
+    mappings: (workspace.mappings || {}) as MappingConfig,
+});
+
+// Sabit kimlik: aktarim yarida kalip tekrar calisirsa ayni firma ikinci kez olusmaz.
+const getLegacyCompanyId = (workspace: LegacyWorkspace): string => `legacy-workspace-${workspace.id}`;
+
+const legacyDatabaseExists = async (): Promise<boolean> => {
+    if (typeof indexedDB === 'undefined') return false;
+    if (typeof indexedDB.databases !== 'function') return true;
+    const databases = await indexedDB.databases();
+    return databases.some((database) => database.name === LEGACY_DB_NAME);
+};
+
+const readLegacyWorkspaces = async (): Promise<LegacyWorkspace[]> => {
+    const db = await openDB<LegacyWorkspaceDB>(LEGACY_DB_NAME, LEGACY_DB_VERSION, {
+        upgrade(database) {
+            // Veritabani hic olusturulmamissa bos bir store acilir; ardindan silinir.
+            database.createObjectStore('workspaces', { keyPath: 'id' });
+        },
+    });
+    try {
+        return db.objectStoreNames.contains('workspaces') ? await db.getAll('workspaces') : [];
+    } finally {
+        db.close();
+    }
+};
+
+/**
+ * Eski calisma alanlarini firma kayitlarina aktarir: adi veya VKN'si eslesen ve cari hesap
+ * verisi bos olan firmaya eklenir, aksi halde yeni firma olusturulur. Tum kayitlar yazildiktan
+ * sonra eski veritabani silinir; hata olursa dokunulmaz ve bir sonraki acilista tekrar denenir.
+ */
+export const importLegacyWorkspaces = async (): Promise<LegacyWorkspaceImportResult> => {
+    const result: LegacyWorkspaceImportResult = { attached: 0, created: 0 };
+    if (!(await legacyDatabaseExists())) return result;
+
+    const workspaces = await readLegacyWorkspaces();
+    const companies = await dbService.getAllCompanies();
+    const migratedAt = new Date().toISOString();
+
+    for (const workspace of workspaces) {
+        const currentAccount = toCurrentAccount(workspace);
+        if (currentAccount.smmmData.length === 0 && currentAccount.firmaData.length === 0) continue;
+        if (companies.some((company) => company.id === getLegacyCompanyId(workspace))) continue;
+
+        const summary = findMatchingCompany(workspace, companies);
+        const match = summary ? await dbService.getCompany(summary.id) : undefined;
+
+        if (summary && match && !hasCurrentAccountData(match)) {
+            const next: Company = { ...match, currentAccount: { ...match.currentAccount, ...currentAccount } };
+            await dbService.saveCompany(next);
+            companies.splice(companies.indexOf(summary), 1, next);
+            result.attached += 1;
+            await dbService.addMigrationLog({
+                companyId: next.id,
+                companyName: next.name,
+                fromVersion: COMPANY_SCHEMA_VERSION,
+                toVersion: COMPANY_SCHEMA_VERSION,
+                description: 'Eski cari hesap calisma alani firmaya eklendi',
+                changes: [`"${workspace.companyName}" calisma alani currentAccount alanina tasindi`],
+                migratedAt,
+            });
+            continue;
+        }
+
+        const lastUpdated = workspace.lastUpdated instanceof Date ? workspace.lastUpdated : new Date();
+        const created: Company = {
+            id: getLegacyCompanyId(workspace),
+            name: match ? `${workspace.companyName} (Eski Cari Calisma)` : workspace.companyName,
+            taxNumber: extractTaxNumber(workspace.companyName) || undefined,
+            createdAt: lastUpdated,
+            updatedAt: lastUpdated,
+            schemaVersion: COMPANY_SCHEMA_VERSION,
+            currentAccount,
+        };
+        ensureCompanyPeriod(created);
+        await dbService.putCompany(created);
+        companies.push(created);
+        result.created += 1;
+        await dbService.addMigrationLog({
+            companyId: created.id,
+            companyName: created.name,
+            fromVersion: COMPANY_SCHEMA_VERSION,
+            toVersion: COMPANY_SCHEMA_VERSION,
+            description: 'Eski cari hesap calisma alanindan yeni firma olusturuldu',
+            changes: [`"${workspace.companyName}" calisma alani aktarildi`],
+            migratedAt,
+        });
+    }
+
+    await deleteDB(LEGACY_DB_NAME);
+    return result;
+};
@@ -0,0 +1,299 @@
+export const MAPPING_PROFILE_FORMAT = 'kdv-kontrol-mapping-profiles';
+export const MAPPING_PROFILE_FORMAT_VERSION = 1;
+
+const STORAGE_KEY = 'mapping_profiles';
+// Onceki surumlerin baslik parmak izine gore tuttugu isimsiz sablonlar.
+const LEGACY_STORAGE_KEY = 'mapping_templates';
+
+export const MAPPING_PROFILE_VENDORS = ['Luca', 'Logo', 'Mikro', 'Zirve', 'Netsis', 'GİB Portalı', 'Diğer'] as const;
+
+export type MappingProfileTarget =
+    | 'SALES_EINVOICE'
+    | 'PURCHASE_EINVOICE'
+    | 'SALES_ACCOUNTING_VAT'
+    | 'PURCHASE_ACCOUNTING_VAT'
+    | 'ACCOUNTING_MATRAH'
+    | 'CURRENT_ACCOUNT';
+
+export const MAPPING_PROFILE_TARGET_LABELS: Record<MappingProfileTarget, string> = {
+    SALES_EINVOICE: 'Satış e-Fatura',
+    PURCHASE_EINVOICE: 'Alış e-Fatura',
+    SALES_ACCOUNTING_VAT: 'Satış Muhasebe KDV',
+    PURCHASE_ACCOUNTING_VAT: 'Alış Muhasebe KDV',
+    ACCOUNTING_MATRAH: 'Muhasebe Matrah',
+    CURRENT_ACCOUNT: 'Cari Hesap',
+};
+
+const MAPPING_PROFILE_TARGETS = Object.keys(MAPPING_PROFILE_TARGET_LABELS) as MappingProfileTarget[];
+
+// Esleme degerleri sutun basligi (cari hesapta sutun sirasi) tutar; '|||' birden fazla sutunun toplanacagini belirtir.
+export const MULTI_COLUMN_SEPARATOR = '|||';
+export const NO_COLUMN_VALUE = '— YOKTUR —';
+
+export interface MappingProfile {
+    id: string;
+    name: string;
+    vendor: string;
+    target: MappingProfileTarget;
+    /** null: tum firmalarda kullanilir. */
+    companyId: string | null;
+    /** null: baslik satiri dosyadan otomatik bulunur (eski sablonlar). */
+    headerRowIndex: number | null;
+    mapping: Record<string, string>;
+    fingerprint: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface MappingProfileSuggestion {
+    profile: MappingProfile;
+    headerRowIndex: number;
+    score: number;
+}
+
+const SUGGESTION_THRESHOLD = 0.6;
+
+const createProfileId = (): string => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `mapping-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const normalizeHeader = (value: string): string => {
+    return value
+        .toLocaleLowerCase('tr-TR')
+        .replace(/ı/g, 'i')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+};
+
+export const getRowHeaders = (rows: unknown[][], rowIndex: number): string[] => {
+    return Array.from(rows[rowIndex] || [], (cell) => String(cell ?? '').trim());
+};
+
+/** Sirasi ve yazimi degisse de ayni sistemden gelen dosyalarda ayni kalan baslik imzasi. */
+export const getHeaderFingerprint = (headers: string[]): string => {
+    return Array.from(new Set(headers.map(normalizeHeader).filter(Boolean))).sort().join('|');
+};
+
+const getMappedColumns = (mapping: Record<string, string>): string[] => {
+    return Object.values(mapping)
+        .flatMap((value) => String(value || '').split(MULTI_COLUMN_SEPARATOR))
+        .filter((column) => column && column !== NO_COLUMN_VALUE);
+};
+
+const hasMappedColumns = (mapping: Record<string, string>, headers: string[]): boolean => {
+    const available = new Set(headers.filter(Boolean));
+    return getMappedColumns(mapping).every((column) => (
+        available.has(column) || (/^\d+$/.test(column) && Number(column) < headers.length)
+    ));
+};
+
+const scoreFingerprint = (profileFingerprint: string, headers: string[]): number => {
+    const fingerprint = getHeaderFingerprint(headers);
+    if (!fingerprint) return 0;
+    if (fingerprint === profileFingerprint) return 1;
+    const left = new Set(profileFingerprint.split('|').filter(Boolean));
+    const right = new Set(fingerprint.split('|'));
+    const shared = [...left].filter((header) => right.has(header)).length;
+    return shared / new Set([...left, ...right]).size;
+};
+
+// Eski sablonlar hangi adimda kaydedildigini tutmaz; eslenen alanlardan tahmin edilir.
+const inferLegacyTarget = (mapping: Record<string, string>): MappingProfileTarget => {
+    const isMapped = (key: string) => Boolean(mapping[key]) && mapping[key] !== NO_COLUMN_VALUE;
+    if (isMapped('Fatura Tarihi')) return isMapped('Matrah') ? 'SALES_EINVOICE' : 'PURCHASE_EINVOICE';
+    if (isMapped('Matrah')) return 'ACCOUNTING_MATRAH';
+    return isMapped('Alacak Tutarı') && !isMapped('Borç Tutarı') ? 'SALES_ACCOUNTING_VAT' : 'PURCHASE_ACCOUNTING_VAT';
+};
+
+const migrateLegacyTemplates = (): MappingProfile[] => {
+    let templates: Record<string, Record<string, string>>;
+    try {
+        templates = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || '{}');
+    } catch {
+        return [];
+    }
+    const now = new Date().toISOString();
+    return Object.entries(templates || {}).map(([legacyFingerprint, mapping], index) => ({
+        id: createProfileId(),
+        name: `Kayıtlı şablon ${index + 1}`,
+        vendor: 'Diğer',
+        target: inferLegacyTarget(mapping || {}),
+        companyId: null,
+        headerRowIndex: null,
+        mapping: mapping || {},
+        fingerprint: getHeaderFingerprint(legacyFingerprint.split('|')),
+        createdAt: now,
+        updatedAt: now,
+    }));
+};
+
+const isMappingProfileTarget = (value: unknown): value is MappingProfileTarget => {
+    return MAPPING_PROFILE_TARGETS.includes(value as MappingProfileTarget);
+};
+
+const sanitizeProfile = (value: unknown): MappingProfile | null => {
+    if (!value || typeof value !== 'object') return null;
+    const raw = value as Record<string, unknown>;
+    if (typeof raw.name !== 'string' || !raw.name.trim() || !isMappingProfileTarget(raw.target)) return null;
+    if (!raw.mapping || typeof raw.mapping !== 'object') return null;
+
+    const mapping: Record<string, string> = {};
+    Object.entries(raw.mapping as Record<string, unknown>).forEach(([key, column]) => {
+        if (typeof column === 'string' || typeof column === 'number') mapping[key] = String(column);
+    });
+    const headerRowIndex = Number(raw.headerRowIndex);
+    const now = new Date().toISOString();
+
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : createProfileId(),
+        name: raw.name.trim(),
+        vendor: typeof raw.vendor === 'string' && raw.vendor ? raw.vendor : 'Diğer',
+        target: raw.target,
+        companyId: typeof raw.companyId === 'string' && raw.companyId ? raw.companyId : null,
+        headerRowIndex: raw.headerRowIndex !== null && Number.isInteger(headerRowIndex) && headerRowIndex >= 0 ? headerRowIndex : null,
+        mapping,
+        fingerprint: typeof raw.fingerprint === 'string' ? raw.fingerprint : '',
+        createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : now,
+        updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : now,
+    };
+};
+
+const writeProfiles = (profiles: MappingProfile[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const loadMappingProfiles = (): MappingProfile[] => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === null) {
+        const migrated = migrateLegacyTemplates();
+        writeProfiles(migrated);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return migrated;
+    }
+    try {
+        const parsed = JSON.parse(stored);
+        return Array.isArray(parsed)
+            ? parsed.map(sanitizeProfile).filter((profile): profile is MappingProfile => profile !== null)
+            : [];
+    } catch {
+        return [];
+    }
+};
+
+/** Genel profiller ve yalnizca aktif firmaya ait profiller. */
+export const getAvailableMappingProfiles = (
+    profiles: MappingProfile[],
+    target: MappingProfileTarget,
+    companyId: string | null
+): MappingProfile[] => {
+    return profiles
+        .filter((profile) => profile.target === target && (profile.companyId === null || profile.companyId === companyId))
+        .sort((left, right) => left.name.localeCompare(right.name, 'tr-TR'));
+};
+
+/** Picks the profile whose header row best matches the file; firm-specific profiles win ties. */
+export const suggestMappingProfile = (
+    profiles: MappingProfile[],
+    rows: unknown[][],
+    detectedHeaderRow: number
+): MappingProfileSuggestion | null => {
+    let best: MappingProfileSuggestion | null = null;
+    profiles.forEach((profile) => {
+        const headerRowIndex = profile.headerRowIndex ?? detectedHeaderRow;
+        const headers = getRowHeaders(rows, headerRowIndex);
+        if (!hasMappedColumns(profile.mapping, headers)) return;
+        const score = scoreFingerprint(profile.fingerprint, headers);
+        if (score < SUGGESTION_THRESHOLD) return;
+        if (!best || score > best.score || (score === best.score && profile.companyId && !best.profile.companyId)) {
+            best = { profile, headerRowIndex, score };
+        }
+    });
+    return best;
+};
+
+export const saveMappingProfile = (
+    input: Omit<MappingProfile, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }
+): MappingProfile => {
+    const profiles = loadMappingProfiles();
+    const now = new Date().toISOString();
+    const existing = profiles.find((profile) => profile.id === input.id);
+    const saved: MappingProfile = {
+        ...input,
+        name: input.name.trim(),
+        id: existing?.id || createProfileId(),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+    };
+    writeProfiles(existing
+        ? profiles.map((profile) => (profile.id === saved.id ? saved : profile))
+        : [...profiles, saved]);
+    return saved;
+};
+
+export const deleteMappingProfile = (id: string) => {
+    writeProfiles(loadMappingProfiles().filter((profile) => profile.id !== id));
+};
+
+export const downloadMappingProfiles = (profiles: MappingProfile[]) => {
+    const archive = {
+        format: MAPPING_PROFILE_FORMAT,
+        formatVersion: MAPPING_PROFILE_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        profiles,
+    };
+    const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `kdv_kontrol_eslestirme_profilleri_${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Imports a profile file exported from another installation. Firm ids differ between
+ * machines, so firm-specific profiles are attached to `companyId` (global when null).
+ * Profiles with the same id, or the same name, target and scope, are replaced.
+ */
+export const importMappingProfiles = async (file: File, companyId: string | null): Promise<number> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch {
+        throw new Error('Eslestirme profili dosyasi gecerli bir JSON icermiyor.');
+    }
+
+    const archive = parsed as Record<string, unknown> | null;
+    const rawProfiles = Array.isArray(parsed)
+        ? parsed
+        : archive?.format === MAPPING_PROFILE_FORMAT && Array.isArray(archive.profiles) ? archive.profiles : null;
+    if (!rawProfiles) {
+        throw new Error('Dosya bir eslestirme profili arsivi degil.');
+    }
+
+    const imported = rawProfiles
+        .map(sanitizeProfile)
+        .filter((profile): profile is MappingProfile => profile !== null)
+        .map((profile) => ({ ...profile, companyId: profile.companyId ? companyId : null }));
+    if (imported.length === 0) {
+        throw new Error('Dosyada gecerli eslestirme profili bulunamadi.');
+    }
+
+    const profiles = loadMappingProfiles();
+    imported.forEach((profile) => {
+        const index = profiles.findIndex((existing) => existing.id === profile.id || (
+            existing.name === profile.name && existing.target === profile.target && existing.companyId === profile.companyId
+        ));
+        if (index >= 0) profiles[index] = { ...profile, id: profiles[index].id };
+        else profiles.push(profile);
+    });
+    writeProfiles(profiles);
+    return imported.length;
+};
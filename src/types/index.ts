@@ -47,4 +47,8 @@ export interface ReconciliationReportData {
   report2: Record<string, string | number | Date | null>[];
   report3: Record<string, string | number | Date | null>[];
   report4?: Record<string, string | number | Date | null>[];
+  report5?: Record<string, string | number | Date | null>[];
+  report6?: Record<string, string | number | Date | null>[];
+  report7?: Record<string, string | number | Date | null>[];
+  report8?: Record<string, string | number | Date | null>[];
 }
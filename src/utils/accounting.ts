@@ -36,6 +36,13 @@ export const toValidCalendarDate = (year: number, month: number, day: number): D
     return date;
 };
 
+/** Excel serial day -> calendar date at local noon, so the day does not shift with the time zone */
+const fromExcelSerial = (serial: number): Date | null => {
+    const utc = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400 * 1000));
+    if (Number.isNaN(utc.getTime())) return null;
+    return toValidCalendarDate(utc.getUTCFullYear(), utc.getUTCMonth() + 1, utc.getUTCDate());
+};
+
 /** Parse a transaction date from various formats (Date object, Excel serial, DD.MM.YYYY, ISO, etc.) */
 export const parseTransactionDate = (value: Date | string | number | null | undefined): Date | null => {
     if (value === null || value === undefined || value === '') return null;
@@ -44,9 +51,7 @@ export const parseTransactionDate = (value: Date | string | number | null | unde
     }
 
     if (typeof value === 'number') {
-        const excelEpochUtc = Date.UTC(1899, 11, 30);
-        const date = new Date(excelEpochUtc + Math.round(value * 86400 * 1000));
-        return Number.isNaN(date.getTime()) ? null : date;
+        return fromExcelSerial(value);
     }
 
     const raw = String(value).trim();
@@ -84,11 +89,8 @@ export const parseTransactionDate = (value: Date | string | number | null | unde
     if (/^\d{4,6}(?:\.\d+)?$/.test(serialLike)) {
         const serial = Number(serialLike);
         if (Number.isFinite(serial) && serial > 20000 && serial < 80000) {
-            const excelEpochUtc = Date.UTC(1899, 11, 30);
-            const date = new Date(excelEpochUtc + Math.round(serial * 86400 * 1000));
-            if (!Number.isNaN(date.getTime())) {
-                return date;
-            }
+            const date = fromExcelSerial(serial);
+            if (date) return date;
         }
     }
 
@@ -0,0 +1,48 @@
+export type LedgerParseStage = 'READING' | 'ROWS';
+
+export interface LedgerParseProgress {
+    stage: LedgerParseStage;
+    processedRows: number;
+    totalRows: number;
+}
+
+export type LedgerProgressHandler = (progress: LedgerParseProgress) => void;
+
+// Bu sinirlarin uzerindeki dosyalar pencereyi cokertmek yerine anlasilir bir hata ile reddedilir.
+export const MAX_LEDGER_FILE_BYTES = 200 * 1024 * 1024;
+export const MAX_LEDGER_ROWS = 2_000_000;
+const MAX_LEDGER_HEAP_BYTES = 1.5 * 1024 * 1024 * 1024;
+const HEAP_LIMIT_RATIO = 0.85;
+
+interface HeapUsage {
+    usedJSHeapSize: number;
+    jsHeapSizeLimit: number;
+}
+
+const formatMegabytes = (bytes: number): string => `${Math.round(bytes / (1024 * 1024)).toLocaleString('tr-TR')} MB`;
+
+export const assertLedgerFileSize = (file: File): void => {
+    if (file.size > MAX_LEDGER_FILE_BYTES) {
+        throw new Error(`Dosya çok büyük (${formatMegabytes(file.size)}). En fazla ${formatMegabytes(MAX_LEDGER_FILE_BYTES)} yüklenebilir; dosyayı dönemlere bölerek yükleyin.`);
+    }
+};
+
+export const assertLedgerRowCount = (rowCount: number): void => {
+    if (rowCount > MAX_LEDGER_ROWS) {
+        throw new Error(`Dosyada ${rowCount.toLocaleString('tr-TR')} satır var. En fazla ${MAX_LEDGER_ROWS.toLocaleString('tr-TR')} satır işlenebilir; dosyayı dönemlere bölerek yükleyin.`);
+    }
+};
+
+/** performance.memory yalnizca Chromium/Electron'da vardir; olmayan ortamlarda kontrol atlanir. */
+export const assertLedgerMemory = (): void => {
+    const memory = (performance as Performance & { memory?: HeapUsage }).memory;
+    if (!memory) return;
+    const limit = Math.min(MAX_LEDGER_HEAP_BYTES, memory.jsHeapSizeLimit * HEAP_LIMIT_RATIO);
+    if (memory.usedJSHeapSize > limit) {
+        throw new Error(`Bellek sınırına ulaşıldı (${formatMegabytes(memory.usedJSHeapSize)}). Dosyayı dönemlere bölerek yükleyin.`);
+    }
+};
+
+export const isLedgerParseCancelled = (error: unknown): boolean => {
+    return error instanceof DOMException && error.name === 'AbortError';
+};
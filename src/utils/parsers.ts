@@ -4,20 +4,32 @@ export const normalizeString = (str: string | any): string => {
 };
 
 export const parseTurkishNumber = (val: any): number => {
-    if (typeof val === 'number') return val;
+    if (typeof val === 'number') return Number.isFinite(val) ? val : 0;
     if (!val) return 0;
     let str = String(val).trim().replace(/\s/g, '');
 
+    // Ledger exports also write negatives as "(1.234,56)" or "1.234,56-", with currency text around them
+    const negative = /^\(.*\)$/.test(str) || /\d-$/.test(str);
+    str = str.replace(/[^0-9.,-]/g, '').replace(/(.)-$/, '$1');
+
     // Heuristic: If there is a comma, it's Turkish format (1.234,56 or 180,00)
-    // If no comma but there is a dot, it might be standard decimal (180.00) 
-    // or Turkish thousands (1.000). 
+    // unless a dot comes after it (1,234.56). Several dots or commas alone are thousands separators.
+    // If no comma but there is a single dot, it might be standard decimal (180.00)
+    // or Turkish thousands (1.000).
     // In e-invoice/accounting data, dots are more commonly decimals if no comma exists.
-    if (str.includes(',')) {
+    if (str.includes(',') && str.includes('.') && str.lastIndexOf('.') > str.lastIndexOf(',')) {
+        str = str.replace(/,/g, '');
+    } else if ((str.match(/,/g) || []).length > 1 && !str.includes('.')) {
+        str = str.replace(/,/g, '');
+    } else if (str.includes(',')) {
         str = str.replace(/\./g, '').replace(/,/g, '.');
+    } else if ((str.match(/\./g) || []).length > 1) {
+        str = str.replace(/\./g, '');
     }
 
     const num = parseFloat(str);
-    return isNaN(num) ? 0 : num;
+    if (isNaN(num)) return 0;
+    return negative ? -Math.abs(num) : num;
 };
 
 // Regex: 3 chars (AlphaNumeric) + 4 year + 9 digits = 16 characters
@@ -0,0 +1,217 @@
+import * as XLSX from 'xlsx';
+
+// Excel'in kabul edildigi her yerde ODS ve metin (CSV / sabit genislikli TXT) dosyalari da okunur.
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods', '.csv', '.txt'];
+export const SPREADSHEET_ACCEPT = SPREADSHEET_EXTENSIONS.join(',');
+
+export const isSpreadsheetFile = (fileName: string): boolean => /\.(xlsx|xls|ods|csv|txt)$/i.test(fileName);
+export const isTextSpreadsheetFile = (fileName: string): boolean => /\.(csv|txt)$/i.test(fileName);
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'windows-1254' | 'iso-8859-9';
+
+export interface TextFileFormat {
+    encoding: TextEncodingName;
+    /** null: sutunlar sabit genislikli (bosluklarla hizali). */
+    delimiter: string | null;
+    decimalSeparator: ',' | '.';
+}
+
+const DELIMITER_CANDIDATES = [';', '\t', ',', '|'];
+const SAMPLE_LINE_COUNT = 50;
+
+const TEXT_ENCODING_LABELS: Record<TextEncodingName, string> = {
+    'utf-8': 'UTF-8',
+    'utf-16le': 'UTF-16',
+    'windows-1254': 'Windows-1254',
+    'iso-8859-9': 'ISO-8859-9',
+};
+
+const DELIMITER_LABELS: Record<string, string> = {
+    ';': 'noktalı virgül',
+    '\t': 'sekme',
+    ',': 'virgül',
+    '|': 'dikey çizgi',
+};
+
+export const detectTextEncoding = (bytes: Uint8Array): TextEncodingName => {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        return 'utf-8';
+    } catch {
+        // 0x80-0x9F ISO-8859-9'da kontrol karakteridir; Windows-1254'te ise €, tirnak ve tire gibi basilabilir karakterler.
+        return bytes.some((byte) => byte >= 0x80 && byte <= 0x9f) ? 'windows-1254' : 'iso-8859-9';
+    }
+};
+
+const getSampleLines = (text: string): string[] => {
+    return text.split(/\r\n|\n|\r/).filter((line) => line.trim() !== '').slice(0, SAMPLE_LINE_COUNT);
+};
+
+/** Picks the candidate that splits most sample lines into the same number of columns. */
+export const detectDelimiter = (lines: string[]): string | null => {
+    let best: { delimiter: string; consistency: number; count: number } | null = null;
+    for (const delimiter of DELIMITER_CANDIDATES) {
+        const frequency = new Map<number, number>();
+        lines.forEach((line) => {
+            // "1.234,56" gibi ondalik virguller ayrac sayilmaz
+            const count = (delimiter === ',' ? line.replace(/\d,\d/g, '') : line).split(delimiter).length - 1;
+            if (count > 0) frequency.set(count, (frequency.get(count) || 0) + 1);
+        });
+        let mode = 0;
+        frequency.forEach((value, count) => {
+            if (value > (frequency.get(mode) || 0)) mode = count;
+        });
+        const consistency = (frequency.get(mode) || 0) / Math.max(lines.length, 1);
+        if (mode === 0 || consistency < 0.5) continue;
+        if (!best || consistency > best.consistency || (consistency === best.consistency && mode > best.count)) {
+            best = { delimiter, consistency, count: mode };
+        }
+    }
+    return best?.delimiter ?? null;
+};
+
+export const parseDelimitedText = (text: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let index = 0; index < text.length; index += 1) {
+        const char = text[index];
+        if (quoted) {
+            if (char === '"' && text[index + 1] === '"') {
+                cell += '"';
+                index += 1;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && cell === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(cell.trim());
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[index + 1] === '\n') index += 1;
+            row.push(cell.trim());
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell.trim());
+        rows.push(row);
+    }
+    return rows.filter((values) => values.some((value) => value !== ''));
+};
+
+/**
+ * Splits space-aligned report output at character positions that are blank in at least
+ * 90% of the sample lines, so a few overflowing cells do not merge the columns.
+ */
+export const parseFixedWidthText = (text: string): string[][] => {
+    const lines = text.split(/\r\n|\n|\r/).filter((line) => line.trim() !== '').map((line) => line.replace(/\t/g, ' '));
+    // Tek bosluklu baslik/aciklama satirlari (rapor adi, sayfa no) sutun sinirlarini belirlemez
+    const isAligned = (line: string) => line.trim().split(/\s{2,}/).length > 1;
+    const aligned = lines.filter(isAligned);
+    const sample = (aligned.length > 0 ? aligned : lines).slice(0, 200);
+    const width = Math.max(0, ...sample.map((line) => line.length));
+    const isBlank = Array.from({ length: width }, (_, position) => {
+        const blank = sample.filter((line) => (line[position] ?? ' ') === ' ').length;
+        return blank / sample.length >= 0.9;
+    });
+    // Tek bosluk "Fis No" gibi cok kelimeli basliklarda da gorulur; sutun araligi en az iki bosluktur
+    const isGap = isBlank.map((blank, position) => blank && (isBlank[position - 1] || isBlank[position + 1]));
+
+    // Her sutun kendi baslangicindan bir sonrakinin baslangicina kadar okunur
+    const starts = isGap.flatMap((gap, position) => (!gap && (position === 0 || isGap[position - 1]) ? [position] : []));
+    if (starts.length < 2) return lines.map((line) => [line.trim()]);
+
+    return lines.map((line) => (isAligned(line)
+        ? starts.map((from, index) => line.slice(from, starts[index + 1]).trim())
+        : [line.trim()]));
+};
+
+const TR_NUMBER = /^-?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/;
+const EN_NUMBER = /^-?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+
+const detectDecimalSeparator = (rows: string[][], delimiter: string | null): ',' | '.' => {
+    let comma = 0;
+    let dot = 0;
+    rows.slice(0, 200).forEach((row) => row.forEach((cell) => {
+        if (/\d,\d+$/.test(cell) && TR_NUMBER.test(cell)) comma += 1;
+        else if (/\d\.\d{1,2}$/.test(cell) && EN_NUMBER.test(cell)) dot += 1;
+    }));
+    if (comma === dot) return delimiter === ',' ? '.' : ',';
+    return comma > dot ? ',' : '.';
+};
+
+// Yalnizca ondalik ya da binlik ayraci olan hucreler sayiya cevrilir; VKN ve fatura no gibi
+// salt rakamli degerler bastaki sifirlar kaybolmasin diye metin kalir.
+const toNumberCell = (cell: string, decimalSeparator: ',' | '.'): string | number => {
+    if (!/[.,]/.test(cell)) return cell;
+    if (decimalSeparator === ',' && TR_NUMBER.test(cell)) return Number(cell.replace(/\./g, '').replace(',', '.'));
+    if (decimalSeparator === '.' && EN_NUMBER.test(cell)) return Number(cell.replace(/,/g, ''));
+    return cell;
+};
+
+export const detectTextFileFormat = (bytes: Uint8Array): TextFileFormat => {
+    const encoding = detectTextEncoding(bytes);
+    const text = new TextDecoder(encoding).decode(bytes);
+    const delimiter = detectDelimiter(getSampleLines(text));
+    const rows = delimiter ? parseDelimitedText(text.slice(0, 20000), delimiter) : parseFixedWidthText(text.slice(0, 20000));
+    return { encoding, delimiter, decimalSeparator: detectDecimalSeparator(rows, delimiter) };
+};
+
+/** "Windows-1254 · noktalı virgül ayraçlı · ondalık virgül" */
+export const describeTextFileFormat = (format: TextFileFormat): string => {
+    return [
+        TEXT_ENCODING_LABELS[format.encoding],
+        format.delimiter ? `${DELIMITER_LABELS[format.delimiter]} ayraçlı` : 'sabit genişlikli',
+        format.decimalSeparator === ',' ? 'ondalık virgül' : 'ondalık nokta',
+    ].join(' · ');
+};
+
+const toSheetName = (fileName: string): string => {
+    const base = fileName.replace(/\.[^.]+$/, '').replace(/[[\]:*?/\\]/g, ' ').trim();
+    return base.slice(0, 31) || 'Sayfa1';
+};
+
+const toBytes = (data: ArrayBuffer | Uint8Array): Uint8Array => (data instanceof Uint8Array ? data : new Uint8Array(data));
+
+/**
+ * Reads any accepted spreadsheet into a workbook. Text files become a single sheet named after
+ * the file, with Turkish or English formatted amounts converted to numbers.
+ */
+export const readSpreadsheetData = (
+    data: ArrayBuffer | Uint8Array,
+    fileName: string,
+    options: XLSX.ParsingOptions = {}
+): XLSX.WorkBook => {
+    const bytes = toBytes(data);
+    if (!isTextSpreadsheetFile(fileName)) {
+        return XLSX.read(bytes, { ...options, type: 'array' });
+    }
+
+    const encoding = detectTextEncoding(bytes);
+    const text = new TextDecoder(encoding).decode(bytes);
+    const delimiter = detectDelimiter(getSampleLines(text));
+    let rows = delimiter ? parseDelimitedText(text, delimiter) : parseFixedWidthText(text);
+    if (options.sheetRows) rows = rows.slice(0, options.sheetRows);
+    const decimalSeparator = detectDecimalSeparator(rows, delimiter);
+
+    const workbook = XLSX.utils.book_new();
+    const sheet = XLSX.utils.aoa_to_sheet(rows.map((row) => row.map((cell) => toNumberCell(cell, decimalSeparator))));
+    XLSX.utils.book_append_sheet(workbook, sheet, toSheetName(fileName));
+    return workbook;
+};
+
+export const readSpreadsheetFile = async (file: File, options: XLSX.ParsingOptions = {}): Promise<XLSX.WorkBook> => {
+    return readSpreadsheetData(await file.arrayBuffer(), file.name, options);
+};
@@ -0,0 +1,152 @@
+import * as XLSX from 'xlsx';
+import { readSpreadsheetFile } from './spreadsheetFile';
+
+// Birden fazla sayfadan birlestirilen satirlarda satirin geldigi sayfa.
+export const SHEET_SOURCE_KEY = 'Kaynak Sayfa';
+
+export interface SheetSelection {
+    /** Baslik satirinin okundugu sayfa. */
+    sheetName: string;
+    /** Ayni basliga sahip diger sayfalarin satirlari da eklenir (aylik sayfalar). */
+    allSheets: boolean;
+}
+
+export interface WorkbookRows {
+    rows: unknown[][];
+    /** rows ile ayni sirada, her satirin sayfa adi. */
+    rowSheets: string[];
+    /** rows ile ayni sirada, satirin kendi sayfasindaki (Excel) satir numarasi. */
+    rowNumbers: number[];
+    mergedSheets: string[];
+    skippedSheets: string[];
+}
+
+export interface WorkbookRowChunk {
+    sheetName: string;
+    rows: unknown[][];
+    /** Parcanin ilk satirinin birlestirilmis satir dizisindeki sirasi. */
+    offset: number;
+    /** Parcanin ilk satirinin sayfadaki (Excel, 1'den baslayan) satir numarasi. */
+    firstRowNumber: number;
+}
+
+const HEADER_SEARCH_LIMIT = 50;
+// Buyuk sayfalar sheet_to_json ile tek seferde degil, bu kadar satirlik araliklarla okunur.
+export const ROW_CHUNK_SIZE = 5000;
+
+const normalizeHeaderRow = (row: unknown[] | undefined): string => {
+    const cells = Array.from(row || [], (cell) => String(cell ?? '').trim().toLocaleLowerCase('tr-TR'));
+    while (cells.length > 0 && !cells[cells.length - 1]) cells.pop();
+    return cells.join('|');
+};
+
+export const readWorkbookSheetNames = async (file: File): Promise<string[]> => {
+    const workbook = await readSpreadsheetFile(file, { bookSheets: true });
+    return workbook.SheetNames;
+};
+
+/** Secilen sayfa yoksa (baska bir dosyanin eslestirmesi) ilk sayfa kullanilir. */
+export const resolveSheetName = (workbook: XLSX.WorkBook, selection?: SheetSelection | null): string => {
+    return selection && workbook.Sheets[selection.sheetName] ? selection.sheetName : workbook.SheetNames[0];
+};
+
+export const getSheetRowCount = (workbook: XLSX.WorkBook, sheetName: string): number => {
+    const ref = workbook.Sheets[sheetName]?.['!ref'];
+    if (!ref) return 0;
+    const range = XLSX.utils.decode_range(ref);
+    return range.e.r - range.s.r + 1;
+};
+
+/**
+ * Reads rows [from, to) of a sheet. Blank rows are kept (header: 1), so indexes match
+ * the ones of a full `sheet_to_json` call.
+ */
+export const readSheetRows = (
+    workbook: XLSX.WorkBook,
+    sheetName: string,
+    from: number,
+    to: number,
+    options: XLSX.Sheet2JSONOpts = {}
+): unknown[][] => {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet?.['!ref']) return [];
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const end = Math.min(range.s.r + to - 1, range.e.r);
+    if (range.s.r + from > end) return [];
+    return XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+        ...options,
+        header: 1,
+        range: { s: { r: range.s.r + from, c: range.s.c }, e: { r: end, c: range.e.c } },
+    });
+};
+
+/** Toplam satir sayisi (ilerleme gostergesi icin); allSheets ile tum sayfalar sayilir. */
+export const countWorkbookRows = (workbook: XLSX.WorkBook, selection?: SheetSelection | null): number => {
+    const sheetNames = selection?.allSheets ? workbook.SheetNames : [resolveSheetName(workbook, selection)];
+    return sheetNames.reduce((total, sheetName) => total + getSheetRowCount(workbook, sheetName), 0);
+};
+
+/**
+ * Yields the rows of `readWorkbookRows` in chunks of `chunkSize`, so a large ledger never has to
+ * exist as one row array next to the parsed result.
+ */
+export function* iterateWorkbookRows(
+    workbook: XLSX.WorkBook,
+    headerRowIndex: number,
+    selection?: SheetSelection | null,
+    options: XLSX.Sheet2JSONOpts = {},
+    chunkSize = ROW_CHUNK_SIZE
+): Generator<WorkbookRowChunk> {
+    const baseSheet = resolveSheetName(workbook, selection);
+    let offset = 0;
+
+    function* readSheet(sheetName: string, from: number): Generator<WorkbookRowChunk> {
+        const rowCount = getSheetRowCount(workbook, sheetName);
+        const ref = workbook.Sheets[sheetName]?.['!ref'];
+        const firstRow = ref ? XLSX.utils.decode_range(ref).s.r : 0;
+        for (let start = from; start < rowCount; start += chunkSize) {
+            const rows = readSheetRows(workbook, sheetName, start, start + chunkSize, options);
+            yield { sheetName, rows, offset, firstRowNumber: firstRow + start + 1 };
+            offset += rows.length;
+        }
+    }
+
+    yield* readSheet(baseSheet, 0);
+    if (!selection?.allSheets) return;
+
+    const baseHeader = normalizeHeaderRow(readSheetRows(workbook, baseSheet, headerRowIndex, headerRowIndex + 1, options)[0]);
+    if (!baseHeader) return;
+    for (const sheetName of workbook.SheetNames) {
+        if (sheetName === baseSheet) continue;
+        const sheetHeaderIndex = readSheetRows(workbook, sheetName, 0, HEADER_SEARCH_LIMIT, options)
+            .findIndex((row) => normalizeHeaderRow(row) === baseHeader);
+        if (sheetHeaderIndex >= 0) yield* readSheet(sheetName, sheetHeaderIndex + 1);
+    }
+}
+
+/**
+ * Reads the selected sheet as row arrays. With `allSheets`, every other sheet whose header row
+ * (searched in its first rows, so title rows may differ) matches the selected sheet's header is
+ * appended below it without its own header. Sheets with other headers, e.g. cover sheets, are skipped.
+ */
+export const readWorkbookRows = (
+    workbook: XLSX.WorkBook,
+    headerRowIndex: number,
+    selection?: SheetSelection | null,
+    options: XLSX.Sheet2JSONOpts = {}
+): WorkbookRows => {
+    const baseSheet = resolveSheetName(workbook, selection);
+    const result: WorkbookRows = { rows: [], rowSheets: [], rowNumbers: [], mergedSheets: [baseSheet], skippedSheets: [] };
+    for (const chunk of iterateWorkbookRows(workbook, headerRowIndex, selection, options)) {
+        chunk.rows.forEach((row, index) => {
+            result.rows.push(row);
+            result.rowSheets.push(chunk.sheetName);
+            result.rowNumbers.push(chunk.firstRowNumber + index);
+        });
+        if (!result.mergedSheets.includes(chunk.sheetName)) result.mergedSheets.push(chunk.sheetName);
+    }
+    if (selection?.allSheets) {
+        result.skippedSheets = workbook.SheetNames.filter((sheetName) => !result.mergedSheets.includes(sheetName));
+    }
+    return result;
+};
@@ -0,0 +1,37 @@
+import { readSpreadsheetData } from '../utils/spreadsheetFile';
+import { assertLedgerMemory, type LedgerParseProgress } from '../utils/ledgerParseLimits';
+import { parseKebirWorkbook } from '../features/kebir-analysis/utils/kebirParser';
+import { parseCurrentAccountWorkbook, type ParseExcelOptions } from '../features/current-account-control/utils/excelParser';
+
+// Buyuk kebir/muavin dosyalari ana is parcaciginda degil burada okunur; iptal, worker'in sonlandirilmasiyla yapilir.
+const postProgress = (progress: LedgerParseProgress) => {
+    self.postMessage({ type: 'PARSE_PROGRESS', payload: progress });
+};
+
+self.onmessage = async (e: MessageEvent) => {
+    const { type, payload } = e.data;
+    const file = payload.file as File;
+
+    try {
+        postProgress({ stage: 'READING', processedRows: 0, totalRows: 0 });
+        const data = await file.arrayBuffer();
+        // Iki modul de ayni okuma ayarlarini kullanir; tarihler seri sayi olarak gelir ve ortak tarih okuyucusuyla cevrilir.
+        const workbook = readSpreadsheetData(data, file.name, { dense: true });
+        assertLedgerMemory();
+
+        if (type === 'PARSE_KEBIR') {
+            const result = parseKebirWorkbook(workbook, file.name, payload.sheetSelection, postProgress);
+            self.postMessage({ type: 'PARSE_SUCCESS', payload: result });
+        } else if (type === 'PARSE_CURRENT_ACCOUNT') {
+            // Ayni dosyanin farkli filtrelerle okunmasi icin calisma kitabi bir kez acilir.
+            const results = (payload.optionSets as ParseExcelOptions[]).map((options) => (
+                parseCurrentAccountWorkbook(workbook, payload.mapping, options, postProgress)
+            ));
+            self.postMessage({ type: 'PARSE_SUCCESS', payload: results });
+        } else {
+            throw new Error(`Bilinmeyen islem: ${type}`);
+        }
+    } catch (error) {
+        self.postMessage({ type: 'PARSE_ERROR', payload: error instanceof Error ? error.message : String(error) });
+    }
+};
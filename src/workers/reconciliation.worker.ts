@@ -1,53 +1,53 @@
-import * as XLSX from 'xlsx';
 import { normalizeString, parseTurkishNumber, extractInvoiceNo, normalizeVKN } from '../utils/parsers';
-
-// Helper to format Excel date serial numbers to DD.MM.YYYY
-const formatExcelDate = (val: any): string => {
-    if (!val) return '-';
-
-    // If it's already a string that looks like a date (DD.MM.YYYY or similar), return as is
-    if (typeof val === 'string') {
-        if (val.includes('.') || val.includes('/') || val.includes('-')) {
-            return val;
-        }
-    }
-
-    // If it's a number (Excel serial date)
-    // Excel serial date: days since December 30, 1899
-    if (typeof val === 'number' && val > 0 && val < 100000) {
-        // Excel date serial number conversion
-        const utc_days = Math.floor(val - 25569);
-        const utc_value = utc_days * 86400;
-        const date = new Date(utc_value * 1000);
-
-        const day = String(date.getUTCDate()).padStart(2, '0');
-        const month = String(date.getUTCMonth() + 1).padStart(2, '0');
-        const year = date.getUTCFullYear();
-        return `${day}.${month}.${year}`;
-    }
-
-    // Try parsing as Date string  
-    const parsed = new Date(val);
-    if (!isNaN(parsed.getTime())) {
-        const day = String(parsed.getDate()).padStart(2, '0');
-        const month = String(parsed.getMonth() + 1).padStart(2, '0');
-        const year = parsed.getFullYear();
-        return `${day}.${month}.${year}`;
-    }
-
-    return String(val);
-};
+import {
+    KDV_BREAKDOWN_RATES,
+    SALES_EINVOICE_RATE_FIELDS,
+    getRateKdvKey,
+    getRateMatrahKey,
+    resolveKdvRateFromAccountCode,
+} from '../features/reconciliation/utils/kdvRates';
+import {
+    FUZZY_ACCOUNTING_REFS_KEY,
+    FUZZY_EINVOICE_REF_KEY,
+    FUZZY_MATCH_ID_KEY,
+    FUZZY_MAX_DAY_DIFFERENCE,
+    FUZZY_MAX_EDIT_DISTANCE,
+    getInvoiceNoDistance,
+    getReportRowRef,
+    joinRowRefs,
+} from '../features/reconciliation/utils/fuzzyMatching';
+import {
+    PERIOD_SHIFT_KEY,
+    formatPeriodShiftTag,
+    type AdjacentPeriodSource,
+} from '../features/reconciliation/utils/periodShift';
+import {
+    WITHHOLDING_AMOUNT_KEY,
+    WITHHOLDING_CODE_KEY,
+    WITHHOLDING_RATIO_KEY,
+    formatWithholdingRatio,
+    getWithheldKdv,
+    isWithholdingAccountCode,
+    parseWithholdingRatio,
+} from '../features/reconciliation/utils/withholding';
+import { REVERSAL_STATUS_LABELS, isReturnInvoice } from '../features/reconciliation/utils/invoiceReversals';
+import { parseTransactionDate } from '../utils/accounting';
+import { formatLedgerDate, isBlankLedgerCell, isLedgerSummaryText, isLedgerTotalText } from '../features/ledger-import/ledgerValues';
+import { createQualityCollector, isBlankRow } from '../features/ledger-import/dataQuality';
+import type { DataQualityReason } from '../features/common/types';
+import { SHEET_SOURCE_KEY, readWorkbookRows } from '../utils/workbookSheets';
+import { readSpreadsheetData } from '../utils/spreadsheetFile';
 
 self.onmessage = async (e: MessageEvent) => {
     const { type, payload } = e.data;
 
     if (type === 'PARSE_EXCEL') {
-        const { file, mapping, fileType, fileName, headerRowIndex = 0, mode = 'SALES' } = payload;
+        const { file, mapping, fileType, fileName, headerRowIndex = 0, mode = 'SALES', sheetSelection } = payload;
         try {
             const data = await file.arrayBuffer();
-            const workbook = XLSX.read(data);
-            const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-            const allRows = XLSX.utils.sheet_to_json(firstSheet, { header: 1 }) as any[][];
+            const workbook = readSpreadsheetData(data, file.name || fileName, { dense: true });
+            const { rows, rowSheets, rowNumbers } = readWorkbookRows(workbook, headerRowIndex, sheetSelection);
+            const allRows = rows as any[][];
 
             // Get headers from the detected row
             const headers = allRows[headerRowIndex] || [];
@@ -56,12 +56,18 @@ self.onmessage = async (e: MessageEvent) => {
                 headerMap[String(h || '').trim()] = idx;
             });
 
+            // Atlanan ve supheli satirlar dosyadaki satir numarasiyla raporlanir
+            const quality = createQualityCollector(headers);
+
             // Skip header rows and summary rows
-            const summaryKeywords = ['NAKLİ YEKÜN', 'TOPLAM', 'YEKÜN', 'TOPLAMI', 'NAKLI'];
-            const dataRows = allRows.slice(headerRowIndex + 1).filter((row: any[]) => {
-                const rowText = row.map((c: any) => String(c || '').toLocaleUpperCase('tr-TR')).join(' ');
-                return !summaryKeywords.some(k => rowText.includes(k));
-            });
+            const dataEntries = allRows.slice(headerRowIndex + 1)
+                .map((row: any[], offset) => ({ row, sheet: rowSheets[headerRowIndex + 1 + offset], rowNumber: rowNumbers[headerRowIndex + 1 + offset] }))
+                .filter(({ row, sheet, rowNumber }) => {
+                    if (!isLedgerTotalText(row.map((c: any) => String(c ?? '')).join(' '))) return true;
+                    quality.add('SUMMARY_ROW', rowNumber, sheet, row);
+                    return false;
+                });
+            const dataRows = dataEntries.map(({ row }) => row);
 
             const processedRows = dataRows.map((row: any[], index) => {
                 const getValue = (canonicalKey: string) => {
@@ -100,10 +106,19 @@ self.onmessage = async (e: MessageEvent) => {
 
                 const fNo = normalizeString(getValue('Fatura No'));
                 const vkn = normalizeVKN(getValue('VKN'));
+                const report = (reason: DataQualityReason) => quality.add(reason, dataEntries[index].rowNumber, dataEntries[index].sheet, row);
+                const checkDate = (key: string) => {
+                    const rawDate = getValue(key);
+                    if (!isBlankLedgerCell(rawDate) && !parseTransactionDate(rawDate)) report('INVALID_DATE');
+                };
 
                 if (fileType === 'EINVOICE') {
                     // Filter out rows without invoice number (e.g. summary rows)
-                    if (!fNo) return null;
+                    if (!fNo) {
+                        if (!isBlankRow(row)) report('NO_INVOICE_NO');
+                        return null;
+                    }
+                    checkDate('Fatura Tarihi');
 
                     // Specific handling for KDV Tutarı and Matrah which might have come from a multi-sum
                     const rawKdv = getValue('KDV Tutarı');
@@ -112,7 +127,8 @@ self.onmessage = async (e: MessageEvent) => {
                     const rowObj: any = {
                         id: `ei-${index}`,
                         "Kaynak Dosya": fileName,
-                        "Fatura Tarihi": formatExcelDate(getValue('Fatura Tarihi')),
+                        [SHEET_SOURCE_KEY]: dataEntries[index].sheet,
+                        "Fatura Tarihi": formatLedgerDate(getValue('Fatura Tarihi')),
                         "Fatura No": fNo,
                         "VKN": vkn,
                         "KDV Tutarı": kdvVal,
@@ -126,10 +142,24 @@ self.onmessage = async (e: MessageEvent) => {
                         originalRow: row
                     };
 
+                    // Tevkifat alanları isteğe bağlıdır; yalnızca eşlenen ve dolu olanlar satıra taşınır
+                    [WITHHOLDING_CODE_KEY, WITHHOLDING_RATIO_KEY, WITHHOLDING_AMOUNT_KEY].forEach(key => {
+                        const rawValue = getValue(key);
+                        if (rawValue === null || rawValue === undefined || rawValue === '') return;
+                        rowObj[key] = key === WITHHOLDING_AMOUNT_KEY ? parseTurkishNumber(rawValue) : String(rawValue).trim();
+                    });
+
                     // Only include Matrah for Sales mode
                     if (mode === 'SALES') {
                         const rawMatrah = getValue('Matrah');
                         rowObj["Matrah"] = typeof rawMatrah === 'number' ? rawMatrah : parseTurkishNumber(rawMatrah);
+
+                        // Per-rate columns are optional; only mapped ones are carried on the row
+                        SALES_EINVOICE_RATE_FIELDS.forEach(({ key }) => {
+                            const rawValue = getValue(key);
+                            if (rawValue === null || rawValue === undefined || rawValue === '') return;
+                            rowObj[key] = typeof rawValue === 'number' ? rawValue : parseTurkishNumber(rawValue);
+                        });
                     }
 
                     return rowObj;
@@ -139,23 +169,25 @@ self.onmessage = async (e: MessageEvent) => {
                     const combinedText = `${directNo} ${aciklama}`;
                     const { first, matches } = extractInvoiceNo(combinedText);
 
-                    // Determine which column to read for VAT based on mode
-                    const vatAmountKey = mode === 'PURCHASE' ? 'Borç Tutarı' : 'Alacak Tutarı';
-                    const alacakTutari = parseTurkishNumber(getValue(vatAmountKey));
+                    // Determine which column to read for VAT based on mode; 360 sorumlu KDV rows are always credits
+                    const accountCode = getValue('Hesap Kodu');
+                    const vatAmountKey = mode === 'PURCHASE' && !isWithholdingAccountCode(accountCode) ? 'Borç Tutarı' : 'Alacak Tutarı';
+                    const oppositeAmountKey = vatAmountKey === 'Alacak Tutarı' ? 'Borç Tutarı' : 'Alacak Tutarı';
+                    // Opposite-side amounts are reversals (iade / iptal) and net the row to a negative value
+                    const alacakTutari = parseTurkishNumber(getValue(vatAmountKey)) - parseTurkishNumber(getValue(oppositeAmountKey));
 
                     // Validation: (Alacak > 0) AND (No valid 16-char invoice) AND (Not a summary/transfer row)
-                    const normalizedAciklama = aciklama.toLocaleUpperCase('tr-TR');
-                    const isSummaryRow = normalizedAciklama.includes('NAKLİ YEKÜN') ||
-                        normalizedAciklama.includes('NAKLI YEKUN') ||
-                        normalizedAciklama.includes('DEVİR') ||
-                        normalizedAciklama.includes('DEVIR');
+                    const isSummaryRow = isLedgerSummaryText(aciklama);
 
                     const validationError = alacakTutari > 0 && !first && !isSummaryRow;
+                    if (validationError) report('NO_INVOICE_NO');
+                    checkDate('Tarih');
 
                     const rowObj: any = {
                         id: `acc-${index}`,
                         "Kaynak Dosya": fileName,
-                        "Tarih": formatExcelDate(getValue('Tarih')),
+                        [SHEET_SOURCE_KEY]: dataEntries[index].sheet,
+                        "Tarih": formatLedgerDate(getValue('Tarih')),
                         "Ref.No": getValue('Ref.No'),
                         "Fatura No": first || '',
                         "VKN": vkn,
@@ -166,6 +198,10 @@ self.onmessage = async (e: MessageEvent) => {
                         validationError
                     };
 
+                    if (accountCode !== null && accountCode !== undefined && String(accountCode).trim()) {
+                        rowObj["Hesap Kodu"] = String(accountCode).trim();
+                    }
+
                     // Only include Matrah for Sales mode
                     if (mode === 'SALES') {
                         const rawMatrah = getValue('Matrah');
@@ -179,7 +215,14 @@ self.onmessage = async (e: MessageEvent) => {
             console.log(`Worker: Processed ${processedRows.length} ${fileType} rows.`);
             if (processedRows.length > 0) console.log('Sample processed row:', processedRows[0]);
 
-            self.postMessage({ type: 'PARSE_SUCCESS', payload: { rows: processedRows, fileType } });
+            self.postMessage({
+                type: 'PARSE_SUCCESS',
+                payload: {
+                    rows: processedRows,
+                    fileType,
+                    quality: { fileName, totalRows: Math.max(0, allRows.length - headerRowIndex - 1), rows: quality.rows },
+                },
+            });
         } catch (error: any) {
             self.postMessage({ type: 'PARSE_ERROR', payload: error.message || 'Unknown error' });
         }
@@ -187,10 +230,12 @@ self.onmessage = async (e: MessageEvent) => {
 
     if (type === 'RECONCILE') {
         const { eInvoices, accountingVATRows, accountingMatrahRows, tolerance = 0.25, mode = 'SALES' } = payload;
+        const adjacentPeriods: AdjacentPeriodSource[] = payload.adjacentPeriods || [];
+        const cancelledEInvoices: Record<string, unknown>[] = payload.cancelledEInvoices || [];
 
         // Aggregation for Accounting
         // Key: InvoiceNo OR InvoiceNo_VKN
-        const accAgg: Record<string, { total: number, totalMatrah: number, rows: any[] }> = {};
+        const accAgg: Record<string, { total: number, totalMatrah: number, withheld: number, rows: any[] }> = {};
         const report4: any[] = []; // Hatalı Muhasebe Kayıtları (Fatura no yok/hatalı)
 
         console.log(`Worker: Reconciling ${eInvoices.length} E-Invoices against ${accountingVATRows.length} VAT rows and ${accountingMatrahRows.length} Matrah rows.`);
@@ -205,9 +250,10 @@ self.onmessage = async (e: MessageEvent) => {
             // If VKN is present, use specific key. Otherwise use generic fNo key.
             const key = vkn ? `${fNo}_${vkn}` : fNo;
 
-            if (!accAgg[key]) accAgg[key] = { total: 0, totalMatrah: 0, rows: [] };
+            if (!accAgg[key]) accAgg[key] = { total: 0, totalMatrah: 0, withheld: 0, rows: [] };
 
-            if (type === 'VAT') accAgg[key].total += amount;
+            if (type === 'VAT' && isWithholdingAccountCode(row["Hesap Kodu"])) accAgg[key].withheld += amount;
+            else if (type === 'VAT') accAgg[key].total += amount;
             else accAgg[key].totalMatrah += amount;
 
             accAgg[key].rows.push({ ...row, source: type });
@@ -232,6 +278,69 @@ self.onmessage = async (e: MessageEvent) => {
         const report1: any[] = []; // E-Invoice var, Accounting yok
         const report2: any[] = []; // Accounting var, E-Invoice yok
         const report3: any[] = []; // KDV Farkları
+        const report5: Record<string, unknown>[] = []; // Oran Bazlı KDV Farkları
+        const report7: Record<string, unknown>[] = []; // Tevkifat Farkları
+        const report8: Record<string, unknown>[] = []; // İade / İptal
+
+        const buildReversalRow = (ei: Record<string, unknown>, status: string, eiKdv: number, expectedKdv: number, accKdv: number) => ({
+            "Kaynak Dosya": ei["Kaynak Dosya"],
+            "Fatura Tarihi": ei["Fatura Tarihi"],
+            "Fatura No": ei["Fatura No"],
+            "VKN": ei["VKN"],
+            "Fatura Türü": ei["GİB Fatura Türü"] || '-',
+            "Statü": [ei["Statü"], ei["Geçerlilik Durumu"]].filter(Boolean).join(' / ') || '-',
+            "Durum": status,
+            "E-Fat KDV": eiKdv,
+            "Beklenen Muh. KDV": expectedKdv,
+            "Muh. KDV": accKdv,
+            "KDV Farkı": accKdv - expectedKdv
+        });
+
+        // Compares an invoice's per-rate KDV columns with the 391 sub-account rows booked against it
+        const collectRateDifferences = (ei: Record<string, unknown>, accRows: Record<string, unknown>[], conversionRate: number) => {
+            const hasInvoiceBreakdown = KDV_BREAKDOWN_RATES.some(rate => ei[getRateKdvKey(rate)] !== undefined);
+            const vatRows = accRows.filter(r => r.source === 'VAT' && !isWithholdingAccountCode(r["Hesap Kodu"]));
+            const hasAccountBreakdown = vatRows.some(r => r["Hesap Kodu"]);
+            if (!hasInvoiceBreakdown || !hasAccountBreakdown) return;
+
+            const accByRate = new Map<string, { total: number, codes: Set<string> }>();
+            vatRows.forEach(r => {
+                const rate = resolveKdvRateFromAccountCode(r["Hesap Kodu"]);
+                const rateKey = rate === null ? 'Bilinmiyor' : `%${rate}`;
+                const entry = accByRate.get(rateKey) || { total: 0, codes: new Set<string>() };
+                entry.total += Number(r["Alacak Tutarı"]) || 0;
+                if (r["Hesap Kodu"]) entry.codes.add(String(r["Hesap Kodu"]));
+                accByRate.set(rateKey, entry);
+            });
+
+            const rateKeys = new Set<string>([
+                ...KDV_BREAKDOWN_RATES.filter(rate => ei[getRateKdvKey(rate)]).map(rate => `%${rate}`),
+                ...accByRate.keys()
+            ]);
+
+            rateKeys.forEach(rateKey => {
+                const rate = rateKey.startsWith('%') ? Number(rateKey.slice(1)) : null;
+                const eiKdv = rate === null ? 0 : (Number(ei[getRateKdvKey(rate)]) || 0) * conversionRate;
+                const eiMatrah = rate === null ? 0 : (Number(ei[getRateMatrahKey(rate)]) || 0) * conversionRate;
+                const acc = accByRate.get(rateKey);
+                const accKdv = acc?.total || 0;
+                const diff = eiKdv - accKdv;
+                if (Math.abs(diff) <= tolerance) return;
+
+                report5.push({
+                    "Kaynak Dosya": ei["Kaynak Dosya"],
+                    "Fatura Tarihi": ei["Fatura Tarihi"],
+                    "Fatura No": ei["Fatura No"],
+                    "VKN": ei["VKN"],
+                    "KDV Oranı": rateKey,
+                    "Hesap Kodu": acc ? Array.from(acc.codes).join(', ') : '-',
+                    "E-Fat Matrah": eiMatrah,
+                    "E-Fat KDV": eiKdv,
+                    "Muh. KDV": accKdv,
+                    "KDV Farkı": diff
+                });
+            });
+        };
 
         // We need to keep track of matched accounting keys to know which ones are left for Report 2
         const matchedAccKeys = new Set<string>();
@@ -269,7 +378,61 @@ self.onmessage = async (e: MessageEvent) => {
                 // Matrah is mostly in the same currency as KDV, so apply same conversion
                 const eiMatrahConverted = isTry ? ei["Matrah"] : (ei["Matrah"] * kur);
 
-                const diffKdv = Math.abs(eiKdvConverted - accData.total);
+                if (mode === 'SALES') {
+                    collectRateDifferences(ei, accData.rows, isTry ? 1 : kur);
+                }
+
+                // İade faturası negatif / karşı taraf tutarlı ters kayıtla kapanmalıdır
+                if (isReturnInvoice(ei)) {
+                    const accKdv = accData.total + accData.withheld;
+                    if (Math.abs(accKdv + eiKdvConverted) > tolerance) {
+                        report8.push(buildReversalRow(ei, REVERSAL_STATUS_LABELS.returnNotReversed, eiKdvConverted, -eiKdvConverted, accKdv));
+                    }
+                    return;
+                }
+
+                // Tevkifatlı faturada net KDV ve tevkif edilen kısım ayrı karşılaştırılır
+                const eiWithheld = getWithheldKdv(ei, ei["KDV Tutarı"]) * (isTry ? 1 : kur);
+                if (eiWithheld > 0) {
+                    const eiNet = eiKdvConverted - eiWithheld;
+                    const hasAccWithholding = accData.rows.some(r => r.source === 'VAT' && isWithholdingAccountCode(r["Hesap Kodu"]));
+                    // Satışta 391 yalnızca tahsil edilen net KDV'yi, alışta 191 tevkifat dahil tüm KDV'yi taşır
+                    const accNet = mode === 'PURCHASE'
+                        ? accData.total - (hasAccWithholding ? accData.withheld : eiWithheld)
+                        : accData.total;
+                    const netDiff = eiNet - accNet;
+                    const withheldDiff = hasAccWithholding ? eiWithheld - accData.withheld : null;
+                    const matrahDiff = mode === 'SALES' ? eiMatrahConverted - accData.totalMatrah : 0;
+
+                    if (Math.abs(netDiff) > tolerance || Math.abs(matrahDiff) > tolerance || (withheldDiff !== null && Math.abs(withheldDiff) > tolerance)) {
+                        const ratio = parseWithholdingRatio(ei[WITHHOLDING_RATIO_KEY]) ?? (eiKdvConverted ? eiWithheld / eiKdvConverted : null);
+                        report7.push({
+                            "Kaynak Dosya": ei["Kaynak Dosya"],
+                            "Fatura Tarihi": ei["Fatura Tarihi"],
+                            "Fatura No": fNo,
+                            "VKN": vkn,
+                            "Tevkifat Kodu": ei[WITHHOLDING_CODE_KEY] || '-',
+                            "Tevkifat Oranı": formatWithholdingRatio(ratio),
+                            ...(mode === 'SALES' ? {
+                                "E-Fat Matrah": eiMatrahConverted,
+                                "Muh. Matrah": accData.totalMatrah,
+                                "Matrah Farkı": matrahDiff
+                            } : {}),
+                            "E-Fat KDV": eiKdvConverted,
+                            "E-Fat Net KDV": eiNet,
+                            "E-Fat Tevkifat": eiWithheld,
+                            "Muh. Net KDV": accNet,
+                            "Muh. Tevkifat": hasAccWithholding ? accData.withheld : '-',
+                            "Net KDV Farkı": netDiff,
+                            "Tevkifat Farkı": withheldDiff ?? '-'
+                        });
+                    }
+                    return;
+                }
+
+                // 360 satırı olan tevkifatsız faturada tüm KDV kaydı karşılaştırılır
+                const accKdv = accData.total + accData.withheld;
+                const diffKdv = Math.abs(eiKdvConverted - accKdv);
                 const diffMatrah = mode === 'PURCHASE' ? 0 : Math.abs(eiMatrahConverted - accData.totalMatrah);
 
                 // Report if KDV has diff (for PURCHASE, we only check KDV; for SALES we check both KDV and Matrah)
@@ -284,8 +447,8 @@ self.onmessage = async (e: MessageEvent) => {
                             "Para Birimi": ei["Para Birimi"] || 'TL',
                             "Kur": kur,
                             "E-Fat KDV": ei["KDV Tutarı"],
-                            "Muh. KDV": accData.total,
-                            "KDV Farkı": eiKdvConverted - accData.total
+                            "Muh. KDV": accKdv,
+                            "KDV Farkı": eiKdvConverted - accKdv
                         });
                     } else {
                         // SALES mode: include all fields including matrah
@@ -299,15 +462,32 @@ self.onmessage = async (e: MessageEvent) => {
                             "E-Fat Matrah": ei["Matrah"],
                             "E-Fat KDV": ei["KDV Tutarı"],
                             "Muh. Matrah": accData.totalMatrah,
-                            "Muh. KDV": accData.total,
+                            "Muh. KDV": accKdv,
                             "Matrah Farkı": eiMatrahConverted - accData.totalMatrah,
-                            "KDV Farkı": eiKdvConverted - accData.total
+                            "KDV Farkı": eiKdvConverted - accKdv
                         });
                     }
                 }
             }
         });
 
+        // Cancelled / rejected invoices must have no ledger entry, or one that nets to zero
+        cancelledEInvoices.forEach(ei => {
+            const fNo = String(ei["Fatura No"] || '');
+            if (!fNo) return;
+            const strictKey = ei["VKN"] ? `${fNo}_${ei["VKN"]}` : fNo;
+            const key = accAgg[strictKey] ? strictKey : accAgg[fNo] ? fNo : null;
+            if (!key || matchedAccKeys.has(key)) return;
+            matchedAccKeys.add(key);
+
+            const accKdv = accAgg[key].total + accAgg[key].withheld;
+            if (Math.abs(accKdv) <= tolerance) return;
+            const currency = String(ei["Para Birimi"] || '').toLocaleUpperCase('tr-TR');
+            const isTry = currency.includes('TRY') || currency.includes('TL');
+            const eiKdv = (Number(ei["KDV Tutarı"]) || 0) * (isTry ? 1 : Number(ei["Döviz Kuru"]) || 1);
+            report8.push(buildReversalRow(ei, REVERSAL_STATUS_LABELS.cancelledStillBooked, eiKdv, 0, accKdv));
+        });
+
         // Any accounting key not matched is Report 2 (Accounting only)
         Object.keys(accAgg).forEach(key => {
             if (!matchedAccKeys.has(key)) {
@@ -315,9 +495,138 @@ self.onmessage = async (e: MessageEvent) => {
             }
         });
 
+        // Invoices dated at month end but booked in the next month (or vice versa) are timing differences
+        if (adjacentPeriods.length > 0) {
+            const buildAdjacentIndex = (pick: (source: AdjacentPeriodSource) => Record<string, unknown>[]) => {
+                const index = new Map<string, { vkn: string, tag: string }[]>();
+                adjacentPeriods.forEach(source => {
+                    const tag = formatPeriodShiftTag(source.position, source.label);
+                    pick(source).forEach(row => {
+                        const fNo = String(row["Fatura No"] || '');
+                        if (!fNo) return;
+                        const entries = index.get(fNo) || [];
+                        entries.push({ vkn: String(row["VKN"] || ''), tag });
+                        index.set(fNo, entries);
+                    });
+                });
+                return index;
+            };
+            const findAdjacentTag = (index: Map<string, { vkn: string, tag: string }[]>, row: Record<string, unknown>) => {
+                const vkn = String(row["VKN"] || '');
+                const match = index.get(String(row["Fatura No"] || ''))
+                    ?.find(entry => !vkn || !entry.vkn || entry.vkn === vkn);
+                return match ? match.tag : '';
+            };
+
+            const adjacentAccounting = buildAdjacentIndex(source => source.accountingRows);
+            const adjacentEInvoices = buildAdjacentIndex(source => source.eInvoices);
+            report1.forEach(ei => { ei[PERIOD_SHIFT_KEY] = findAdjacentTag(adjacentAccounting, ei); });
+            report2.forEach(row => { row[PERIOD_SHIFT_KEY] = findAdjacentTag(adjacentEInvoices, row); });
+        }
+
+        // Second pass: pair leftover e-invoices with leftover accounting entries whose number looks mistyped
+        interface FuzzyCandidate {
+            rows: Record<string, unknown>[];
+            invoiceNos: string[];
+            vkn: string | null;
+            date: Date | null;
+            total: number;
+            description: string;
+        }
+
+        const candidates: FuzzyCandidate[] = [];
+        Object.keys(accAgg).forEach(key => {
+            if (matchedAccKeys.has(key)) return;
+            const vatRows = accAgg[key].rows.filter(r => r.source === 'VAT');
+            if (vatRows.length === 0 || vatRows[0][PERIOD_SHIFT_KEY]) return;
+            candidates.push({
+                rows: accAgg[key].rows,
+                invoiceNos: [vatRows[0]["Fatura No"]],
+                vkn: vatRows[0]["VKN"] || null,
+                date: parseTransactionDate(vatRows[0]["Tarih"]),
+                total: accAgg[key].total,
+                description: vatRows[0]["Açıklama"] || ''
+            });
+        });
+        // Rows without a valid 16-character number can still carry a truncated one in the description
+        report4.forEach(row => {
+            const tokens = String(row["Açıklama"] || '')
+                .toLocaleUpperCase('tr-TR')
+                .split(/[\s,;:/()-]+/)
+                .map((token: string) => token.replace(/\./g, ''))
+                .filter((token: string) => token.length >= 12 && token.length <= 17 && (token.match(/\d/g) || []).length >= 9);
+            if (tokens.length === 0) return;
+            candidates.push({
+                rows: [row],
+                invoiceNos: tokens,
+                vkn: row["VKN"] || null,
+                date: parseTransactionDate(row["Tarih"]),
+                total: row["Alacak Tutarı"] || 0,
+                description: row["Açıklama"] || ''
+            });
+        });
+
+        const proposals: { score: number, ei: Record<string, unknown>, candidateIndex: number, distance: number, dayDiff: number | null, eiKdv: number }[] = [];
+        report1.forEach(ei => {
+            if (ei[PERIOD_SHIFT_KEY]) return;
+            const currency = (ei["Para Birimi"] || '').toLocaleUpperCase('tr-TR');
+            const isTry = currency.includes('TRY') || currency.includes('TL');
+            const eiKdv = isTry ? ei["KDV Tutarı"] : (ei["KDV Tutarı"] * (ei["Döviz Kuru"] || 1));
+            const eiDate = parseTransactionDate(ei["Fatura Tarihi"]);
+
+            candidates.forEach((candidate, candidateIndex) => {
+                if (Math.abs(eiKdv - candidate.total) > tolerance) return;
+                if (ei["VKN"] && candidate.vkn && ei["VKN"] !== candidate.vkn) return;
+
+                const dayDiff = eiDate && candidate.date
+                    ? Math.round(Math.abs(eiDate.getTime() - candidate.date.getTime()) / 86400000)
+                    : null;
+                if (dayDiff !== null && dayDiff > FUZZY_MAX_DAY_DIFFERENCE) return;
+
+                const distance = Math.min(...candidate.invoiceNos.map(no => getInvoiceNoDistance(ei["Fatura No"], no)));
+                if (distance > FUZZY_MAX_EDIT_DISTANCE) return;
+
+                const vknBonus = ei["VKN"] && candidate.vkn ? 10 : 0;
+                const score = Math.max(0, Math.min(100, 90 - distance * 15 - Math.min(dayDiff ?? 10, 30) + vknBonus));
+                proposals.push({ score, ei, candidateIndex, distance, dayDiff, eiKdv });
+            });
+        });
+
+        // Greedy assignment by score so each e-invoice and accounting entry is proposed at most once
+        const report6: Record<string, unknown>[] = []; // Olası Eşleşmeler
+        const usedEInvoices = new Set<object>();
+        const usedCandidates = new Set<number>();
+        proposals
+            .sort((a, b) => b.score - a.score)
+            .forEach(proposal => {
+                if (usedEInvoices.has(proposal.ei) || usedCandidates.has(proposal.candidateIndex)) return;
+                usedEInvoices.add(proposal.ei);
+                usedCandidates.add(proposal.candidateIndex);
+
+                const candidate = candidates[proposal.candidateIndex];
+                const eInvoiceRef = getReportRowRef(proposal.ei);
+                const accountingRefs = candidate.rows.map(row => getReportRowRef(row));
+                report6.push({
+                    [FUZZY_MATCH_ID_KEY]: `${eInvoiceRef}=>${accountingRefs[0]}`,
+                    [FUZZY_EINVOICE_REF_KEY]: eInvoiceRef,
+                    [FUZZY_ACCOUNTING_REFS_KEY]: joinRowRefs(accountingRefs),
+                    "Skor": proposal.score,
+                    "E-Fat Fatura No": proposal.ei["Fatura No"],
+                    "Muh. Fatura No": candidate.invoiceNos.join(', '),
+                    "VKN": proposal.ei["VKN"] || candidate.vkn || '',
+                    "Fatura Tarihi": proposal.ei["Fatura Tarihi"],
+                    "Muh. Tarih": candidate.rows[0]["Tarih"] as string,
+                    "Gün Farkı": proposal.dayDiff ?? '-',
+                    "Karakter Farkı": proposal.distance,
+                    "E-Fat KDV": proposal.eiKdv,
+                    "Muh. KDV": candidate.total,
+                    "Muh. Açıklama": candidate.description
+                });
+            });
+
         self.postMessage({
             type: 'RECONCILE_SUCCESS',
-            payload: { report1, report2, report3, report4 }
+            payload: { report1, report2, report3, report4, ...(mode === 'SALES' ? { report5 } : {}), report6, report7, report8 }
         });
     }
 };